@@ -0,0 +1,173 @@
+import { BaseController, type ParsedRequest, createAuthMiddleware } from "../lib/api/adapters/base";
+import { createAppRouterHandler } from "../lib/api/adapters/vercel";
+import { PlatformIdentityResolver } from "../lib/api/auth";
+import { ExecutionsController } from "../lib/api/controllers/executions";
+import { FileDocumentStore } from "../lib/platform/adapters/file/fileAdapter";
+import type { AuthProvider, UserIdentity } from "../lib/platform/ports";
+import { ApiKeysRepository, OrganizationsRepository } from "../lib/platform/repositories";
+import fs from "fs";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+const storageUser = `test-api-keys-${process.pid}`;
+process.env.PLED_STORAGE_USER = storageUser;
+
+class SessionAuth implements AuthProvider {
+  constructor(public user: UserIdentity | null = null) {}
+
+  async getCurrentUser() {
+    return this.user;
+  }
+
+  async requireUser() {
+    if (!this.user) throw new Error("Unauthorized");
+    return this.user;
+  }
+}
+
+afterAll(() => {
+  fs.rmSync(path.join(process.cwd(), "data", "pled", storageUser), { recursive: true, force: true });
+});
+
+describe("API keys", () => {
+  const apiKeys = new ApiKeysRepository(new FileDocumentStore());
+
+  it("stores only a hash and verifies the plaintext key", async () => {
+    const { key, apiKey } = await apiKeys.create({
+      name: "CRM webhook",
+      organizationId: "org_a",
+      scopes: ["events:write"],
+      createdBy: "ada",
+    });
+
+    expect(key).toMatch(/^pled_key_[0-9a-f]{16}\./);
+    expect(JSON.stringify(await apiKeys.get(apiKey.id))).not.toContain(key.split(".")[1]);
+    expect(await apiKeys.verify(key)).toMatchObject({ id: apiKey.id, organizationId: "org_a" });
+    expect((await apiKeys.get(apiKey.id))!.lastUsedAt).toBeGreaterThan(0);
+
+    const [prefix, secret] = key.split(".");
+    expect(await apiKeys.verify(`${prefix}.${secret.replace(/^./, c => (c === "A" ? "B" : "A"))}`)).toBeNull();
+    expect(await apiKeys.verify("pled_key_0000000000000000.abc")).toBeNull();
+    expect(await apiKeys.verify("anything")).toBeNull();
+
+    await apiKeys.revoke(apiKey.id);
+    expect(await apiKeys.verify(key)).toBeNull();
+  });
+
+  it("rejects expired keys", async () => {
+    const { key } = await apiKeys.create({
+      name: "Expired",
+      organizationId: "org_a",
+      scopes: ["executions:read"],
+      createdBy: "ada",
+      expiresAt: Date.now() - 1,
+    });
+
+    expect(await apiKeys.verify(key)).toBeNull();
+  });
+});
+
+describe("/api/v1 authentication", () => {
+  const apiKeys = new ApiKeysRepository(new FileDocumentStore());
+  const session = new SessionAuth();
+  const executions = new Map([
+    ["exec_a", { id: "exec_a", organizationId: "org_a" }],
+    ["exec_b", { id: "exec_b", organizationId: "org_b" }],
+  ]);
+  const received: string[] = [];
+  const executionService = {
+    getExecution: async (id: string) => executions.get(id) ?? null,
+    processEvent: async (id: string) => {
+      received.push(id);
+      return { processed: true };
+    },
+  };
+  const handler = createAppRouterHandler(new ExecutionsController(() => executionService as any), [
+    createAuthMiddleware(
+      new PlatformIdentityResolver(session, apiKeys, new OrganizationsRepository(new FileDocumentStore())),
+    ),
+  ]);
+
+  const postEvent = (executionId: string, headers: Record<string, string> = {}) =>
+    handler(
+      new Request(`http://localhost/api/v1/executions/${executionId}/events`, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body: JSON.stringify({ type: "order_placed", payload: { orderId: 7 } }),
+      }),
+    );
+
+  beforeEach(() => {
+    session.user = null;
+    received.length = 0;
+  });
+
+  it("lets an API key post events to executions of its own organization", async () => {
+    const { key } = await apiKeys.create({
+      name: "Orders",
+      organizationId: "org_a",
+      scopes: ["events:write"],
+      createdBy: "ada",
+    });
+
+    expect((await postEvent("exec_a", { "x-api-key": key })).status).toBe(200);
+    expect((await postEvent("exec_a", { authorization: `Bearer ${key}` })).status).toBe(200);
+    expect(received).toEqual(["exec_a", "exec_a"]);
+
+    const foreign = await postEvent("exec_b", { "x-api-key": key });
+    expect(foreign.status).toBe(404);
+    expect(received).toHaveLength(2);
+
+    const read = await handler(
+      new Request("http://localhost/api/v1/executions/exec_a", { headers: { "x-api-key": key } }),
+    );
+    expect(read.status).toBe(403);
+    expect((await read.json()).error.message).toBe("API key lacks the executions:read scope");
+  });
+
+  it("rejects unknown keys and requests without credentials", async () => {
+    const invalid = await postEvent("exec_a", { "x-api-key": "pled_key_0123456789abcdef.nope" });
+    expect(invalid.status).toBe(401);
+    expect((await invalid.json()).error.code).toBe("INVALID_API_KEY");
+
+    const anonymous = await postEvent("exec_a", { authorization: "Basic dXNlcjpwdw==" });
+    expect(anonymous.status).toBe(401);
+    expect((await anonymous.json()).error.code).toBe("UNAUTHORIZED");
+    expect(received).toEqual([]);
+  });
+
+  it("takes session users' organization from their identity", async () => {
+    session.user = { id: "grace", orgId: "org_b", roles: ["admin"] };
+
+    expect((await postEvent("exec_b")).status).toBe(200);
+    expect((await postEvent("exec_a")).status).toBe(404);
+    expect(received).toEqual(["exec_b"]);
+  });
+});
+
+describe("/api/v1 public paths", () => {
+  class EchoController extends BaseController {
+    async handle(req: ParsedRequest) {
+      return this.success({ path: req.path });
+    }
+  }
+  const handler = createAppRouterHandler(new EchoController(), [
+    createAuthMiddleware(
+      new PlatformIdentityResolver(
+        new SessionAuth(),
+        new ApiKeysRepository(new FileDocumentStore()),
+        new OrganizationsRepository(new FileDocumentStore()),
+      ),
+    ),
+  ]);
+  const statusOf = async (path: string) => (await handler(new Request(`http://localhost${path}`))).status;
+
+  it("serves health and docs without credentials and nothing that merely starts like them", async () => {
+    expect(await statusOf("/api/v1/health")).toBe(200);
+    expect(await statusOf("/api/v1/docs/executions")).toBe(200);
+    expect(await statusOf("/api/v1/openapi.json")).toBe(200);
+
+    expect(await statusOf("/api/v1/healthy-secrets")).toBe(401);
+    expect(await statusOf("/api/v1/executions")).toBe(401);
+  });
+});
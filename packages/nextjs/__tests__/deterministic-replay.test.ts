@@ -0,0 +1,255 @@
+import { type CoreEvent, ReplayEngine, type SimulationScenario } from "../lib/simulation/eventSourcing";
+import { evaluateFormula } from "../lib/simulation/formulaEngine";
+import { createSeededRandom } from "../lib/simulation/random";
+import { EnhancedReplayEngine } from "../lib/simulation/replayEngine";
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { QueueState, Scenario } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const randomScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "random", valueMin: 1, valueMax: 1000 },
+      outputs: [
+        { name: "output", destinationNodeId: "queue1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "queue1",
+      displayName: "Queue",
+      position: { x: 100, y: 0 },
+      type: "Queue",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+      aggregation: { method: "sum", formula: "sum(input)", trigger: { type: "time", window: 3 } },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "queue1", interface: simpleInterface, required: true }],
+    },
+  ],
+};
+
+const emittedValues = (engine: SimulationEngine) =>
+  engine
+    .getState()
+    .globalActivityLog.filter(entry => entry.action === "token_emitted")
+    .map(entry => entry.value);
+
+const timerTick = (timestamp: number, sequence: number): CoreEvent => ({
+  id: `tick-${timestamp}`,
+  timestamp,
+  realTimestamp: 0,
+  type: "timer_tick",
+  payload: { simulationTime: timestamp },
+  metadata: { eventSequence: sequence, sessionId: "test", version: "1.0" },
+});
+
+describe("seeded random", () => {
+  it("resumes the same sequence from a saved state", () => {
+    const random = createSeededRandom(7);
+    random.next();
+    const state = random.getState();
+    const expected = [random.next(), random.nextInt(1, 6), random.nextId()];
+
+    random.setState(state);
+    expect([random.next(), random.nextInt(1, 6), random.nextId()]).toEqual(expected);
+  });
+});
+
+describe("deterministic simulation", () => {
+  it("produces identical activity logs for the same seed", () => {
+    const a = SimulationEngine.fromScenarioData(randomScenario, { seed: 42, startEpoch: 1_000 });
+    const b = SimulationEngine.fromScenarioData(randomScenario, { seed: 42, startEpoch: 1_000 });
+    a.runUntil(12);
+    b.runUntil(12);
+
+    expect(a.getState().globalActivityLog).toEqual(b.getState().globalActivityLog);
+  });
+
+  it("draws different values for a different seed", () => {
+    const a = SimulationEngine.fromScenarioData(randomScenario, { seed: 1 });
+    const b = SimulationEngine.fromScenarioData(randomScenario, { seed: 2 });
+    a.runUntil(12);
+    b.runUntil(12);
+
+    expect(emittedValues(a)).not.toEqual(emittedValues(b));
+  });
+
+  it("uses the scenario seed and per-node seeds", () => {
+    const seeded = { ...randomScenario, seed: 99 };
+    const a = SimulationEngine.fromScenarioData(seeded);
+    const b = SimulationEngine.fromScenarioData(seeded);
+    a.runUntil(5);
+    b.runUntil(5);
+    expect(emittedValues(a)).toEqual(emittedValues(b));
+
+    const withNodeSeed = JSON.parse(JSON.stringify(randomScenario));
+    withNodeSeed.nodes[0].generation.seed = 5;
+    const c = SimulationEngine.fromScenarioData(withNodeSeed, { seed: 1 });
+    const d = SimulationEngine.fromScenarioData(withNodeSeed, { seed: 2 });
+    c.runUntil(5);
+    d.runUntil(5);
+    expect(emittedValues(c)).toEqual(emittedValues(d));
+  });
+
+  it("draws random() in formulas from the seeded stream", () => {
+    const jittered = JSON.parse(JSON.stringify(randomScenario));
+    jittered.nodes[1].aggregation = {
+      method: "formula",
+      formula: "sum(input) + random(100)",
+      trigger: { type: "time", window: 3 },
+    };
+    const aggregated = (seed: number) => {
+      const engine = SimulationEngine.fromScenarioData(jittered, { seed });
+      engine.runUntil(12);
+      return engine
+        .getState()
+        .globalActivityLog.filter(entry => entry.nodeId === "queue1" && entry.action === "processing")
+        .map(entry => entry.value);
+    };
+
+    expect(aggregated(42)).toHaveLength(3);
+    expect(aggregated(42)).toEqual(aggregated(42));
+    expect(aggregated(42)).not.toEqual(aggregated(43));
+    expect(evaluateFormula("random(100)", {}).error).toBe("random() is only available while a simulation runs");
+  });
+
+  it("continues the same sequence after restoring random state", () => {
+    const original = SimulationEngine.fromScenarioData(randomScenario, { seed: 3, startEpoch: 0 });
+    original.runUntil(4);
+    const resumed = SimulationEngine.fromScenarioData(randomScenario, { seed: 3, startEpoch: 0 });
+    resumed.restoreState(original.getState());
+    resumed.restoreRandomState(original.getRandomState());
+
+    original.runUntil(8);
+    resumed.runUntil(8);
+    expect(resumed.getState().globalActivityLog).toEqual(original.getState().globalActivityLog);
+  });
+
+  it("replays recorded timer ticks into a bit-for-bit identical activity log", async () => {
+    const live = SimulationEngine.fromScenarioData(randomScenario, { seed: 1234, startEpoch: 5_000 });
+    const coreEvents: CoreEvent[] = [];
+    for (let i = 0; i < 10; i++) {
+      live.tick();
+      coreEvents.push(timerTick(live.getCurrentTime(), i));
+    }
+
+    const recording: SimulationScenario = {
+      id: "recording",
+      name: "Recording",
+      initialModel: live.scenario as Scenario,
+      coreEvents,
+      snapshots: [],
+      seed: live.seed,
+      startEpoch: live.startEpoch,
+      createdAt: 0,
+      updatedAt: 0,
+      version: "1.0",
+    };
+
+    const result = await new EnhancedReplayEngine().replayScenario(recording);
+    expect(result.finalState.currentTime).toBe(10);
+    expect(result.finalState.globalActivityLog).toEqual(live.getState().globalActivityLog);
+    expect(result.derivedEvents).toEqual(live.getState().globalActivityLog);
+  });
+});
+
+describe("ReplayEngine state reconstruction", () => {
+  // Record 10 ticks with a manual injection at t=4 and a snapshot after t=6
+  const record = () => {
+    const live = SimulationEngine.fromScenarioData(randomScenario, { seed: 77, startEpoch: 0 });
+    const recording: SimulationScenario = {
+      id: "recording",
+      name: "Recording",
+      initialModel: live.scenario as Scenario,
+      coreEvents: [],
+      snapshots: [],
+      seed: live.seed,
+      startEpoch: live.startEpoch,
+      createdAt: 0,
+      updatedAt: 0,
+      version: "1.0",
+    };
+    for (let time = 1; time <= 10; time++) {
+      live.tick();
+      recording.coreEvents.push(timerTick(time, recording.coreEvents.length));
+      if (time === 4) {
+        live.injectToken("queue1", 500, "user");
+        recording.coreEvents.push({
+          ...timerTick(time, recording.coreEvents.length),
+          id: "inject",
+          type: "manual_input_injection",
+          nodeId: "queue1",
+          payload: { simulationTime: time, value: 500 },
+        });
+      }
+      if (time === 6) {
+        const state = live.getState();
+        recording.snapshots.push({
+          id: "snapshot-6",
+          timestamp: time,
+          realTimestamp: 0,
+          coreEventIndex: recording.coreEvents.length - 1,
+          modelDefinition: live.scenario,
+          nodeStates: JSON.parse(JSON.stringify(state.nodeStates)),
+          simulationTime: time,
+          eventCounter: state.eventCounter,
+          globalActivityLog: [...state.globalActivityLog],
+          nodeActivityLogs: { ...state.nodeActivityLogs },
+          randomState: live.getRandomState(),
+          snapshotType: "manual",
+        });
+      }
+    }
+    return { live, recording };
+  };
+
+  it("rebuilds node states, buffers and tokens and checks the snapshots it passes", async () => {
+    const { live, recording } = record();
+    const result = await new ReplayEngine().replayScenario(recording, undefined, undefined, { fromStart: true });
+
+    expect(result.finalState.currentTime).toBe(10);
+    expect(result.finalState.nodeStates).toEqual(live.getState().nodeStates);
+    expect(result.validation).toEqual({ isValid: true, checkedSnapshots: ["snapshot-6"], errors: [] });
+
+    const queueTokens = (live.getState().nodeStates.queue1 as QueueState).inputBuffer;
+    expect(result.finalState.tokens).toEqual(expect.arrayContaining(queueTokens));
+    expect(result.derivedEvents).toContainEqual(expect.objectContaining({ action: "token_injected", value: 500 }));
+  });
+
+  it("starts from the latest snapshot before the target time", async () => {
+    const { recording } = record();
+    const reference = SimulationEngine.fromScenarioData(randomScenario, { seed: 77, startEpoch: 0 });
+    reference.runUntil(4);
+    reference.injectToken("queue1", 500, "user");
+    reference.runUntil(8);
+
+    const result = await new ReplayEngine().replayScenario(recording, 8);
+    expect(result.replayLog).toContain("📸 Auto-selected snapshot at t=6");
+    expect(result.finalState.currentTime).toBe(8);
+    expect(result.finalState.nodeStates).toEqual(reference.getState().nodeStates);
+  });
+
+  it("reports where the replay differs from a recorded snapshot", async () => {
+    const { recording } = record();
+    (recording.snapshots[0].nodeStates.queue1 as QueueState).inputBuffer = [];
+
+    const result = await new ReplayEngine().replayScenario(recording, undefined, undefined, { fromStart: true });
+    expect(result.validation.isValid).toBe(false);
+    expect(result.validation.errors[0]).toMatch(/^Snapshot snapshot-6 \(t=6\) queue1\.inputBuffer\.0: replay=/);
+  });
+});
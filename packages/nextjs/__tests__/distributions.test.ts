@@ -0,0 +1,135 @@
+import { sampleGenerationValue, sampleInterval, validateGenerationConfig } from "../lib/simulation/distributions";
+import { createSeededRandom } from "../lib/simulation/random";
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { DataSourceNode, GenerationConfig } from "../lib/simulation/types";
+import { validateScenario } from "../lib/simulation/validation";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const sample = (generation: GenerationConfig, count: number) => {
+  const random = createSeededRandom(11);
+  return Array.from({ length: count }, (_, i) => sampleGenerationValue(generation, random, i));
+};
+
+const mean = (values: Array<number | string | undefined>) =>
+  (values as number[]).reduce((total, value) => total + value, 0) / values.length;
+
+const sourceScenario = (source: Record<string, unknown>) => ({
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "random", valueMin: 0, valueMax: 10 },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+      ...source,
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 100, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+    },
+  ],
+});
+
+describe("value distributions", () => {
+  it("draws normal values around the mean, clamped to the bounds", () => {
+    const values = sample({ type: "normal", valueMin: 0, valueMax: 100, mean: 50, stdDev: 5 }, 2000);
+    expect(mean(values)).toBeCloseTo(50, 0);
+    expect(values.every(v => (v as number) >= 0 && (v as number) <= 100)).toBe(true);
+  });
+
+  it("draws exponential values with mean 1 / rate", () => {
+    const values = sample({ type: "exponential", valueMin: 0, valueMax: 1000, rate: 0.5 }, 4000);
+    expect(mean(values)).toBeGreaterThan(1.8);
+    expect(mean(values)).toBeLessThan(2.2);
+  });
+
+  it("draws poisson counts with mean lambda", () => {
+    const values = sample({ type: "poisson", valueMin: 0, valueMax: 100, rate: 3 }, 4000);
+    expect(values.every(v => Number.isInteger(v))).toBe(true);
+    expect(mean(values)).toBeCloseTo(3, 0);
+  });
+
+  it("keeps triangular values within the bounds", () => {
+    const values = sample({ type: "triangular", valueMin: 2, valueMax: 8, mode: 3 }, 1000);
+    expect(values.every(v => (v as number) >= 2 && (v as number) <= 8)).toBe(true);
+    expect(mean(values)).toBeCloseTo((2 + 3 + 8) / 3, 0);
+  });
+
+  it("picks discrete outcomes by weight and returns constants", () => {
+    const values = sample(
+      {
+        type: "discrete",
+        valueMin: 0,
+        valueMax: 0,
+        outcomes: [
+          { value: "low", weight: 0 },
+          { value: "high", weight: 1 },
+        ],
+      },
+      20,
+    );
+    expect(new Set(values)).toEqual(new Set(["high"]));
+    expect(sample({ type: "constant", valueMin: 0, valueMax: 0, value: 7 }, 3)).toEqual([7, 7, 7]);
+  });
+
+  it("replays a CSV column, looping unless disabled", () => {
+    const csv = { data: "time,reading\n0,1.5\n1,2.5", column: "reading" };
+    expect(sample({ type: "csv", valueMin: 0, valueMax: 0, csv }, 3)).toEqual([1.5, 2.5, 1.5]);
+    expect(sample({ type: "csv", valueMin: 0, valueMax: 0, csv: { ...csv, loop: false } }, 3)).toEqual([
+      1.5,
+      2.5,
+      undefined,
+    ]);
+  });
+
+  it("reports missing or invalid parameters", () => {
+    expect(validateGenerationConfig({ type: "random", valueMin: 0, valueMax: 1 })).toEqual([]);
+    expect(validateGenerationConfig({ type: "gaussian", valueMin: 0, valueMax: 1 })[0]).toContain("unknown");
+    expect(validateGenerationConfig({ type: "normal", valueMin: 0, valueMax: 1, mean: 0, stdDev: 0 })).toHaveLength(1);
+    expect(
+      validateGenerationConfig({ type: "csv", valueMin: 0, valueMax: 1, csv: { data: "a\n1", column: "b" } }),
+    ).toHaveLength(1);
+
+    const { errors } = validateScenario(sourceScenario({ generation: { type: "poisson", valueMin: 0, valueMax: 5 } }));
+    expect(errors[0]).toContain('DataSource "source1"');
+  });
+});
+
+describe("interval distributions", () => {
+  it("keeps jittered intervals within interval ± jitter", () => {
+    const node = { interval: 5, intervalDistribution: { type: "jitter", jitter: 2 } } as DataSourceNode;
+    const random = createSeededRandom(1);
+    const intervals = Array.from({ length: 200 }, () => sampleInterval(node, random));
+    expect(Math.min(...intervals)).toBeGreaterThanOrEqual(3);
+    expect(Math.max(...intervals)).toBeLessThanOrEqual(7);
+    expect(new Set(intervals).size).toBeGreaterThan(1);
+  });
+
+  it("schedules emissions from the drawn intervals", () => {
+    const engine = SimulationEngine.fromScenarioData(
+      sourceScenario({ interval: 3, intervalDistribution: { type: "exponential" } }),
+      { seed: 8 },
+    );
+    engine.runUntil(300);
+
+    const emissions = engine
+      .getState()
+      .globalActivityLog.filter(entry => entry.action === "token_emitted")
+      .map(entry => entry.timestamp);
+    const gaps = emissions.slice(1).map((time, i) => time - emissions[i]);
+
+    expect(new Set(gaps).size).toBeGreaterThan(1);
+    expect(300 / emissions.length).toBeGreaterThan(2);
+    expect(300 / emissions.length).toBeLessThan(4.5);
+  });
+});
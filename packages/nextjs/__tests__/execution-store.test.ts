@@ -0,0 +1,108 @@
+import { DocumentExecutionRepository } from "../lib/api/services/documentRepositories";
+import { ExecutionService } from "../lib/api/services/execution";
+import { FileDocumentStore } from "../lib/platform/adapters/file/fileAdapter";
+import { OrganizationDocumentStore } from "../lib/platform/organizations";
+import fs from "fs";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+const storageUser = `test-executions-${process.pid}`;
+process.env.PLED_STORAGE_USER = storageUser;
+
+const newExecution = (name: string, overrides: Record<string, unknown> = {}) => ({
+  scenarioId: "scenario_1",
+  name,
+  status: "created" as const,
+  nodeStates: {},
+  currentTime: 0,
+  globalActivityLog: [],
+  organizationId: "acme",
+  createdBy: "ada",
+  ...overrides,
+});
+
+describe("Execution persistence", () => {
+  let docs: FileDocumentStore;
+  let executions: DocumentExecutionRepository;
+  let service: ExecutionService;
+
+  beforeEach(() => {
+    fs.rmSync(path.join(process.cwd(), "data", "pled", storageUser), { recursive: true, force: true });
+    docs = new FileDocumentStore();
+    executions = new DocumentExecutionRepository(new OrganizationDocumentStore(docs, "acme"));
+    service = new ExecutionService(executions, { findById: async () => null }, {} as any);
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.join(process.cwd(), "data", "pled", storageUser), { recursive: true, force: true });
+  });
+
+  it("keeps each organization's executions apart", async () => {
+    const own = await executions.create(newExecution("own"));
+    const other = new DocumentExecutionRepository(new OrganizationDocumentStore(docs, "globex"));
+    await other.create(newExecution("other", { organizationId: "globex" }));
+
+    expect((await executions.list()).map(execution => execution.name)).toEqual(["own"]);
+    expect(await other.findById(own.id)).toBeNull();
+  });
+
+  it("lists executions newest first, filtered and paginated", async () => {
+    await executions.create(newExecution("first"));
+    await executions.create(newExecution("second", { status: "running" }));
+    await executions.create(newExecution("third", { createdBy: "grace" }));
+    // Distinct createdAt values regardless of clock resolution
+    const all = await executions.list();
+    await Promise.all(
+      all.map(execution =>
+        docs.update("orgs/acme/api/executions/items", execution.id, {
+          createdAt: `2026-01-0${["first", "second", "third"].indexOf(execution.name) + 1}T09:00:00.000Z`,
+        }),
+      ),
+    );
+
+    const firstPage = await service.listExecutions({ page: 1, limit: 2 });
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.executions.map(execution => execution.name)).toEqual(["third", "second"]);
+    expect((await service.listExecutions({ page: 2, limit: 2 })).executions.map(e => e.name)).toEqual(["first"]);
+
+    expect((await service.listExecutions({ status: "running" })).executions.map(e => e.name)).toEqual(["second"]);
+    expect((await service.listExecutions({ createdBy: "grace" })).executions.map(e => e.name)).toEqual(["third"]);
+    expect((await service.listExecutions({ until: "2026-01-02T12:00:00.000Z" })).total).toBe(2);
+  });
+
+  it("removes an execution's events, activity and snapshots with it", async () => {
+    const execution = await executions.create(newExecution("run"));
+    await executions.addEvent({
+      id: "evt_1",
+      executionId: execution.id,
+      type: "token_received",
+      payload: {},
+      timestamp: "2026-01-05T10:00:00.000Z",
+      sequence: 1,
+    });
+    await executions.appendActivity(execution.id, [
+      { timestamp: 1, epochTimestamp: 1, sequence: 1, nodeId: "n1", action: "first", value: null, details: "" } as any,
+    ]);
+    await executions.appendActivity(execution.id, [
+      { timestamp: 2, epochTimestamp: 2, sequence: 2, nodeId: "n1", action: "second", value: null, details: "" } as any,
+    ]);
+    await executions.createSnapshot({
+      executionId: execution.id,
+      nodeStates: {},
+      currentTime: 2,
+      globalActivityLog: [],
+      createdBy: "ada",
+      sequenceNumber: 1,
+      totalEvents: 1,
+    });
+
+    expect((await executions.getActivity(execution.id)).map(entry => entry.action)).toEqual(["first", "second"]);
+    expect(await executions.getEvents(execution.id, 1)).toEqual([]);
+
+    await executions.delete(execution.id);
+    expect(await executions.findById(execution.id)).toBeNull();
+    expect(await executions.getEvent("evt_1")).toBeNull();
+    expect(await executions.getActivity(execution.id)).toEqual([]);
+    expect(await executions.getSnapshots(execution.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  checkFormula,
+  compileFormula,
+  createProcessNodeFormulaContext,
+  evaluateFormula,
+  registerFormulaFunction,
+  unregisterFormulaFunction,
+} from "../lib/simulation/formulaEngine";
+import type { Token } from "../lib/simulation/types";
+import { validateScenario } from "../lib/simulation/validation";
+import { describe, expect, it } from "vitest";
+
+const token = (value: any): Token => ({ id: "t1", value, createdAt: 4, originNodeId: "source1", history: [] });
+
+const processScenario = (formula: string, requiredFields: string[] = ["data.value"]) => ({
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "random", valueMin: 1, valueMax: 10 },
+      outputs: [
+        {
+          name: "output",
+          destinationNodeId: "process1",
+          destinationInputName: "input",
+          interface: { type: "SimpleValue", requiredFields },
+        },
+      ],
+    },
+    {
+      nodeId: "process1",
+      displayName: "Process",
+      position: { x: 100, y: 0 },
+      type: "ProcessNode",
+      inputs: [
+        {
+          name: "input",
+          nodeId: "source1",
+          alias: "reading",
+          interface: { type: "SimpleValue", requiredFields: [] },
+          required: true,
+        },
+      ],
+      outputs: [
+        {
+          name: "out",
+          destinationNodeId: "sink1",
+          destinationInputName: "input",
+          interface: { type: "SimpleValue", requiredFields: [] },
+          transformation: { formula, fieldMapping: {} },
+        },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [
+        { name: "input", nodeId: "process1", interface: { type: "SimpleValue", requiredFields: [] }, required: true },
+      ],
+    },
+  ],
+});
+
+describe("formula compilation", () => {
+  it("caches compiled formulas and lists their references", () => {
+    const first = compileFormula("reading.data.value * 2 + offset");
+    expect(compileFormula("reading.data.value * 2 + offset").compiled).toBe(first.compiled);
+    expect(first.compiled?.variables).toEqual(["reading", "offset"]);
+    expect(first.compiled?.references).toEqual(["reading.data.value", "offset"]);
+    expect(compileFormula("1 +").error).toBeTruthy();
+  });
+
+  it("provides string, date and collection helpers", () => {
+    expect(evaluateFormula('upper(concat(name, "-", str(id)))', { name: "pump", id: 7 }).value).toBe("PUMP-7");
+    expect(evaluateFormula('month(date("2024-03-15T10:00:00Z"))', {}).value).toBe(3);
+    expect(evaluateFormula('diffDays(date("2024-03-15"), date("2024-03-01"))', {}).value).toBe(14);
+    expect(evaluateFormula("sum(items) + size(items) + items[1]", { items: [1, 2, 3] }).value).toBe(11);
+  });
+
+  it("calls registered helper functions", () => {
+    registerFormulaFunction("celsius", (f: number) => ((f - 32) * 5) / 9);
+    expect(evaluateFormula("celsius(212)", {}).value).toBe(100);
+    expect(() => registerFormulaFunction("sum", () => 0)).toThrow();
+
+    unregisterFormulaFunction("celsius");
+    expect(evaluateFormula("celsius(212)", {}).error).toBeTruthy();
+  });
+
+  it("exposes fields of structured token values", () => {
+    const context = createProcessNodeFormulaContext({ reading: token({ temperature: 21, tags: ["a", "b"] }) });
+    expect(evaluateFormula("reading.data.temperature + size(reading.data.tags)", context).value).toBe(23);
+    expect(evaluateFormula("reading.metadata.timestamp", context).value).toBe(4);
+  });
+});
+
+describe("formula checking", () => {
+  it("reports unknown identifiers and missing fields", () => {
+    const symbols = { reading: ["data.value"], inputs: ["reading.value"] };
+    expect(checkFormula("reading.data.value + inputs.reading.value", symbols).errors).toEqual([]);
+    expect(checkFormula("other * 2", symbols).unresolved).toEqual(["other"]);
+    expect(checkFormula("reading.data.sum", symbols).unresolved).toEqual(["reading.data.sum"]);
+    expect(checkFormula("reading.data.value +", symbols).errors[0]).toContain("syntax error");
+  });
+
+  it("flags ProcessNode formulas against the upstream interface in validateScenario", () => {
+    expect(validateScenario(processScenario("reading.data.value * 2")).errors).toEqual([]);
+    expect(validateScenario(processScenario("reading.data.sum", ["data.sum"])).errors).toEqual([]);
+
+    const { errors } = validateScenario(processScenario("reading.data.sum + missing"));
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('ProcessNode "process1": output "out" formula');
+  });
+});
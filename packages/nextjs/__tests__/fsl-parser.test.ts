@@ -0,0 +1,152 @@
+import { createStateMachine } from "../lib/fsm";
+import { compileFSL, formatFSLDiagnostic, parseFSL, printFSL } from "../lib/simulation/fslParser";
+import type { FSMDefinition } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const counterFSL = `var counter = 0;
+outputs output;
+
+state idle [initial] {
+  on token_received -> counting
+}
+
+state counting {
+  on_entry { log("Counting") }
+  on counter >= 5 -> emitting
+  on token_received when counter < 5 -> counting
+}
+
+state emitting {
+  on_entry { emit(output, counter * 2) }
+  on_exit { emit(audit, counter) }
+  on emission_complete -> idle
+}`;
+
+describe("FSL parser", () => {
+  it("parses the block form into an AST with source positions and a definition", () => {
+    const { document, diagnostics, definition } = compileFSL(counterFSL);
+    expect(diagnostics).toEqual([]);
+
+    const counting = document.statements.find(statement => statement.kind === "state" && statement.name === "counting");
+    expect(counting?.span.start).toMatchObject({ line: 8, column: 1 });
+    expect(counting?.kind === "state" && counting.nameSpan.start).toMatchObject({ line: 8, column: 7 });
+
+    expect(definition).toEqual({
+      states: ["idle", "counting", "emitting"],
+      initialState: "idle",
+      transitions: [
+        { from: "idle", to: "counting", trigger: "token_received" },
+        { from: "counting", to: "emitting", trigger: "condition", condition: "counter >= 5" },
+        { from: "counting", to: "counting", trigger: "token_received", guard: "counter < 5" },
+        { from: "emitting", to: "idle", trigger: "emission_complete" },
+      ],
+      variables: { counter: 0 },
+      stateActions: {
+        counting: { logs: ["Counting"] },
+        emitting: { onEntry: { output: "counter * 2" }, onExit: { audit: "counter" } },
+      },
+      outputs: ["output"],
+    });
+  });
+
+  it("parses the statement form used by procedure templates", () => {
+    const source =
+      "idle 'draft' -> drafting; drafting 'submit' -> review 're-open' -> drafting; review 'done' [ok] -> idle;";
+    const { definition, diagnostics } = compileFSL(source);
+    expect(diagnostics).toEqual([]);
+    expect(definition.states).toEqual(["idle", "drafting", "review"]);
+    expect(definition.transitions).toContainEqual({ from: "review", to: "drafting", trigger: "re-open" });
+    expect(definition.transitions).toContainEqual({ from: "review", to: "idle", trigger: "done", condition: "ok" });
+
+    const machine = createStateMachine(source);
+    expect(machine.action("draft")).toBe(true);
+    expect(machine.action("submit")).toBe(true);
+    expect(machine.state()).toBe("review");
+  });
+
+  it("reports unknown states, unreachable states and duplicate transitions with line and column", () => {
+    const source = [
+      "state idle {",
+      "  on start -> running",
+      "  on start -> stopped",
+      "}",
+      "state orphan {}",
+      "state stopped {",
+      "  on reset -> idle",
+      "}",
+    ].join("\n");
+    const messages = compileFSL(source).diagnostics.map(formatFSLDiagnostic);
+    expect(messages).toEqual([
+      "2:15 error: Unknown state 'running'",
+      "3:3 error: Duplicate transition from 'idle' on 'start' (first defined at 2:3)",
+      "5:7 warning: State 'orphan' is unreachable from 'idle'",
+    ]);
+  });
+
+  it("recovers from syntax errors and keeps parsing", () => {
+    const source = "state idle {\n  on -> busy\n  on go -> busy\n}\nstate busy { bogus }\n";
+    const { document, diagnostics } = parseFSL(source);
+    expect(diagnostics.map(formatFSLDiagnostic)).toEqual([
+      "2:6 error: Expected a trigger after 'on'",
+      "5:14 error: Expected 'on', 'on_entry' or 'on_exit', found 'bogus'",
+    ]);
+    expect(document.statements.map(statement => statement.kind === "state" && statement.name)).toEqual([
+      "idle",
+      "busy",
+    ]);
+  });
+});
+
+describe("FSL printer", () => {
+  it("round-trips FSL text and FSM definitions", () => {
+    const { definition } = compileFSL(counterFSL);
+    expect(printFSL(definition)).toBe(counterFSL);
+
+    const fsm: FSMDefinition = {
+      states: ["waiting", "ready", "done"],
+      initialState: "ready",
+      // Grouped by source state, the way the printer writes them
+      transitions: [
+        { from: "waiting", to: "ready", trigger: "token-received", condition: "input.value > 1" },
+        { from: "ready", to: "waiting", trigger: "condition", condition: "blocked" },
+        { from: "ready", to: "done", trigger: "timer", guard: "elapsed >= 10" },
+        { from: "done", to: "waiting", trigger: "timer", after: 2.5 },
+      ],
+      variables: { label: 'it\'s "quoted"', limits: [1, 2] },
+      stateActions: { ready: { onEntry: { out: "max(a, b)" }, logs: ["Ready\nnow"] } },
+      finalStates: ["done"],
+      invariants: [{ name: "done_after_ready", formula: "not active.done or visited.ready" }],
+    };
+    const compiled = compileFSL(printFSL(fsm));
+    expect(compiled.diagnostics).toEqual([]);
+    expect(compiled.definition).toEqual(fsm);
+  });
+
+  it("round-trips string literals, quoted state names and ';' inside conditions", () => {
+    const fsm: FSMDefinition = {
+      states: ["draft", "in review", "done-ok"],
+      initialState: "draft",
+      transitions: [
+        { from: "draft", to: "in review", trigger: "submit", guard: "note != 'a;b'" },
+        { from: "in review", to: "done-ok", trigger: "condition", condition: 'status == "x;y" && count > 1;' },
+        { from: "in review", to: "draft", trigger: "reject", condition: "reason; retries < 3" },
+      ],
+      stateActions: {
+        "in review": {
+          onEntry: { status: "'approved'", "review note": '"it\'s \\ done"' },
+          logs: ['Said "hi"\t\u0001'],
+        },
+        "done-ok": { onExit: { status: "count > 1 ? 'a;b' : 'c'" } },
+      },
+      finalStates: ["done-ok"],
+    };
+    const text = printFSL(fsm);
+    expect(text).toContain('state "in review" {');
+    expect(text).toContain("emit(status, 'approved')");
+
+    const compiled = compileFSL(text);
+    expect(compiled.diagnostics).toEqual([]);
+    expect(compiled.definition).toEqual(fsm);
+    expect(compileFSL(printFSL(compiled.definition)).definition).toEqual(fsm);
+  });
+});
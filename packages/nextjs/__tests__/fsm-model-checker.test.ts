@@ -0,0 +1,149 @@
+import type { EnhancedFSMDefinition } from "../lib/simulation/enhanced-fsm-types";
+import { checkEnhancedFSM, checkFSL } from "../lib/simulation/fsmModelChecker";
+import { describe, expect, it } from "vitest";
+
+const paymentFSL = `invariant approved_first = not active.settled or visited.approved;
+
+state submitted [initial] {
+  on review when amount <= 1000 -> approved
+  on review when amount > 500 -> escalated
+  on fast_track -> settled
+}
+state escalated {
+  on review when amount > 5000 -> rejected
+  on review when amount < 5000 -> approved
+}
+state approved {
+  on pay -> settled
+}
+state settled [final] {}
+state rejected {}
+state archived [final] {}`;
+
+const findings = (report: ReturnType<typeof checkFSL>, kind: string) =>
+  report.findings.filter(finding => finding.kind === kind);
+
+describe("FSM model checker", () => {
+  it("reports unreachable states, dead ends and overlapping guards", () => {
+    const report = checkFSL(paymentFSL);
+
+    expect(report.complete).toBe(true);
+    expect(findings(report, "unreachable").map(finding => finding.message)).toEqual([
+      "State 'archived' is unreachable from 'submitted'",
+    ]);
+    expect(findings(report, "deadlock")).toMatchObject([
+      {
+        message: "State 'rejected' has no outgoing transitions and is not marked final",
+        trace: [
+          { states: ["submitted"] },
+          { states: ["escalated"], transition: "submitted → escalated on review" },
+          { states: ["rejected"], transition: "escalated → rejected on review" },
+        ],
+      },
+    ]);
+    // 500 < amount <= 1000 enables both; the escalated guards leave out 5000 but never overlap
+    expect(findings(report, "nondeterminism").map(finding => finding.message)).toEqual([
+      "submitted → approved on review and submitted → escalated on review can both be enabled (e.g. when amount = 501); the first declared wins",
+    ]);
+  });
+
+  it("finds the shortest run that violates an invariant", () => {
+    const [violation] = findings(checkFSL(paymentFSL), "invariant");
+
+    expect(violation.message).toBe("Invariant 'approved_first' is violated: not active.settled or visited.approved");
+    expect(violation.trace!.map(step => step.transition)).toEqual([undefined, "submitted → settled on fast_track"]);
+  });
+
+  it("applies variable updates and reports configurations where every guard is false", () => {
+    const countRetries = {
+      id: "count-retries",
+      name: "Count retries",
+      enabled: true,
+      trigger: "onEntry" as const,
+      outputs: [
+        {
+          id: "retries",
+          type: { outputType: "variable" as const, variableName: "retries", value: 1, operation: "increment" as const },
+        },
+      ],
+      onError: "continue" as const,
+      retryCount: 0,
+      timeout: 5000,
+    };
+    const fsm = {
+      initialState: "sending",
+      variables: { retries: 0 },
+      interpretationRules: [],
+      states: [
+        { id: "sending", name: "Sending", type: "initial" },
+        { id: "failed", name: "Failed", type: "intermediate", actions: [countRetries] },
+        { id: "delivered", name: "Delivered", type: "final" },
+      ],
+      transitions: [
+        { id: "ok", from: "sending", to: "delivered", trigger: { type: "message", messageType: "ack" }, priority: 100 },
+        { id: "fail", from: "sending", to: "failed", trigger: { type: "timer", timeout: 30 }, priority: 100 },
+        {
+          id: "retry",
+          from: "failed",
+          to: "sending",
+          trigger: { type: "condition", condition: "variables.retries < 3" },
+          priority: 100,
+        },
+      ],
+    } as EnhancedFSMDefinition;
+
+    const report = checkEnhancedFSM(fsm, {
+      invariants: [{ name: "bounded", formula: "variables.retries <= 3" }],
+    });
+
+    expect(report.complete).toBe(true);
+    expect(report.reachableStates).toEqual(["sending", "failed", "delivered"]);
+    expect(findings(report, "invariant")).toEqual([]);
+    const [deadlock] = findings(report, "deadlock");
+    expect(deadlock.message).toBe("Every transition out of 'failed' is disabled here");
+    expect(deadlock.trace!.at(-1)).toEqual({
+      states: ["failed"],
+      variables: { retries: 3 },
+      transition: "sending → failed on timer 30",
+    });
+    expect(deadlock.trace).toHaveLength(6);
+  });
+
+  it("stops at maxConfigurations and says so", () => {
+    const fsm = {
+      initialState: "counting",
+      variables: { count: 0 },
+      interpretationRules: [],
+      states: [
+        {
+          id: "counting",
+          name: "Counting",
+          type: "initial",
+          actions: [
+            {
+              id: "count",
+              name: "Count",
+              enabled: true,
+              trigger: "onEntry",
+              outputs: [
+                {
+                  id: "count",
+                  type: { outputType: "variable", variableName: "count", value: 1, operation: "increment" },
+                },
+              ],
+              onError: "continue",
+              retryCount: 0,
+              timeout: 5000,
+            },
+          ],
+        },
+      ],
+      transitions: [{ id: "tick", from: "counting", to: "counting", trigger: { type: "manual" }, priority: 100 }],
+    } as EnhancedFSMDefinition;
+
+    const report = checkEnhancedFSM(fsm, { maxConfigurations: 5 });
+
+    expect(report.complete).toBe(false);
+    expect(report.findings.map(finding => finding.kind)).toEqual(["incomplete"]);
+  });
+});
@@ -0,0 +1,90 @@
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { FSMProcessNodeState, HistoryEntry, Scenario } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const signatureScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "contract1",
+      displayName: "Contract",
+      position: { x: 0, y: 0 },
+      type: "FSMProcessNode",
+      inputs: [{ name: "input", interface: { type: "SimpleValue", requiredFields: [] }, required: true }],
+      fsm: {
+        states: ["awaiting_signature", "signed", "expired"],
+        initialState: "awaiting_signature",
+        transitions: [
+          { from: "awaiting_signature", to: "signed", trigger: "token_received" },
+          { from: "awaiting_signature", to: "expired", trigger: "timer", after: 10 },
+          { from: "expired", to: "awaiting_signature", trigger: "timer", after: 5 },
+        ],
+      },
+    },
+  ],
+} as Scenario;
+
+const timerLog = (entries: HistoryEntry[]) =>
+  entries
+    .filter(entry => entry.action.startsWith("timer_") || entry.action === "fsm_transition")
+    .map(entry => `${entry.timestamp} ${entry.action} ${entry.details}`);
+
+describe("FSM timer transitions", () => {
+  it("fires timers on the simulation clock and reschedules them on re-entry", () => {
+    const engine = new SimulationEngine(signatureScenario);
+    expect((engine.getNodeState("contract1") as FSMProcessNodeState).fsmTimers).toMatchObject([
+      { state: "awaiting_signature", dueAt: 10 },
+    ]);
+
+    expect(timerLog(engine.step(9))).toEqual([]);
+    expect(timerLog(engine.runUntil(15))).toEqual([
+      "10 timer_fired Timer awaiting_signature → expired after 10 (scheduled at 0)",
+      "10 fsm_transition awaiting_signature → expired (timer)",
+      "10 timer_scheduled Timer expired → awaiting_signature due at t=15",
+      "15 timer_fired Timer expired → awaiting_signature after 5 (scheduled at 10)",
+      "15 fsm_transition expired → awaiting_signature (timer)",
+      "15 timer_scheduled Timer awaiting_signature → expired due at t=25",
+    ]);
+  });
+
+  it("cancels a state's timers when the state is exited", () => {
+    const engine = new SimulationEngine(signatureScenario);
+    engine.step(3);
+    engine.injectToken("contract1", 1);
+
+    expect(timerLog(engine.getState().globalActivityLog)).toEqual([
+      "3 fsm_transition awaiting_signature → signed (token_received)",
+      "3 timer_cancelled Timer awaiting_signature → expired due at t=10",
+    ]);
+    expect(timerLog(engine.runUntil(30))).toEqual([]);
+    expect((engine.getNodeState("contract1") as FSMProcessNodeState).currentFSMState).toBe("signed");
+  });
+
+  it("refuses a forced transition into a state the FSM does not declare", () => {
+    const engine = new SimulationEngine(signatureScenario);
+
+    expect(engine.triggerFSMTransition("contract1", "archived")).toEqual({
+      success: false,
+      error: "State archived is not declared by the FSM of node contract1",
+    });
+    expect(engine.getState().globalActivityLog.at(-1)).toMatchObject({
+      action: "error",
+      details: "State archived is not declared by the FSM of node contract1",
+    });
+    expect((engine.getNodeState("contract1") as FSMProcessNodeState).currentFSMState).toBe("awaiting_signature");
+
+    expect(engine.triggerFSMTransition("contract1", "signed")).toEqual({ success: true, newState: "signed" });
+  });
+
+  it("keeps pending timers across a restored state, as replay does", () => {
+    const continuous = new SimulationEngine(signatureScenario, { seed: 7 });
+    const expected = timerLog(continuous.runUntil(40));
+
+    const first = new SimulationEngine(signatureScenario, { seed: 7 });
+    const before = timerLog(first.runUntil(12));
+    const resumed = new SimulationEngine(signatureScenario, { seed: 7 });
+    resumed.restoreState(JSON.parse(JSON.stringify(first.getState())));
+
+    expect([...before, ...timerLog(resumed.runUntil(40))]).toEqual(expected);
+  });
+});
@@ -0,0 +1,118 @@
+import { LineageLoadingManager } from "../lib/simulation/lineageLoadingManager";
+import { TokenGenealogyEngine } from "../lib/simulation/tokenGenealogyEngine";
+import { type HistoryEntrySource, TokenGraph, buildTokenGraphFromHistory } from "../lib/simulation/tokenGraph";
+import { createLineageCache } from "../lib/simulation/tokenLineageCache";
+import type { HistoryEntry } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+let sequence = 0;
+const entry = (fields: Partial<HistoryEntry> & Pick<HistoryEntry, "nodeId" | "action">): HistoryEntry => ({
+  timestamp: 1,
+  epochTimestamp: 0,
+  sequence: sequence++,
+  state: "idle",
+  ...fields,
+});
+
+const created = (tokenId: string, value: number) =>
+  entry({ nodeId: "source1", action: "CREATED", value, details: `Token ${tokenId} created` });
+
+const aggregated = (tokenId: string, sourceTokenIds: string[]) =>
+  entry({
+    timestamp: 2,
+    nodeId: "queue1",
+    action: "AGGREGATED_SUM",
+    value: sourceTokenIds.length,
+    details: `Token ${tokenId} aggregated`,
+    sourceTokenIds,
+    sourceTokenSummaries: sourceTokenIds.map(id => ({ id, originNodeId: "source1", originalValue: 1, createdAt: 1 })),
+  });
+
+const edgesOf = (graph: TokenGraph) =>
+  graph
+    .getAllTokenIds()
+    .sort()
+    .map(tokenId => `${graph.getParents(tokenId).sort().join(",")} -> ${tokenId}`);
+
+describe("incremental TokenGraph", () => {
+  it("follows a log source and matches a full rebuild of its entries", () => {
+    // Stands in for a SimulationEngine appending to its activity log
+    const listeners = new Set<Parameters<HistoryEntrySource["subscribe"]>[0]>();
+    const source: HistoryEntrySource = {
+      subscribe: listener => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+    };
+    const log = [created("a1", 1), created("a2", 1), aggregated("s1", ["a1", "a2"]), created("b1", 1)];
+
+    const genealogy = new TokenGenealogyEngine([]);
+    const changes: string[][] = [];
+    const unsubscribe = genealogy.follow(source, affected => changes.push(affected));
+    log.forEach(logged => listeners.forEach(listener => listener(logged)));
+    unsubscribe();
+    listeners.forEach(listener => listener(created("c1", 1)));
+
+    const rebuilt = new TokenGenealogyEngine(log);
+    expect(genealogy.getTokenCount()).toBe(4);
+    expect(genealogy.buildCompleteLineage("s1")).toEqual(rebuilt.buildCompleteLineage("s1"));
+    expect(changes).toEqual([["a1"], ["a2"], ["s1", "a1", "a2"], ["b1"]]);
+  });
+
+  it("connects sources that arrive after the tokens derived from them", () => {
+    const log = [aggregated("s1", ["a1", "a2"]), created("a1", 1), created("a2", 1), created("b1", 1)];
+    const graph = new TokenGraph();
+    log.forEach(logged => graph.applyHistoryEntry(logged));
+
+    expect(graph.getParents("s1").sort()).toEqual(["a1", "a2"]);
+    expect(edgesOf(graph)).toEqual(edgesOf(buildTokenGraphFromHistory(log)));
+
+    // A token created again keeps only the edges of its latest creation
+    graph.applyHistoryEntry(aggregated("s1", ["b1"]));
+    expect(graph.getParents("s1")).toEqual(["b1"]);
+    expect(graph.getChildren("a1")).toEqual([]);
+  });
+
+  it("reports only the tokens whose lineage changed", () => {
+    const genealogy = new TokenGenealogyEngine([created("a1", 1), created("a2", 1), created("b1", 1)]);
+
+    expect(genealogy.appendEntries([aggregated("s1", ["a1", "a2"])]).sort()).toEqual(["a1", "a2", "s1"]);
+    expect(genealogy.appendEntries([aggregated("t1", ["s1"])]).sort()).toEqual(["a1", "a2", "s1", "t1"]);
+    // History of a1 shows up in the lineages of the tokens derived from it
+    expect(
+      genealogy.appendEntries([entry({ nodeId: "sink1", action: "consumed", details: "Token a1" })]).sort(),
+    ).toEqual(["a1", "s1", "t1"]);
+    expect(genealogy.findAllAncestors("t1").map(ancestor => ancestor.id)).toContain("a2");
+  });
+
+  it("keeps unaffected cached lineages when the log grows", async () => {
+    const cache = createLineageCache();
+    const manager = new LineageLoadingManager(cache);
+    const log = [created("a1", 1), created("a2", 1), created("b1", 1), aggregated("s1", ["a1", "a2"])];
+
+    await manager.setActivityLog(log);
+    await manager.getLineages(["s1", "b1"]);
+
+    await manager.setActivityLog([...log, aggregated("t1", ["s1"])]);
+    expect(cache.get("s1")).toBeNull();
+    expect(cache.get("b1")).not.toBeNull();
+    expect((await manager.getLineage("s1")).descendants.map(descendant => descendant.id)).toContain("t1");
+    manager.dispose();
+  });
+
+  it("reloads a reset log whose sequence numbers overlap the previous one", async () => {
+    const cache = createLineageCache();
+    const manager = new LineageLoadingManager(cache);
+    sequence = 0;
+    await manager.setActivityLog([created("a1", 1), created("a2", 1), aggregated("s1", ["a1", "a2"])]);
+    await manager.getLineages(["s1"]);
+
+    // A reset restarts the sequence, so the new log reuses every number the old one had
+    sequence = 0;
+    await manager.setActivityLog([created("c1", 1), created("c2", 1), created("c3", 1), created("c4", 1)]);
+    expect(cache.get("s1")).toBeNull();
+    await expect(manager.getLineage("s1")).rejects.toThrow();
+    expect((await manager.getLineage("c4")).targetToken.id).toBe("c4");
+    manager.dispose();
+  });
+});
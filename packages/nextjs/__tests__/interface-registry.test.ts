@@ -0,0 +1,111 @@
+import { InterfaceRegistry } from "../lib/simulation/interfaceRegistry";
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { SinkState, Token } from "../lib/simulation/types";
+import { validateScenario } from "../lib/simulation/validation";
+import { describe, expect, it } from "vitest";
+
+const reading = {
+  name: "Reading",
+  fields: {
+    "data.temperature": { type: "number" as const, required: true },
+    "data.unit": { type: "string" as const },
+  },
+};
+
+const token = (value: any): Token => ({ id: "t1", value, createdAt: 0, originNodeId: "source1", history: [] });
+
+// A source feeding a sink whose input requires `consumer`
+const edgeScenario = (
+  producer: Record<string, unknown>,
+  consumer: Record<string, unknown>,
+  onViolation?: string,
+  generation: Record<string, unknown> = { type: "constant", valueMin: 0, valueMax: 0, value: "hot" },
+) => ({
+  version: "3.0",
+  interfaceTypes: [reading],
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation,
+      outputs: [{ name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: producer }],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 100, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "source1", interface: consumer, required: true, onViolation }],
+    },
+  ],
+});
+
+describe("interface registry", () => {
+  const registry = new InterfaceRegistry([reading]);
+
+  it("checks that a producer provides what a consumer requires", () => {
+    expect(
+      registry.checkCompatibility({ type: "Reading", requiredFields: [] }, { type: "Reading", requiredFields: [] }),
+    ).toEqual([]);
+    expect(
+      registry.checkCompatibility({ type: "SimpleValue", requiredFields: [] }, { type: "Reading", requiredFields: [] }),
+    ).toEqual(['"SimpleValue" does not provide required field "data.temperature" of "Reading".']);
+    expect(
+      registry.checkCompatibility(
+        { type: "Reading", requiredFields: [] },
+        { type: "Custom", requiredFields: ["data.temperature.celsius"] },
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("validates token values against field types", () => {
+    const iface = { type: "Reading", requiredFields: [] };
+    expect(registry.validateToken(token({ temperature: 20, unit: "C" }), iface)).toEqual([]);
+    expect(registry.validateToken(token({ unit: 3 }), iface)).toEqual([
+      'missing required field "data.temperature"',
+      'field "data.unit" should be string but is number',
+    ]);
+    expect(registry.validateToken(token("hot"), { type: "AggregationResult", requiredFields: [] })).toHaveLength(1);
+  });
+});
+
+describe("interface enforcement", () => {
+  it("rejects incompatible connections in validateScenario", () => {
+    const { errors } = validateScenario(
+      edgeScenario({ type: "SimpleValue", requiredFields: [] }, { type: "Reading", requiredFields: [] }),
+    );
+    expect(errors).toEqual([
+      'Connection "source1.output" -> "sink1.input": "SimpleValue" does not provide required field "data.temperature" of "Reading".',
+    ]);
+  });
+
+  it("rejects or quarantines non-matching tokens at runtime and records the violation", () => {
+    const producer = { type: "Any", requiredFields: [] };
+    const consumer = { type: "AggregationResult", requiredFields: [] };
+
+    const rejecting = SimulationEngine.fromScenarioData(edgeScenario(producer, consumer));
+    rejecting.runUntil(2);
+    const rejected = rejecting.getState();
+    expect(rejected.globalActivityLog.filter(e => e.action === "token_rejected")).toHaveLength(2);
+    expect((rejected.nodeStates.sink1 as SinkState).consumedTokenCount).toBe(0);
+
+    const quarantining = SimulationEngine.fromScenarioData(edgeScenario(producer, consumer, "quarantine"));
+    quarantining.runUntil(2);
+    const { nodeStates, globalActivityLog } = quarantining.getState();
+    const sinkState = nodeStates.sink1 as SinkState;
+    expect(sinkState.quarantinedTokens).toHaveLength(2);
+    expect(sinkState.quarantinedTokens![0].history.at(-1)?.action).toBe("token_quarantined");
+    expect(globalActivityLog.find(e => e.action === "token_quarantined")?.details).toContain(
+      'field "data.aggregatedValue" should be number but is string',
+    );
+
+    const numeric = SimulationEngine.fromScenarioData(
+      edgeScenario(producer, consumer, undefined, { type: "constant", valueMin: 0, valueMax: 0, value: 4 }),
+    );
+    numeric.runUntil(2);
+    expect(numeric.getState().globalActivityLog.some(e => e.action === "token_rejected")).toBe(false);
+  });
+});
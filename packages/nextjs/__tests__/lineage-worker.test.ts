@@ -0,0 +1,106 @@
+import { LineageLoadingManager, LineageRequestCancelledError } from "../lib/simulation/lineageLoadingManager";
+import { type LineageWorkerResponse, createLineageWorkerHandler } from "../lib/simulation/lineageWorker";
+import { createLineageCache } from "../lib/simulation/tokenLineageCache";
+import type { HistoryEntry } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+let sequence = 0;
+const entry = (fields: Partial<HistoryEntry> & Pick<HistoryEntry, "nodeId" | "action">): HistoryEntry => ({
+  timestamp: 1,
+  epochTimestamp: 0,
+  sequence: sequence++,
+  state: "idle",
+  ...fields,
+});
+
+const created = (tokenId: string, value: number, timestamp = 1) =>
+  entry({ timestamp, nodeId: "source1", action: "CREATED", value, details: `Token ${tokenId} created` });
+
+// Two source tokens summed into s1
+const activityLog = (): HistoryEntry[] => [
+  created("a1", 2),
+  created("a2", 3),
+  entry({
+    timestamp: 2,
+    nodeId: "queue1",
+    action: "AGGREGATED_SUM",
+    value: 5,
+    details: "Token s1 aggregated",
+    sourceTokenIds: ["a1", "a2"],
+    sourceTokenSummaries: [
+      { id: "a1", originNodeId: "source1", originalValue: 2, createdAt: 1 },
+      { id: "a2", originNodeId: "source1", originalValue: 3, createdAt: 1 },
+    ],
+  }),
+];
+
+const collect = () => {
+  const responses: LineageWorkerResponse[] = [];
+  const handle = createLineageWorkerHandler(response => responses.push(response));
+  return { responses, handle };
+};
+
+describe("lineage worker protocol", () => {
+  it("builds the graph and answers queries with progress", async () => {
+    const { responses, handle } = collect();
+    await handle({ type: "load", requestId: "load", entries: activityLog() });
+    expect(responses.at(-1)).toMatchObject({ type: "loaded", entryCount: 3, tokenCount: 3 });
+
+    await handle({ type: "query", requestId: "q", query: "lineage", tokenIds: ["s1", "missing"] });
+    const result = responses.at(-1)!;
+    expect(result.type).toBe("result");
+    if (result.type !== "result") return;
+    expect((result.results.s1 as any).immediateParents.map((parent: any) => parent.id)).toEqual(["a1", "a2"]);
+    expect(result.errors.missing).toBe("Token missing not found in graph");
+    expect(responses).toContainEqual({ type: "progress", requestId: "q", phase: "lineage", completed: 2, total: 2 });
+  });
+
+  it("stops a query when it is cancelled between batches", async () => {
+    const { responses, handle } = collect();
+    await handle({ type: "load", requestId: "load", entries: activityLog() });
+
+    const tokenIds = Array.from({ length: 100 }, () => "s1");
+    const running = handle({ type: "query", requestId: "q", query: "ancestors", tokenIds });
+    await handle({ type: "cancel", requestId: "q" });
+    await running;
+
+    expect(responses.at(-1)).toEqual({ type: "cancelled", requestId: "q" });
+    expect(responses.some(response => response.type === "result")).toBe(false);
+  });
+});
+
+describe("LineageLoadingManager", () => {
+  it("serves repeated lineage requests from the cache and invalidates on new entries", async () => {
+    const cache = createLineageCache();
+    const manager = new LineageLoadingManager(cache);
+    const log = activityLog();
+
+    await manager.setActivityLog(log);
+    const lineage = await manager.getLineage("s1");
+    expect(lineage.targetToken.value).toBe(5);
+    expect(await manager.getLineage("s1")).toBe(lineage);
+    expect(cache.getStats().totalHits).toBe(1);
+    expect(await manager.getSourceContributions("s1")).toHaveLength(2);
+
+    // New entries that mention s1 drop its cached lineage
+    await manager.setActivityLog([
+      ...log,
+      entry({ timestamp: 3, nodeId: "sink1", action: "consumed", details: "Token s1" }),
+    ]);
+    expect(cache.get("s1")).toBeNull();
+    manager.dispose();
+  });
+
+  it("rejects aborted requests and unknown tokens", async () => {
+    const manager = new LineageLoadingManager(createLineageCache());
+    await manager.setActivityLog(activityLog());
+
+    const controller = new AbortController();
+    const request = manager.getLineage("s1", { signal: controller.signal });
+    controller.abort();
+    await expect(request).rejects.toBeInstanceOf(LineageRequestCancelledError);
+
+    await expect(manager.getLineage("missing")).rejects.toThrow("missing: Token missing not found in graph");
+    manager.dispose();
+  });
+});
@@ -0,0 +1,136 @@
+import { getLLMProvider } from "../lib/platform";
+import { LocalLLMProvider } from "../lib/platform/adapters/local/localAdapter";
+import { EventInterpretationEngine, RuleFactory } from "../lib/simulation/event-interpretation-engine";
+import { LLMInterpretationClient, parseInterpretations } from "../lib/simulation/llmInterpretation";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const ask = (provider: LocalLLMProvider, content: string, json?: boolean) =>
+  provider.complete({
+    json,
+    messages: [
+      { role: "system", content: "Be brief" },
+      { role: "user", content },
+    ],
+  });
+
+describe("Local LLM provider", () => {
+  it("answers from the first matching fixture", async () => {
+    const provider = new LocalLLMProvider([
+      { match: "/^list (nodes|edges)$/i", response: '{"items":[]}', json: true },
+      { match: "list nodes", response: "source1, sink1" },
+      { match: "hello", response: "Hi!" },
+    ]);
+
+    expect(await ask(provider, "List NODES", true)).toEqual({
+      text: '{"items":[]}',
+      provider: "local",
+      model: "fixture",
+    });
+    expect((await ask(provider, "list nodes")).text).toBe("source1, sink1");
+    expect((await ask(provider, "well hello there")).text).toBe("Hi!");
+  });
+
+  it("returns a placeholder when no fixture matches", async () => {
+    const provider = new LocalLLMProvider([]);
+
+    expect(await ask(provider, "Summarise the scenario")).toEqual({
+      text: 'No local fixture matches this request: "Summarise the scenario"',
+      provider: "local",
+      model: "placeholder",
+    });
+    expect((await ask(provider, "Summarise the scenario", true)).text).toBe("{}");
+  });
+});
+
+describe("LLM provider selection", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const configure = (env: Record<string, string>) => {
+    ["LLM_PROVIDER", "GEMINI_API_KEY", "NEXT_PUBLIC_GEMINI_API_KEY", "OPENAI_API_KEY"].forEach(name =>
+      vi.stubEnv(name, ""),
+    );
+    Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  };
+
+  it("falls back to the local provider outside production", () => {
+    configure({ NODE_ENV: "development", LLM_PROVIDER: "gemini" });
+    vi.spyOn(console, "warn").mockImplementationOnce(() => undefined);
+
+    expect(getLLMProvider().name).toBe("local");
+  });
+
+  it("fails in production unless the local provider is chosen explicitly", () => {
+    configure({ NODE_ENV: "production", LLM_PROVIDER: "gemini" });
+    expect(() => getLLMProvider()).toThrow("The gemini LLM provider failed to initialise");
+
+    configure({ NODE_ENV: "production", LLM_PROVIDER: "claude" });
+    expect(() => getLLMProvider()).toThrow('Unknown LLM_PROVIDER "claude"');
+
+    configure({ NODE_ENV: "production" });
+    expect(() => getLLMProvider()).toThrow("No LLM provider is configured");
+
+    configure({ NODE_ENV: "production", LLM_PROVIDER: "local" });
+    expect(getLLMProvider().name).toBe("local");
+  });
+});
+
+describe("LLM event interpretation", () => {
+  const reply = JSON.stringify({
+    interpretations: [
+      { messageType: "payment_request", payload: { amount: 1200 }, confidence: 0.92 },
+      { messageType: "compliance_check", payload: {}, confidence: 0.4 },
+      { messageType: "launch_rockets", payload: {}, confidence: 1 },
+    ],
+  });
+
+  it("keeps allowed message types and clamps confidences", () => {
+    const allowed = ["payment_request", "compliance_check"];
+
+    expect(parseInterpretations("```json\n" + reply + "\n```", allowed).interpretations).toEqual([
+      { messageType: "payment_request", payload: { amount: 1200 }, confidence: 0.92 },
+      { messageType: "compliance_check", payload: {}, confidence: 0.4 },
+    ]);
+    expect(parseInterpretations('[{"messageType":"payment_request","payload":[1],"confidence":7}]', allowed)).toEqual({
+      interpretations: [{ messageType: "payment_request", payload: {}, confidence: 1 }],
+    });
+    expect(() => parseInterpretations("I think it is a payment request", allowed)).toThrow("not JSON");
+    expect(() => parseInterpretations("{}", allowed)).toThrow("no interpretations list");
+  });
+
+  it("turns events into messages through an ai rule", async () => {
+    const provider = new LocalLLMProvider([{ match: "Invoice #42", response: reply, json: true }]);
+    const engine = new EventInterpretationEngine({ aiClient: new LLMInterpretationClient(provider) });
+    engine.addRule(RuleFactory.createDocumentAnalysisRule());
+
+    const result = await engine.interpretEvent({
+      id: "evt_1",
+      type: "document",
+      timestamp: 1000,
+      rawData: "Invoice #42: please pay 1200 EUR",
+      sourceType: "external",
+    });
+
+    expect(result.error).toBeUndefined();
+    expect(result.messages).toMatchObject([
+      {
+        type: "payment_request",
+        payload: { amount: 1200 },
+        confidence: 0.92,
+        sourceEventId: "evt_1",
+        interpretationRuleId: "ai_document_analyzer",
+      },
+    ]);
+
+    const unmatched = await engine.interpretEvent({
+      id: "evt_2",
+      type: "document",
+      timestamp: 2000,
+      rawData: "Meeting notes",
+      sourceType: "external",
+    });
+    expect(unmatched.messages).toEqual([]);
+    expect(unmatched.error).toMatch(/no interpretations list/);
+  });
+});
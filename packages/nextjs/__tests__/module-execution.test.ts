@@ -0,0 +1,131 @@
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { ModuleState, SinkState } from "../lib/simulation/types";
+import { validateScenario } from "../lib/simulation/validation";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+// Doubles every value: module input "in" -> internal ProcessNode -> module output "out"
+const doublerModule = (nodeId: string, destinationNodeId: string) => ({
+  nodeId,
+  displayName: "Doubler",
+  position: { x: 100, y: 0 },
+  type: "Module",
+  inputs: [{ name: "in", interface: simpleInterface, required: true }],
+  outputs: [{ name: "out", destinationNodeId, destinationInputName: "input", interface: simpleInterface }],
+  inputMappings: [{ inputName: "in", targetNodeId: "double" }],
+  outputMappings: [{ outputName: "out", sourceNodeId: "double" }],
+  subGraph: {
+    nodes: [
+      {
+        nodeId: "double",
+        displayName: "Double",
+        position: { x: 0, y: 0 },
+        type: "ProcessNode",
+        inputs: [{ name: "a", nodeId: "in", alias: "a", interface: simpleInterface, required: true }],
+        outputs: [
+          {
+            name: "output",
+            destinationNodeId: "",
+            destinationInputName: "input",
+            interface: simpleInterface,
+            transformation: { formula: "inputs.a.value * 2", fieldMapping: {} },
+          },
+        ],
+      },
+    ],
+  },
+  isLibraryModule: true,
+  libraryCategory: "math",
+});
+
+const moduleScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "constant", valueMin: 0, valueMax: 10, value: 4 },
+      outputs: [
+        { name: "output", destinationNodeId: "module1", destinationInputName: "in", interface: simpleInterface },
+      ],
+    },
+    doublerModule("module1", "sink1"),
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "module1", interface: simpleInterface, required: true }],
+    },
+  ],
+};
+
+describe("Module execution", () => {
+  it("routes tokens through the sub-graph and out of the module", () => {
+    const engine = SimulationEngine.fromScenarioData(moduleScenario, { seed: 1 });
+    engine.step(3);
+
+    const sinkState = engine.getNodeState("sink1") as SinkState;
+    expect(sinkState.consumedTokens.map(token => token.value)).toEqual([8, 8, 8]);
+
+    const moduleState = engine.getNodeState("module1") as ModuleState;
+    expect(moduleState.processedTokenCount).toBe(3);
+    expect(moduleState.subGraphStates.double).toBeDefined();
+  });
+
+  it("logs internal activity under the module id with lineage across the boundary", () => {
+    const engine = SimulationEngine.fromScenarioData(moduleScenario, { seed: 1 });
+    engine.step(1);
+
+    const log = engine.getState().globalActivityLog;
+    expect(log.map(entry => entry.sequence)).toEqual(log.map((_, i) => i));
+    expect(log.some(entry => entry.nodeId === "module1/double" && entry.action === "firing")).toBe(true);
+
+    const consumed = (engine.getNodeState("sink1") as SinkState).consumedTokens[0];
+    const actions = consumed.history.map(entry => `${entry.nodeId}:${entry.action}`);
+    expect(actions).toContain("module1:module_output");
+    expect(actions).toContain("sink1:token_consumed");
+
+    const firing = log.find(entry => entry.nodeId === "module1/double" && entry.action === "firing");
+    const input = log.find(entry => entry.nodeId === "module1" && entry.action === "module_input");
+    expect(firing?.sourceTokenIds).toEqual(input?.sourceTokenIds);
+  });
+
+  it("executes nested modules", () => {
+    const nested = JSON.parse(JSON.stringify(moduleScenario));
+    const outer = nested.nodes[1];
+    outer.inputMappings = [{ inputName: "in", targetNodeId: "inner" }];
+    outer.outputMappings = [{ outputName: "out", sourceNodeId: "inner" }];
+    outer.subGraph.nodes = [doublerModule("inner", "")];
+
+    const engine = SimulationEngine.fromScenarioData(nested, { seed: 1 });
+    engine.step(2);
+
+    expect((engine.getNodeState("sink1") as SinkState).consumedTokens.map(token => token.value)).toEqual([8, 8]);
+    expect(engine.getState().globalActivityLog.some(entry => entry.nodeId === "module1/inner/double")).toBe(true);
+  });
+
+  it("keeps sub-graph state across restoreState", () => {
+    const engine = SimulationEngine.fromScenarioData(moduleScenario, { seed: 1 });
+    engine.step(1);
+    const saved = JSON.parse(JSON.stringify(engine.getState()));
+
+    engine.step(2);
+    engine.restoreState(saved);
+    engine.step(1);
+    expect((engine.getNodeState("sink1") as SinkState).consumedTokenCount).toBe(2);
+  });
+
+  it("rejects mappings to unknown inputs or sub-graph nodes", () => {
+    const broken = JSON.parse(JSON.stringify(moduleScenario));
+    broken.nodes[1].inputMappings = [{ inputName: "missing", targetNodeId: "nowhere" }];
+
+    const { errors } = validateScenario(broken);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('Module "module1"');
+  });
+});
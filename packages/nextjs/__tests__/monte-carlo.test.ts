@@ -0,0 +1,120 @@
+import {
+  applyParameters,
+  expandParameterSweeps,
+  runMonteCarlo,
+  runMonteCarloJob,
+  summarizeSamples,
+} from "../lib/simulation/monteCarlo";
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { Scenario } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+// A source with exponentially distributed arrivals feeding a sink
+const arrivalsScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 2,
+      intervalDistribution: { type: "exponential" },
+      generation: { type: "uniform", valueMin: 1, valueMax: 10 },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 100, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+    },
+  ],
+} as Scenario;
+
+describe("parameter sweeps", () => {
+  it("expands every combination and applies it to a copy", () => {
+    const combinations = expandParameterSweeps([
+      { nodeId: "source1", path: "interval", values: [1, 2] },
+      { nodeId: "queue1", path: "aggregation.trigger.window", values: [5, 10] },
+    ]);
+    expect(combinations).toHaveLength(4);
+    expect(combinations[3]).toEqual({ "source1.interval": 2, "queue1.aggregation.trigger.window": 10 });
+
+    const swept = applyParameters(arrivalsScenario, { "source1.interval": 8 });
+    expect((swept.nodes[0] as any).interval).toBe(8);
+    expect((arrivalsScenario.nodes[0] as any).interval).toBe(2);
+    expect(() => applyParameters(arrivalsScenario, { "missing.interval": 1 })).toThrow();
+  });
+});
+
+describe("Monte Carlo runs", () => {
+  it("reports KPI distributions per combination, reproducibly", async () => {
+    const config = {
+      runs: 5,
+      duration: 40,
+      seed: 11,
+      sweeps: [{ nodeId: "source1", path: "interval", values: [2, 8] }],
+    };
+    const report = await runMonteCarlo(arrivalsScenario, config);
+    expect(report.combinations.map(c => c.parameters)).toEqual([{ "source1.interval": 2 }, { "source1.interval": 8 }]);
+
+    const [fast, slow] = report.combinations.map(c => c.kpis.throughput);
+    expect(fast.count).toBe(5);
+    expect(fast.mean).toBeGreaterThan(slow.mean);
+    expect(fast.ci95[0]).toBeLessThanOrEqual(fast.mean);
+    expect(report.combinations[0].kpis["sink1.throughput"]).toEqual(fast);
+
+    expect(await runMonteCarlo(arrivalsScenario, config, { concurrency: 3 })).toEqual(report);
+  });
+
+  it("records invalid parameter values as failed runs", async () => {
+    const report = await runMonteCarlo(arrivalsScenario, {
+      runs: 2,
+      duration: 5,
+      seed: 1,
+      sweeps: [{ nodeId: "source1", path: "interval", values: [-1] }],
+    });
+    expect(report.combinations[0].failedRuns).toBe(2);
+    expect(report.combinations[0].errors).toHaveLength(1);
+  });
+
+  it("runs forward from a replayed state", () => {
+    const engine = new SimulationEngine(arrivalsScenario, { seed: 3 });
+    engine.step(10);
+    const { nodeStates, currentTime, eventCounter } = engine.getState();
+
+    const result = runMonteCarloJob({
+      source: { scenario: arrivalsScenario, nodeStates, currentTime, eventCounter },
+      parameters: {},
+      seed: 5,
+      duration: 20,
+    });
+    expect(result.error).toBeUndefined();
+    expect(result.kpis.tokensConsumed).toBeGreaterThan(0);
+  });
+
+  it("computes KPIs of runs whose history is too long to spread into Math.min", () => {
+    const everyTick = applyParameters(arrivalsScenario, { "source1.interval": 1 });
+    delete (everyTick.nodes[0] as any).intervalDistribution;
+
+    // Three log entries per tick: 150,000 in all
+    const result = runMonteCarloJob({ source: everyTick, parameters: {}, seed: 2, duration: 50_000 });
+    expect(result.error).toBeUndefined();
+    expect(result.kpis.tokensConsumed).toBe(50_000);
+    expect(summarizeSamples(Array.from({ length: 150_000 }, (_, i) => i % 100))).toMatchObject({ min: 0, max: 99 });
+  });
+
+  it("summarizes samples with a confidence interval of the mean", () => {
+    const summary = summarizeSamples([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(summary.mean).toBe(5);
+    expect(summary.stddev).toBeCloseTo(2.138, 3);
+    expect(summary.ci95[0]).toBeCloseTo(5 - (1.96 * summary.stddev) / Math.sqrt(8));
+    expect(summary.p50).toBe(4.5);
+  });
+});
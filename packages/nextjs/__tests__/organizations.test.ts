@@ -0,0 +1,305 @@
+import { createAuthMiddleware } from "../lib/api/adapters/base";
+import { createAppRouterHandler } from "../lib/api/adapters/vercel";
+import {
+  OrganizationAccessError,
+  PlatformIdentityResolver,
+  accessDeniedResponse,
+  requireDefaultOrganizationAdmin,
+  requireOrganizationAccess,
+} from "../lib/api/auth";
+import { ApiKeysController } from "../lib/api/controllers/apiKeys";
+import { OrganizationsController } from "../lib/api/controllers/organizations";
+import type { TemplateDocument } from "../lib/firestore-types";
+import { FileDocumentStore } from "../lib/platform/adapters/file/fileAdapter";
+import { DataService } from "../lib/platform/dataService";
+import { DEFAULT_ORGANIZATION_ID, resolveOrganizationAccess } from "../lib/platform/organizations";
+import type { AuthProvider, UserIdentity } from "../lib/platform/ports";
+import { ApiKeysRepository, OrganizationsRepository, TemplatesRepository } from "../lib/platform/repositories";
+import type { Scenario } from "../lib/simulation/types";
+import fs from "fs";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+const storageUser = `test-organizations-${process.pid}`;
+process.env.PLED_STORAGE_USER = storageUser;
+
+class SessionAuth implements AuthProvider {
+  constructor(public user: UserIdentity | null = null) {}
+
+  async getCurrentUser() {
+    return this.user;
+  }
+
+  async requireUser() {
+    if (!this.user) throw new Error("Unauthorized");
+    return this.user;
+  }
+}
+
+const scenario: Scenario = { version: "3.0", nodes: [] };
+
+const template = (name: string) => ({ name, scenario, version: "3.0" });
+
+afterAll(() => {
+  fs.rmSync(path.join(process.cwd(), "data", "pled", storageUser), { recursive: true, force: true });
+});
+
+describe("Organization data", () => {
+  const docs = new FileDocumentStore();
+
+  it("keeps each organization's templates and executions apart", async () => {
+    const teamA = new DataService("org_a", docs);
+    const teamB = new DataService("org_b", docs);
+
+    const templateId = await teamA.createTemplate(template("Onboarding"));
+    const executionId = await teamA.createExecution({
+      templateId,
+      name: "Run 1",
+      scenario,
+      nodeStates: {},
+      currentTime: 0,
+      eventCounter: 0,
+      globalActivityLog: [],
+      nodeActivityLogs: {},
+      isCompleted: false,
+    });
+
+    expect((await teamA.listTemplates()).map(t => t.name)).toEqual(["Onboarding"]);
+    expect(await teamA.listExecutions(templateId)).toHaveLength(1);
+    expect(await teamB.listTemplates()).toEqual([]);
+    expect(await teamB.getTemplate(templateId)).toBeNull();
+    expect(await teamB.getExecution(executionId)).toBeNull();
+  });
+
+  it("leaves data stored before organizations with the default organization", async () => {
+    const legacyId = await new TemplatesRepository(docs).create(template("Legacy"));
+
+    expect(await new DataService(DEFAULT_ORGANIZATION_ID, docs).getTemplate(legacyId)).toMatchObject({
+      name: "Legacy",
+    });
+    expect(await new DataService("org_a", docs).getTemplate(legacyId)).toBeNull();
+    expect(() => new DataService("../org_a", docs)).toThrow("Invalid organization id");
+  });
+
+  it("imports the templates kept in Firebase Storage into the default organization once", async () => {
+    const stored = (id: string, name: string): TemplateDocument => ({
+      id,
+      name,
+      scenario,
+      version: "1.0",
+      createdAt: 1,
+      updatedAt: 2,
+    });
+    let listed = 0;
+    const pledStorage = async () => {
+      listed++;
+      return [stored("pled_hiring", "Hiring"), stored("pled_payroll", "Payroll")];
+    };
+    // An earlier import stopped after its first template
+    await new TemplatesRepository(docs).importLegacy(stored("pled_hiring", "Hiring"));
+
+    const data = new DataService(DEFAULT_ORGANIZATION_ID, docs, pledStorage);
+    expect(await data.getTemplate("pled_payroll")).toMatchObject({ name: "Payroll", createdAt: 1 });
+    expect((await data.listTemplates()).filter(t => t.id.startsWith("pled_")).map(t => t.name)).toEqual(
+      expect.arrayContaining(["Hiring", "Payroll"]),
+    );
+    expect(await new DataService("org_a", docs, pledStorage).getTemplate("pled_payroll")).toBeNull();
+
+    // Another process does not bring back a template deleted since
+    await data.deleteTemplate("pled_payroll");
+    expect(await new DataService(DEFAULT_ORGANIZATION_ID, docs, pledStorage).getTemplate("pled_payroll")).toBeNull();
+    expect(listed).toBe(1);
+  });
+});
+
+describe("Organization access", () => {
+  const docs = new FileDocumentStore();
+  const organizations = new OrganizationsRepository(docs);
+  const session = new SessionAuth();
+
+  beforeEach(() => {
+    session.user = null;
+  });
+
+  it("resolves the requested organization, else the oldest membership", async () => {
+    const first = await organizations.create({ name: "Claims", createdBy: "ada" });
+    const second = await organizations.create({ name: "Billing", createdBy: "lin" });
+    // Memberships are ordered by when they were made
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await organizations.setMember(second.id, "ada", "viewer");
+
+    expect(await resolveOrganizationAccess({ id: "ada" }, organizations)).toEqual({
+      organizationId: first.id,
+      role: "admin",
+    });
+    expect(await resolveOrganizationAccess({ id: "ada" }, organizations, second.id)).toEqual({
+      organizationId: second.id,
+      role: "viewer",
+    });
+    expect(await resolveOrganizationAccess({ id: "ada" }, organizations, "org_elsewhere")).toBeNull();
+
+    expect(await resolveOrganizationAccess({ id: "newcomer" }, organizations)).toEqual({
+      organizationId: DEFAULT_ORGANIZATION_ID,
+      role: "viewer",
+    });
+    expect(await resolveOrganizationAccess({ id: "newcomer" }, organizations, first.id)).toBeNull();
+  });
+
+  it("keeps the default organization for users who created their own", async () => {
+    const { id } = await organizations.create({ name: "Actuarial", createdBy: "grace" });
+
+    expect(await resolveOrganizationAccess({ id: "grace" }, organizations)).toEqual({
+      organizationId: id,
+      role: "admin",
+    });
+    expect(await resolveOrganizationAccess({ id: "grace" }, organizations, DEFAULT_ORGANIZATION_ID)).toEqual({
+      organizationId: DEFAULT_ORGANIZATION_ID,
+      role: "viewer",
+    });
+
+    // An explicit membership of the default organization decides the role there
+    await organizations.setMember(DEFAULT_ORGANIZATION_ID, "grace", "editor");
+    expect(await resolveOrganizationAccess({ id: "grace" }, organizations, DEFAULT_ORGANIZATION_ID)).toEqual({
+      organizationId: DEFAULT_ORGANIZATION_ID,
+      role: "editor",
+    });
+  });
+
+  it("enforces roles on route requests", async () => {
+    const claims = await organizations.create({ name: "Claims", createdBy: "grace" });
+    await organizations.setMember(claims.id, "ken", "viewer");
+    await organizations.setMember(claims.id, "mo", "operator");
+    const request = new Request("http://localhost/api/admin/templates", {
+      headers: { "x-organization-id": claims.id },
+    });
+    const platform = { auth: session, docs };
+
+    const anonymous = await requireOrganizationAccess(request, "read", platform).catch(error => error);
+    expect(anonymous).toBeInstanceOf(OrganizationAccessError);
+    expect(accessDeniedResponse(anonymous)!.status).toBe(401);
+
+    session.user = { id: "ken" };
+    expect(await requireOrganizationAccess(request, "read", platform)).toMatchObject({
+      organizationId: claims.id,
+      role: "viewer",
+    });
+    const denied = await requireOrganizationAccess(request, "edit", platform).catch(error => error);
+    expect(accessDeniedResponse(denied)!.status).toBe(403);
+    expect(denied.message).toBe("The viewer role does not allow edit access");
+    await expect(requireOrganizationAccess(request, ["edit", "operate"], platform)).rejects.toThrow(
+      "The viewer role does not allow edit or operate access",
+    );
+
+    session.user = { id: "mo" };
+    await expect(requireOrganizationAccess(request, "operate", platform)).resolves.toMatchObject({ role: "operator" });
+    await expect(requireOrganizationAccess(request, "edit", platform)).rejects.toThrow(OrganizationAccessError);
+    await expect(requireOrganizationAccess(request, ["edit", "operate"], platform)).resolves.toMatchObject({
+      role: "operator",
+    });
+
+    session.user = { id: "stranger" };
+    await expect(requireOrganizationAccess(request, "read", platform)).rejects.toThrow(
+      `Not a member of organization ${claims.id}`,
+    );
+    expect(accessDeniedResponse(new Error("boom"))).toBeNull();
+  });
+
+  it("keeps shared resources to admins of the default organization", async () => {
+    const platform = { auth: session, docs };
+    await organizations.setMember(DEFAULT_ORGANIZATION_ID, "root", "admin");
+
+    session.user = { id: "mallory" };
+    await organizations.create({ name: "Own", createdBy: "mallory" });
+    const denied = await requireDefaultOrganizationAdmin(platform).catch(error => error);
+    expect(accessDeniedResponse(denied)!.status).toBe(403);
+
+    session.user = { id: "root" };
+    await expect(requireDefaultOrganizationAdmin(platform)).resolves.toMatchObject({
+      organizationId: DEFAULT_ORGANIZATION_ID,
+      role: "admin",
+    });
+  });
+});
+
+describe("/api/v1/organizations", () => {
+  const docs = new FileDocumentStore();
+  const organizations = new OrganizationsRepository(docs);
+  const session = new SessionAuth();
+  const handler = createAppRouterHandler(new OrganizationsController(organizations), [
+    createAuthMiddleware(new PlatformIdentityResolver(session, new ApiKeysRepository(docs), organizations)),
+  ]);
+
+  const call = (method: string, path: string, organizationId?: string, body?: unknown) =>
+    handler(
+      new Request(`http://localhost/api/v1/organizations${path}`, {
+        method,
+        headers: {
+          "content-type": "application/json",
+          ...(organizationId && { "x-organization-id": organizationId }),
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      }),
+    );
+
+  it("lets admins manage members and keeps one admin", async () => {
+    session.user = { id: "hedy" };
+    const created = await call("POST", "", undefined, { name: "Underwriting" });
+    expect(created.status).toBe(200);
+    const { id } = (await created.json()).data;
+
+    expect((await call("PUT", `/${id}/members/joan`, id, { role: "editor" })).status).toBe(200);
+    expect((await call("PUT", `/${id}/members/joan`, id, { role: "owner" })).status).toBe(400);
+    expect((await call("PUT", `/${id}/members/hedy`, id, { role: "viewer" })).status).toBe(409);
+    expect((await call("DELETE", `/${id}/members/hedy`, id)).status).toBe(409);
+
+    const members = await call("GET", `/${id}/members`, id);
+    expect((await members.json()).data.map((m: any) => [m.userId, m.role]).sort()).toEqual([
+      ["hedy", "admin"],
+      ["joan", "editor"],
+    ]);
+
+    session.user = { id: "joan" };
+    const listed = await (await call("GET", "")).json();
+    expect(listed.data).toEqual({
+      organizations: [
+        { id: DEFAULT_ORGANIZATION_ID, name: DEFAULT_ORGANIZATION_ID, role: "viewer" },
+        { id, name: "Underwriting", role: "editor" },
+      ],
+      active: { id, role: "editor" },
+    });
+    expect((await call("PUT", `/${id}/members/otto`, id, { role: "viewer" })).status).toBe(403);
+
+    session.user = { id: "otto" };
+    expect((await call("GET", `/${id}/members`, id)).status).toBe(404);
+  });
+});
+
+describe("/api/v1/api-keys", () => {
+  const docs = new FileDocumentStore();
+  const organizations = new OrganizationsRepository(docs);
+  const apiKeys = new ApiKeysRepository(docs);
+  const session = new SessionAuth();
+  const handler = createAppRouterHandler(new ApiKeysController(apiKeys), [
+    createAuthMiddleware(new PlatformIdentityResolver(session, apiKeys, organizations)),
+  ]);
+
+  const createKey = () =>
+    handler(
+      new Request("http://localhost/api/v1/api-keys", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name: "Orders", scopes: ["events:write"] }),
+      }),
+    );
+
+  it("does not let a user without any membership create API keys", async () => {
+    session.user = { id: "first-sign-in" };
+    const denied = await createKey();
+    expect(denied.status).toBe(403);
+    expect(await apiKeys.listByOrganization(DEFAULT_ORGANIZATION_ID)).toEqual([]);
+
+    const { id } = await organizations.create({ name: "Orders", createdBy: "first-sign-in" });
+    expect((await createKey()).status).toBe(200);
+    expect(await apiKeys.listByOrganization(id)).toHaveLength(1);
+  });
+});
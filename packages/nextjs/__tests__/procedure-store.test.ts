@@ -0,0 +1,178 @@
+import { FileDocumentStore } from "../lib/platform/adapters/file/fileAdapter";
+import { DocumentExistsError, RevisionConflictError } from "../lib/platform/ports";
+import { ProcedureNotFoundError, ProceduresRepository } from "../lib/platform/repositories";
+import fs from "fs";
+import path from "path";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+const storageUser = `test-procedures-${process.pid}`;
+process.env.PLED_STORAGE_USER = storageUser;
+
+const newInstance = (instanceId: string) => ({
+  instanceId,
+  templateId: "hiring_process",
+  variables: { candidate: { name: "Ada" } },
+  executedActions: [],
+  startDate: "2026-01-05T09:00:00.000Z",
+});
+
+describe("Procedure persistence", () => {
+  let procedures: ProceduresRepository;
+
+  beforeEach(async () => {
+    procedures = new ProceduresRepository(new FileDocumentStore());
+    await procedures.create(newInstance("proc_1"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(path.join(process.cwd(), "data", "pled", storageUser), { recursive: true, force: true });
+  });
+
+  it("keeps every concurrently appended event, in order", async () => {
+    await Promise.all(
+      ["offer_sent", "offer_signed", "started"].map(type =>
+        procedures.appendEvent("proc_1", { type, timestamp: "2026-01-05T10:00:00.000Z" }),
+      ),
+    );
+
+    const { history } = await procedures.getWithHistory("proc_1");
+    expect(history.events.map(event => event.type)).toEqual(["offer_sent", "offer_signed", "started"]);
+    await expect(
+      procedures.appendEvent("proc_1", { ...history.events[0], recordedAt: undefined }),
+    ).rejects.toBeInstanceOf(DocumentExistsError);
+
+    await procedures.delete("proc_1");
+  });
+
+  it("rejects an update made against a stale revision", async () => {
+    await procedures.updateAt("proc_1", 0, { currentState: { name: "review", enteredAt: "2026-01-05" } });
+
+    const stale = procedures.updateAt("proc_1", 0, { variables: {} });
+    await expect(stale).rejects.toBeInstanceOf(RevisionConflictError);
+    await expect(stale).rejects.toMatchObject({ expectedRevision: 0, actualRevision: 1 });
+    expect((await procedures.get("proc_1")).variables).toEqual({ candidate: { name: "Ada" } });
+
+    await procedures.delete("proc_1");
+  });
+
+  it("retries read-modify-write updates that lose a race", async () => {
+    await Promise.all(
+      ["screen", "interview", "offer"].map(actionId =>
+        procedures.recordAction("proc_1", { actionId, state: "review", trigger: "next", timestamp: "t" }),
+      ),
+    );
+
+    const instance = await procedures.get("proc_1");
+    expect(instance.executedActions.map(action => action.actionId).sort()).toEqual(["interview", "offer", "screen"]);
+    expect(instance.revision).toBe(3);
+
+    await procedures.delete("proc_1");
+  });
+
+  it("reverts events together with the messages they produced", async () => {
+    const first = await procedures.appendEvent("proc_1", { type: "offer_sent", timestamp: "t1" });
+    const second = await procedures.appendEvent("proc_1", { type: "offer_signed", timestamp: "t2" });
+    await procedures.appendMessage("proc_1", { type: "OFFER_SENT", fromEvent: first });
+    await procedures.appendMessage("proc_1", { type: "OFFER_SIGNED", fromEvent: second });
+
+    await procedures.revertEvents("proc_1", [second]);
+
+    const { history } = await procedures.getWithHistory("proc_1");
+    expect(history.events.map(event => event.id)).toEqual([first]);
+    expect(history.messages.map(message => message.type)).toEqual(["OFFER_SENT"]);
+
+    await procedures.delete("proc_1");
+    expect(await procedures.getWithHistory("proc_1")).toBeNull();
+    expect(await procedures.listEvents("proc_1")).toEqual([]);
+  });
+
+  it("rolls back a change set when one of its writes fails", async () => {
+    const kept = await procedures.appendEvent("proc_1", { type: "offer_sent", timestamp: "t1" });
+    await procedures.appendMessage("proc_1", { type: "OFFER_SENT", fromEvent: kept });
+    // Messages cannot be written, so the change fails after the instance and the events
+    class FailingMessagesStore extends FileDocumentStore {
+      create<T extends { id?: string }>(collectionPath: string, data: T) {
+        if (collectionPath.endsWith("/messages")) return Promise.reject(new Error("disk full"));
+        return super.create(collectionPath, data);
+      }
+    }
+    const failing = new ProceduresRepository(new FailingMessagesStore());
+
+    const change = failing.applyChanges("proc_1", {
+      change: () => ({ currentState: { name: "offer", enteredAt: "t2" } }),
+      events: [{ type: "offer_signed", timestamp: "t2" }],
+      messages: [{ type: "OFFER_SIGNED" }],
+      revertEventIds: [kept],
+    });
+    await expect(change).rejects.toThrow("disk full");
+
+    const { history, ...instance } = await procedures.getWithHistory("proc_1");
+    expect(instance.currentState).toBeUndefined();
+    expect(history.events.map(event => event.id)).toEqual([kept]);
+    expect(history.messages.map(message => message.type)).toEqual(["OFFER_SENT"]);
+
+    await expect(
+      failing.applyChanges("proc_1", { expectedRevision: 0, events: [{ type: "late" }] }),
+    ).rejects.toBeInstanceOf(RevisionConflictError);
+    await expect(failing.applyChanges("proc_missing", { events: [] })).rejects.toBeInstanceOf(ProcedureNotFoundError);
+    expect(await procedures.listEvents("proc_1")).toHaveLength(1);
+
+    await procedures.delete("proc_1");
+  });
+
+  it("imports instances stored with an embedded history once", async () => {
+    const legacy = {
+      ...newInstance("proc_legacy"),
+      history: {
+        events: [
+          { id: "evt_1", type: "offer_sent", timestamp: "t1" },
+          { id: "evt_1", type: "offer_signed", timestamp: "t2" },
+        ],
+        messages: [{ id: "msg_1", type: "OFFER_SENT", fromEvent: "evt_1" }],
+        executedActions: [{ actionId: "notify", state: "offer", trigger: "OFFER_SENT", timestamp: "t1" }],
+      },
+    };
+
+    expect(await procedures.importLegacy(legacy)).toBe(true);
+    expect(await procedures.importLegacy(legacy)).toBe(false);
+
+    const { history, executedActions, ...imported } = (await procedures.getWithHistory("proc_legacy")) as any;
+    expect(executedActions).toBeUndefined();
+    expect(imported).toMatchObject({ instanceId: "proc_legacy", revision: 0 });
+    expect(history.events.map(event => event.type)).toEqual(["offer_sent", "offer_signed"]);
+    expect(history.events[1].id).not.toBe("evt_1");
+    expect(history.messages).toMatchObject([{ id: "msg_1", fromEvent: "evt_1" }]);
+    expect(history.executedActions).toHaveLength(1);
+
+    await procedures.delete("proc_legacy");
+    await procedures.delete("proc_1");
+  });
+
+  it("finishes an import that was cut short without duplicating its history", async () => {
+    const legacy = {
+      ...newInstance("proc_partial"),
+      history: {
+        events: [
+          { id: "evt_1", type: "offer_sent", timestamp: "t1" },
+          { id: "evt_1", type: "offer_signed", timestamp: "t2" },
+          { type: "started", timestamp: "t3" },
+        ],
+        messages: [{ id: "msg_1", type: "OFFER_SENT", fromEvent: "evt_1" }],
+        executedActions: [],
+      },
+    };
+    // An earlier run stored the first events, then stopped before the instance
+    await procedures.appendEvent("proc_partial", legacy.history.events[0]);
+    await procedures.appendEvent("proc_partial", { ...legacy.history.events[1], id: "evt_1_1" });
+    expect(await procedures.getWithHistory("proc_partial")).toBeNull();
+
+    expect(await procedures.importLegacy(legacy)).toBe(true);
+
+    const { history } = await procedures.getWithHistory("proc_partial");
+    expect(history.events.map(event => event.type)).toEqual(["offer_sent", "offer_signed", "started"]);
+    expect(history.messages.map(message => message.id)).toEqual(["msg_1"]);
+
+    await procedures.delete("proc_partial");
+    await procedures.delete("proc_1");
+  });
+});
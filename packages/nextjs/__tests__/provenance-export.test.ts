@@ -0,0 +1,121 @@
+import {
+  exportGraphToProv,
+  exportLineageToProv,
+  exportOpenLineageEvents,
+  importProvJson,
+  toProvN,
+} from "../lib/simulation/provenance";
+import { TokenGenealogyEngine } from "../lib/simulation/tokenGenealogyEngine";
+import { buildTokenGraphFromHistory } from "../lib/simulation/tokenGraph";
+import type { HistoryEntry } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+let sequence = 0;
+const entry = (fields: Partial<HistoryEntry> & Pick<HistoryEntry, "nodeId" | "action">): HistoryEntry => ({
+  timestamp: 1,
+  epochTimestamp: 0,
+  sequence: sequence++,
+  state: "idle",
+  ...fields,
+});
+
+const summary = (id: string, originalValue: any) => ({ id, originNodeId: "source1", originalValue, createdAt: 1 });
+
+// a1 + a2 summed into s1, which process1 turns into t1; b1 is unrelated
+const activityLog = (): HistoryEntry[] => [
+  entry({ nodeId: "source1", action: "CREATED", value: 2, details: "Token a1 created" }),
+  entry({ nodeId: "source1", action: "CREATED", value: 3, details: "Token a2 created" }),
+  entry({ nodeId: "source1", action: "CREATED", value: { amount: 7 }, details: "Token b1 created" }),
+  entry({
+    timestamp: 2,
+    nodeId: "queue1",
+    action: "AGGREGATED_SUM",
+    value: 5,
+    details: "Token s1 aggregated",
+    sourceTokenIds: ["a1", "a2"],
+    sourceTokenSummaries: [summary("a1", 2), summary("a2", 3)],
+  }),
+  entry({
+    timestamp: 3,
+    nodeId: "process1",
+    action: "CREATED",
+    value: 10,
+    details: "Token t1 created",
+    sourceTokenIds: ["s1"],
+    sourceTokenSummaries: [{ ...summary("s1", 5), originNodeId: "queue1", createdAt: 2 }],
+  }),
+];
+
+describe("PROV export", () => {
+  it("round-trips a run through PROV-JSON", () => {
+    const log = activityLog();
+    const document = exportGraphToProv(buildTokenGraphFromHistory(log));
+    expect(Object.keys(document.entity)).toEqual(["token:a1", "token:a2", "token:b1", "token:s1", "token:t1"]);
+    expect(Object.values(document.wasDerivedFrom).map(relation => relation["prov:usedEntity"])).toEqual([
+      "token:a1",
+      "token:a2",
+      "token:s1",
+    ]);
+
+    const imported = importProvJson(JSON.stringify(document));
+    expect(exportGraphToProv(imported)).toEqual(document);
+    expect(imported.getNode("b1")!.value).toEqual({ amount: 7 });
+
+    const original = new TokenGenealogyEngine(log);
+    const restored = TokenGenealogyEngine.fromGraph(imported);
+    expect(restored.calculateSourceContributions("t1")).toEqual(original.calculateSourceContributions("t1"));
+    expect(restored.buildCompleteLineage("s1").allAncestors.map(ancestor => ancestor.operation)).toEqual(
+      original.buildCompleteLineage("s1").allAncestors.map(ancestor => ancestor.operation),
+    );
+  });
+
+  it("exports one token's lineage with its source contributions, also as PROV-N", () => {
+    const lineage = new TokenGenealogyEngine(activityLog()).buildCompleteLineage("s1");
+    const document = exportLineageToProv(lineage);
+
+    expect(Object.keys(document.entity).sort()).toEqual(["token:a1", "token:a2", "token:s1", "token:t1"]);
+    expect(Object.values(document.wasInfluencedBy!)).toEqual([
+      expect.objectContaining({ "prov:influencer": "token:a1", "sim:proportionalContribution": 0.4 }),
+      expect.objectContaining({ "prov:influencer": "token:a2", "sim:proportionalContribution": 0.6 }),
+    ]);
+
+    const provN = toProvN(document);
+    expect(provN.startsWith("document\n  prefix token <urn:simulation:token:>")).toBe(true);
+    expect(provN.endsWith("endDocument")).toBe(true);
+    expect(provN).toContain(
+      `entity(token:a1, [prov:type='sim:Token', prov:value=2, sim:createdAt=1, sim:originNodeId="source1"])`,
+    );
+    expect(provN).toMatch(/wasDerivedFrom\(_:der\d+; token:s1, token:a1, op:s1, -, -, \[sim:weight=1\]\)/);
+    expect(provN).toContain(`sim:contribution="0.4" %% xsd:double`);
+  });
+
+  it("rejects derivations of unknown tokens", () => {
+    const document = exportGraphToProv(buildTokenGraphFromHistory(activityLog()));
+    delete document.entity["token:a1"];
+    expect(() => importProvJson(document)).toThrow("refers to an unknown token or operation");
+  });
+});
+
+describe("OpenLineage export", () => {
+  it("emits one run event per node, linked to the simulation run", () => {
+    const graph = buildTokenGraphFromHistory(activityLog());
+    const options = { runId: "5f0c8c3e-2b7a-4d1e-9a41-0c6f3b8e2d10", eventTime: "2026-01-01T00:00:00.000Z" };
+    const events = exportOpenLineageEvents(graph, options);
+
+    expect(events.map(event => event.job.name)).toEqual([
+      "simulation.source1",
+      "simulation.queue1",
+      "simulation.process1",
+    ]);
+    const queue = events[1];
+    expect(queue.inputs.map(dataset => dataset.name)).toEqual(["token:a1", "token:a2"]);
+    expect(queue.outputs[0]).toMatchObject({
+      name: "token:s1",
+      facets: { tokenProvenance: { value: 5, operation: "aggregation", method: "sum", derivedFrom: ["a1", "a2"] } },
+    });
+    expect(queue.run.facets!.parent).toMatchObject({ run: { runId: options.runId }, job: { name: "simulation" } });
+    expect(queue.run.runId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(new Set(events.map(event => event.run.runId)).size).toBe(3);
+    expect(exportOpenLineageEvents(graph, options)).toEqual(events);
+  });
+});
@@ -0,0 +1,125 @@
+import { aggregateTokens, percentile } from "../lib/simulation/aggregation";
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { AggregationConfig, Token } from "../lib/simulation/types";
+import { validateScenario } from "../lib/simulation/validation";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const tokens = (...values: number[]): Token[] =>
+  values.map((value, i) => ({ id: `t${i}`, value, createdAt: 0, originNodeId: "source1", history: [] }));
+
+const config = (method: string, extra: Partial<AggregationConfig> = {}): AggregationConfig => ({
+  method,
+  formula: "",
+  trigger: { type: "time", window: 1 },
+  ...extra,
+});
+
+// A constant source emitting 1, 2, 3... every tick into a queue
+const queueScenario = (aggregation: Record<string, unknown>, source: Record<string, unknown> = {}) => ({
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "csv", valueMin: 0, valueMax: 0, csv: { data: "v\n1\n2\n3\n4\n5\n6", column: "v" } },
+      outputs: [
+        { name: "output", destinationNodeId: "queue1", destinationInputName: "input", interface: simpleInterface },
+      ],
+      ...source,
+    },
+    {
+      nodeId: "queue1",
+      displayName: "Queue",
+      position: { x: 100, y: 0 },
+      type: "Queue",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+      aggregation: { method: "sum", formula: "sum(input)", ...aggregation },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "queue1", interface: simpleInterface, required: true }],
+    },
+  ],
+});
+
+const aggregations = (engine: SimulationEngine) =>
+  engine
+    .getState()
+    .globalActivityLog.filter(entry => entry.nodeId === "queue1" && entry.action === "processing")
+    .map(entry => ({ value: entry.value, sources: entry.sourceTokenIds?.length }));
+
+describe("aggregation methods", () => {
+  it("computes order statistics and spread", () => {
+    const window = tokens(4, 1, 3, 2);
+    expect(aggregateTokens(config("min"), window).value).toBe(1);
+    expect(aggregateTokens(config("max"), window).value).toBe(4);
+    expect(aggregateTokens(config("median"), window).value).toBe(2.5);
+    expect(aggregateTokens(config("percentile", { percentile: 100 }), window).value).toBe(4);
+    expect(aggregateTokens(config("stddev"), window).value).toBeCloseTo(Math.sqrt(1.25));
+    expect(percentile([10, 20, 30, 40, 50], 90)).toBe(46);
+  });
+
+  it("evaluates custom formulas over the window", () => {
+    const result = aggregateTokens(config("formula", { formula: "sum(input) / count + median(values)" }), tokens(2, 4));
+    expect(result).toEqual({ value: 6, error: null });
+    expect(aggregateTokens(config("formula", { formula: "nope(input)" }), tokens(1)).error).toBeTruthy();
+  });
+});
+
+describe("aggregation triggers", () => {
+  it("emits every N tokens with a count trigger", () => {
+    const engine = SimulationEngine.fromScenarioData(queueScenario({ trigger: { type: "count", window: 2 } }));
+    engine.runUntil(8);
+    expect(aggregations(engine)).toEqual([
+      { value: 3, sources: 2 },
+      { value: 7, sources: 2 },
+      { value: 11, sources: 2 },
+    ]);
+  });
+
+  it("overlaps sliding count windows", () => {
+    const engine = SimulationEngine.fromScenarioData(
+      queueScenario({ trigger: { type: "count", window: 3, windowType: "sliding", slide: 1 } }),
+    );
+    engine.runUntil(8);
+    expect(aggregations(engine).map(a => a.value)).toEqual([6, 9, 12]);
+  });
+
+  it("closes a session after an inactivity gap", () => {
+    // Three tokens, then silence
+    const engine = SimulationEngine.fromScenarioData(
+      queueScenario(
+        { method: "max", trigger: { type: "session", window: 2 } },
+        {
+          generation: { type: "csv", valueMin: 0, valueMax: 0, csv: { data: "v\n5\n9\n7", column: "v", loop: false } },
+        },
+      ),
+    );
+    engine.runUntil(10);
+    expect(aggregations(engine)).toEqual([{ value: 9, sources: 3 }]);
+
+    const details = engine.getState().globalActivityLog.find(e => e.action === "processing")?.aggregationDetails;
+    expect(details?.method).toBe("max");
+    expect(details?.inputTokens.map(t => t.contribution)).toEqual([0, 1, 0]);
+  });
+
+  it("rejects unknown methods and incomplete configs", () => {
+    expect(
+      validateScenario(queueScenario({ method: "mode", trigger: { type: "time", window: 1 } })).errors[0],
+    ).toContain('Queue "queue1": unknown aggregation method');
+    expect(
+      validateScenario(queueScenario({ method: "percentile", trigger: { type: "count", window: 2 } })).errors,
+    ).toHaveLength(1);
+  });
+});
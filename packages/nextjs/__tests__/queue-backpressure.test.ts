@@ -0,0 +1,180 @@
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import type {
+  DataSourceState,
+  FSMProcessNodeState,
+  ProcessNodeState,
+  QueueState,
+  Scenario,
+  SinkState,
+} from "../lib/simulation/types";
+import { validateScenario } from "../lib/simulation/validation";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const source = (destinationNodeId: string) => ({
+  nodeId: "source1",
+  displayName: "Source",
+  position: { x: 0, y: 0 },
+  type: "DataSource",
+  interval: 1,
+  generation: { type: "csv", valueMin: 0, valueMax: 0, csv: { data: "v\n1\n2\n3\n4\n5\n6\n7\n8", column: "v" } },
+  outputs: [{ name: "output", destinationNodeId, destinationInputName: "input", interface: simpleInterface }],
+});
+
+const sink = (nodeId: string, sourceNodeId: string) => ({
+  nodeId,
+  displayName: nodeId,
+  position: { x: 200, y: 0 },
+  type: "Sink",
+  inputs: [{ name: "input", nodeId: sourceNodeId, interface: simpleInterface, required: true }],
+});
+
+// A source emitting 1, 2, 3... every tick into a queue holding at most 2 tokens
+const capacityScenario = (queue: Record<string, unknown>, producer = source("queue1"), extraNodes: object[] = []) => ({
+  version: "3.0",
+  nodes: [
+    producer,
+    ...extraNodes,
+    {
+      nodeId: "queue1",
+      displayName: "Queue",
+      position: { x: 100, y: 0 },
+      type: "Queue",
+      capacity: 2,
+      inputs: [{ name: "input", nodeId: producer.nodeId, interface: simpleInterface, required: true }],
+      aggregation: { method: "sum", formula: "sum(input)", trigger: { type: "count", window: 10 } },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+        { name: "spill", destinationNodeId: "sink2", destinationInputName: "input", interface: simpleInterface },
+      ],
+      ...queue,
+    },
+    sink("sink1", "queue1"),
+    sink("sink2", "queue1"),
+  ],
+});
+
+const run = (scenario: object, ticks: number) => {
+  const engine = SimulationEngine.fromScenarioData(scenario);
+  engine.runUntil(ticks);
+  return engine.getState();
+};
+
+const buffered = (state: ReturnType<typeof run>) =>
+  (state.nodeStates.queue1 as QueueState).inputBuffer.map(token => token.value);
+
+describe("queue overflow policies", () => {
+  it("drops the newest or the oldest token", () => {
+    const newest = run(capacityScenario({}), 5);
+    expect(buffered(newest)).toEqual([1, 2]);
+    expect((newest.nodeStates.queue1 as QueueState).droppedCount).toBe(3);
+
+    const oldest = run(capacityScenario({ overflowPolicy: "drop-oldest" }), 5);
+    expect(buffered(oldest)).toEqual([4, 5]);
+    expect((oldest.nodeStates.queue1 as QueueState).droppedCount).toBe(3);
+    expect(oldest.globalActivityLog.filter(entry => entry.action === "token_dropped")).toHaveLength(3);
+  });
+
+  it("sends overflowing tokens to the overflow output only", () => {
+    const state = run(capacityScenario({ overflowPolicy: "overflow", overflowOutput: "spill" }), 5);
+    expect(buffered(state)).toEqual([1, 2]);
+    expect((state.nodeStates.queue1 as QueueState).overflowCount).toBe(3);
+    expect((state.nodeStates.sink2 as SinkState).consumedTokens?.map(token => token.value)).toEqual([3, 4, 5]);
+    expect((state.nodeStates.sink1 as SinkState).consumedTokenCount ?? 0).toBe(0);
+  });
+
+  it("makes a DataSource hold its token while the queue is full", () => {
+    const state = run(capacityScenario({ overflowPolicy: "block" }), 5);
+    const sourceState = state.nodeStates.source1 as DataSourceState;
+    expect(buffered(state)).toEqual([1, 2]);
+    expect(sourceState.emittedCount).toBe(3);
+    expect(sourceState.blockedDeliveries?.map(delivery => delivery.token.value)).toEqual([3]);
+    expect((state.nodeStates.queue1 as QueueState).blockedCount).toBe(1);
+    expect(state.globalActivityLog.some(entry => entry.action === "token_dropped")).toBe(false);
+  });
+
+  it("resumes blocked producers in order once the queue drains", () => {
+    const state = run(
+      capacityScenario({
+        overflowPolicy: "block",
+        aggregation: { method: "sum", formula: "", trigger: { type: "count", window: 2 } },
+      }),
+      8,
+    );
+    const aggregations = state.globalActivityLog.filter(e => e.nodeId === "queue1" && e.action === "processing");
+    expect(aggregations.map(e => e.value)).toEqual([3, 7, 11]);
+    expect(state.globalActivityLog.some(entry => entry.action === "unblocked")).toBe(true);
+  });
+
+  it("holds ProcessNode outputs and keeps buffering its inputs", () => {
+    const process = {
+      nodeId: "process1",
+      displayName: "Process",
+      position: { x: 50, y: 0 },
+      type: "ProcessNode",
+      inputs: [{ name: "input", nodeId: "source1", alias: "reading", interface: simpleInterface, required: true }],
+      outputs: [
+        {
+          name: "out",
+          destinationNodeId: "queue1",
+          destinationInputName: "input",
+          interface: simpleInterface,
+          transformation: { formula: "readingValue * 10", fieldMapping: {} },
+        },
+      ],
+    };
+    const state = run(capacityScenario({ overflowPolicy: "block" }, source("process1") as any, [process]), 5);
+    expect(buffered(state)).toEqual([10, 20]);
+    const processState = state.nodeStates.process1 as ProcessNodeState;
+    expect(processState.blockedDeliveries?.map(delivery => delivery.token.value)).toEqual([30]);
+    expect(processState.inputBuffers.source1.map(token => token.value)).toEqual([4, 5]);
+  });
+
+  it("lets a blocked FSM react to the tokens it buffered once it is unblocked", () => {
+    const relay = {
+      nodeId: "fsm1",
+      displayName: "Relay",
+      position: { x: 50, y: 0 },
+      type: "FSMProcessNode",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+      outputs: [
+        { name: "out", destinationNodeId: "queue1", destinationInputName: "input", interface: simpleInterface },
+      ],
+      fsm: {
+        states: [{ name: "relaying", onEntry: [{ action: "emit", target: "out", value: 1 }] }],
+        initialState: "relaying",
+        transitions: [{ from: "relaying", to: "relaying", trigger: "token_received" }],
+      },
+    };
+    // Entry actions are not part of the scenario schema, so the engine is built without validation
+    const engine = new SimulationEngine(
+      capacityScenario(
+        { overflowPolicy: "block", aggregation: { method: "sum", formula: "", trigger: { type: "time", window: 3 } } },
+        source("fsm1") as any,
+        [relay],
+      ) as Scenario,
+    );
+    engine.runUntil(8);
+    const state = engine.getState();
+    const relayLog = (action: string) =>
+      state.globalActivityLog
+        .filter(entry => entry.nodeId === "fsm1" && entry.action === action)
+        .map(entry => entry.timestamp);
+
+    // The token received at t=4, while the queue was full, is reacted to when it drains at t=5
+    expect(relayLog("token_received")).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(relayLog("unblocked")).toEqual([5]);
+    expect(relayLog("fsm_transition")).toEqual([1, 2, 3, 5, 5]);
+    expect((state.nodeStates.fsm1 as FSMProcessNodeState).deferredTokenReceipts).toBe(3);
+  });
+
+  it("requires an existing overflow output", () => {
+    expect(validateScenario(capacityScenario({ overflowPolicy: "overflow" })).errors).toEqual([
+      'Queue "queue1": overflow policy requires an overflowOutput.',
+    ]);
+    expect(
+      validateScenario(capacityScenario({ overflowPolicy: "overflow", overflowOutput: "missing" })).errors,
+    ).toEqual(['Queue "queue1": overflowOutput "missing" does not exist.']);
+  });
+});
@@ -0,0 +1,126 @@
+import { type CoreEvent, compareScenarioResults, scenarioManager } from "../lib/simulation/eventSourcing";
+import { alignNodeEntries, compareRuns } from "../lib/simulation/scenarioComparison";
+import type { AnyNode, HistoryEntry, Scenario } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+// A random source summed by a queue every `window` time units
+const model = (window: number) =>
+  ({
+    version: "3.0",
+    nodes: [
+      {
+        nodeId: "source1",
+        displayName: "Source",
+        position: { x: 0, y: 0 },
+        type: "DataSource",
+        interval: 1,
+        generation: { type: "random", valueMin: 1, valueMax: 100 },
+        outputs: [
+          { name: "output", destinationNodeId: "queue1", destinationInputName: "input", interface: simpleInterface },
+        ],
+      },
+      {
+        nodeId: "queue1",
+        displayName: "Queue",
+        position: { x: 100, y: 0 },
+        type: "Queue",
+        inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+        aggregation: { method: "sum", formula: "sum(input)", trigger: { type: "time", window } },
+        outputs: [
+          { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+        ],
+      },
+      {
+        nodeId: "sink1",
+        displayName: "Sink",
+        position: { x: 200, y: 0 },
+        type: "Sink",
+        inputs: [{ name: "input", nodeId: "queue1", interface: simpleInterface, required: true }],
+      },
+    ],
+  }) as Scenario;
+
+const coreEvent = (type: CoreEvent["type"], timestamp: number, payload: CoreEvent["payload"] = {}): CoreEvent => ({
+  id: `${type}-${timestamp}`,
+  timestamp,
+  realTimestamp: 0,
+  type,
+  payload: { simulationTime: timestamp, ...payload },
+  metadata: { eventSequence: timestamp, sessionId: "test", version: "1.0" },
+});
+
+const recordScenario = () => {
+  const scenario = scenarioManager.createScenario("A/B", model(3), undefined, { seed: 9, startEpoch: 0 });
+  scenarioManager.addEventToScenario(scenario.id, coreEvent("simulation_start", 0));
+  for (let time = 1; time <= 12; time++) scenarioManager.addEventToScenario(scenario.id, coreEvent("timer_tick", time));
+  // A recorded upgrade must not replace the models under comparison
+  scenarioManager.addEventToScenario(scenario.id, coreEvent("model_upgrade", 12, { modelDefinition: model(1) }));
+  return scenario;
+};
+
+describe("compareScenarioResults", () => {
+  it("finds no divergence between identical models", async () => {
+    const scenario = recordScenario();
+    const comparison = await compareScenarioResults(scenario.id, model(3), model(3));
+
+    expect(comparison.resultsA.derivedEvents.length).toBeGreaterThan(0);
+    expect(comparison.resultsA.derivedEvents).toEqual(comparison.resultsB.derivedEvents);
+    expect(comparison.nodeDivergences).toEqual([]);
+    expect(comparison.firstDivergentToken).toBeNull();
+    expect(comparison.kpiDeltas.every(kpi => kpi.delta === 0)).toBe(true);
+  });
+
+  it("reports per-node divergences, the first divergent token and KPI deltas", async () => {
+    const scenario = recordScenario();
+    const comparison = await compareScenarioResults(scenario.id, model(3), model(4));
+
+    // Both models draw the same source values; only the aggregation differs
+    expect(comparison.nodeDivergences.map(divergence => divergence.nodeId)).not.toContain("source1");
+    expect(comparison.nodeDivergences[0].nodeId).toBe("queue1");
+    const divergedAt = comparison.nodeDivergences[0].firstDivergence.timestamp;
+    expect(comparison.firstDivergentToken).toMatchObject({ nodeId: "queue1", timestamp: divergedAt });
+
+    const consumed = comparison.kpiDeltas.find(kpi => kpi.name === "tokensConsumed")!;
+    expect(consumed.valueA).toBe(3);
+    expect(consumed.valueB).toBe(2);
+    expect(consumed.delta).toBe(-1);
+
+    const rows = alignNodeEntries(comparison.resultsA.derivedEvents, comparison.resultsB.derivedEvents, "queue1", {
+      fromTime: divergedAt,
+      limit: 5,
+    });
+    expect(rows).toHaveLength(5);
+    expect(rows[0].timestamp).toBe(divergedAt);
+    expect(rows.some(row => row.differs)).toBe(true);
+  });
+
+  it("rejects unknown scenarios", async () => {
+    await expect(compareScenarioResults("missing", model(3), model(3))).rejects.toThrow("Scenario missing not found");
+  });
+});
+
+describe("compareRuns", () => {
+  it("compares runs whose combined history is too long to spread into Math.min", () => {
+    const consumed = (count: number): HistoryEntry[] =>
+      Array.from({ length: count }, (_, i) => ({
+        timestamp: i + 1,
+        epochTimestamp: i + 1,
+        sequence: i,
+        nodeId: "sink1",
+        action: "token_consumed",
+        state: "idle",
+        tokenCreatedAt: i,
+      }));
+    const nodes = [{ nodeId: "sink1", displayName: "Sink", type: "Sink" } as AnyNode];
+
+    const result = compareRuns(
+      { derivedEvents: consumed(80_000), nodes, finalTime: 80_000 },
+      { derivedEvents: consumed(80_000), nodes, finalTime: 80_000 },
+    );
+    expect(result.resultsA.statistics.startTime).toBe(1);
+    expect(result.resultsA.statistics.endTime).toBe(80_000);
+    expect(result.kpiDeltas.every(delta => delta.delta === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import { detectScenarioVersion, migrateScenario } from "../lib/simulation/scenarioMigration";
+import { validateScenario } from "../lib/simulation/validation";
+import sampleScenario from "../lib/workflow/examples/sample-scenario.json";
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+
+describe("Scenario migration", () => {
+  it("upgrades the v1 sample scenario so it validates", () => {
+    expect(validateScenario(sampleScenario).errors).not.toEqual([]);
+    expect(detectScenarioVersion(sampleScenario)).toBe("1.0");
+
+    const result = migrateScenario(sampleScenario);
+
+    expect(result.errors).toEqual([]);
+    expect(result).toMatchObject({ fromVersion: "1.0", toVersion: "3.0" });
+    const nodes = Object.fromEntries(result.scenario!.nodes.map(node => [node.nodeId, node as any]));
+
+    expect(nodes.DataSource_A).toMatchObject({
+      position: { x: 100, y: 100 },
+      generation: { type: "uniform", valueMin: 1, valueMax: 10 },
+      outputs: [{ name: "output", destinationNodeId: "Queue_B", destinationInputName: "input" }],
+    });
+    expect(nodes.Queue_B).toMatchObject({
+      position: { x: 400, y: 100 },
+      inputs: [{ name: "input", interface: { type: "SimpleValue" } }],
+      aggregation: { method: "sum", formula: "sum(input.data.value)", trigger: { type: "time", window: 10 } },
+      capacity: 10,
+      outputs: [{ destinationNodeId: "Process_C", destinationInputName: "Queue_B" }],
+    });
+    expect(nodes.Process_C.inputs).toEqual([
+      {
+        name: "Queue_B",
+        nodeId: "Queue_B",
+        sourceOutputName: "output",
+        interface: { type: "AggregationResult", requiredFields: ["data.aggregatedValue"] },
+        required: true,
+      },
+    ]);
+    expect(nodes.Process_C.outputs.map((output: any) => [output.name, output.transformation.formula])).toEqual([
+      ["output1", "inputs.Queue_B.value + 10"],
+      ["output2", "inputs.Queue_B.value * 0.5"],
+    ]);
+    expect(nodes.Sink_F.position).toEqual({ x: 1300, y: 100 });
+
+    expect(result.notes.filter(note => note.nodeId === "DataSource_X").map(note => note.message)).toEqual([
+      "Values are drawn uniformly between valueMin and valueMax.",
+    ]);
+    expect(result.notes.every(note => note.step === "1.0 → 3.0")).toBe(true);
+  });
+
+  it("reports inputs that disagree with the connections", () => {
+    const result = migrateScenario({
+      nodes: [
+        {
+          nodeId: "a",
+          type: "DataSource",
+          displayName: "A",
+          interval: 1,
+          valueMin: 0,
+          valueMax: 1,
+          destinationNodeId: "p",
+        },
+        {
+          nodeId: "b",
+          type: "DataSource",
+          displayName: "B",
+          interval: 1,
+          valueMin: 0,
+          valueMax: 1,
+          destinationNodeId: "s",
+        },
+        {
+          nodeId: "p",
+          type: "ProcessNode",
+          displayName: "P",
+          inputNodeIds: ["b"],
+          outputs: [{ formula: "inputs.a.value", destinationNodeId: "s" }],
+        },
+        { nodeId: "s", type: "Sink", displayName: "S" },
+      ],
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.scenario!.nodes[2]).toMatchObject({
+      inputs: [{ name: "b" }, { name: "a", sourceOutputName: "output" }],
+    });
+    expect(result.notes.filter(note => note.nodeId === "p").map(note => note.message)).toEqual([
+      'Input from "b" has no connection: it sends its tokens to "s".',
+      'Added an input for "a", which sends tokens here but is not in inputNodeIds.',
+    ]);
+  });
+
+  it("leaves current scenarios alone and reports what cannot be migrated", () => {
+    const current = JSON.parse(fs.readFileSync(path.join(process.cwd(), "public", "scenario.json"), "utf-8"));
+    expect(migrateScenario(current)).toMatchObject({ fromVersion: "3.0", toVersion: "3.0", notes: [], errors: [] });
+
+    expect(migrateScenario({ version: "2.0", nodes: [] }).errors).toEqual([
+      "No migration from scenario version 2.0 to 3.0.",
+    ]);
+
+    const broken = migrateScenario({ version: "1.0", nodes: [{ nodeId: "q", type: "Queue", displayName: "Q" }] });
+    expect(broken).toMatchObject({ scenario: null, toVersion: "1.0" });
+    expect(broken.errors[0]).toMatch(/^1\.0 → 3\.0: nodes\.0/);
+  });
+});
@@ -0,0 +1,107 @@
+import { JsonPatchError, applyJsonPatch, previewScenarioPatch } from "../lib/simulation/scenarioPatch";
+import type { Scenario } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const scenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 2,
+      generation: { type: "uniform", valueMin: 1, valueMax: 10 },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 300, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+    },
+  ],
+} as Scenario;
+
+describe("JSON Patch", () => {
+  it("supports every RFC 6902 operation and JSON Pointer escaping", () => {
+    const document = { "a/b": 1, "m~n": [1, 2], list: [{ id: "x" }] };
+
+    expect(
+      applyJsonPatch(document, [
+        { op: "test", path: "/a~1b", value: 1 },
+        { op: "add", path: "/m~0n/-", value: 3 },
+        { op: "add", path: "/m~0n/0", value: 0 },
+        { op: "copy", from: "/list/0", path: "/list/-" },
+        { op: "replace", path: "/list/1/id", value: "y" },
+        { op: "move", from: "/a~1b", path: "/c" },
+        { op: "remove", path: "/m~0n/1" },
+      ]),
+    ).toEqual({ "m~n": [0, 2, 3], list: [{ id: "x" }, { id: "y" }], c: 1 });
+    expect(document).toEqual({ "a/b": 1, "m~n": [1, 2], list: [{ id: "x" }] });
+  });
+
+  it("rejects the whole patch when one operation fails", () => {
+    const attempt = () =>
+      applyJsonPatch({ list: [1] }, [
+        { op: "add", path: "/list/-", value: 2 },
+        { op: "replace", path: "/list/5", value: 3 },
+      ]);
+
+    expect(attempt).toThrow(JsonPatchError);
+    expect(attempt).toThrow("Operation 1 (replace /list/5): Index 5 is out of range");
+    expect(() => applyJsonPatch({ a: { b: 1 } }, [{ op: "move", from: "/a", path: "/a/c" }])).toThrow(
+      "Cannot move a value into itself",
+    );
+    expect(() => applyJsonPatch({ a: [1] }, [{ op: "test", path: "/a", value: [2] }])).toThrow("Test failed");
+    expect(() => applyJsonPatch({ a: [1] }, [{ op: "add", path: "/a/01", value: 2 }])).toThrow("not an array index");
+  });
+});
+
+describe("Scenario patch preview", () => {
+  it("validates the result and lists node and edge changes", () => {
+    const preview = previewScenarioPatch(scenario, [
+      { op: "test", path: "/nodes/1/nodeId", value: "sink1" },
+      {
+        op: "add",
+        path: "/nodes/-",
+        value: {
+          nodeId: "sink2",
+          displayName: "Audit",
+          position: { x: 300, y: 200 },
+          type: "Sink",
+          inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+        },
+      },
+      { op: "replace", path: "/nodes/0/outputs/0/destinationNodeId", value: "sink2" },
+      { op: "replace", path: "/nodes/0/interval", value: 5 },
+    ]);
+
+    expect(preview.errors).toEqual([]);
+    expect(preview.scenario!.nodes).toHaveLength(3);
+    expect(preview.diff).toEqual({
+      nodes: { added: ["sink2"], removed: [], changed: [{ nodeId: "source1", fields: ["interval", "outputs"] }] },
+      edges: {
+        added: [{ from: "source1", output: "output", to: "sink2" }],
+        removed: [{ from: "source1", output: "output", to: "sink1" }],
+      },
+      scenarioFields: [],
+    });
+  });
+
+  it("reports schema errors and malformed operations without a scenario", () => {
+    const invalid = previewScenarioPatch(scenario, [{ op: "remove", path: "/nodes/0/generation" }]);
+    expect(invalid.scenario).toBeNull();
+    expect(invalid.errors[0]).toMatch(/^nodes\.0/);
+    expect(invalid.diff!.nodes.changed).toEqual([{ nodeId: "source1", fields: ["generation"] }]);
+
+    const malformed = previewScenarioPatch(scenario, [{ op: "rename", path: "/nodes" }]);
+    expect(malformed).toMatchObject({ scenario: null, diff: null });
+    expect(malformed.errors[0]).toMatch(/^Invalid patch at 0\.op/);
+  });
+});
@@ -0,0 +1,140 @@
+import { ScenarioValidationError, SimulationEngine } from "../lib/simulation/simulationEngine";
+import type { SinkState } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const pipelineScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 2,
+      generation: { type: "random", valueMin: 5, valueMax: 5 },
+      outputs: [
+        { name: "output", destinationNodeId: "queue1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "queue1",
+      displayName: "Queue",
+      position: { x: 100, y: 0 },
+      type: "Queue",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+      aggregation: { method: "sum", formula: "sum(input)", trigger: { type: "time", window: 4 } },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "queue1", interface: simpleInterface, required: true }],
+    },
+  ],
+};
+
+const processScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "random", valueMin: 3, valueMax: 3 },
+      outputs: [
+        { name: "output", destinationNodeId: "process1", destinationInputName: "a", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "process1",
+      displayName: "Double",
+      position: { x: 100, y: 0 },
+      type: "ProcessNode",
+      inputs: [{ name: "a", nodeId: "source1", alias: "a", interface: simpleInterface, required: true }],
+      outputs: [
+        {
+          name: "output",
+          destinationNodeId: "sink1",
+          destinationInputName: "input",
+          interface: simpleInterface,
+          transformation: { formula: "inputs.a.value * 2", fieldMapping: {} },
+        },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "process1", interface: simpleInterface, required: true }],
+    },
+  ],
+};
+
+describe("SimulationEngine", () => {
+  it("rejects scenarios that fail validation", () => {
+    expect(() => SimulationEngine.fromScenarioData({ version: "3.0", nodes: [{ nodeId: "x" }] })).toThrow(
+      ScenarioValidationError,
+    );
+  });
+
+  it("emits, aggregates and consumes tokens through a queue", () => {
+    const engine = SimulationEngine.fromScenarioData(pipelineScenario);
+    const entries = engine.runUntil(6);
+
+    expect(engine.getCurrentTime()).toBe(6);
+    expect(entries.filter(e => e.nodeId === "source1" && e.action === "token_emitted")).toHaveLength(3);
+
+    const processing = entries.find(e => e.nodeId === "queue1" && e.action === "processing");
+    expect(processing?.value).toBe(10);
+    expect(processing?.aggregationDetails?.method).toBe("sum");
+    expect(processing?.sourceTokenIds).toHaveLength(2);
+
+    const sinkState = engine.getNodeState("sink1") as SinkState;
+    expect(sinkState.consumedTokenCount).toBe(1);
+    expect(sinkState.consumedTokens[0].value).toBe(10);
+  });
+
+  it("fires process nodes as soon as all inputs are buffered", () => {
+    const engine = SimulationEngine.fromScenarioData(processScenario);
+    engine.step(2);
+
+    const sinkState = engine.getNodeState("sink1") as SinkState;
+    expect(sinkState.consumedTokens.map(t => t.value)).toEqual([6, 6]);
+  });
+
+  it("notifies subscribers and keeps sequences monotonic", () => {
+    const engine = SimulationEngine.fromScenarioData(processScenario);
+    const seen: number[] = [];
+    const unsubscribe = engine.subscribe(entry => seen.push(entry.sequence));
+
+    engine.tick();
+    unsubscribe();
+    engine.tick();
+
+    expect(seen.length).toBeGreaterThan(0);
+    expect(seen).toEqual([...seen].sort((a, b) => a - b));
+    expect(engine.getState().globalActivityLog.length).toBeGreaterThan(seen.length);
+  });
+
+  it("injects external tokens and resets to the initial state", () => {
+    const engine = SimulationEngine.fromScenarioData(pipelineScenario);
+    const token = engine.injectToken("sink1", 42);
+
+    const sinkState = engine.getNodeState("sink1") as SinkState;
+    expect(sinkState.consumedTokens).toEqual([token]);
+    expect(token.history.map(h => h.action)).toContain("token_injected");
+
+    engine.reset();
+    expect(engine.getState().globalActivityLog).toEqual([]);
+    expect((engine.getNodeState("sink1") as SinkState).consumedTokenCount).toBe(0);
+  });
+});
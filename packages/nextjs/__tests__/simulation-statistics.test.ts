@@ -0,0 +1,119 @@
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import { computeSimulationStatistics, nodeStatisticsToCSV, timeSeriesToCSV } from "../lib/simulation/statistics";
+import type { AnyNode, HistoryEntry } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+const simpleInterface = { type: "SimpleValue", requiredFields: [] };
+
+const entry = (timestamp: number, nodeId: string, action: string, extra: Partial<HistoryEntry> = {}): HistoryEntry => ({
+  timestamp,
+  epochTimestamp: timestamp * 1000,
+  sequence: timestamp,
+  nodeId,
+  action,
+  state: "idle",
+  ...extra,
+});
+
+const node = (nodeId: string, type: string) => ({ nodeId, displayName: nodeId, type }) as AnyNode;
+
+// A source emitting every tick into a queue that sums pairs, read by a sink
+const pipelineScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "source1",
+      displayName: "Source",
+      position: { x: 0, y: 0 },
+      type: "DataSource",
+      interval: 1,
+      generation: { type: "constant", valueMin: 0, valueMax: 0, value: 1 },
+      outputs: [
+        { name: "output", destinationNodeId: "queue1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "queue1",
+      displayName: "Queue",
+      position: { x: 100, y: 0 },
+      type: "Queue",
+      inputs: [{ name: "input", nodeId: "source1", interface: simpleInterface, required: true }],
+      aggregation: { method: "sum", formula: "", trigger: { type: "count", window: 2 } },
+      outputs: [
+        { name: "output", destinationNodeId: "sink1", destinationInputName: "input", interface: simpleInterface },
+      ],
+    },
+    {
+      nodeId: "sink1",
+      displayName: "Sink",
+      position: { x: 200, y: 0 },
+      type: "Sink",
+      inputs: [{ name: "input", nodeId: "queue1", interface: simpleInterface, required: true }],
+    },
+  ],
+};
+
+describe("simulation statistics", () => {
+  it("measures throughput and queue length over a run", () => {
+    const engine = SimulationEngine.fromScenarioData(pipelineScenario);
+    engine.runUntil(8);
+    const { globalActivityLog, currentTime } = engine.getState();
+    const statistics = computeSimulationStatistics(globalActivityLog, engine.nodesConfig, { endTime: currentTime });
+
+    expect(statistics.duration).toBe(8);
+    expect(statistics.tokensConsumed).toBe(3);
+    expect(statistics.throughputSeries.map(point => point.value)).toEqual([0, 0, 1, 0, 1, 0, 1, 0]);
+
+    const [source, queue, sink] = statistics.nodes;
+    expect(source).toMatchObject({ tokensOut: 8, throughput: 1, utilization: 1 });
+    expect(queue).toMatchObject({ tokensIn: 8, tokensOut: 3 });
+    expect(queue.queueLength?.slice(0, 3)).toEqual([
+      { time: 1, value: 1 },
+      { time: 2, value: 2 },
+      { time: 3, value: 1 },
+    ]);
+    expect(sink.utilization).toBe(3 / 8);
+  });
+
+  it("summarizes latency and FSM state times", () => {
+    const log = [
+      entry(1, "fsm1", "token_received", { state: "idle" }),
+      entry(2, "fsm1", "fsm_transition", { state: "idle", value: "busy" }),
+      entry(5, "fsm1", "fsm_transition", { state: "busy", value: "idle" }),
+      entry(3, "sink1", "token_consumed", { tokenCreatedAt: 1 }),
+      entry(6, "sink1", "token_consumed", { tokenCreatedAt: 2 }),
+      entry(6, "sink1", "token_consumed", { tokenCreatedAt: 0 }),
+    ];
+    const statistics = computeSimulationStatistics(log, [node("fsm1", "FSMProcessNode"), node("sink1", "Sink")], {
+      endTime: 10,
+    });
+
+    expect(statistics.latency).toEqual({ count: 3, mean: 4, min: 2, max: 6, p50: 4, p95: 5.8 });
+    expect(statistics.latencySeries).toEqual([
+      { time: 3, value: 2 },
+      { time: 6, value: 5 },
+    ]);
+    expect(statistics.nodes[0].stateTime).toEqual({ idle: 7, busy: 3 });
+  });
+
+  it("handles histories too long to spread into Math.min", () => {
+    const log = Array.from({ length: 150_000 }, (_, i) =>
+      entry(i + 1, "sink1", "token_consumed", { tokenCreatedAt: i + 1 - (i % 7) }),
+    );
+    const nodes = [node("sink1", "Sink")];
+
+    const statistics = computeSimulationStatistics(log, nodes);
+    expect(statistics.latency).toMatchObject({ count: 150_000, min: 0, max: 6 });
+    expect(computeSimulationStatistics(log, nodes, { startTime: 1, endTime: 150_000 }).latency).toEqual(
+      statistics.latency,
+    );
+  });
+
+  it("exports node rows and a time series as CSV", () => {
+    const log = [entry(1, "queue1", "accumulating", { bufferSize: 1 }), entry(2, "sink1", "token_consumed")];
+    const statistics = computeSimulationStatistics(log, [node("queue1", "Queue"), node("sink1", "Sink")]);
+
+    expect(nodeStatisticsToCSV(statistics).split("\n")[1]).toBe("queue1,queue1,Queue,1,0,0,0.5,,,,");
+    expect(timeSeriesToCSV(statistics)).toBe("time,tokensConsumed,latencyMean,queue1.length\n1,0,,1\n2,1,,1");
+  });
+});
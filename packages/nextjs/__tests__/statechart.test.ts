@@ -0,0 +1,124 @@
+import { SimulationEngine } from "../lib/simulation/simulationEngine";
+import { Statechart } from "../lib/simulation/statechart";
+import type { FSMProcessNodeState, Scenario } from "../lib/simulation/types";
+import { describe, expect, it } from "vitest";
+
+// A contract whose payment and delivery are tracked in parallel
+const contractFSM = {
+  states: ["draft", "active", "payment", "unpaid", "paid", "delivery", "pending", "delivered", "closed"],
+  initialState: "draft",
+  transitions: [
+    { from: "draft", to: "active", trigger: "token_received" },
+    { from: "unpaid", to: "paid", trigger: "token_received" },
+    { from: "pending", to: "delivered", trigger: "token_received" },
+    { from: "active", to: "closed", trigger: "condition", condition: "input.value > 100" },
+  ],
+  hierarchy: {
+    active: { kind: "parallel" as const },
+    payment: { parent: "active" },
+    unpaid: { parent: "payment" },
+    paid: { parent: "payment" },
+    delivery: { parent: "active" },
+    pending: { parent: "delivery" },
+    delivered: { parent: "delivery" },
+  },
+};
+
+const contractScenario = {
+  version: "3.0",
+  nodes: [
+    {
+      nodeId: "contract1",
+      displayName: "Contract",
+      position: { x: 0, y: 0 },
+      type: "FSMProcessNode",
+      inputs: [{ name: "input", interface: { type: "SimpleValue", requiredFields: [] }, required: true }],
+      fsm: contractFSM,
+    },
+  ],
+} as Scenario;
+
+describe("Statechart", () => {
+  it("enters the initial descendants of compound states and every parallel region", () => {
+    const chart = Statechart.fromFSMDefinition({ ...contractFSM, initialState: "active" });
+    const { configuration, entered } = chart.initialConfiguration();
+
+    expect(entered).toEqual(["active", "payment", "unpaid", "delivery", "pending"]);
+    expect(chart.getActiveLeaves(configuration)).toEqual(["unpaid", "pending"]);
+
+    const step = chart.transition(configuration, "unpaid", "paid");
+    expect(step.exited).toEqual(["unpaid"]);
+    expect(step.entered).toEqual(["paid"]);
+    expect(step.configuration.active).toEqual(["active", "payment", "paid", "delivery", "pending"]);
+  });
+
+  it("exits innermost first and takes ancestor transitions when no descendant handles the event", () => {
+    const chart = Statechart.fromFSMDefinition({ ...contractFSM, initialState: "active" });
+    const { configuration } = chart.initialConfiguration();
+    const cancel = { from: "active", to: "closed" };
+    const pay = { from: "unpaid", to: "paid" };
+
+    // pending falls back to active's transition, which would exit unpaid as well
+    expect(chart.selectTransitions(configuration, [cancel, pay])).toEqual([pay]);
+    expect(chart.selectTransitions(configuration, [cancel])).toEqual([cancel]);
+    expect(chart.transition(configuration, "active", "closed").exited).toEqual([
+      "pending",
+      "delivery",
+      "unpaid",
+      "payment",
+      "active",
+    ]);
+  });
+
+  it("restores shallow and deep history", () => {
+    const chart = new Statechart(
+      [
+        { id: "active" },
+        { id: "milestones", parent: "active" },
+        { id: "milestone_pending", parent: "milestones" },
+        { id: "milestone_met", parent: "milestones" },
+        { id: "review", parent: "active" },
+        { id: "shallow", parent: "active", kind: "history" },
+        { id: "deep", parent: "active", kind: "history", history: "deep" },
+        { id: "suspended" },
+      ],
+      "active",
+    );
+    let { configuration } = chart.initialConfiguration();
+    expect(configuration.active).toEqual(["active", "milestones", "milestone_pending"]);
+
+    configuration = chart.transition(configuration, "milestone_pending", "milestone_met").configuration;
+    configuration = chart.transition(configuration, "active", "suspended").configuration;
+    expect(configuration.history).toEqual({ shallow: ["milestones"], deep: ["milestone_met"] });
+
+    expect(chart.transition(configuration, "suspended", "shallow").configuration.active).toEqual([
+      "active",
+      "milestones",
+      "milestone_pending",
+    ]);
+    expect(chart.transition(configuration, "suspended", "deep").configuration.active).toEqual([
+      "active",
+      "milestones",
+      "milestone_met",
+    ]);
+  });
+});
+
+describe("FSMProcessNode statecharts", () => {
+  it("runs parallel regions side by side and leaves them together", () => {
+    const engine = new SimulationEngine(contractScenario);
+    const activeStates = () => (engine.getNodeState("contract1") as FSMProcessNodeState).activeFSMStates;
+    expect(activeStates()).toEqual(["draft"]);
+
+    engine.injectToken("contract1", 1);
+    expect(activeStates()).toEqual(["active", "payment", "unpaid", "delivery", "pending"]);
+
+    // One event moves both regions
+    engine.injectToken("contract1", 1);
+    expect(activeStates()).toEqual(["active", "payment", "paid", "delivery", "delivered"]);
+    expect((engine.getNodeState("contract1") as FSMProcessNodeState).currentFSMState).toBe("paid");
+
+    engine.injectToken("contract1", 500);
+    expect(activeStates()).toEqual(["closed"]);
+  });
+});
@@ -1,13 +1,16 @@
 import { NextResponse } from "next/server";
-import { fetchFromDb, updateDb } from "@/utils/api";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
+import { readDbBlob, writeDbBlob } from "@/lib/platform/dbBlob";
 
 export async function POST(request: Request) {
   try {
     const { action, procedureId, triggerState, event } = await request.json();
-    const data = await fetchFromDb();
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
+    const data = await readDbBlob(organizationId);
 
     // Find template
-    const instance = data.procedureInstances?.find((p: any) => p.instanceId === procedureId);
+    const instance = await dataServiceFor(organizationId).getProcedureInstance(procedureId);
     const template = data.procedureTemplates?.find((t: any) => t.templateId === instance?.templateId);
 
     if (!template) {
@@ -28,10 +31,12 @@ export async function POST(request: Request) {
     template.actions[triggerState].push(event);
 
     // Update the database using the utility function
-    await updateDb(data);
+    await writeDbBlob(organizationId, data);
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error handling action:", error);
     return NextResponse.json(
       {
@@ -45,10 +50,11 @@ export async function POST(request: Request) {
 export async function DELETE(request: Request) {
   try {
     const { procedureId, state, actionId } = await request.json();
-    const data = await fetchFromDb();
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
+    const data = await readDbBlob(organizationId);
 
     // Find template
-    const instance = data.procedureInstances?.find((p: any) => p.instanceId === procedureId);
+    const instance = await dataServiceFor(organizationId).getProcedureInstance(procedureId);
     const template = data.procedureTemplates?.find((t: any) => t.templateId === instance?.templateId);
 
     if (!template || !template.actions?.[state]) {
@@ -64,10 +70,12 @@ export async function DELETE(request: Request) {
     }
 
     // Update the database
-    await updateDb(data);
+    await writeDbBlob(organizationId, data);
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error deleting action:", error);
     return NextResponse.json(
       {
@@ -81,9 +89,10 @@ export async function DELETE(request: Request) {
 export async function PATCH(request: Request) {
   try {
     const { procedureId, state, actionId, updates } = await request.json();
-    const data = await fetchFromDb();
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
+    const data = await readDbBlob(organizationId);
 
-    const instance = data.procedureInstances?.find((p: any) => p.instanceId === procedureId);
+    const instance = await dataServiceFor(organizationId).getProcedureInstance(procedureId);
     const template = data.procedureTemplates?.find((t: any) => t.templateId === instance?.templateId);
 
     if (!template?.actions?.[state]) {
@@ -95,9 +104,11 @@ export async function PATCH(request: Request) {
       action.id === actionId ? { ...action, ...updates } : action,
     );
 
-    await updateDb(data);
+    await writeDbBlob(organizationId, data);
     return NextResponse.json({ success: true });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error updating action:", error);
     return NextResponse.json({ error: "Failed to update action" }, { status: 500 });
   }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { dataService } from "@/lib/platform/dataService";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 export const dynamic = "force-dynamic";
 
@@ -8,7 +9,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const execution = await dataService.getExecution(params.id);
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    const data = dataServiceFor(organizationId);
+    const execution = await data.getExecution(params.id);
 
     if (!execution) {
       return NextResponse.json({ error: "Execution not found" }, { status: 404 });
@@ -16,6 +19,8 @@ export async function GET(
 
     return NextResponse.json({ execution });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error fetching execution:", error);
     return NextResponse.json(
       {
@@ -32,6 +37,8 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
     const body = await request.json();
     const {
       name,
@@ -54,9 +61,9 @@ export async function PUT(
     if (nodeActivityLogs) updates.nodeActivityLogs = nodeActivityLogs;
     if (isCompleted !== undefined) updates.isCompleted = isCompleted;
 
-  await dataService.updateExecution(params.id, updates);
+  await data.updateExecution(params.id, updates);
 
-  const execution = await dataService.getExecution(params.id);
+  const execution = await data.getExecution(params.id);
 
     return NextResponse.json({
       success: true,
@@ -64,6 +71,8 @@ export async function PUT(
       message: "Execution updated successfully",
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error updating execution:", error);
     return NextResponse.json(
       {
@@ -80,13 +89,17 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    await dataService.deleteExecution(params.id);
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
+    await data.deleteExecution(params.id);
 
     return NextResponse.json({
       success: true,
       message: "Execution deleted successfully",
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error deleting execution:", error);
     return NextResponse.json(
       {
@@ -1,21 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
-import { dataService } from "@/lib/platform/dataService";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    const data = dataServiceFor(organizationId);
     const { searchParams } = new URL(request.url);
     const templateId = searchParams.get('templateId') || undefined;
     console.log("GET /api/admin/executions - listing", templateId ? `for template ${templateId}` : 'all');
 
-    const executions = await dataService.listExecutions(templateId || undefined);
+    const executions = await data.listExecutions(templateId || undefined);
 
     return NextResponse.json({
       executions,
       count: executions.length,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error in executions route:", error);
     return NextResponse.json(
       {
@@ -29,6 +34,8 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
     const body = await request.json();
     const { templateId, name, description, scenario, nodeStates, currentTime, eventCounter, globalActivityLog, nodeActivityLogs, isCompleted } = body;
 
@@ -41,7 +48,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const executionId = await dataService.createExecution({
+    const executionId = await data.createExecution({
       templateId,
       name,
       description,
@@ -54,7 +61,7 @@ export async function POST(request: NextRequest) {
       isCompleted: !!isCompleted,
     });
 
-    const execution = await dataService.getExecution(executionId);
+    const execution = await data.getExecution(executionId);
 
     return NextResponse.json({
       success: true,
@@ -62,6 +69,8 @@ export async function POST(request: NextRequest) {
       message: `Execution "${name}" saved successfully`,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error in execution saving route:", error);
     return NextResponse.json(
       {
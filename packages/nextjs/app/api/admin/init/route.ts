@@ -1,16 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-import { dataService } from "@/lib/platform/dataService";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(request: NextRequest) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
+    const data = dataServiceFor(organizationId);
     // Ensure at least one default template exists
-    const templates = await dataService.listTemplates();
+    const templates = await data.listTemplates();
     const hasDefault = templates.some(t => t.isDefault);
     if (!hasDefault) {
       // Create a minimal default template if none is present
-      const defaultId = await dataService.createTemplate({
+      const defaultId = await data.createTemplate({
         name: 'Default Template',
         description: 'Default simulation template',
         scenario: { version: '3.0', nodes: [] } as any,
@@ -25,6 +28,8 @@ export async function POST(request: NextRequest) {
       message: "Admin structure initialized successfully",
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error initializing admin structure:", error);
     return NextResponse.json(
       {
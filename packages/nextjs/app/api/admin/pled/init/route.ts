@@ -1,10 +1,14 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { accessDeniedResponse, requireDefaultOrganizationAdmin } from "@/lib/api/auth";
 import { pledStorageService } from "@/lib/firebase/pled-storage-service";
 
 export const dynamic = "force-dynamic";
 
 export async function POST() {
   try {
+    // The storage bucket is shared by every organization
+    await requireDefaultOrganizationAdmin();
+
     console.log("POST /api/admin/pled/init - Initializing PLED Firebase collection");
 
     // Check Firebase connection first
@@ -43,6 +47,8 @@ export async function POST() {
     });
 
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error initializing PLED Firebase collection:", error);
 
     // Check if it's a Firebase configuration issue
@@ -81,6 +87,9 @@ export async function POST() {
 
 export async function GET() {
   try {
+    // The storage bucket is shared by every organization
+    await requireDefaultOrganizationAdmin();
+
     console.log("GET /api/admin/pled/init - Checking PLED Firebase status");
 
     // Check Firebase connection
@@ -112,6 +121,8 @@ export async function GET() {
     });
 
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error checking PLED Firebase status:", error);
 
     // Check if it's a Firebase configuration issue
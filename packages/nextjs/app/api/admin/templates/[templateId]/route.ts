@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { pledStorageService } from "@/lib/firebase/pled-storage-service";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 export const dynamic = "force-dynamic";
 
 export async function GET(request: NextRequest, { params }: { params: { templateId: string } }) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "read");
     const { templateId } = params;
-    console.log(`GET /api/admin/templates/${templateId} - Loading template from PLED service`);
 
-    const template = await pledStorageService.getTemplate(templateId);
+    const template = await dataServiceFor(organizationId).getTemplate(templateId);
 
     if (!template) {
       return NextResponse.json(
@@ -19,6 +20,8 @@ export async function GET(request: NextRequest, { params }: { params: { template
 
     return NextResponse.json({ template });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error loading template:", error);
 
     // Check if it's a Firebase configuration issue
@@ -45,12 +48,17 @@ export async function GET(request: NextRequest, { params }: { params: { template
 
 export async function PUT(request: NextRequest, { params }: { params: { templateId: string } }) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
+    const data = dataServiceFor(organizationId);
     const { templateId } = params;
     const body = await request.json();
     console.log(`PUT /api/admin/templates/${templateId} - Updating template`);
 
-    await pledStorageService.updateTemplate(templateId, body);
-    const template = await pledStorageService.getTemplate(templateId);
+    if (!(await data.getTemplate(templateId))) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+    await data.updateTemplate(templateId, body);
+    const template = await data.getTemplate(templateId);
 
     if (!template) {
       return NextResponse.json(
@@ -65,6 +73,8 @@ export async function PUT(request: NextRequest, { params }: { params: { template
       message: `Template "${template.name}" updated successfully`,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error updating template:", error);
 
     // Check if it's a Firebase configuration issue
@@ -94,16 +104,19 @@ export async function PUT(request: NextRequest, { params }: { params: { template
 
 export async function DELETE(request: NextRequest, { params }: { params: { templateId: string } }) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
     const { templateId } = params;
     console.log(`DELETE /api/admin/templates/${templateId} - Deleting template`);
 
-    await pledStorageService.deleteTemplate(templateId);
+    await dataServiceFor(organizationId).deleteTemplate(templateId);
 
     return NextResponse.json({
       success: true,
       message: `Template deleted successfully`,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error deleting template:", error);
 
     // Check if it's a Firebase configuration issue
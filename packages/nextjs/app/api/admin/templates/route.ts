@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { pledStorageService } from "@/lib/firebase/pled-storage-service";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 function slugify(text: string): string {
   return text
@@ -11,21 +12,19 @@ function slugify(text: string): string {
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    console.log("GET /api/admin/templates - Loading templates from PLED Storage service");
+    const { organizationId } = await requireOrganizationAccess(request, "read");
 
-    // Initialize PLED storage if needed
-    await pledStorageService.initializePledStorage();
-
-    // Get templates from PLED storage service
-    const templates = await pledStorageService.listTemplates();
+    const templates = await dataServiceFor(organizationId).listTemplates();
 
     return NextResponse.json({
       templates,
       count: templates.length,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error loading templates:", error);
 
     // Check if it's a Firebase configuration issue
@@ -54,6 +53,8 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const { organizationId, user } = await requireOrganizationAccess(request, "edit");
+    const data = dataServiceFor(organizationId);
     const body = await request.json();
     const { name, description, scenario, fromDefault } = body;
 
@@ -63,24 +64,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Template name is required" }, { status: 400 });
     }
 
-    // Initialize PLED storage if needed
-    await pledStorageService.initializePledStorage();
-
     let templateId: string;
 
     if (fromDefault) {
       // Create from default template
-      const templates = await pledStorageService.listTemplates();
+      const templates = await data.listTemplates();
       const defaultTemplate = templates.find(t => t.isDefault);
       if (!defaultTemplate) {
         return NextResponse.json({ error: "No default template found" }, { status: 400 });
       }
-      templateId = await pledStorageService.createTemplate({
+      templateId = await data.createTemplate({
         name,
         description,
         scenario: defaultTemplate.scenario,
         version: defaultTemplate.version,
         isDefault: false,
+        createdBy: user.id,
       });
     } else {
       // Create from provided scenario
@@ -88,15 +87,16 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: "Scenario is required when not creating from default" }, { status: 400 });
       }
 
-      templateId = await pledStorageService.createTemplate({
+      templateId = await data.createTemplate({
         name,
         description,
         scenario,
         version: scenario.version || '3.0',
+        createdBy: user.id,
       });
     }
 
-    const template = await pledStorageService.getTemplate(templateId);
+    const template = await data.getTemplate(templateId);
 
     return NextResponse.json({
       success: true,
@@ -106,6 +106,8 @@ export async function POST(request: NextRequest) {
       message: `Template "${name}" created successfully`,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error creating template:", error);
 
     // Check if it's a Firebase configuration issue
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-import { OpenAI } from "openai";
+import { getLLMProvider } from "@/lib/platform";
+import type { LLMCompletion, LLMMessage, LLMProvider } from "@/lib/platform/ports";
 
 const AVAILABLE_MODELS = {
   "gpt-4-turbo-preview": "GPT-4 Turbo",
@@ -28,10 +29,6 @@ function trackRequest() {
   requestTimestamps.push(Date.now());
 }
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 // Single prompt for regular mode
 const getSinglePrompt = `Analyze this document and create a complete workflow template.
 
@@ -259,24 +256,23 @@ function extractStates(fsl: string): string[] {
   return Array.from(states);
 }
 
-// Helper function to create completion with proper options
-async function createCompletion(model: ModelId, messages: any[]) {
-  const options: any = {
-    model,
+// Helper function to create completion with proper options. The model choice
+// only applies to the OpenAI provider; other providers use their own default.
+async function createCompletion(llm: LLMProvider, model: ModelId, messages: LLMMessage[]) {
+  return llm.complete({
+    model: llm.name === "openai" ? model : undefined,
     messages,
     temperature: 0.7,
-  };
-
-  // Add response_format only for models that support it
-  if (model === "gpt-4-turbo-preview") {
-    options.response_format = { type: "json_object" };
-  }
+    json: true,
+  });
+}
 
-  const completion = await openai.chat.completions.create(options);
-  return completion;
+function modelUsed(completion: LLMCompletion) {
+  return AVAILABLE_MODELS[completion.model as ModelId] ?? `${completion.provider}: ${completion.model}`;
 }
 
 export async function POST(req: Request) {
+  const llm = getLLMProvider();
   try {
     const {
       content,
@@ -354,12 +350,12 @@ export async function POST(req: Request) {
         : expertPrompts.getFSL;
 
       trackRequest();
-      const fslCompletion = await createCompletion("gpt-4", [
+      const fslCompletion = await createCompletion(llm, "gpt-4", [
         { role: "system", content: getFSLWithInsights },
         { role: "user", content: content },
       ]);
 
-      const fslStructure = JSON.parse(fslCompletion.choices[0].message.content || "{}");
+      const fslStructure = JSON.parse(fslCompletion.text || "{}");
 
       // Extract transitions and states from FSL
       const transitions = extractTransitions(fslStructure.stateMachine.fsl);
@@ -367,25 +363,25 @@ export async function POST(req: Request) {
 
       // Step 2: Get message rules and event types using GPT-4 Turbo (faster)
       trackRequest();
-      const rulesCompletion = await createCompletion("gpt-4-turbo-preview", [
+      const rulesCompletion = await createCompletion(llm, "gpt-4-turbo-preview", [
         {
           role: "system",
           content: expertPrompts.getMessageRules(fslStructure.stateMachine.fsl, transitions),
         },
       ]);
 
-      const rulesAndEvents = JSON.parse(rulesCompletion.choices[0].message.content || "{}");
+      const rulesAndEvents = JSON.parse(rulesCompletion.text || "{}");
 
       // Step 3: Get actions for states using GPT-4 Turbo (faster)
       trackRequest();
-      const actionsCompletion = await createCompletion("gpt-4-turbo-preview", [
+      const actionsCompletion = await createCompletion(llm, "gpt-4-turbo-preview", [
         {
           role: "system",
           content: expertPrompts.getStateActions(states, rulesAndEvents.variables),
         },
       ]);
 
-      const actionsResult = JSON.parse(actionsCompletion.choices[0].message.content || "{}");
+      const actionsResult = JSON.parse(actionsCompletion.text || "{}");
 
       // Validate the results
       const ruleEvents = rulesAndEvents.messageRules?.map((rule: any) => rule.generates.type) || [];
@@ -406,7 +402,7 @@ export async function POST(req: Request) {
         templateId: `template_${Date.now()}`,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
-        modelUsed: AVAILABLE_MODELS[model as ModelId],
+        modelUsed: modelUsed(fslCompletion),
       };
 
       return NextResponse.json({
@@ -417,12 +413,12 @@ export async function POST(req: Request) {
       // For regular mode, use the selected model (if not expert)
       trackRequest();
 
-      const completion = await createCompletion(model as ModelId, [
+      const completion = await createCompletion(llm, model as ModelId, [
         { role: "system", content: prompt },
         { role: "user", content: content },
       ]);
 
-      const template = JSON.parse(completion.choices[0].message.content || "{}");
+      const template = JSON.parse(completion.text || "{}");
 
       // Only do basic validation in regular mode
       if (!template.stateMachine?.fsl || !template.messageRules) {
@@ -435,7 +431,7 @@ export async function POST(req: Request) {
           templateId: `template_${Date.now()}`,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
-          modelUsed: AVAILABLE_MODELS[model as ModelId],
+          modelUsed: modelUsed(completion),
         },
       });
     }
@@ -445,8 +441,8 @@ export async function POST(req: Request) {
     if (error.response?.status === 429 || error.message.includes("quota")) {
       return NextResponse.json(
         {
-          error: "OpenAI API quota exceeded",
-          details: "Please check your OpenAI API key and billing settings.",
+          error: `${llm.name} API quota exceeded`,
+          details: "Please check your API key and billing settings.",
         },
         { status: 429 },
       );
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateResponse, type ChatMessage, type ScenarioContext } from '@/lib/gemini';
+import { generateResponse, type ChatMessage, type ScenarioContext } from '@/lib/scenario-assistant';
 
 export async function POST(request: NextRequest) {
   try {
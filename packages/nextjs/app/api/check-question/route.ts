@@ -1,16 +1,13 @@
 import { NextResponse } from "next/server";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getLLMProvider } from "@/lib/platform";
 
 export async function POST(request: Request) {
+  const llm = getLLMProvider();
   try {
     const { text } = await request.json();
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-3.5-turbo",
+    const response = await llm.complete({
+      model: llm.name === "openai" ? "gpt-3.5-turbo" : undefined,
       messages: [
         {
           role: "system",
@@ -25,7 +22,7 @@ export async function POST(request: Request) {
       temperature: 0,
     });
 
-    const result = response.choices[0]?.message?.content?.toLowerCase();
+    const result = response.text.trim().toLowerCase();
     return NextResponse.json({ isQuestion: result === "true" });
   } catch (error) {
     console.error("Error:", error);
@@ -34,19 +31,20 @@ export async function POST(request: Request) {
 }
 
 export async function GET(request: Request) {
+  const llm = getLLMProvider();
   try {
-    // Simple health check to verify the API and OpenAI connection
-    await openai.models.list();
+    // Simple health check to verify the API and the LLM provider
+    await llm.complete({ messages: [{ role: "user", content: "ping" }], maxTokens: 1 });
     return NextResponse.json({
       status: "ok",
-      message: "Question checking service is running",
+      message: `Question checking service is running (${llm.name})`,
     });
   } catch (error) {
     console.error("Error:", error);
     return NextResponse.json(
       {
         status: "error",
-        message: "Service is running but OpenAI connection failed",
+        message: `Service is running but the ${llm.name} connection failed`,
       },
       {
         status: 500,
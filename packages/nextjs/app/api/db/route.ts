@@ -1,15 +1,17 @@
 import { NextResponse } from "next/server";
 import { bucket } from "@/app/lib/firebase";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dbBlobPath, readDbBlob, writeDbBlob } from "@/lib/platform/dbBlob";
 
-const filePath = "pled.json";
-
-export async function GET() {
+// Each organization has its own blob; editors change its templates and
+// operators its events, so either may write it
+export async function GET(request: Request) {
   try {
-    const file = bucket.file(filePath);
-    const [fileContents] = await file.download();
-    const data = JSON.parse(fileContents.toString());
-    return NextResponse.json(data);
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    return NextResponse.json(await readDbBlob(organizationId));
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error fetching data from Firebase Storage:", error);
     return NextResponse.json({ error: "Failed to read the file from Firebase Storage." }, { status: 500 });
   }
@@ -18,19 +20,20 @@ export async function GET() {
 export async function PUT(request: Request) {
   try {
     const { newEvent } = await request.json();
+    const { organizationId } = await requireOrganizationAccess(request, ["edit", "operate"]);
 
     if (!newEvent || !newEvent.date || !newEvent.title || !newEvent.content) {
       return NextResponse.json({ error: "Invalid event data" }, { status: 400 });
     }
 
     // Reference the file in Firebase Storage
-    const file = bucket.file(filePath);
+    const file = bucket.file(dbBlobPath(organizationId));
 
-    const [fileContents] = await file.download();
-    let data = JSON.parse(fileContents.toString());
+    // An organization that never saved its calendar starts from an empty one
+    const [exists] = await file.exists();
+    let data = exists ? JSON.parse((await file.download())[0].toString()) : [];
 
-    const tagsIndex = data.findIndex((item: any) => item.id === "tags");
-    const tagsObject = data[tagsIndex];
+    const tagsObject = data.find((item: any) => item.id === "tags");
     data = data.filter((item: any) => item.id !== "tags");
     const parseDate = (dateStr: string, timeStr: string | null) => {
       const time = timeStr ? timeStr : "00:00:00";
@@ -55,7 +58,9 @@ export async function PUT(request: Request) {
       event.id = index + 1; // IDs start from 1 and increase sequentially
     });
 
-    data.push(tagsObject);
+    if (tagsObject) {
+      data.push(tagsObject);
+    }
 
     await file.save(JSON.stringify(data, null, 2), {
       contentType: "application/json",
@@ -66,6 +71,8 @@ export async function PUT(request: Request) {
       newEvent,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error updating file in Firebase Storage:", error);
     return NextResponse.json({ error: "Failed to update the file in Firebase Storage." }, { status: 500 });
   }
@@ -74,21 +81,18 @@ export async function PUT(request: Request) {
 export async function POST(request: Request) {
   try {
     const { action, data } = await request.json();
+    const { organizationId } = await requireOrganizationAccess(request, ["edit", "operate"]);
 
     if (action !== "update") {
       return NextResponse.json({ error: "Invalid action" }, { status: 400 });
     }
 
-    // Get the current file
-    const file = bucket.file(filePath);
-
-    // Save the updated data
-    await file.save(JSON.stringify(data, null, 2), {
-      contentType: "application/json",
-    });
+    await writeDbBlob(organizationId, data);
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error updating file in Firebase Storage:", error);
     return NextResponse.json({ error: "Failed to update the file in Firebase Storage." }, { status: 500 });
   }
@@ -1,14 +1,19 @@
 import { NextResponse } from "next/server";
-import { fetchFromDb, updateDb } from "../../../utils/api";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
+import { readDbBlob, writeDbBlob } from "@/lib/platform/dbBlob";
 
-export async function GET() {
+export async function GET(request: Request) {
   try {
-    const data = await fetchFromDb();
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    const data = await readDbBlob(organizationId);
     return NextResponse.json({
       events: data.events,
       receivedEvents: data.receivedEvents,
     });
   } catch (error: any) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     return NextResponse.json({ error: error.message || "Failed to get events" }, { status: 500 });
   }
 }
@@ -17,8 +22,9 @@ export async function POST(request: Request) {
   try {
     const { event, action, procedureId } = await request.json();
     console.log("Creating event:", { type: event.type, procedureId });
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
 
-    const data = await fetchFromDb();
+    const data = await readDbBlob(organizationId);
     console.log("Current DB data:", data);
 
     if (action === "add_template") {
@@ -39,7 +45,7 @@ export async function POST(request: Request) {
       };
 
       // Update the database
-      await updateDb(data);
+      await writeDbBlob(organizationId, data);
 
       return NextResponse.json({
         success: true,
@@ -47,41 +53,29 @@ export async function POST(request: Request) {
       });
     } else {
       // Handle adding event to procedure instance
-      if (!data.procedureInstances) {
-        data.procedureInstances = [];
-      }
-
-      // Find the correct procedure instance
-      const instance = data.procedureInstances.find((p: any) => p.instanceId === procedureId);
-      console.log("Found instance:", instance);
-      console.log("Looking for procedureId:", procedureId);
+      const procedures = dataServiceFor(organizationId);
+      const instance = await procedures.getProcedureInstance(procedureId);
 
       if (!instance) {
         throw new Error(`Procedure instance not found for ID: ${procedureId}`);
       }
 
-      // Initialize history if it doesn't exist
-      if (!instance.history) {
-        instance.history = { events: [], messages: [] };
-      }
-
-      // Add the new event to history
-      instance.history.events.push({
+      // Append the new event to history
+      await procedures.appendProcedureEvent(procedureId, {
         id: event.id,
         type: event.type,
         timestamp: new Date().toISOString(),
         data: event.template.data,
       });
 
-      // Update the database
-      await updateDb(data);
-
       return NextResponse.json({
         success: true,
         event: event,
       });
     }
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error adding event:", error);
     return NextResponse.json(
       {
@@ -95,16 +89,19 @@ export async function POST(request: Request) {
 export async function DELETE(request: Request) {
   try {
     const { eventId } = await request.json();
-    const data = await fetchFromDb();
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = await readDbBlob(organizationId);
 
     if (data.events[eventId]) {
       delete data.events[eventId];
     }
 
-    await updateDb(data);
+    await writeDbBlob(organizationId, data);
 
     return NextResponse.json({ success: true });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error deleting event:", error);
     return NextResponse.json({ error: "Failed to delete event" }, { status: 500 });
   }
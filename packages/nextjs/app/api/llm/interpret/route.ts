@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLLMProvider } from "@/lib/platform";
+import { LLMInterpretationClient } from "@/lib/simulation/llmInterpretation";
+
+export const dynamic = "force-dynamic";
+
+// Interprets an event for an `ai` interpretation rule with the configured LLM provider
+export async function POST(request: NextRequest) {
+  try {
+    const { prompt, event, possibleMessageTypes, model } = await request.json();
+
+    if (!prompt || !event || !Array.isArray(possibleMessageTypes)) {
+      return NextResponse.json({ error: "prompt, event and possibleMessageTypes are required" }, { status: 400 });
+    }
+
+    const client = new LLMInterpretationClient(getLLMProvider());
+    const result = await client.interpret({ prompt, event, possibleMessageTypes, model });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error interpreting event:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to interpret event",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,30 +1,110 @@
 import { NextRequest, NextResponse } from "next/server";
-import { fetchFromDb, updateDb } from "@/utils/api";
+import type { ProcedureActionExecution, ProcedureInstanceDocument } from "@/lib/firestore-types";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
+import { DocumentExistsError, RevisionConflictError } from "@/lib/platform/ports";
+import { ProcedureNotFoundError } from "@/lib/platform/repositories";
+
+export const dynamic = "force-dynamic";
+
+const actionKey = (action: ProcedureActionExecution) =>
+  `${action.actionId}_${action.state}_${action.trigger}_${action.timestamp}`;
+
+function errorResponse(message: string, error: unknown) {
+  const denied = accessDeniedResponse(error);
+  if (denied) return denied;
+  if (error instanceof ProcedureNotFoundError) {
+    return NextResponse.json({ error: "Instance not found" }, { status: 404 });
+  }
+  if (error instanceof RevisionConflictError) {
+    return NextResponse.json(
+      { error: "Instance was changed by someone else", revision: error.actualRevision },
+      { status: 409 },
+    );
+  }
+  if (error instanceof DocumentExistsError) {
+    return NextResponse.json({ error: `${error.id} already exists` }, { status: 409 });
+  }
+  console.error(`${message}:`, error);
+  return NextResponse.json(
+    { error: message, details: error instanceof Error ? error.message : "Unknown error" },
+    { status: 500 },
+  );
+}
 
-export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const updates = await request.json();
-    const data = await fetchFromDb();
-
-    // Find and update the instance
-    const instanceIndex = data.procedureInstances.findIndex((p: any) => p.instanceId === params.id);
-
-    if (instanceIndex === -1) {
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    const data = dataServiceFor(organizationId);
+    const instance = await data.getProcedureInstance(params.id);
+    if (!instance) {
       return NextResponse.json({ error: "Instance not found" }, { status: 404 });
     }
+    return NextResponse.json({ instance });
+  } catch (error) {
+    return errorResponse("Failed to fetch procedure", error);
+  }
+}
 
-    const instance = data.procedureInstances[instanceIndex];
+// Each field of the body is one kind of change:
+// - event / events: appended to the event log
+// - revertEvents: event ids to remove, together with the messages they produced
+// - history: executed actions, events and messages not stored yet are appended;
+//   nothing is removed, so a stale copy of the history cannot undo other writes
+// - action: one executed action
+// - variables: merged per section
+// - currentState: replaces the current state
+// All of it is written as one change: when a write fails, the ones made before
+// it are rolled back. With `revision` the request fails with 409 before
+// anything is written if the instance changed since that revision; without it
+// the instance update is retried.
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
+    const instanceId = params.id?.trim();
+    if (!instanceId) {
+      return NextResponse.json({ error: "instanceId is required" }, { status: 400 });
+    }
+    const updates = await request.json();
 
-    // Initialize history if needed
-    if (!instance.history) {
-      instance.history = { events: [], messages: [], executedActions: [] };
+    const actions: ProcedureActionExecution[] = [...(updates.history?.executedActions || [])];
+    if (updates.action) {
+      actions.push({
+        actionId: updates.action.actionId,
+        state: updates.action.state,
+        type: updates.action.type,
+        trigger: updates.action.trigger || "INIT",
+        timestamp: new Date().toISOString(),
+      });
     }
 
-    // Handle both events and actions in one update
+    const change = (instance: ProcedureInstanceDocument): Partial<ProcedureInstanceDocument> => {
+      const result: Partial<ProcedureInstanceDocument> = {};
+      if (actions.length) {
+        const recorded = new Set(instance.executedActions.map(actionKey));
+        result.executedActions = [
+          ...instance.executedActions,
+          ...actions.filter(action => !recorded.has(actionKey(action))),
+        ];
+      }
+      if (updates.variables) {
+        const variables = { ...instance.variables };
+        Object.entries(updates.variables).forEach(([section, values]) => {
+          variables[section] =
+            values && typeof values === "object" && !Array.isArray(values)
+              ? { ...variables[section], ...values }
+              : values;
+        });
+        result.variables = variables;
+      }
+      if (updates.currentState) result.currentState = updates.currentState;
+      return result;
+    };
+
+    const events = [...(updates.events || []), ...(updates.history?.events || [])];
     if (updates.event) {
-      // Add new event with proper structure
-      const newEvent = {
-        id: `evt_${Date.now()}`,
+      events.push({
         name: updates.event.name,
         description: updates.event.description,
         type: updates.event.type,
@@ -34,75 +114,36 @@ export async function PATCH(request: Request, { params }: { params: { id: string
         },
         data: updates.event.template?.data || {},
         timestamp: new Date().toISOString(),
-        history: {
-          events: [...instance.history.events],
-        },
-      };
-
-      // Create new instance with updated history
-      instance.history = {
-        ...instance.history,
-        events: [...instance.history.events, newEvent],
-      };
-    }
-
-    if (updates.action) {
-      // Add executed action
-      instance.history.executedActions = [
-        ...(instance.history.executedActions || []),
-        {
-          actionId: updates.action.actionId,
-          state: updates.action.state,
-          type: updates.action.type,
-          trigger: updates.action.trigger || "INIT",
-          timestamp: new Date().toISOString(),
-        },
-      ];
+      });
     }
 
-    // Create new data object with updated instance
-    const newData = {
-      ...data,
-      procedureInstances: [
-        ...data.procedureInstances.slice(0, instanceIndex),
-        instance,
-        ...data.procedureInstances.slice(instanceIndex + 1),
-      ],
-    };
-
-    // Single update to Firebase
-    await updateDb(newData);
+    await data.applyProcedureChanges(instanceId, {
+      change: actions.length || updates.variables || updates.currentState ? change : undefined,
+      expectedRevision: updates.revision,
+      events,
+      messages: updates.history?.messages || [],
+      revertEventIds: updates.revertEvents,
+    });
 
-    return NextResponse.json({ success: true });
+    const instance = await data.getProcedureInstance(instanceId);
+    return NextResponse.json({ success: true, instance });
   } catch (error) {
-    console.error("Error updating procedure:", error);
-    return NextResponse.json({ error: "Failed to update procedure" }, { status: 500 });
+    return errorResponse("Failed to update procedure", error);
   }
 }
 
 export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
   try {
-    const procedureId = params.id;
+    const { organizationId } = await requireOrganizationAccess(req, "operate");
+    const data = dataServiceFor(organizationId);
     const eventData = await req.json();
-    const data = await fetchFromDb();
-
-    console.log("Creating event:", eventData); // Debug log
-
-    // Find the procedure instance
-    const instance = data.procedureInstances?.find((p: any) => p.instanceId === procedureId);
+    const instance = await data.getProcedureInstance(params.id);
 
     if (!instance) {
       return NextResponse.json({ error: "Procedure not found" }, { status: 404 });
     }
 
-    // Initialize events array if it doesn't exist
-    if (!instance.events) {
-      instance.events = [];
-    }
-
-    // Create new event with proper structure
     const newEvent = {
-      id: `evt_${Date.now()}`,
       type: eventData.type,
       data: eventData.data,
       timestamp: eventData.timestamp || new Date().toISOString(),
@@ -110,18 +151,21 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
       content: eventData.content,
       source: eventData.source,
     };
+    const id = await data.appendProcedureEvent(params.id, newEvent);
 
-    console.log("New event:", newEvent); // Debug log
-
-    // Add event to instance
-    instance.events.push(newEvent);
-
-    // Save updated data to database
-    await updateDb(data);
+    return NextResponse.json({ ...newEvent, id });
+  } catch (error) {
+    return errorResponse("Failed to create event", error);
+  }
+}
 
-    return NextResponse.json(newEvent);
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
+    await data.deleteProcedureInstance(params.id);
+    return NextResponse.json({ success: true });
   } catch (error) {
-    console.error("Error creating event:", error);
-    return NextResponse.json({ error: "Failed to create event" }, { status: 500 });
+    return errorResponse("Failed to delete procedure", error);
   }
 }
@@ -1,68 +1,37 @@
 import { NextResponse } from "next/server";
-import { fetchFromDb, updateDb } from "../../../../utils/api";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 export async function POST(request: Request) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
     const { event, procedureId } = await request.json();
     console.log("Creating procedure event:", { type: event.type, procedureId });
 
-    // Get fresh data before update
-    const data = await fetchFromDb();
-
-    // Find the correct procedure instance
-    const instance = data.procedureInstances?.find((p: any) => p.instanceId === procedureId);
+    const instance = await data.getProcedureInstance(procedureId);
 
     if (!instance) {
       throw new Error(`Procedure instance not found for ID: ${procedureId}`);
     }
 
-    // Initialize history if it doesn't exist
-    if (!instance.history) {
-      instance.history = { events: [], messages: [] };
-    }
-
-    // Create new event
-    const newEvent = {
-      id: `evt_${Date.now()}`,
+    // Append the new event; concurrent appends cannot overwrite each other
+    await data.appendProcedureEvent(procedureId, {
       type: event.type,
       timestamp: new Date().toISOString(),
       template: {
         source: "automatic",
         data: event,
-        history: {
-          events: [...instance.history.events],
-        },
       },
-    };
-
-    console.log("newEvent", newEvent);
-
-    // Create new instance with updated history
-    const updatedInstance = {
-      ...instance,
-      history: {
-        ...instance.history,
-        events: [...instance.history.events, newEvent],
-      },
-    };
-
-    // Create new data object with updated instances
-    const newData = {
-      ...data,
-      procedureInstances: [
-        ...data.procedureInstances.filter((p: any) => p.instanceId !== procedureId),
-        updatedInstance,
-      ],
-    };
-
-    // Update the database with complete new state
-    await updateDb(newData);
+    });
 
     return NextResponse.json({
       success: true,
       event: event,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error adding procedure event:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
+import { readDbBlob } from "@/lib/platform/dbBlob";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    const data = dataServiceFor(organizationId);
+    const instances = await data.listProcedureInstances();
+    return NextResponse.json({ instances });
+  } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
+    console.error("Error listing procedures:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to list procedures",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId } = await requireOrganizationAccess(request, "operate");
+    const data = dataServiceFor(organizationId);
+    const { instanceId, templateId, variables, currentState, startDate } = await request.json();
+
+    if (!templateId) {
+      return NextResponse.json({ error: "templateId is required" }, { status: 400 });
+    }
+
+    // Only the organization's own procedure templates can be instantiated
+    const { procedureTemplates } = await readDbBlob(organizationId);
+    if (!procedureTemplates?.some((template: any) => template.templateId === templateId)) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 });
+    }
+
+    const id = await data.createProcedureInstance({
+      instanceId: instanceId || `proc_${Date.now()}`,
+      templateId,
+      variables: variables || {},
+      currentState: currentState || { name: "idle", enteredAt: new Date().toISOString() },
+      executedActions: [],
+      startDate: startDate || new Date().toISOString(),
+    });
+    const instance = await data.getProcedureInstance(id);
+
+    return NextResponse.json({ success: true, instance }, { status: 201 });
+  } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
+    console.error("Error creating procedure:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to create procedure",
+        details: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
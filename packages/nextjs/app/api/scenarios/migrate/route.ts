@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { migrateScenario } from "@/lib/simulation/scenarioMigration";
+
+export const dynamic = "force-dynamic";
+
+// Upgrades a scenario to the current protocol version. Responds with the
+// migrated scenario and what was inferred, or 422 with the errors.
+export async function POST(request: NextRequest) {
+  let data: unknown;
+  try {
+    data = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Request body must be scenario JSON" }, { status: 400 });
+  }
+
+  const result = migrateScenario(data);
+  return NextResponse.json(result, { status: result.scenario ? 200 : 422 });
+}
@@ -1,25 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
-import { pledStorageService } from "@/lib/firebase/pled-storage-service";
+import { accessDeniedResponse, requireOrganizationAccess } from "@/lib/api/auth";
+import { dataServiceFor } from "@/lib/platform/dataService";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(request: NextRequest) {
   try {
+    const { organizationId } = await requireOrganizationAccess(request, "edit");
+    const data = dataServiceFor(organizationId);
     const { templates } = await request.json();
 
     if (!templates || !Array.isArray(templates)) {
       return NextResponse.json({ error: "Invalid request: templates array is required" }, { status: 400 });
     }
 
-    console.log("POST /api/templates - Adding templates to PLED service");
-
-    // Initialize PLED collection if needed
-    await pledStorageService.initializePledStorage();
-
     const addedTemplates = [];
     for (const templateData of templates) {
       try {
-        const templateId = await pledStorageService.createTemplate({
+        const templateId = await data.createTemplate({
           name: templateData.name,
           description: templateData.description,
           scenario: templateData.scenario,
@@ -37,6 +35,8 @@ export async function POST(request: NextRequest) {
       addedTemplates,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error adding templates:", error);
 
     // Check if it's a Firebase configuration issue
@@ -64,18 +64,13 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    console.log("GET /api/templates - Loading procedure templates from PLED service");
-
-    // Initialize PLED collection if needed
-    await pledStorageService.initializePledStorage();
-
-    // Get templates from PLED service
-    const pledTemplates = await pledStorageService.listTemplates();
+    const { organizationId } = await requireOrganizationAccess(request, "read");
+    const templates = await dataServiceFor(organizationId).listTemplates();
 
     // Convert to procedure templates format for compatibility
-    const procedureTemplates = pledTemplates.map(template => ({
+    const procedureTemplates = templates.map(template => ({
       templateId: template.id,
       name: template.name,
       description: template.description,
@@ -89,6 +84,8 @@ export async function GET() {
       count: procedureTemplates.length,
     });
   } catch (error) {
+    const denied = accessDeniedResponse(error);
+    if (denied) return denied;
     console.error("Error fetching templates:", error);
 
     // Check if it's a Firebase configuration issue
@@ -0,0 +1 @@
+export { DELETE, OPTIONS } from '../route';
@@ -0,0 +1,19 @@
+/**
+ * API Keys Endpoint
+ *
+ * Signed-in users manage their organization's keys for the /api/v1 stack.
+ */
+
+import { createAppRouterHandlers } from '@/lib/api/adapters/vercel';
+import { corsMiddleware } from '@/lib/api/adapters/base';
+import { createPlatformAuthMiddleware } from '@/lib/api/auth';
+import { ApiKeysController } from '@/lib/api/controllers/apiKeys';
+import { getPlatform } from '@/lib/platform';
+import { ApiKeysRepository } from '@/lib/platform/repositories';
+
+const controller = new ApiKeysController(new ApiKeysRepository(getPlatform().docs));
+
+export const { GET, POST, PUT, DELETE, PATCH, OPTIONS } = createAppRouterHandlers(controller, [
+  corsMiddleware,
+  createPlatformAuthMiddleware(),
+]);
@@ -0,0 +1,3 @@
+// Execution sub-resources (/executions/{id}/events, /state, /nodes/...) are
+// routed by the ExecutionsController, so they share the collection's handler
+export { GET, POST, PUT, DELETE, PATCH, OPTIONS } from '../route';
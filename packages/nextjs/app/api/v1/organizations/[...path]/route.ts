@@ -0,0 +1,3 @@
+// Members (/organizations/{id}/members/{userId}) are routed by the
+// OrganizationsController, so they share the collection's handler
+export { GET, PUT, DELETE, OPTIONS } from '../route';
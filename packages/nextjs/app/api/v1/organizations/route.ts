@@ -0,0 +1,19 @@
+/**
+ * Organizations Endpoint
+ *
+ * Signed-in users list and create organizations; admins manage members.
+ */
+
+import { createAppRouterHandlers } from '@/lib/api/adapters/vercel';
+import { corsMiddleware } from '@/lib/api/adapters/base';
+import { createPlatformAuthMiddleware } from '@/lib/api/auth';
+import { OrganizationsController } from '@/lib/api/controllers/organizations';
+import { getPlatform } from '@/lib/platform';
+import { OrganizationsRepository } from '@/lib/platform/repositories';
+
+const controller = new OrganizationsController(new OrganizationsRepository(getPlatform().docs));
+
+export const { GET, POST, PUT, DELETE, PATCH, OPTIONS } = createAppRouterHandlers(controller, [
+  corsMiddleware,
+  createPlatformAuthMiddleware(),
+]);
@@ -607,6 +607,7 @@ export default function DocsPage() {
                         <h5 className="font-medium text-slate-900 mb-2">Configuration</h5>
                         <ul className="text-sm text-slate-600 space-y-1">
                           <li>• <code className="bg-slate-100 px-1 rounded">capacity</code>: Maximum queue size</li>
+                          <li>• <code className="bg-slate-100 px-1 rounded">overflowPolicy</code>: drop-newest, drop-oldest, block or overflow when full</li>
                           <li>• <code className="bg-slate-100 px-1 rounded">aggregation</code>: Sum, average, etc.</li>
                           <li>• <code className="bg-slate-100 px-1 rounded">trigger</code>: Time or count based</li>
                         </ul>
@@ -11,6 +11,7 @@ import ExecutionManagerModal from "@/components/modals/ExecutionManagerModal";
 import ScenarioManagerModal from "@/components/modals/ScenarioManagerModal";
 import ModelUpgradeModal from "@/components/modals/ModelUpgradeModal";
 import JsonViewModal from "@/components/modals/JsonViewModal";
+import StatisticsDashboardModal from "@/components/modals/StatisticsDashboardModal";
 import IntegratedAIAssistant from "@/components/ai/IntegratedAIAssistant";
 import NodeLibraryPanel from "@/components/library/NodeLibraryPanel";
 import ImprovedGroupManagementPanel from "@/components/graph/ImprovedGroupManagementPanel";
@@ -70,6 +71,7 @@ export default function TemplateEditorPage() {
   const [isStateInspectorOpen, setIsStateInspectorOpen] = useState(false);
   const [sidePanelMode, setSidePanelMode] = useState<'ai' | 'library' | 'groups'>('ai');
   const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState(false);
+  const [isStatisticsOpen, setIsStatisticsOpen] = useState(false);
   const [isExecutionManagerOpen, setIsExecutionManagerOpen] = useState(false);
   const [isLibraryPanelOpen, setIsLibraryPanelOpen] = useState(false);
   const [isScenarioManagerOpen, setIsScenarioManagerOpen] = useState(false);
@@ -544,6 +546,13 @@ export default function TemplateEditorPage() {
                       <BookOpen className="w-4 h-4 mr-2" />
                       Activity Ledger
                     </button>
+                    <button
+                      onClick={() => setIsStatisticsOpen(true)}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                    >
+                      <Activity className="w-4 h-4 mr-2" />
+                      Statistics
+                    </button>
                     <button
                       onClick={() => setIsStateInspectorOpen(!isStateInspectorOpen)}
                       className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100 flex items-center"
@@ -848,19 +857,6 @@ export default function TemplateEditorPage() {
                   className="flex-1 min-h-0"
                   isEditMode={isEditMode}
                   scenarioContent={scenario ? JSON.stringify(scenario, null, 2) : defaultScenarioContent}
-                  onScenarioUpdate={(newScenario) => {
-                    try {
-                      const parsedScenario = JSON.parse(newScenario);
-                      loadScenario(parsedScenario);
-                      toast({ title: "Success", description: "Scenario updated automatically by AI" });
-                    } catch (error) {
-                      toast({
-                        variant: "destructive",
-                        title: "JSON Error",
-                        description: "AI generated invalid JSON"
-                      });
-                    }
-                  }}
                 />
               )}
 
@@ -942,6 +938,7 @@ export default function TemplateEditorPage() {
       <NodeInspectorModal />
       <TokenInspectorModal />
       <GlobalLedgerModal />
+      <StatisticsDashboardModal isOpen={isStatisticsOpen} onClose={() => setIsStatisticsOpen(false)} />
       <TemplateManagerModal
         isOpen={isTemplateManagerOpen}
         onClose={() => setIsTemplateManagerOpen(false)}
@@ -6,6 +6,14 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useSimulationStore } from "@/stores/simulationStore";
+import {
+  applyJsonPatch,
+  JsonPatchSchema,
+  previewScenarioPatch,
+  type JsonPatchOperation,
+  type ScenarioDiff,
+  type ScenarioPatchPreview,
+} from "@/lib/simulation/scenarioPatch";
 import { 
   Send, 
   Loader2, 
@@ -136,6 +144,25 @@ function fixCollisionsInPlace(scenario: any) {
   });
 }
 
+// Layout fixes for a patched scenario as further patch operations, so they are
+// previewed and applied together with the assistant's own operations
+function layoutOperations(scenario: any): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  if (scenario.version !== '3.0') {
+    operations.push({ op: 'add', path: '/version', value: '3.0' });
+  }
+  const nodes: ScenarioNode[] = Array.isArray(scenario?.nodes) ? scenario.nodes : [];
+  const laidOut = { nodes: JSON.parse(JSON.stringify(nodes)) };
+  fixCollisionsInPlace(laidOut);
+  nodes.forEach((node, index) => {
+    const position = laidOut.nodes.find((n: ScenarioNode) => n.nodeId === node.nodeId)?.position;
+    if (position && (position.x !== node.position?.x || position.y !== node.position?.y)) {
+      operations.push({ op: 'add', path: `/nodes/${index}/position`, value: position });
+    }
+  });
+  return operations;
+}
+
 interface ChatMessage {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -146,9 +173,18 @@ interface ChatMessage {
     command?: string;
     context?: string[];
     nodes?: string[];
+    patch?: PendingPatch;
   };
 }
 
+// A JSON Patch proposed by the assistant, applied only once the user confirms
+interface PendingPatch {
+  operations: JsonPatchOperation[];
+  preview: ScenarioPatchPreview;
+  status: 'pending' | 'applied' | 'discarded';
+  errors?: string[];
+}
+
 interface Command {
   key: string;
   label: string;
@@ -161,7 +197,6 @@ interface IntegratedAIAssistantProps {
   className?: string;
   isEditMode?: boolean;
   scenarioContent?: string;
-  onScenarioUpdate?: (newScenario: string) => void;
 }
 
 const SIMULATION_COMMANDS: Command[] = [
@@ -286,7 +321,73 @@ const TAGS = [
   { key: '#documentation', label: 'documentation', description: 'Documentation needs' },
 ];
 
-const MessageBubble = ({ message }: { message: ChatMessage }) => {
+const DiffList = ({ label, items, className }: { label: string; items: string[]; className: string }) =>
+  items.length > 0 ? (
+    <div className={cn("font-mono", className)}>
+      {label}: {items.join(', ')}
+    </div>
+  ) : null;
+
+const PatchPreviewCard = ({
+  patch,
+  onApply,
+  onDiscard,
+}: {
+  patch: PendingPatch;
+  onApply?: () => void;
+  onDiscard?: () => void;
+}) => {
+  const diff: ScenarioDiff | null = patch.preview.diff;
+  const errors = patch.errors ?? patch.preview.errors;
+  const edge = (e: { from: string; output: string; to: string }) => `${e.from}.${e.output} → ${e.to}`;
+
+  return (
+    <div className="w-full px-3 py-2 rounded-lg text-[11px] border border-indigo-200 bg-indigo-50/50 space-y-1">
+      <div className="font-semibold text-indigo-800">
+        Proposed change ({patch.operations.length} operation{patch.operations.length === 1 ? '' : 's'})
+      </div>
+      {diff && (
+        <>
+          <DiffList label="+ nodes" items={diff.nodes.added} className="text-emerald-700" />
+          <DiffList label="- nodes" items={diff.nodes.removed} className="text-red-700" />
+          <DiffList
+            label="~ nodes"
+            items={diff.nodes.changed.map(change => `${change.nodeId} (${change.fields.join(', ')})`)}
+            className="text-amber-700"
+          />
+          <DiffList label="+ edges" items={diff.edges.added.map(edge)} className="text-emerald-700" />
+          <DiffList label="- edges" items={diff.edges.removed.map(edge)} className="text-red-700" />
+          <DiffList label="~ scenario" items={diff.scenarioFields} className="text-amber-700" />
+        </>
+      )}
+      {errors.length > 0 && (
+        <div className="text-red-700 font-mono whitespace-pre-wrap">{errors.join('\n')}</div>
+      )}
+      {patch.status === 'pending' ? (
+        <div className="flex gap-2 pt-1">
+          <Button size="sm" className="h-6 text-[10px]" onClick={onApply} disabled={!patch.preview.scenario}>
+            Apply
+          </Button>
+          <Button size="sm" variant="outline" className="h-6 text-[10px]" onClick={onDiscard}>
+            Discard
+          </Button>
+        </div>
+      ) : (
+        <div className="text-slate-500">{patch.status === 'applied' ? 'Applied (undo to revert)' : 'Discarded'}</div>
+      )}
+    </div>
+  );
+};
+
+const MessageBubble = ({
+  message,
+  onApplyPatch,
+  onDiscardPatch,
+}: {
+  message: ChatMessage;
+  onApplyPatch?: (messageId: string) => void;
+  onDiscardPatch?: (messageId: string) => void;
+}) => {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
   
@@ -329,6 +430,14 @@ const MessageBubble = ({ message }: { message: ChatMessage }) => {
             {message.content}
           </div>
         </div>
+
+        {message.metadata?.patch && (
+          <PatchPreviewCard
+            patch={message.metadata.patch}
+            onApply={() => onApplyPatch?.(message.id)}
+            onDiscard={() => onDiscardPatch?.(message.id)}
+          />
+        )}
         
         <span className="text-[10px] text-slate-400 px-2 font-mono">
           {message.timestamp.toLocaleTimeString([], { 
@@ -482,7 +591,7 @@ const CommandSuggestions = ({
   );
 };
 
-export default function IntegratedAIAssistant({ className, isEditMode = false, scenarioContent, onScenarioUpdate }: IntegratedAIAssistantProps) {
+export default function IntegratedAIAssistant({ className, isEditMode = false, scenarioContent }: IntegratedAIAssistantProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: '1',
@@ -507,9 +616,28 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
   const currentTime = useSimulationStore(state => state.currentTime);
   const errorMessages = useSimulationStore(state => state.errorMessages);
   const isRunning = useSimulationStore(state => state.isRunning);
+  const applyScenarioPatch = useSimulationStore(state => state.applyScenarioPatch);
 
   // Removed auto-scroll - it was hiding the top of the page
 
+  const updatePatch = (messageId: string, update: Partial<PendingPatch>) => {
+    setMessages(prev =>
+      prev.map(message =>
+        message.id === messageId && message.metadata?.patch
+          ? { ...message, metadata: { ...message.metadata, patch: { ...message.metadata.patch, ...update } } }
+          : message
+      )
+    );
+  };
+
+  // Applies through the store, which re-validates against the current scenario and saves an undo snapshot
+  const handleApplyPatch = (messageId: string) => {
+    const patch = messages.find(message => message.id === messageId)?.metadata?.patch;
+    if (!patch || patch.status !== 'pending') return;
+    const result = applyScenarioPatch(patch.operations, 'AI assistant edit');
+    updatePatch(messageId, result.applied ? { status: 'applied', errors: [] } : { errors: result.errors });
+  };
+
   const handleSendMessage = async () => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -570,50 +698,33 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
       const data = await response.json();
       let responseContent = data.message;
 
-      // Check if response contains JSON patch and apply it automatically
-      if (responseContent.includes('JSON Patch:') && scenarioContent && onScenarioUpdate) {
+      // Patches are previewed against the scenario the store applies them to
+      const base = useSimulationStore.getState().scenario;
+
+      // A JSON patch in the response is previewed; the user applies or discards it
+      let pendingPatch: PendingPatch | undefined;
+      if (responseContent.includes('JSON Patch:') && base) {
         try {
           // Extract JSON patch from response
           const patchMatch = responseContent.match(/```json\s*(\[[\s\S]*?\])\s*```/);
           if (patchMatch) {
-            const patches = JSON.parse(patchMatch[1]);
-            const scenario = JSON.parse(scenarioContent);
-            
-            // Apply minimal JSON Patch ops: add/replace (sufficient for assistant output)
-            patches.forEach((patch: any) => {
-              if (!patch || !patch.op || !patch.path) return;
-              const parts = patch.path.split('/').filter((p: string) => p);
-              let parent = scenario as any;
-              for (let i = 0; i < parts.length - 1; i++) {
-                const key = parts[i];
-                if (Array.isArray(parent) && !isNaN(parseInt(key))) parent = parent[parseInt(key)];
-                else parent = parent[key];
-              }
-              const finalKey = parts[parts.length - 1];
-              if (patch.op === 'replace') {
-                if (Array.isArray(parent) && !isNaN(parseInt(finalKey))) parent[parseInt(finalKey)] = patch.value;
-                else parent[finalKey] = patch.value;
-              } else if (patch.op === 'add') {
-                if (Array.isArray(parent) && finalKey === '-') parent.push(patch.value);
-                else if (Array.isArray(parent) && !isNaN(parseInt(finalKey))) parent.splice(parseInt(finalKey), 0, patch.value);
-                else parent[finalKey] = patch.value;
-              }
-            });
-            
-            // Ensure Protocol V3 version field is present
-            if (!scenario.version || scenario.version !== '3.0') {
-              (scenario as any).version = '3.0';
+            let operations: JsonPatchOperation[] = JSON.parse(patchMatch[1]);
+            // Fix version and collisions introduced by the patch as part of the same change
+            try {
+              const patched = applyJsonPatch(base, JsonPatchSchema.parse(operations));
+              operations = [...operations, ...layoutOperations(patched)];
+            } catch {
+              // The preview below reports why the patch does not apply
             }
-            // Fix collisions introduced by patches
-            fixCollisionsInPlace(scenario);
-            const updatedScenario = JSON.stringify(scenario, null, 2);
-            onScenarioUpdate(updatedScenario);
-            
-            responseContent = responseContent + '\n\n🎉 **SCENARIO UPDATED AUTOMATICALLY!**\nThe JSON patches have been applied to your diagram.';
+            const preview = previewScenarioPatch(base, operations);
+            pendingPatch = { operations, preview, status: 'pending' };
+            responseContent = responseContent + (preview.scenario
+              ? '\n\nReview the proposed change below and apply it to update the diagram.'
+              : '\n\n❌ **Error**: The proposed JSON patch cannot be applied.');
           }
         } catch (error) {
-          console.error('Failed to apply JSON patches:', error);
-          responseContent = responseContent + '\n\n❌ **Error**: Failed to apply JSON patches automatically.';
+          console.error('Failed to parse JSON patches:', error);
+          responseContent = responseContent + '\n\n❌ **Error**: Failed to read the JSON patches.';
         }
       }
 
@@ -658,9 +769,9 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
         // Find the actual destination node ID by matching display name
         let destination = 'Queue_B';
         let destinationDisplayName = 'Queue B';
-        if (connectMatch && scenarioContent) {
+        if (connectMatch && base) {
           try {
-            const scenario = JSON.parse(scenarioContent);
+            const scenario: any = base;
             const targetName = connectMatch[1];
             
             // Try multiple matching strategies
@@ -714,20 +825,19 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
           }
         }
         
-        // Try to automatically add the source
-        if (scenarioContent && onScenarioUpdate) {
+        // The new source is proposed as a patch, previewed and applied like any other
+        if (base) {
           try {
-            const scenario = JSON.parse(scenarioContent);
             const newNodeId = `DataSource_${Date.now()}`;
             
             // Use custom name if provided, otherwise generate one
-            let displayName = `Source ${String.fromCharCode(65 + scenario.nodes.length)}`;
+            let displayName = `Source ${String.fromCharCode(65 + base.nodes.length)}`;
             if (nameMatch) {
               displayName = nameMatch[1].trim();
             }
             
             // Compute best non-overlapping position near destination node
-            const { x: finalX, y: finalY } = getBestPositionForNewNode(scenario, destination);
+            const { x: finalX, y: finalY } = getBestPositionForNewNode(base, destination);
             
             // Build DataSource node using V3 schema (outputs + generation)
             const newNode = {
@@ -756,18 +866,17 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
                 valueMax: maxVal,
               },
             };
-            
-            scenario.nodes.push(newNode);
-            // Ensure Protocol V3 version field is present
-            if (!scenario.version || scenario.version !== '3.0') {
-              (scenario as any).version = '3.0';
-            }
-            const updatedScenario = JSON.stringify(scenario, null, 2);
-            onScenarioUpdate(updatedScenario);
-            
-            responseContent = `SOURCE ADDED SUCCESSFULLY\n\nAdded new source: ${displayName}\n- Range: ${minVal}-${maxVal}\n- Interval: ${interval}s\n- Connected to: ${destinationDisplayName} (${destination})\n\nScenario updated automatically!`;
+
+            let operations: JsonPatchOperation[] = [{ op: 'add', path: '/nodes/-', value: newNode }];
+            operations = [...operations, ...layoutOperations(applyJsonPatch(base, operations))];
+            const preview = previewScenarioPatch(base, operations);
+            pendingPatch = { operations, preview, status: 'pending' };
+
+            responseContent = preview.scenario
+              ? `NEW SOURCE\n\nProposed source: ${displayName}\n- Range: ${minVal}-${maxVal}\n- Interval: ${interval}s\n- Connected to: ${destinationDisplayName} (${destination})\n\nReview the proposed change below and apply it to update the diagram.`
+              : `ERROR ADDING SOURCE\n\nThe new source does not fit the scenario:\n${preview.errors.join('\n')}`;
           } catch (error) {
-            responseContent = `ERROR ADDING SOURCE\n\nFailed to parse or update scenario JSON.\nError: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            responseContent = `ERROR ADDING SOURCE\n\nFailed to build the change.\nError: ${error instanceof Error ? error.message : 'Unknown error'}`;
           }
         }
       }
@@ -781,6 +890,7 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
         type: commandMatch ? 'analysis' : 'suggestion',
         metadata: {
           command: commandMatch?.[1],
+          patch: pendingPatch,
         }
       };
 
@@ -821,7 +931,12 @@ export default function IntegratedAIAssistant({ className, isEditMode = false, s
         <ScrollArea className="h-full px-3 py-2">
           <div className="space-y-1">
             {messages.map((message) => (
-              <MessageBubble key={message.id} message={message} />
+              <MessageBubble
+                key={message.id}
+                message={message}
+                onApplyPatch={handleApplyPatch}
+                onDiscardPatch={messageId => updatePatch(messageId, { status: 'discarded' })}
+              />
             ))}
             {isLoading && (
               <div className="flex justify-start mb-2">
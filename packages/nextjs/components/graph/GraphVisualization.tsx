@@ -451,6 +451,9 @@ const GraphVisualization: React.FC = () => {
             case "Queue":
               const qState = nodeState as any;
               details = `Buffer: ${qState.inputBuffer?.length || 0} in, ${qState.outputBuffer?.length || 0} out`;
+              if (qState.droppedCount || qState.blockedCount || qState.overflowCount) {
+                details += `, dropped ${qState.droppedCount || 0}, blocked ${qState.blockedCount || 0}, overflowed ${qState.overflowCount || 0}`;
+              }
               break;
             case "ProcessNode":
               const pState = nodeState as any;
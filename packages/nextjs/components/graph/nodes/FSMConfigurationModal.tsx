@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -25,10 +25,13 @@ import {
   Code,
   Target,
   Play,
-  Save
+  Save,
+  ShieldCheck
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { FSMProcessNode } from "@/lib/simulation/types";
+import { compileFSL, formatFSLDiagnostic, printFSL } from "@/lib/simulation/fslParser";
+import { checkFSM, type ModelCheckReport } from "@/lib/simulation/fsmModelChecker";
+import type { FSMDefinition, FSMInvariant, FSMProcessNode } from "@/lib/simulation/types";
 import { useSimulationStore } from "@/stores/simulationStore";
 
 interface FSMConfigurationModalProps {
@@ -50,91 +53,12 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
   const [initialState, setInitialState] = useState(currentConfig.fsm?.initialState || "");
   const [transitions, setTransitions] = useState(currentConfig.fsm?.transitions || []);
   const [stateActions, setStateActions] = useState(currentConfig.fsm?.stateActions || {});
+  const [finalStates, setFinalStates] = useState<string[]>(currentConfig.fsm?.finalStates || []);
+  const [invariants, setInvariants] = useState<FSMInvariant[]>(currentConfig.fsm?.invariants || []);
   const [newStateName, setNewStateName] = useState("");
+  const [checkReport, setCheckReport] = useState<ModelCheckReport | null>(null);
 
-  // FSL Parser - same as in fsl-editor.tsx
-  const parseFSL = (fslCode: string) => {
-    const result = {
-      states: [] as string[],
-      transitions: [] as any[],
-      stateActions: {} as any,
-      errors: [] as string[]
-    };
-
-    try {
-      const lines = fslCode.split('\n').map(line => line.trim()).filter(Boolean);
-      let currentState: string | null = null;
-
-      for (const line of lines) {
-        // State definition: state stateName { ... }
-        if (line.startsWith('state ')) {
-          const stateMatch = line.match(/state\s+(\w+)\s*\{?/);
-          if (stateMatch) {
-            currentState = stateMatch[1];
-            if (!result.states.includes(currentState)) {
-              result.states.push(currentState);
-              result.stateActions[currentState] = { logs: [], onEntry: [], onExit: [] };
-            }
-          }
-        }
-        // Transition: on trigger -> targetState
-        else if (line.includes('->') && currentState) {
-          const transitionMatch = line.match(/on\s+(.+?)\s*->\s*(\w+)/);
-          if (transitionMatch) {
-            const trigger = transitionMatch[1].trim();
-            const targetState = transitionMatch[2];
-
-            // Check if it's a condition-based transition
-            if (trigger.includes('.') || trigger.includes('>') || trigger.includes('<') || trigger.includes('=')) {
-              result.transitions.push({
-                from: currentState,
-                to: targetState,
-                trigger: 'condition',
-                condition: trigger
-              });
-            } else {
-              result.transitions.push({
-                from: currentState,
-                to: targetState,
-                trigger: trigger
-              });
-            }
-          }
-        }
-        // Actions: on_entry { action(...) }
-        else if (line.includes('on_entry') && currentState) {
-          const actions = line.match(/(\w+)\([^)]*\)/g);
-          if (actions) {
-            actions.forEach(actionStr => {
-              const actionMatch = actionStr.match(/(\w+)\((.+?)\)/);
-              if (actionMatch) {
-                const action = actionMatch[1];
-                const params = actionMatch[2].replace(/['"]/g, '');
-
-                if (action === 'log') {
-                  result.stateActions[currentState].onEntry.push({
-                    action: 'log',
-                    value: params
-                  });
-                } else if (action === 'emit') {
-                  const [target, formula] = params.split(',').map(s => s.trim());
-                  result.stateActions[currentState].onEntry.push({
-                    action: 'emit',
-                    target: target,
-                    formula: formula
-                  });
-                }
-              }
-            });
-          }
-        }
-      }
-    } catch (error) {
-      result.errors.push(`Parse error: ${error instanceof Error ? error.message : String(error)}`);
-    }
-
-    return result;
-  };
+  const diagnostics = useMemo(() => (fslCode.trim() ? compileFSL(fslCode).diagnostics : []), [fslCode]);
 
   // Reset form when modal opens
   useEffect(() => {
@@ -144,19 +68,24 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
 
       // If FSL exists, parse it to populate the visual editor
       if (fslCode.trim()) {
-        const parsed = parseFSL(fslCode);
-        if (parsed.errors.length === 0) {
-          setStates(parsed.states);
-          setInitialState(parsed.states[0] || ""); // First state as initial
-          setTransitions(parsed.transitions);
-          setStateActions(parsed.stateActions);
+        const { definition, diagnostics } = compileFSL(fslCode);
+        const errors = diagnostics.filter(diagnostic => diagnostic.severity === "error");
+        if (errors.length === 0) {
+          setStates(definition.states);
+          setInitialState(definition.initialState || "");
+          setTransitions(definition.transitions);
+          setStateActions(definition.stateActions || {});
+          setFinalStates(definition.finalStates || []);
+          setInvariants(definition.invariants || []);
         } else {
-          console.warn("FSL parsing errors:", parsed.errors);
+          console.warn("FSL parsing errors:", errors.map(formatFSLDiagnostic));
           // Fall back to existing config
           setStates(currentConfig.fsm?.states || []);
           setInitialState(currentConfig.fsm?.initialState || "");
           setTransitions(currentConfig.fsm?.transitions || []);
           setStateActions(currentConfig.fsm?.stateActions || {});
+          setFinalStates(currentConfig.fsm?.finalStates || []);
+          setInvariants(currentConfig.fsm?.invariants || []);
         }
       } else {
         // No FSL, use existing config
@@ -164,7 +93,10 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
         setInitialState(currentConfig.fsm?.initialState || "");
         setTransitions(currentConfig.fsm?.transitions || []);
         setStateActions(currentConfig.fsm?.stateActions || {});
+        setFinalStates(currentConfig.fsm?.finalStates || []);
+        setInvariants(currentConfig.fsm?.invariants || []);
       }
+      setCheckReport(null);
     }
   }, [isOpen, currentConfig]);
 
@@ -192,6 +124,7 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
       setStateActions(newStateActions);
       // Remove transitions involving this state
       setTransitions(transitions.filter(t => t.from !== stateName && t.to !== stateName));
+      setFinalStates(finalStates.filter(s => s !== stateName));
       // Reset initial state if this was it
       if (initialState === stateName) {
         setInitialState(states.find(s => s !== stateName) || "");
@@ -231,12 +164,37 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
     });
   };
 
+  const toggleFinalState = (stateName: string) => {
+    setFinalStates(
+      finalStates.includes(stateName) ? finalStates.filter(s => s !== stateName) : [...finalStates, stateName]
+    );
+  };
+
+  const updateInvariant = (index: number, field: keyof FSMInvariant, value: string) => {
+    const newInvariants = [...invariants];
+    newInvariants[index] = { ...newInvariants[index], [field]: value };
+    setInvariants(newInvariants);
+  };
+
+  // The definition as edited, for the model checker and the FSL generator
+  const editedDefinition = (): FSMDefinition => ({
+    states,
+    initialState,
+    transitions,
+    stateActions,
+    outputs: currentConfig.fsm?.outputs,
+    variables: currentConfig.fsm?.variables,
+    hierarchy: currentConfig.fsm?.hierarchy,
+    finalStates,
+    invariants: invariants.filter(invariant => invariant.formula.trim())
+  });
+
   const handleSave = () => {
     // Convert states to objects with actions
     const stateObjects = states.map(stateName => ({
       name: stateName,
       isInitial: stateName === initialState,
-      isFinal: false,
+      isFinal: finalStates.includes(stateName),
       onEntry: stateActions[stateName]?.onEntry || [],
       onExit: stateActions[stateName]?.onExit || []
     }));
@@ -249,7 +207,10 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
         initialState,
         transitions,
         stateActions,
-        outputs: currentConfig.fsm?.outputs || ["output"]
+        outputs: currentConfig.fsm?.outputs || ["output"],
+        hierarchy: currentConfig.fsm?.hierarchy,
+        finalStates,
+        invariants
       }
     };
 
@@ -263,39 +224,7 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
   };
 
   const generateFSLFromVisual = () => {
-    let fsl = "";
-
-    states.forEach(state => {
-      fsl += `state ${state} {\n`;
-
-      // Add state actions
-      const actions = stateActions[state];
-      if (actions?.onEntry && Object.keys(actions.onEntry).length > 0) {
-        Object.entries(actions.onEntry).forEach(([output, formula]) => {
-          fsl += `  on_entry { emit(${output}, ${formula}) }\n`;
-        });
-      }
-
-      if (actions?.logs && actions.logs.length > 0) {
-        actions.logs.forEach(log => {
-          fsl += `  on_entry { log("${log}") }\n`;
-        });
-      }
-
-      // Add transitions from this state
-      const stateTransitions = transitions.filter(t => t.from === state);
-      stateTransitions.forEach(transition => {
-        if (transition.condition) {
-          fsl += `  on ${transition.condition} -> ${transition.to}\n`;
-        } else {
-          fsl += `  on ${transition.trigger} -> ${transition.to}\n`;
-        }
-      });
-
-      fsl += "}\n\n";
-    });
-
-    setFslCode(fsl.trim());
+    setFslCode(printFSL(editedDefinition()));
   };
 
   return (
@@ -313,7 +242,7 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
 
         <div className="flex-1 overflow-hidden">
           <Tabs defaultValue="visual" className="h-full flex flex-col">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="visual" className="flex items-center gap-2">
                 <Activity className="h-4 w-4" />
                 Visual Editor
@@ -326,6 +255,10 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
                 <Target className="h-4 w-4" />
                 State Actions
               </TabsTrigger>
+              <TabsTrigger value="verify" className="flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4" />
+                Verification
+              </TabsTrigger>
             </TabsList>
 
             <TabsContent value="visual" className="flex-1 overflow-hidden">
@@ -361,9 +294,18 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
                             >
                               {state}
                               {state === initialState && " (initial)"}
+                              {finalStates.includes(state) && " (final)"}
                             </Badge>
                           </div>
                           <div className="flex items-center gap-1">
+                            <Button
+                              variant={finalStates.includes(state) ? "default" : "outline"}
+                              size="sm"
+                              onClick={() => toggleFinalState(state)}
+                              className="h-6 px-2 text-xs"
+                            >
+                              Final
+                            </Button>
                             {state !== initialState && (
                               <Button
                                 variant="outline"
@@ -470,6 +412,21 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
                   placeholder="Enter FSL code here..."
                   className="font-mono text-sm flex-1 min-h-96"
                 />
+                {diagnostics.length > 0 && (
+                  <div className="space-y-1">
+                    {diagnostics.map((diagnostic, i) => (
+                      <div
+                        key={i}
+                        className={cn(
+                          "text-xs font-mono p-1 rounded",
+                          diagnostic.severity === "error" ? "text-red-600 bg-red-50" : "text-amber-700 bg-amber-50"
+                        )}
+                      >
+                        {formatFSLDiagnostic(diagnostic)}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </TabsContent>
 
@@ -609,6 +566,115 @@ const FSMConfigurationModal: React.FC<FSMConfigurationModalProps> = ({
                 </ScrollArea>
               </div>
             </TabsContent>
+
+            <TabsContent value="verify" className="flex-1 overflow-hidden">
+              <div className="grid grid-cols-2 gap-4 h-full">
+                {/* Invariants Panel */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">Invariants</Label>
+                    <Button
+                      onClick={() => setInvariants([...invariants, { name: `invariant${invariants.length + 1}`, formula: "" }])}
+                      size="sm"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add
+                    </Button>
+                  </div>
+                  <p className="text-xs text-slate-600">
+                    Formulas over the FSM variables, <code>state</code>, <code>active.&lt;state&gt;</code> and{" "}
+                    <code>visited.&lt;state&gt;</code>, e.g. <code>not active.settled or visited.approved</code>.
+                  </p>
+                  <ScrollArea className="h-80 border rounded p-2">
+                    <div className="space-y-2">
+                      {invariants.map((invariant, index) => (
+                        <div key={index} className="p-2 border rounded space-y-1">
+                          <div className="flex gap-1">
+                            <Input
+                              value={invariant.name}
+                              placeholder="Name"
+                              className="text-xs flex-1"
+                              onChange={(e) => updateInvariant(index, 'name', e.target.value)}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setInvariants(invariants.filter((_, i) => i !== index))}
+                              className="h-8 px-2"
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                          <Input
+                            value={invariant.formula}
+                            placeholder="Formula that must always hold"
+                            className="text-xs font-mono"
+                            onChange={(e) => updateInvariant(index, 'formula', e.target.value)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
+
+                {/* Findings Panel */}
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm font-medium">
+                      Model Check
+                      {checkReport && ` (${checkReport.configurations} configurations)`}
+                    </Label>
+                    <Button onClick={() => setCheckReport(checkFSM(editedDefinition()))} size="sm" disabled={states.length === 0}>
+                      <ShieldCheck className="h-4 w-4 mr-1" />
+                      Run Check
+                    </Button>
+                  </div>
+                  <ScrollArea className="h-96 border rounded p-2">
+                    {!checkReport ? (
+                      <div className="text-xs text-slate-500 p-2">
+                        Checks for unreachable states, deadlocks, overlapping guards and invariant violations.
+                      </div>
+                    ) : checkReport.findings.length === 0 ? (
+                      <div className="text-xs text-green-700 bg-green-50 rounded p-2">
+                        No problems found in {checkReport.configurations} reachable configurations.
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        {checkReport.findings.map((finding, i) => (
+                          <div
+                            key={i}
+                            className={cn(
+                              "text-xs p-2 rounded space-y-1",
+                              finding.severity === "error" ? "text-red-700 bg-red-50" : "text-amber-800 bg-amber-50"
+                            )}
+                          >
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className="text-[10px]">
+                                {finding.kind}
+                              </Badge>
+                              <span>{finding.message}</span>
+                            </div>
+                            {finding.trace && (
+                              <ol className="font-mono space-y-0.5 pl-4 list-decimal text-slate-700">
+                                {finding.trace.map((step, j) => (
+                                  <li key={j}>
+                                    {step.transition && <span className="text-slate-500">{step.transition} ⇒ </span>}
+                                    {step.states.join(", ")}
+                                    {Object.keys(step.variables).length > 0 && (
+                                      <span className="text-slate-500"> {JSON.stringify(step.variables)}</span>
+                                    )}
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </ScrollArea>
+                </div>
+              </div>
+            </TabsContent>
           </Tabs>
         </div>
 
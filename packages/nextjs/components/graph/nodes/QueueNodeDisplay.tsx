@@ -75,9 +75,22 @@ const QueueNodeDisplay: React.FC<NodeProps<RFNodeData>> = ({ data, selected, id
         {/* Config Section */}
         <div className="space-y-0.5">
           <p className="font-medium text-muted-foreground">CONFIG:</p>
-          <p>Win: {config.aggregation.trigger.window}s</p>
-          <p>{config.aggregation.method}</p>
-          {config.capacity && <p>Cap: {config.capacity}</p>}
+          <p>
+            Win: {config.aggregation.trigger.window}
+            {config.aggregation.trigger.type === "count" ? " tokens" : "s"}
+            {config.aggregation.trigger.type === "session" && " gap"}
+            {config.aggregation.trigger.windowType === "sliding" && ` (slide ${config.aggregation.trigger.slide ?? 1})`}
+          </p>
+          <p>
+            {config.aggregation.method}
+            {config.aggregation.method === "percentile" && ` p${config.aggregation.percentile ?? 50}`}
+          </p>
+          {config.capacity && (
+            <p>
+              Cap: {config.capacity}
+              {config.overflowPolicy && config.overflowPolicy !== "drop-newest" && ` (${config.overflowPolicy})`}
+            </p>
+          )}
         </div>
         
         {/* Separator */}
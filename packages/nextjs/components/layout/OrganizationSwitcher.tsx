@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Building2 } from "lucide-react";
+import { apiFetch, getSelectedOrganization, setSelectedOrganization } from "~~/utils/api";
+
+interface OrganizationOption {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export function OrganizationSwitcher() {
+  const [organizations, setOrganizations] = useState<OrganizationOption[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadOrganizations = async () => {
+      try {
+        const response = await apiFetch("/api/v1/organizations", { cache: "no-store" });
+        if (!response.ok) return;
+        const { data } = await response.json();
+        // A selection the user lost access to would lock them out of every page
+        if (!data.active.role && getSelectedOrganization()) {
+          setSelectedOrganization(null);
+          window.location.reload();
+          return;
+        }
+        setOrganizations(data.organizations);
+        setActiveId(data.active.id);
+      } catch (error) {
+        console.error("Error loading organizations:", error);
+      }
+    };
+
+    loadOrganizations();
+  }, []);
+
+  const handleSelect = (organizationId: string) => {
+    if (organizationId === activeId) return;
+    setSelectedOrganization(organizationId);
+    // Every page loaded its data for the previous organization
+    window.location.reload();
+  };
+
+  if (organizations.length === 0) return null;
+
+  const active = organizations.find(organization => organization.id === activeId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Building2 className="h-4 w-4" />
+          {active?.name ?? "Organization"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Organization</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {organizations.map(organization => (
+          <DropdownMenuCheckboxItem
+            key={organization.id}
+            checked={organization.id === activeId}
+            onCheckedChange={() => handleSelect(organization.id)}
+            className="cursor-pointer"
+          >
+            <span className="flex-1">{organization.name}</span>
+            <span className="ml-4 text-xs text-gray-500">{organization.role}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -109,6 +109,7 @@ const NODE_TEMPLATES: NodeTemplate[] = [
       inputs: [
         {
           name: "inputA",
+          alias: "inputA",
           interface: { type: "Any", requiredFields: ["metadata.timestamp"] },
           required: true,
         },
@@ -225,6 +226,8 @@ const NODE_TEMPLATES: NodeTemplate[] = [
           interface: { type: "Any", requiredFields: [] },
         },
       ],
+      inputMappings: [],
+      outputMappings: [],
       subGraph: {
         nodes: [],
         version: "3.0",
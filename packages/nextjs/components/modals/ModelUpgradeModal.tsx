@@ -26,6 +26,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useSimulationStore } from "@/stores/simulationStore";
 import { useEventSourcing } from "@/stores/eventSourcingStore";
 import type { Scenario } from "@/lib/simulation/types";
+import { alignNodeEntries, type ScenarioComparisonResult } from "@/lib/simulation/scenarioComparison";
 import {
   ArrowUp,
   GitBranch,
@@ -45,6 +46,12 @@ interface ModelUpgradeModalProps {
   onClose: () => void;
 }
 
+interface ModelComparison {
+  nameA: string;
+  nameB: string;
+  result: ScenarioComparisonResult;
+}
+
 interface ModelVersion {
   id: string;
   name: string;
@@ -62,7 +69,8 @@ export default function ModelUpgradeModal({ isOpen, onClose }: ModelUpgradeModal
     currentScenario,
     captureModelUpgrade,
     createSnapshot,
-    availableScenarios
+    availableScenarios,
+    compareModels
   } = useEventSourcing();
 
   // Local state
@@ -72,7 +80,8 @@ export default function ModelUpgradeModal({ isOpen, onClose }: ModelUpgradeModal
   const [upgradeReason, setUpgradeReason] = useState("");
   const [selectedVersion, setSelectedVersion] = useState<ModelVersion | null>(null);
   const [isComparing, setIsComparing] = useState(false);
-  const [comparisonResults, setComparisonResults] = useState<any>(null);
+  const [comparisonResults, setComparisonResults] = useState<ModelComparison | null>(null);
+  const [diffNodeId, setDiffNodeId] = useState<string | null>(null);
 
   // Initialize model versions from current state
   useEffect(() => {
@@ -196,44 +205,17 @@ export default function ModelUpgradeModal({ isOpen, onClose }: ModelUpgradeModal
     setIsComparing(true);
 
     try {
-      // This would use the enhanced replay engine to compare models
-      // For now, we'll simulate the comparison
-      const mockResults = {
-        modelA: {
-          name: versionA.name,
-          finalTime: simulationStore.currentTime + Math.random() * 50,
-          totalTokens: Math.floor(Math.random() * 100) + 50,
-          nodeStates: Object.keys(simulationStore.nodeStates).length
-        },
-        modelB: {
-          name: versionB.name,
-          finalTime: simulationStore.currentTime + Math.random() * 50,
-          totalTokens: Math.floor(Math.random() * 100) + 50,
-          nodeStates: Object.keys(simulationStore.nodeStates).length
-        },
-        differences: [
-          {
-            timestamp: 45,
-            metric: 'tokenThroughput',
-            valueA: 23,
-            valueB: 31,
-            significance: 'major' as const
-          },
-          {
-            timestamp: 78,
-            metric: 'bufferSize',
-            valueA: 5,
-            valueB: 3,
-            significance: 'minor' as const
-          }
-        ]
-      };
+      // Replay the recorded external events against both models
+      const result = await compareModels(currentScenario.id, versionA.scenario, versionB.scenario);
 
-      setComparisonResults(mockResults);
+      setComparisonResults({ nameA: versionA.name, nameB: versionB.name, result });
+      setDiffNodeId(result.nodeDivergences[0]?.nodeId ?? null);
 
       toast({
         title: "Comparison Complete",
-        description: `Found ${mockResults.differences.length} differences between model versions.`
+        description: result.nodeDivergences.length === 0
+          ? "Both models produce identical activity for the recorded events."
+          : `${result.nodeDivergences.length} node(s) diverge between the model versions.`
       });
 
     } catch (error) {
@@ -251,6 +233,29 @@ export default function ModelUpgradeModal({ isOpen, onClose }: ModelUpgradeModal
     return new Date(timestamp).toLocaleString();
   };
 
+  const formatValue = (value: any) => {
+    if (value === undefined) return '—';
+    if (typeof value === 'number') return Number(value.toFixed(3)).toString();
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  };
+
+  // Compare the current model with the version selected in the Versions tab, or the next one
+  const comparisonTarget = selectedVersion && selectedVersion.id !== modelVersions[0]?.id
+    ? selectedVersion
+    : modelVersions[1];
+
+  const diffRows = comparisonResults && diffNodeId
+    ? alignNodeEntries(
+        comparisonResults.result.resultsA.derivedEvents,
+        comparisonResults.result.resultsB.derivedEvents,
+        diffNodeId,
+        {
+          fromTime: comparisonResults.result.nodeDivergences.find(d => d.nodeId === diffNodeId)?.firstDivergence.timestamp,
+          limit: 50
+        }
+      )
+    : [];
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
@@ -458,15 +463,17 @@ export default function ModelUpgradeModal({ isOpen, onClose }: ModelUpgradeModal
               <div className="grid grid-cols-2 gap-4">
                 <Button
                   onClick={() => {
-                    if (modelVersions.length >= 2) {
-                      handleCompareModels(modelVersions[0], modelVersions[1]);
+                    if (modelVersions.length >= 2 && comparisonTarget) {
+                      handleCompareModels(modelVersions[0], comparisonTarget);
                     }
                   }}
                   disabled={isComparing || modelVersions.length < 2}
                   className="h-16"
                 >
                   <ArrowLeftRight className="h-5 w-5 mr-2" />
-                  {isComparing ? "Comparing..." : "Compare Latest Versions"}
+                  {isComparing
+                    ? "Comparing..."
+                    : `Compare with ${comparisonTarget?.name ?? "another version"}`}
                 </Button>
 
                 <Button variant="outline" className="h-16" disabled>
@@ -480,44 +487,97 @@ export default function ModelUpgradeModal({ isOpen, onClose }: ModelUpgradeModal
                 <div className="border rounded-lg p-4 space-y-4">
                   <h4 className="font-medium">Comparison Results</h4>
 
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <h5 className="font-medium text-blue-600">{comparisonResults.modelA.name}</h5>
-                      <div className="text-sm space-y-1">
-                        <div>Final Time: {comparisonResults.modelA.finalTime.toFixed(1)}s</div>
-                        <div>Total Tokens: {comparisonResults.modelA.totalTokens}</div>
-                        <div>Node States: {comparisonResults.modelA.nodeStates}</div>
-                      </div>
+                  {/* KPI deltas */}
+                  <div className="text-sm">
+                    <div className="grid grid-cols-4 gap-2 font-medium border-b pb-1">
+                      <span>Metric</span>
+                      <span className="text-blue-600">{comparisonResults.nameA}</span>
+                      <span className="text-green-600">{comparisonResults.nameB}</span>
+                      <span>Δ</span>
                     </div>
-
-                    <div className="space-y-2">
-                      <h5 className="font-medium text-green-600">{comparisonResults.modelB.name}</h5>
-                      <div className="text-sm space-y-1">
-                        <div>Final Time: {comparisonResults.modelB.finalTime.toFixed(1)}s</div>
-                        <div>Total Tokens: {comparisonResults.modelB.totalTokens}</div>
-                        <div>Node States: {comparisonResults.modelB.nodeStates}</div>
+                    {comparisonResults.result.kpiDeltas.map((kpi) => (
+                      <div key={kpi.name} className="grid grid-cols-4 gap-2 py-1 font-mono text-xs">
+                        <span className="font-sans">{kpi.name}</span>
+                        <span>{formatValue(kpi.valueA)}</span>
+                        <span>{formatValue(kpi.valueB)}</span>
+                        <span className={cn(
+                          kpi.delta !== undefined && kpi.delta > 0 && "text-green-700",
+                          kpi.delta !== undefined && kpi.delta < 0 && "text-red-700"
+                        )}>
+                          {kpi.delta !== undefined && kpi.delta > 0 ? "+" : ""}{formatValue(kpi.delta)}
+                        </span>
                       </div>
-                    </div>
+                    ))}
                   </div>
 
                   <Separator />
 
+                  {comparisonResults.result.firstDivergentToken ? (
+                    <div className="bg-red-50 text-red-800 rounded p-2 text-sm">
+                      First divergent token at t={comparisonResults.result.firstDivergentToken.timestamp} in{" "}
+                      <span className="font-medium">{comparisonResults.result.firstDivergentToken.nodeId}</span>{" "}
+                      ({comparisonResults.result.firstDivergentToken.action}):{" "}
+                      <span className="font-mono">
+                        {formatValue(comparisonResults.result.firstDivergentToken.valueA)} → {formatValue(comparisonResults.result.firstDivergentToken.valueB)}
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="bg-green-50 text-green-800 rounded p-2 text-sm flex items-center gap-2">
+                      <CheckCircle className="h-4 w-4" />
+                      No token diverges between the two models.
+                    </div>
+                  )}
+
+                  {/* Per-node divergences */}
                   <div className="space-y-2">
-                    <h5 className="font-medium">Key Differences</h5>
-                    {comparisonResults.differences.map((diff: any, index: number) => (
-                      <div key={index} className={cn(
-                        "flex items-center justify-between p-2 rounded",
-                        diff.significance === 'major' ? "bg-red-50 text-red-800" : "bg-yellow-50 text-yellow-800"
-                      )}>
-                        <span className="text-sm">
-                          t={diff.timestamp}: {diff.metric}
+                    <h5 className="font-medium">Node Divergences</h5>
+                    {comparisonResults.result.nodeDivergences.length === 0 && (
+                      <p className="text-sm text-gray-500">Every node logs the same activity.</p>
+                    )}
+                    {comparisonResults.result.nodeDivergences.map((divergence) => (
+                      <button
+                        key={divergence.nodeId}
+                        onClick={() => setDiffNodeId(divergence.nodeId)}
+                        className={cn(
+                          "w-full flex items-center justify-between p-2 rounded text-left text-sm bg-yellow-50 text-yellow-800",
+                          diffNodeId === divergence.nodeId && "ring-2 ring-yellow-400"
+                        )}
+                      >
+                        <span>
+                          <span className="font-medium">{divergence.nodeId}</span> from t={divergence.firstDivergence.timestamp}
                         </span>
-                        <span className="text-sm font-mono">
-                          {diff.valueA} → {diff.valueB}
+                        <span className="font-mono text-xs">
+                          {divergence.divergentEntries} differing of {divergence.entriesA} / {divergence.entriesB} entries
                         </span>
-                      </div>
+                      </button>
                     ))}
                   </div>
+
+                  {/* Side-by-side activity of the selected node */}
+                  {diffNodeId && diffRows.length > 0 && (
+                    <div className="space-y-2">
+                      <h5 className="font-medium">Activity of {diffNodeId}</h5>
+                      <ScrollArea className="h-64 border rounded">
+                        <div className="text-xs font-mono">
+                          <div className="grid grid-cols-[3rem_1fr_1fr] gap-2 px-2 py-1 font-sans font-medium bg-gray-50 border-b sticky top-0">
+                            <span>t</span>
+                            <span className="text-blue-600">{comparisonResults.nameA}</span>
+                            <span className="text-green-600">{comparisonResults.nameB}</span>
+                          </div>
+                          {diffRows.map((row, index) => (
+                            <div
+                              key={index}
+                              className={cn("grid grid-cols-[3rem_1fr_1fr] gap-2 px-2 py-1", row.differs && "bg-red-50")}
+                            >
+                              <span>{row.timestamp}</span>
+                              <span>{row.entryA ? `${row.entryA.action} ${formatValue(row.entryA.value)}` : '—'}</span>
+                              <span>{row.entryB ? `${row.entryB.action} ${formatValue(row.entryB.value)}` : '—'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </ScrollArea>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
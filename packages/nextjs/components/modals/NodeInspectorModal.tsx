@@ -21,7 +21,10 @@ import { useToast } from "@/hooks/use-toast";
 // import { MessageInterfaces } from "@/lib/simulation/message-interfaces";
 // import { InterfaceCompatibilityValidator } from "@/lib/simulation/enhanced-node-schema";
 import { Code, Settings, Activity, ChevronDown, ChevronRight, Save, RefreshCw, MessageSquare, ArrowRight, ArrowLeft, CheckCircle, AlertTriangle, Info, Eye, EyeOff, Tags, Plus, X } from "lucide-react";
-import type { NodeStateMachineState, StateMachineInfo } from "@/lib/simulation/types";
+import type { GenerationConfig, GenerationType, IntervalDistribution, NodeStateMachineState, StateMachineInfo } from "@/lib/simulation/types";
+import { GENERATION_TYPES } from "@/lib/simulation/types";
+import { validateScenario } from "@/lib/simulation/validation";
+import { checkFormula, processNodeFormulaSymbols } from "@/lib/simulation/formulaEngine";
 // FSLGenerator removed - using simulation store state machine directly
 import { Badge } from "@/components/ui/badge";
 
@@ -676,6 +679,9 @@ const ConfigSection: React.FC<{
                 {nodeConfig.type === 'DataSource' && (
                   <>
                     <div><span className="font-medium text-slate-600">Interval:</span> {nodeConfig.interval}s</div>
+                    {nodeConfig.intervalDistribution && nodeConfig.intervalDistribution.type !== 'fixed' && (
+                      <div><span className="font-medium text-slate-600">Interval Distribution:</span> {nodeConfig.intervalDistribution.type}{nodeConfig.intervalDistribution.jitter !== undefined && ` (±${nodeConfig.intervalDistribution.jitter})`}</div>
+                    )}
                     <div><span className="font-medium text-slate-600">Generation Type:</span> {nodeConfig.generation.type}</div>
                     <div><span className="font-medium text-slate-600">Value Range:</span> {nodeConfig.generation.valueMin} - {nodeConfig.generation.valueMax}</div>
                   </>
@@ -684,9 +690,24 @@ const ConfigSection: React.FC<{
                 {nodeConfig.type === 'Queue' && (
                   <>
                     <div><span className="font-medium text-slate-600">Aggregation Method:</span> {nodeConfig.aggregation.method}</div>
-                    <div><span className="font-medium text-slate-600">Time Window:</span> {nodeConfig.aggregation.trigger.window}s</div>
+                    {nodeConfig.aggregation.method === 'percentile' && (
+                      <div><span className="font-medium text-slate-600">Percentile:</span> {nodeConfig.aggregation.percentile ?? 50}</div>
+                    )}
+                    <div>
+                      <span className="font-medium text-slate-600">{nodeConfig.aggregation.trigger.type === 'session' ? 'Inactivity Gap:' : 'Window:'}</span>{' '}
+                      {nodeConfig.aggregation.trigger.window}{nodeConfig.aggregation.trigger.type === 'count' ? ' tokens' : 's'}
+                    </div>
                     <div><span className="font-medium text-slate-600">Trigger Type:</span> {nodeConfig.aggregation.trigger.type}</div>
+                    {nodeConfig.aggregation.trigger.windowType === 'sliding' && (
+                      <div><span className="font-medium text-slate-600">Sliding Window:</span> every {nodeConfig.aggregation.trigger.slide ?? 1}{nodeConfig.aggregation.trigger.type === 'count' ? ' tokens' : 's'}</div>
+                    )}
                     {nodeConfig.capacity && <div><span className="font-medium text-slate-600">Capacity:</span> {nodeConfig.capacity}</div>}
+                    {nodeConfig.capacity && (
+                      <div>
+                        <span className="font-medium text-slate-600">When Full:</span> {nodeConfig.overflowPolicy ?? 'drop-newest'}
+                        {nodeConfig.overflowPolicy === 'overflow' && nodeConfig.overflowOutput && ` → "${nodeConfig.overflowOutput}"`}
+                      </div>
+                    )}
                     <div className="mt-2 p-2 bg-slate-100 rounded text-xs">
                       <span className="font-medium">Formula:</span> <span className="font-mono">{nodeConfig.aggregation.formula}</span>
                     </div>
@@ -695,6 +716,31 @@ const ConfigSection: React.FC<{
               </div>
             </div>
 
+            {/* Generation Section - Editable */}
+            {nodeConfig.type === 'DataSource' && (
+              <GenerationEditor
+                nodeConfig={nodeConfig}
+                onUpdate={(updated) => {
+                  if (scenario) {
+                    const updatedScenario = {
+                      ...scenario,
+                      nodes: scenario.nodes.map((node: any) =>
+                        node.nodeId === nodeConfig.nodeId ? { ...node, ...updated } : node
+                      )
+                    };
+                    const { errors } = validateScenario(updatedScenario);
+                    if (errors.length > 0) {
+                      toast({ variant: "destructive", title: "Invalid Generation", description: errors[0] });
+                      return;
+                    }
+                    saveSnapshot('Update node generation');
+                    loadScenario(updatedScenario);
+                    toast({ title: "Generation Updated", description: "Node generation has been updated successfully." });
+                  }
+                }}
+              />
+            )}
+
             {/* Inputs Section - Editable */}
             {(nodeConfig.type === 'ProcessNode' || nodeConfig.type === 'Queue' || nodeConfig.type === 'Sink' || nodeConfig.type === 'FSMProcessNode') && (
               <InputsOutputsEditor
@@ -1029,6 +1075,208 @@ const NodeActivityLogWithStateTransitions: React.FC<{
   );
 };
 
+// Generation Editor Component (DataSource value and interval distributions)
+const GENERATION_TYPE_LABELS: Record<GenerationType, string> = {
+  random: 'Uniform integer (legacy "random")',
+  uniform: 'Uniform integer',
+  normal: 'Normal',
+  exponential: 'Exponential',
+  poisson: 'Poisson',
+  triangular: 'Triangular',
+  discrete: 'Discrete (weighted)',
+  constant: 'Constant',
+  csv: 'Replay CSV column',
+};
+
+const GenerationEditor: React.FC<{
+  nodeConfig: any;
+  onUpdate: (updated: { interval: number; intervalDistribution?: IntervalDistribution; generation: GenerationConfig }) => void;
+}> = ({ nodeConfig, onUpdate }) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  const toFormData = () => {
+    const generation = nodeConfig.generation || {};
+    return {
+      type: generation.type || 'random',
+      valueMin: String(generation.valueMin ?? 0),
+      valueMax: String(generation.valueMax ?? 10),
+      seed: generation.seed !== undefined ? String(generation.seed) : '',
+      mean: generation.mean !== undefined ? String(generation.mean) : '',
+      stdDev: generation.stdDev !== undefined ? String(generation.stdDev) : '',
+      rate: generation.rate !== undefined ? String(generation.rate) : '',
+      mode: generation.mode !== undefined ? String(generation.mode) : '',
+      value: generation.value !== undefined ? String(generation.value) : '',
+      outcomes: (generation.outcomes || []).map((o: any) => `${o.value}:${o.weight}`).join(', '),
+      csvData: generation.csv?.data || '',
+      csvColumn: generation.csv?.column !== undefined ? String(generation.csv.column) : '',
+      csvLoop: generation.csv?.loop !== false,
+      interval: String(nodeConfig.interval ?? 1),
+      intervalType: nodeConfig.intervalDistribution?.type || 'fixed',
+      jitter: nodeConfig.intervalDistribution?.jitter !== undefined ? String(nodeConfig.intervalDistribution.jitter) : '',
+    };
+  };
+
+  const [formData, setFormData] = useState(toFormData);
+
+  const optionalNumber = (text: string) => (text.trim() === '' ? undefined : Number(text));
+  const numberOrString = (text: string) => (text.trim() !== '' && !isNaN(Number(text)) ? Number(text) : text.trim());
+
+  const handleSave = () => {
+    const generation: GenerationConfig = {
+      type: formData.type,
+      valueMin: Number(formData.valueMin),
+      valueMax: Number(formData.valueMax),
+      seed: optionalNumber(formData.seed),
+    };
+
+    switch (formData.type) {
+      case 'normal':
+        generation.mean = optionalNumber(formData.mean);
+        generation.stdDev = optionalNumber(formData.stdDev);
+        break;
+      case 'exponential':
+      case 'poisson':
+        generation.rate = optionalNumber(formData.rate);
+        break;
+      case 'triangular':
+        generation.mode = optionalNumber(formData.mode);
+        break;
+      case 'discrete':
+        generation.outcomes = formData.outcomes
+          .split(',')
+          .map(entry => entry.trim())
+          .filter(Boolean)
+          .map(entry => {
+            const [value, weight] = entry.split(':');
+            return { value: numberOrString(value), weight: Number(weight ?? 1) };
+          });
+        break;
+      case 'constant':
+        generation.value = numberOrString(formData.value);
+        break;
+      case 'csv':
+        generation.csv = {
+          data: formData.csvData,
+          column: /^\d+$/.test(formData.csvColumn.trim()) ? Number(formData.csvColumn) : formData.csvColumn.trim(),
+          loop: formData.csvLoop,
+        };
+        break;
+    }
+
+    onUpdate({
+      interval: Number(formData.interval),
+      intervalDistribution:
+        formData.intervalType === 'fixed'
+          ? undefined
+          : { type: formData.intervalType as IntervalDistribution['type'], jitter: optionalNumber(formData.jitter) },
+      generation,
+    });
+    setIsEditing(false);
+  };
+
+  const field = (key: keyof ReturnType<typeof toFormData>, placeholder: string) => (
+    <Input
+      placeholder={placeholder}
+      value={formData[key] as string}
+      onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+      className="h-7 text-xs"
+    />
+  );
+
+  return (
+    <div className="border-t pt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-slate-700">Generation</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => {
+            setFormData(toFormData());
+            setIsEditing(!isEditing);
+          }}
+        >
+          {isEditing ? 'Close' : 'Edit'}
+        </Button>
+      </div>
+
+      {isEditing && (
+        <div className="border border-blue-200 rounded p-3 bg-blue-50 space-y-2">
+          <select
+            value={formData.type}
+            onChange={(e) => setFormData({ ...formData, type: e.target.value })}
+            className="w-full h-7 text-xs border rounded px-2 bg-white"
+          >
+            {GENERATION_TYPES.map(type => (
+              <option key={type} value={type}>{GENERATION_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+
+          <div className="grid grid-cols-2 gap-2">
+            {field('valueMin', 'Min value')}
+            {field('valueMax', 'Max value')}
+          </div>
+
+          {formData.type === 'normal' && (
+            <div className="grid grid-cols-2 gap-2">
+              {field('mean', 'Mean')}
+              {field('stdDev', 'Std deviation')}
+            </div>
+          )}
+          {(formData.type === 'exponential' || formData.type === 'poisson') && field('rate', 'Rate (λ)')}
+          {formData.type === 'triangular' && field('mode', 'Mode')}
+          {formData.type === 'constant' && field('value', 'Value')}
+          {formData.type === 'discrete' && field('outcomes', 'value:weight, value:weight')}
+          {formData.type === 'csv' && (
+            <>
+              <Textarea
+                placeholder={'time,reading\n0,12.5\n1,13.1'}
+                value={formData.csvData}
+                onChange={(e) => setFormData({ ...formData, csvData: e.target.value })}
+                className="font-mono text-xs h-24 bg-white"
+              />
+              {field('csvColumn', 'Column name or index')}
+              <label className="flex items-center gap-2 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={formData.csvLoop}
+                  onChange={(e) => setFormData({ ...formData, csvLoop: e.target.checked })}
+                />
+                Loop when the data runs out
+              </label>
+            </>
+          )}
+
+          {field('seed', 'Seed (optional)')}
+
+          <div className="grid grid-cols-2 gap-2">
+            {field('interval', 'Interval')}
+            <select
+              value={formData.intervalType}
+              onChange={(e) => setFormData({ ...formData, intervalType: e.target.value })}
+              className="w-full h-7 text-xs border rounded px-2 bg-white"
+            >
+              <option value="fixed">Fixed interval</option>
+              <option value="jitter">Interval ± jitter</option>
+              <option value="exponential">Exponential (Poisson arrivals)</option>
+            </select>
+          </div>
+          {formData.intervalType === 'jitter' && field('jitter', 'Jitter (ticks)')}
+
+          <div className="flex gap-2">
+            <Button size="sm" className="h-6 text-xs" onClick={handleSave}>
+              Save
+            </Button>
+            <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => setIsEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Inputs/Outputs Editor Component
 const InputsOutputsEditor: React.FC<{
   nodeConfig: any;
@@ -1050,12 +1298,19 @@ const InputsOutputsEditor: React.FC<{
     interfaceType: 'SimpleValue',
     requiredFields: ['data.value'],
     required: false,
+    onViolation: 'reject',
     formula: '',
   });
 
   const items = nodeConfig[section] || [];
   const availableNodes = scenario?.nodes.filter(n => n.nodeId !== nodeConfig.nodeId) || [];
 
+  // Design-time check of the output formula against the node's inputs
+  const formulaErrors = useMemo(() => {
+    if (section !== 'outputs' || nodeConfig.type !== 'ProcessNode' || !formData.formula.trim()) return [];
+    return checkFormula(formData.formula, processNodeFormulaSymbols(nodeConfig, scenario?.nodes || [])).errors;
+  }, [section, nodeConfig, scenario?.nodes, formData.formula]);
+
   const handleAdd = () => {
     if (!formData.name.trim()) {
       return; // Name is required
@@ -1072,6 +1327,7 @@ const InputsOutputsEditor: React.FC<{
           },
           alias: formData.alias || undefined,
           required: formData.required,
+          onViolation: formData.onViolation !== 'reject' ? formData.onViolation : undefined,
         }
       : {
           name: formData.name,
@@ -1105,6 +1361,7 @@ const InputsOutputsEditor: React.FC<{
         interfaceType: item.interface?.type || 'SimpleValue',
         requiredFields: item.interface?.requiredFields || ['data.value'],
         required: item.required || false,
+        onViolation: item.onViolation || 'reject',
       });
     } else {
       setFormData({
@@ -1136,6 +1393,7 @@ const InputsOutputsEditor: React.FC<{
           },
           alias: formData.alias || undefined,
           required: formData.required,
+          onViolation: formData.onViolation !== 'reject' ? formData.onViolation : undefined,
         }
       : {
           name: formData.name,
@@ -1174,6 +1432,7 @@ const InputsOutputsEditor: React.FC<{
       interfaceType: 'SimpleValue',
       requiredFields: ['data.value'],
       required: false,
+      onViolation: 'reject',
       formula: '',
     });
     setIsAdding(false);
@@ -1270,6 +1529,17 @@ const InputsOutputsEditor: React.FC<{
                 onChange={(e) => setFormData({ ...formData, alias: e.target.value })}
                 className="h-7 text-xs"
               />
+
+              <select
+                value={formData.onViolation}
+                onChange={(e) => setFormData({ ...formData, onViolation: e.target.value })}
+                className="w-full h-7 text-xs border rounded px-2 bg-white"
+                title="What to do with tokens that don't match the interface"
+              >
+                <option value="reject">Reject mismatched tokens</option>
+                <option value="quarantine">Quarantine mismatched tokens</option>
+                <option value="warn">Accept mismatched tokens with a warning</option>
+              </select>
             </>
           ) : (
             <>
@@ -1290,6 +1560,11 @@ const InputsOutputsEditor: React.FC<{
                 onChange={(e) => setFormData({ ...formData, formula: e.target.value })}
                 className="h-7 text-xs font-mono"
               />
+              {formulaErrors.map(error => (
+                <div key={error} className="text-[10px] text-red-600">
+                  {error}
+                </div>
+              ))}
             </>
           )}
 
@@ -1302,6 +1577,9 @@ const InputsOutputsEditor: React.FC<{
             <option value="AggregationResult">AggregationResult</option>
             <option value="TransformationResult">TransformationResult</option>
             <option value="Any">Any</option>
+            {scenario?.interfaceTypes?.map(definition => (
+              <option key={definition.name} value={definition.name}>{definition.name}</option>
+            ))}
           </select>
 
           <div className="flex gap-2">
@@ -2030,6 +2308,11 @@ const NodeInspectorModal: React.FC = () => {
                     {/* States */}
                     <div className="mb-4">
                       <h4 className="font-medium text-sm mb-2">FSM States ({nodeConfig.fsm?.states?.length || 0})</h4>
+                      {(nodeState as any)?.activeFSMStates?.length > 1 && (
+                        <div className="text-xs text-slate-600 mb-2">
+                          Active: <span className="font-mono">{(nodeState as any).activeFSMStates.join(', ')}</span>
+                        </div>
+                      )}
                       <div className="space-y-2">
                         {nodeConfig.fsm?.states?.map((state, index) => {
                           // Handle both string and object formats
@@ -2046,6 +2329,12 @@ const NodeInspectorModal: React.FC = () => {
                                 </Badge>
                                 {isInitial && <span className="text-xs text-green-600">Initial</span>}
                                 {isFinal && <span className="text-xs text-blue-600">Final</span>}
+                                {nodeConfig.fsm?.hierarchy?.[stateName]?.kind && nodeConfig.fsm.hierarchy[stateName].kind !== 'atomic' && (
+                                  <span className="text-xs text-purple-600">{nodeConfig.fsm.hierarchy[stateName].kind}</span>
+                                )}
+                                {nodeConfig.fsm?.hierarchy?.[stateName]?.parent && (
+                                  <span className="text-xs text-slate-500">in {nodeConfig.fsm.hierarchy[stateName].parent}</span>
+                                )}
                               </div>
                               {onEntry && onEntry.length > 0 && (
                                 <div className="text-xs text-slate-600">
@@ -2155,6 +2444,7 @@ const NodeInspectorModal: React.FC = () => {
                       <NodeStateMachineDiagram
                         nodeConfig={nodeConfig}
                         stateMachineInfo={(nodeState as any)?.stateMachine}
+                        activeStates={(nodeState as any)?.activeFSMStates}
                         width={600}
                         height={nodeConfig.type === 'FSMProcessNode' ? 300 : 200}
                         overrideActiveState={selectedEventState}
@@ -0,0 +1,225 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  computeSimulationStatistics,
+  nodeStatisticsToCSV,
+  timeSeriesToCSV,
+  valueAt,
+} from "@/lib/simulation/statistics";
+import { useSimulationStore } from "@/stores/simulationStore";
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 100;
+
+const formatNumber = (value: number | undefined, digits = 2) =>
+  value === undefined || Number.isNaN(value) ? "-" : Number(value.toFixed(digits)).toString();
+
+const download = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Minimal SVG line chart over simulation time. `step` draws the value as held
+ * until the next point, for series that only record changes.
+ */
+const TimeSeriesChart: React.FC<{
+  title: string;
+  points: { time: number; value: number }[];
+  startTime: number;
+  endTime: number;
+  step?: boolean;
+  unit?: string;
+}> = ({ title, points, startTime, endTime, step, unit }) => {
+  const maxValue = Math.max(1, ...points.map(point => point.value));
+  const span = Math.max(1, endTime - startTime);
+  const x = (time: number) => ((time - startTime) / span) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (value / maxValue) * CHART_HEIGHT;
+
+  const path = step
+    ? Array.from({ length: endTime - startTime + 1 }, (_, i) => startTime + i)
+        .map(time => `${x(time)},${y(valueAt(points, time))}`)
+        .join(" ")
+    : points.map(point => `${x(point.time)},${y(point.value)}`).join(" ");
+
+  return (
+    <div className="border rounded-md p-3">
+      <div className="flex justify-between text-xs mb-2">
+        <span className="font-medium">{title}</span>
+        <span className="text-muted-foreground">
+          max {formatNumber(maxValue)}
+          {unit}
+        </span>
+      </div>
+      {points.length === 0 ? (
+        <p className="text-xs text-muted-foreground h-[100px] flex items-center justify-center">No data yet</p>
+      ) : (
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-[100px] bg-muted/30 rounded"
+        >
+          <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1.5} className="text-primary" />
+        </svg>
+      )}
+      <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+        <span>{startTime}s</span>
+        <span>{endTime}s</span>
+      </div>
+    </div>
+  );
+};
+
+const SummaryCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="border rounded-md p-3">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-semibold font-mono">{value}</div>
+  </div>
+);
+
+const NodeStatisticsTable: React.FC<{ statistics: ReturnType<typeof computeSimulationStatistics> }> = ({
+  statistics,
+}) => (
+  <div className="border rounded-md">
+    <div className="bg-muted/50 px-3 py-2 text-xs font-medium border-b">
+      <div className="flex gap-4">
+        <div className="w-40 flex-shrink-0">Node</div>
+        <div className="w-28 flex-shrink-0">Type</div>
+        <div className="w-16 flex-shrink-0 text-right">In</div>
+        <div className="w-16 flex-shrink-0 text-right">Out</div>
+        <div className="w-24 flex-shrink-0 text-right">Throughput/s</div>
+        <div className="w-24 flex-shrink-0 text-right">Utilization</div>
+        <div className="flex-1 min-w-0">Latency / states</div>
+      </div>
+    </div>
+    <div className="divide-y">
+      {statistics.nodes.map(node => (
+        <div key={node.nodeId} className="px-3 py-2 text-xs">
+          <div className="flex gap-4 items-start">
+            <div className="w-40 flex-shrink-0 font-medium truncate" title={node.nodeId}>
+              {node.displayName}
+            </div>
+            <div className="w-28 flex-shrink-0 text-muted-foreground">{node.type}</div>
+            <div className="w-16 flex-shrink-0 text-right font-mono">{node.tokensIn}</div>
+            <div className="w-16 flex-shrink-0 text-right font-mono">{node.tokensOut}</div>
+            <div className="w-24 flex-shrink-0 text-right font-mono">{formatNumber(node.throughput)}</div>
+            <div className="w-24 flex-shrink-0 text-right font-mono">{formatNumber(node.utilization * 100, 1)}%</div>
+            <div className="flex-1 min-w-0 text-muted-foreground">
+              {node.latency &&
+                `mean ${formatNumber(node.latency.mean)}s, p95 ${formatNumber(node.latency.p95)}s, max ${node.latency.max}s`}
+              {node.stateTime &&
+                Object.entries(node.stateTime)
+                  .map(([state, time]) => `${state}: ${time}s`)
+                  .join(", ")}
+              {!node.latency && !node.stateTime && "-"}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const StatisticsDashboardModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+  const globalActivityLog = useSimulationStore(state => state.globalActivityLog);
+  const nodesConfig = useSimulationStore(state => state.nodesConfig);
+  const currentTime = useSimulationStore(state => state.currentTime);
+
+  const statistics = useMemo(
+    () => computeSimulationStatistics(globalActivityLog, nodesConfig, { endTime: currentTime }),
+    [globalActivityLog, nodesConfig, currentTime],
+  );
+  const queues = statistics.nodes.filter(node => node.queueLength);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader className="flex-shrink-0">
+          <DialogTitle className="font-headline">Simulation Statistics</DialogTitle>
+          <DialogDescription>
+            Throughput, latency, queue lengths, FSM state times and utilization, computed from the activity log (time{" "}
+            {statistics.startTime}s to {statistics.endTime}s).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto py-4 pr-2 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <SummaryCard label="Tokens consumed" value={String(statistics.tokensConsumed)} />
+            <SummaryCard label="Throughput" value={`${formatNumber(statistics.throughput)}/s`} />
+            <SummaryCard label="Mean latency" value={`${formatNumber(statistics.latency?.mean)}s`} />
+            <SummaryCard label="p95 latency" value={`${formatNumber(statistics.latency?.p95)}s`} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <TimeSeriesChart
+              title="Tokens consumed per second"
+              points={statistics.throughputSeries}
+              startTime={statistics.startTime}
+              endTime={statistics.endTime}
+            />
+            <TimeSeriesChart
+              title="Mean latency"
+              points={statistics.latencySeries}
+              startTime={statistics.startTime}
+              endTime={statistics.endTime}
+              unit="s"
+            />
+            {queues.map(queue => (
+              <TimeSeriesChart
+                key={queue.nodeId}
+                title={`${queue.displayName} length`}
+                points={queue.queueLength!}
+                startTime={statistics.startTime}
+                endTime={statistics.endTime}
+                step
+              />
+            ))}
+          </div>
+
+          <NodeStatisticsTable statistics={statistics} />
+        </div>
+
+        <DialogFooter className="pt-4 border-t border-border mt-auto flex-shrink-0">
+          <Button
+            variant="outline"
+            onClick={() => download(nodeStatisticsToCSV(statistics), "node-statistics.csv", "text/csv")}
+          >
+            Nodes CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => download(timeSeriesToCSV(statistics), "time-series.csv", "text/csv")}
+          >
+            Time Series CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => download(JSON.stringify(statistics, null, 2), "statistics.json", "application/json")}
+          >
+            JSON
+          </Button>
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StatisticsDashboardModal;
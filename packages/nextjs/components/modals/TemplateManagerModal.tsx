@@ -17,6 +17,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { useSimulationStore } from "@/stores/simulationStore";
 import type { TemplateDocument } from "@/lib/firestore-service";
+import { migrateScenario, type ScenarioMigrationResult } from "@/lib/simulation/scenarioMigration";
 import {
   FileText,
   Plus,
@@ -45,7 +46,8 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
   const [isLoading, setIsLoading] = useState(false);
   const [newTemplateName, setNewTemplateName] = useState("");
   const [newTemplateDescription, setNewTemplateDescription] = useState("");
-  const [createFromDefault, setCreateFromDefault] = useState(true);
+  const [templateSource, setTemplateSource] = useState<"default" | "current" | "import">("default");
+  const [importResult, setImportResult] = useState<ScenarioMigrationResult | null>(null);
   const [viewingTemplate, setViewingTemplate] = useState<TemplateDocument | null>(null);
 
   // Store hooks
@@ -53,6 +55,7 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
   const loadTemplate = useSimulationStore(state => state.loadTemplate);
   const createNewTemplate = useSimulationStore(state => state.createNewTemplate);
   const saveCurrentAsTemplate = useSimulationStore(state => state.saveCurrentAsTemplate);
+  const saveScenarioAsTemplate = useSimulationStore(state => state.saveScenarioAsTemplate);
   const deleteTemplate = useSimulationStore(state => state.deleteTemplate);
   const availableTemplates = useSimulationStore(state => state.availableTemplates);
   const currentTemplate = useSimulationStore(state => state.currentTemplate);
@@ -76,8 +79,13 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
 
     setIsLoading(true);
     try {
-      if (createFromDefault) {
+      if (templateSource === "default") {
         await createNewTemplate(newTemplateName.trim(), newTemplateDescription.trim() || undefined);
+      } else if (templateSource === "import") {
+        if (!importResult?.scenario) {
+          throw new Error("Choose a scenario file that can be imported");
+        }
+        await saveScenarioAsTemplate(newTemplateName.trim(), newTemplateDescription.trim() || undefined, importResult.scenario);
       } else {
         if (!scenario) {
           throw new Error("No scenario loaded to save as template");
@@ -93,6 +101,7 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
       // Reset form
       setNewTemplateName("");
       setNewTemplateDescription("");
+      setImportResult(null);
       setIsCreating(false);
 
       // Reload templates to show the new one
@@ -108,6 +117,27 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
     setIsLoading(false);
   };
 
+  // Scenario files from older protocol versions are upgraded on import
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setImportResult(migrateScenario(JSON.parse(await file.text())));
+    } catch {
+      setImportResult({
+        scenario: null,
+        fromVersion: "unknown",
+        toVersion: "unknown",
+        notes: [],
+        errors: [`${file.name} is not valid JSON.`],
+      });
+    }
+    if (!newTemplateName.trim()) {
+      setNewTemplateName(file.name.replace(/\.json$/i, ""));
+    }
+  };
+
   const handleLoadTemplate = async (templateId: string) => {
     setIsLoading(true);
     try {
@@ -225,8 +255,8 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
                     <label className="flex items-center space-x-2">
                       <input
                         type="radio"
-                        checked={createFromDefault}
-                        onChange={() => setCreateFromDefault(true)}
+                        checked={templateSource === "default"}
+                        onChange={() => setTemplateSource("default")}
                         className="text-primary"
                       />
                       <span>Create from default template</span>
@@ -234,8 +264,8 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
                     <label className="flex items-center space-x-2">
                       <input
                         type="radio"
-                        checked={!createFromDefault}
-                        onChange={() => setCreateFromDefault(false)}
+                        checked={templateSource === "current"}
+                        onChange={() => setTemplateSource("current")}
                         className="text-primary"
                         disabled={!scenario}
                       />
@@ -246,12 +276,71 @@ const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ isOpen, onC
                         </Badge>
                       )}
                     </label>
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="radio"
+                        checked={templateSource === "import"}
+                        onChange={() => setTemplateSource("import")}
+                        className="text-primary"
+                      />
+                      <span>Import a scenario file</span>
+                      <Badge variant="secondary" className="text-xs">
+                        Older versions are upgraded
+                      </Badge>
+                    </label>
                   </div>
                 </div>
 
+                {templateSource === "import" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template-import">Scenario JSON</Label>
+                    <Input
+                      id="template-import"
+                      type="file"
+                      accept=".json,application/json"
+                      onChange={handleImportFile}
+                    />
+                    {importResult && importResult.errors.length > 0 && (
+                      <div className="rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm">
+                        <div className="flex items-center font-medium text-destructive">
+                          <AlertCircle className="h-4 w-4 mr-2" />
+                          This scenario cannot be imported
+                        </div>
+                        <ul className="mt-2 list-disc pl-5 space-y-1">
+                          {importResult.errors.map((error, index) => (
+                            <li key={index}>{error}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {importResult?.scenario && (
+                      <div className="rounded-md border bg-muted/50 p-3 text-sm">
+                        <div className="flex items-center font-medium">
+                          <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+                          {importResult.fromVersion === importResult.toVersion
+                            ? `Version ${importResult.toVersion} scenario with ${importResult.scenario.nodes.length} nodes`
+                            : `Upgraded from version ${importResult.fromVersion} to ${importResult.toVersion}`}
+                        </div>
+                        {importResult.notes.length > 0 && (
+                          <ScrollArea className="mt-2 max-h-40">
+                            <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                              {importResult.notes.map((note, index) => (
+                                <li key={index}>
+                                  {note.nodeId && <span className="font-mono">{note.nodeId}: </span>}
+                                  {note.message}
+                                </li>
+                              ))}
+                            </ul>
+                          </ScrollArea>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <Button
                   onClick={handleCreateTemplate}
-                  disabled={isLoading}
+                  disabled={isLoading || (templateSource === "import" && !importResult?.scenario)}
                   className="w-full"
                 >
                   {isLoading ? (
@@ -1,15 +1,35 @@
 "use client";
 
-import React, { useMemo } from "react";
+import React from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import {
+  exportGraphToProv,
+  exportLineageToProv,
+  exportOpenLineageEvents,
+  lineageToTokenGraph,
+  toProvN,
+} from "@/lib/simulation/provenance";
+import { buildTokenGraphFromHistory } from "@/lib/simulation/tokenGraph";
 import type { HistoryEntry, Token } from "@/lib/simulation/types";
 import { useSimulationStore } from "@/stores/simulationStore";
 import D3TokenTree from "@/components/workflow-builder/lineage/D3TokenTree";
-import { TokenGenealogyEngine } from "@/lib/simulation/tokenGenealogyEngine";
+import { useTokenLineage } from "@/hooks/useTokenLineage";
+
+const download = (content: string, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
 const TokenInspectorModal: React.FC = () => {
   const selectedToken = useSimulationStore(state => state.selectedToken);
@@ -19,18 +39,12 @@ const TokenInspectorModal: React.FC = () => {
 
   const isOpen = !!selectedToken;
 
-  // Build token lineage using the proper genealogy engine
-  const tokenLineage = useMemo(() => {
-    if (!selectedToken || !globalActivityLog) return null;
-    
-    const genealogyEngine = new TokenGenealogyEngine(globalActivityLog);
-    try {
-      return genealogyEngine.buildCompleteLineage(selectedToken.id);
-    } catch (error) {
-      console.error("Failed to build token lineage:", error);
-      return null;
-    }
-  }, [selectedToken, globalActivityLog]);
+  // Build token lineage in the lineage worker, off the UI thread
+  const {
+    lineage: tokenLineage,
+    progress: lineageProgress,
+    isLoading: isLineageLoading,
+  } = useTokenLineage(selectedToken?.id, globalActivityLog);
 
   const handleOpenChange = (open: boolean) => {
     if (!open) {
@@ -111,6 +125,14 @@ const TokenInspectorModal: React.FC = () => {
           <Separator />
 
           {/* Token Lineage */}
+          {isLineageLoading && !tokenLineage && (
+            <div className="text-sm text-muted-foreground">
+              Building lineage
+              {lineageProgress && lineageProgress.total > 0 &&
+                ` (${lineageProgress.phase}: ${lineageProgress.completed}/${lineageProgress.total})`}
+              ...
+            </div>
+          )}
           {tokenLineage && (
             <div>
               <h3 className="font-semibold text-primary mb-3">Token Lineage</h3>
@@ -132,8 +154,62 @@ const TokenInspectorModal: React.FC = () => {
           </div>
         </div>
 
-        <div className="pt-4 mt-auto border-t border-border flex-shrink-0">
-          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+        <div className="pt-4 mt-auto border-t border-border flex-shrink-0 flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={!tokenLineage}
+            onClick={() =>
+              tokenLineage &&
+              download(
+                JSON.stringify(exportLineageToProv(tokenLineage), null, 2),
+                `lineage-${selectedToken.id}.prov.json`,
+                "application/json",
+              )
+            }
+          >
+            Export PROV-JSON
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!tokenLineage}
+            onClick={() =>
+              tokenLineage &&
+              download(toProvN(exportLineageToProv(tokenLineage)), `lineage-${selectedToken.id}.provn`, "text/plain")
+            }
+          >
+            Export PROV-N
+          </Button>
+          <Button
+            variant="outline"
+            disabled={!tokenLineage}
+            onClick={() =>
+              tokenLineage &&
+              download(
+                JSON.stringify(
+                  exportOpenLineageEvents(lineageToTokenGraph(tokenLineage), { runId: crypto.randomUUID() }),
+                  null,
+                  2,
+                ),
+                `lineage-${selectedToken.id}.openlineage.json`,
+                "application/json",
+              )
+            }
+          >
+            Export OpenLineage
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() =>
+              download(
+                JSON.stringify(exportGraphToProv(buildTokenGraphFromHistory(globalActivityLog)), null, 2),
+                "run.prov.json",
+                "application/json",
+              )
+            }
+          >
+            Export Run (PROV-JSON)
+          </Button>
+          <Button variant="outline" className="ml-auto" onClick={() => handleOpenChange(false)}>
             Close
           </Button>
         </div>
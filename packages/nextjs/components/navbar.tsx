@@ -1,4 +1,5 @@
 import Link from "next/link";
+import { OrganizationSwitcher } from "./layout/OrganizationSwitcher";
 import { SettingsMenu } from "./layout/SettingsMenu";
 import { FaucetButton } from "./scaffold-eth/FaucetButton";
 import { Button } from "@/components/ui/button";
@@ -23,6 +24,7 @@ export function Navbar() {
                   Dashboard
                 </Button>
               </Link>
+              <OrganizationSwitcher />
               <Link href="/profile">
                 <Button variant="ghost" size="sm" className="text-sm text-gray-600 dark:text-gray-300">
                   {session?.user?.name || "User"}
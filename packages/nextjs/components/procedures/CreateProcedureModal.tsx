@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { fetchFromDb, updateDb } from "../../utils/api";
+import { apiFetch, fetchFromDb } from "../../utils/api";
 import { Button } from "../ui/button";
 import { Card } from "../ui/card";
 import { D3Graph } from "../ui/d3-graph";
@@ -236,9 +236,6 @@ export const CreateProcedureModal = ({ open, onClose, onSave }: CreateProcedureM
     }
 
     try {
-      // Fetch current DB state
-      const db = await fetchFromDb();
-
       // Create new procedure instance
       const newInstance = {
         instanceId: `proc_${Date.now()}`,
@@ -256,14 +253,16 @@ export const CreateProcedureModal = ({ open, onClose, onSave }: CreateProcedureM
         startDate: new Date().toISOString(),
       };
 
-      // Add to procedure instances
-      const updatedDb = {
-        ...db,
-        procedureInstances: [...(db.procedureInstances || []), newInstance],
-      };
-
-      // Update DB
-      await updateDb(updatedDb);
+      // Store the new instance
+      const response = await apiFetch("/api/procedures", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(newInstance),
+      });
+      if (!response.ok) {
+        const { error } = await response.json();
+        throw new Error(error || "Failed to create procedure");
+      }
 
       // Call the onSave callback with the created procedure
       await onSave(newInstance);
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Activity, Bell, Calendar, ChevronRight, FileSignature, Mail, Plus, Trash2 } from "lucide-react";
-import { fetchFromDb } from "~~/utils/api";
+import { apiFetch, fetchFromDb } from "~~/utils/api";
 
 // Define action type icons mapping
 const actionIcons: Record<string, any> = {
@@ -111,7 +111,7 @@ export const ActionList = ({ procedureId }: ActionListProps) => {
 
   const handleDeleteAction = async (state: string, actionId: string) => {
     try {
-      const response = await fetch("/api/actions", {
+      const response = await apiFetch("/api/actions", {
         method: "DELETE",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -214,7 +214,7 @@ export const ActionList = ({ procedureId }: ActionListProps) => {
         };
       }
 
-      const response = await fetch("/api/actions", {
+      const response = await apiFetch("/api/actions", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -563,7 +563,7 @@ export const ActionList = ({ procedureId }: ActionListProps) => {
                             checked={action.enabled}
                             onCheckedChange={async checked => {
                               // Update action enabled state
-                              const response = await fetch("/api/actions", {
+                              const response = await apiFetch("/api/actions", {
                                 method: "PATCH",
                                 headers: { "Content-Type": "application/json" },
                                 body: JSON.stringify({
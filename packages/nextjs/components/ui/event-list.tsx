@@ -3,7 +3,7 @@
 import { useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { Event } from "../../types/events";
-import { fetchFromDb, updateDb } from "../../utils/api";
+import { apiFetch, fetchFromDb, patchProcedure, updateDb } from "../../utils/api";
 import { matchEventToRule } from "../../utils/eventMatching";
 import { getValueByPath } from "../../utils/eventMatching";
 import { CreateEventModal } from "../events/CreateEventModal";
@@ -114,15 +114,8 @@ export default function EventList({ procedureId }: EventListProps) {
           };
         });
 
-        // Update instance history
-        if (!updatedPledData.procedureInstances[instanceIndex].history) {
-          updatedPledData.procedureInstances[instanceIndex].history = { events: [], messages: [] };
-        }
-
-        updatedPledData.procedureInstances[instanceIndex].history.events = [
-          ...(updatedPledData.procedureInstances[instanceIndex].history.events || []),
-          ...eventsToProcess,
-        ];
+        // Append to the instance history
+        await patchProcedure(procedureId, { events: eventsToProcess });
 
         // Mark events as received in eventTemplates
         selectedAvailable.forEach(key => {
@@ -132,16 +125,7 @@ export default function EventList({ procedureId }: EventListProps) {
         });
       } else {
         // Revert: Remove events from processed and their associated messages
-        const updatedProcessedEvents = processedEvents.filter(event => !selectedProcessed.includes(event.id));
-
-        updatedPledData.procedureInstances[instanceIndex].history.events = updatedProcessedEvents;
-
-        const existingMessages = updatedPledData.procedureInstances[instanceIndex].history.messages || [];
-        const updatedMessages = existingMessages.filter(
-          (message: any) => !selectedProcessed.includes(message.fromEvent),
-        );
-
-        updatedPledData.procedureInstances[instanceIndex].history.messages = updatedMessages;
+        await patchProcedure(procedureId, { revertEvents: selectedProcessed });
 
         // Mark events as not received in eventTemplates
         selectedProcessed.forEach(eventId => {
@@ -154,7 +138,7 @@ export default function EventList({ procedureId }: EventListProps) {
         });
       }
 
-      // Update data through DB API
+      // Update received flags through DB API
       await updateDb(updatedPledData);
 
       // Refresh data
@@ -172,7 +156,8 @@ export default function EventList({ procedureId }: EventListProps) {
         {} as Record<string, any>,
       );
 
-      const processedEvts = refreshedData.procedureInstances[instanceIndex].history.events || [];
+      const refreshedInstance = refreshedData.procedureInstances.find((p: any) => p.instanceId === procedureId);
+      const processedEvts = refreshedInstance?.history?.events || [];
 
       setAvailableEvents(availableEvts);
       setProcessedEvents(processedEvts);
@@ -701,7 +686,7 @@ export default function EventList({ procedureId }: EventListProps) {
         onClose={() => setShowCreateModal(false)}
         onSave={async template => {
           try {
-            const response = await fetch("/api/events", {
+            const response = await apiFetch("/api/events", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
@@ -23,7 +23,8 @@ import {
   FileText,
   Zap
 } from "lucide-react";
-import type { FSMDefinition, FSMState, FSMTransition } from "@/lib/simulation/types";
+import { compileFSL, printFSL, type FSLDiagnostic } from "@/lib/simulation/fslParser";
+import type { FSMDefinition } from "@/lib/simulation/types";
 
 interface FSLEditorProps {
   isOpen: boolean;
@@ -34,152 +35,6 @@ interface FSLEditorProps {
   title?: string;
 }
 
-interface ParsedFSL {
-  states: FSMState[];
-  transitions: FSMTransition[];
-  variables: Record<string, any>;
-  errors: string[];
-}
-
-// Simple FSL parser for demonstration
-const parseFSL = (fslCode: string): ParsedFSL => {
-  const result: ParsedFSL = {
-    states: [],
-    transitions: [],
-    variables: {},
-    errors: []
-  };
-
-  try {
-    const lines = fslCode.split('\n').map(line => line.trim()).filter(Boolean);
-
-    let currentState: Partial<FSMState> | null = null;
-
-    for (const line of lines) {
-      // State definition: state stateName { ... }
-      if (line.startsWith('state ')) {
-        if (currentState) {
-          result.states.push(currentState as FSMState);
-        }
-
-        const stateMatch = line.match(/state\s+(\w+)\s*\{?/);
-        if (stateMatch) {
-          currentState = {
-            name: stateMatch[1],
-            onEntry: [],
-            onExit: []
-          };
-        }
-      }
-      // Transition: on trigger -> targetState
-      else if (line.includes('->')) {
-        const transitionMatch = line.match(/on\s+(.+?)\s*->\s*(\w+)/);
-        if (transitionMatch && currentState) {
-          const trigger = transitionMatch[1].trim();
-          const targetState = transitionMatch[2];
-
-          // Check if it's a condition-based transition
-          if (trigger.includes('.') || trigger.includes('>') || trigger.includes('<') || trigger.includes('=')) {
-            result.transitions.push({
-              from: currentState.name!,
-              to: targetState,
-              trigger: 'condition',
-              condition: trigger
-            });
-          } else {
-            result.transitions.push({
-              from: currentState.name!,
-              to: targetState,
-              trigger: trigger
-            });
-          }
-        }
-      }
-      // Actions: on_entry { action(...) }
-      else if (line.includes('on_entry') && currentState) {
-        const actionMatch = line.match(/(\w+)\((.+?)\)/);
-        if (actionMatch) {
-          const action = actionMatch[1];
-          const params = actionMatch[2].replace(/['"]/g, '');
-
-          if (!currentState.onEntry) currentState.onEntry = [];
-
-          if (action === 'log') {
-            currentState.onEntry.push({
-              action: 'log',
-              value: params
-            });
-          } else if (action === 'emit') {
-            const [target, formula] = params.split(',').map(s => s.trim());
-            currentState.onEntry.push({
-              action: 'emit',
-              target,
-              formula
-            });
-          }
-        }
-      }
-      // Closing brace
-      else if (line === '}' && currentState) {
-        result.states.push(currentState as FSMState);
-        currentState = null;
-      }
-    }
-
-    // Add the last state if not closed
-    if (currentState) {
-      result.states.push(currentState as FSMState);
-    }
-
-    // Mark first state as initial if not explicitly set
-    if (result.states.length > 0 && !result.states.some(s => s.isInitial)) {
-      result.states[0].isInitial = true;
-    }
-
-  } catch (error) {
-    result.errors.push(`Parse error: ${error instanceof Error ? error.message : String(error)}`);
-  }
-
-  return result;
-};
-
-// Generate FSL code from FSM definition
-const generateFSL = (fsm: FSMDefinition): string => {
-  let fsl = '';
-
-  fsm.states.forEach(state => {
-    fsl += `state ${state.name}`;
-    if (state.isInitial) fsl += ' [initial]';
-    if (state.isFinal) fsl += ' [final]';
-    fsl += ' {\n';
-
-    // On-entry actions
-    if (state.onEntry && state.onEntry.length > 0) {
-      state.onEntry.forEach(action => {
-        if (action.action === 'log') {
-          fsl += `  on_entry { log("${action.value}") }\n`;
-        } else if (action.action === 'emit') {
-          fsl += `  on_entry { emit(${action.target}, ${action.formula}) }\n`;
-        }
-      });
-    }
-
-    // Transitions from this state
-    const transitions = fsm.transitions.filter(t => t.from === state.name);
-    transitions.forEach(transition => {
-      if (transition.trigger === 'condition' && transition.condition) {
-        fsl += `  on ${transition.condition} -> ${transition.to}\n`;
-      } else {
-        fsl += `  on ${transition.trigger} -> ${transition.to}\n`;
-      }
-    });
-
-    fsl += '}\n\n';
-  });
-
-  return fsl.trim();
-};
-
 const FSLEditor: React.FC<FSLEditorProps> = ({
   isOpen,
   onClose,
@@ -188,23 +43,39 @@ const FSLEditor: React.FC<FSLEditorProps> = ({
   onSave,
   title = "FSL Editor"
 }) => {
-  const [fslCode, setFslCode] = useState(initialFslCode || (fsmDefinition ? generateFSL(fsmDefinition) : ''));
+  const [fslCode, setFslCode] = useState(initialFslCode || (fsmDefinition ? printFSL(fsmDefinition) : ''));
   const [activeTab, setActiveTab] = useState<'code' | 'visual'>('code');
-  const [parsedFSL, setParsedFSL] = useState<ParsedFSL>(() => parseFSL(fslCode));
+  const compiled = useMemo(() => compileFSL(fslCode), [fslCode]);
+  const errors = compiled.diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  // Diagnostics by line, for the gutter
+  const lineDiagnostics = useMemo(() => {
+    const byLine = new Map<number, FSLDiagnostic[]>();
+    compiled.diagnostics.forEach(diagnostic => {
+      const line = diagnostic.span.start.line;
+      byLine.set(line, [...(byLine.get(line) || []), diagnostic]);
+    });
+    return byLine;
+  }, [compiled]);
+  const lineCount = fslCode.split('\n').length;
 
   const handleFSLChange = useCallback((newCode: string) => {
     setFslCode(newCode);
-    setParsedFSL(parseFSL(newCode));
   }, []);
 
+  const selectDiagnostic = (diagnostic: FSLDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    const { start, end } = diagnostic.span;
+    textarea.setSelectionRange(start.offset, Math.max(end.offset, start.offset + 1));
+  };
+
   const handleSave = () => {
-    if (parsedFSL.errors.length === 0) {
-      const fsmDefinition: FSMDefinition = {
-        states: parsedFSL.states,
-        transitions: parsedFSL.transitions,
-        variables: parsedFSL.variables
-      };
-      onSave(fsmDefinition, fslCode);
+    if (errors.length === 0) {
+      onSave(compiled.definition, fslCode);
       onClose();
     }
   };
@@ -230,21 +101,21 @@ state emit_low {
   on_entry { emit(outputLow, input.data.value * 0.5) }
   on emission_complete -> idle
 }`,
-      'counter': `state idle {
+      'counter': `var counter = 0;
+outputs output;
+
+state idle [initial] {
   on token_received -> counting
 }
 
 state counting {
-  on_entry { increment(counter) }
+  on_entry { log("Counting") }
   on counter >= 5 -> reset
-  on token_received -> counting
+  on token_received when counter < 5 -> counting
 }
 
 state reset {
-  on_entry {
-    emit(output, counter)
-    set_variable(counter, 0)
-  }
+  on_entry { emit(output, counter) }
   on emission_complete -> idle
 }`
     };
@@ -325,19 +196,50 @@ state reset {
                     </Button>
                   </div>
                 </div>
-                <Textarea
-                  value={fslCode}
-                  onChange={(e) => handleFSLChange(e.target.value)}
-                  className="font-mono text-sm flex-1 min-h-0 resize-none"
-                  placeholder="Enter FSL code here..."
-                />
+                <div className="flex flex-1 min-h-0 rounded-md border border-input overflow-hidden">
+                  {/* Line numbers, marked where the parser reports a problem */}
+                  <div
+                    ref={gutterRef}
+                    className="font-mono text-sm leading-5 py-2 bg-slate-50 border-r text-right select-none overflow-hidden"
+                  >
+                    {Array.from({ length: lineCount }, (_, i) => {
+                      const diagnostics = lineDiagnostics.get(i + 1);
+                      const hasError = diagnostics?.some(diagnostic => diagnostic.severity === 'error');
+                      return (
+                        <div
+                          key={i}
+                          title={diagnostics?.map(diagnostic => diagnostic.message).join('\n')}
+                          onClick={() => diagnostics && selectDiagnostic(diagnostics[0])}
+                          className={cn(
+                            "px-2",
+                            hasError ? "bg-red-100 text-red-700 cursor-pointer" : diagnostics ? "bg-amber-100 text-amber-700 cursor-pointer" : "text-slate-400"
+                          )}
+                        >
+                          {i + 1}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <Textarea
+                    ref={textareaRef}
+                    value={fslCode}
+                    onChange={(e) => handleFSLChange(e.target.value)}
+                    onScroll={(e) => {
+                      if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+                    }}
+                    wrap="off"
+                    spellCheck={false}
+                    className="font-mono text-sm leading-5 flex-1 min-h-0 resize-none border-0 rounded-none focus-visible:ring-0"
+                    placeholder="Enter FSL code here..."
+                  />
+                </div>
               </div>
 
               {/* Validation Panel */}
               <div className="w-80 flex flex-col">
                 <h3 className="text-sm font-medium text-slate-700 mb-2">Validation</h3>
                 <div className="flex-1 bg-slate-50 rounded-lg border p-3">
-                  {parsedFSL.errors.length === 0 ? (
+                  {errors.length === 0 ? (
                     <div className="flex items-center gap-2 text-green-700 mb-3">
                       <CheckCircle className="h-4 w-4" />
                       <span className="text-sm font-medium">Valid FSL</span>
@@ -349,24 +251,35 @@ state reset {
                     </div>
                   )}
 
-                  <ScrollArea className="h-32">
-                    {parsedFSL.errors.length > 0 ? (
-                      <div className="space-y-2">
-                        {parsedFSL.errors.map((error, i) => (
-                          <div key={i} className="text-xs text-red-600 bg-red-50 p-2 rounded">
-                            {error}
-                          </div>
+                  <ScrollArea className="h-64">
+                    {compiled.diagnostics.length > 0 && (
+                      <div className="space-y-2 mb-3">
+                        {compiled.diagnostics.map((diagnostic, i) => (
+                          <button
+                            key={i}
+                            onClick={() => selectDiagnostic(diagnostic)}
+                            className={cn(
+                              "block w-full text-left text-xs p-2 rounded",
+                              diagnostic.severity === 'error' ? "text-red-600 bg-red-50" : "text-amber-700 bg-amber-50"
+                            )}
+                          >
+                            <span className="font-mono mr-1">
+                              {diagnostic.span.start.line}:{diagnostic.span.start.column}
+                            </span>
+                            {diagnostic.message}
+                          </button>
                         ))}
                       </div>
-                    ) : (
+                    )}
+                    {errors.length === 0 && (
                       <div className="space-y-3">
                         <div>
                           <span className="text-xs font-medium text-slate-600">States:</span>
                           <div className="flex flex-wrap gap-1 mt-1">
-                            {parsedFSL.states.map(state => (
-                              <Badge key={state.name} variant="secondary" className="text-xs">
-                                {state.name}
-                                {state.isInitial && <span className="ml-1">●</span>}
+                            {compiled.definition.states.map(state => (
+                              <Badge key={state} variant="secondary" className="text-xs">
+                                {state}
+                                {state === compiled.definition.initialState && <span className="ml-1">●</span>}
                               </Badge>
                             ))}
                           </div>
@@ -374,7 +287,7 @@ state reset {
                         <div>
                           <span className="text-xs font-medium text-slate-600">Transitions:</span>
                           <div className="text-xs text-slate-600 mt-1">
-                            {parsedFSL.transitions.length} defined
+                            {compiled.definition.transitions.length} defined
                           </div>
                         </div>
                       </div>
@@ -407,7 +320,7 @@ state reset {
           </Button>
           <Button
             onClick={handleSave}
-            disabled={parsedFSL.errors.length > 0}
+            disabled={errors.length > 0}
             className="bg-orange-600 hover:bg-orange-700"
           >
             Save FSM
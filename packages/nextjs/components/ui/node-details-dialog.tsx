@@ -3,6 +3,7 @@ import { useRouter } from "next/navigation";
 import { Button } from "./button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./dialog";
 import { Activity, Bell, Calendar, FileSignature, FileText, LucideIcon, Mail, Play } from "lucide-react";
+import { apiFetch } from "~~/utils/api";
 
 interface NodeDetailsDialogProps {
   node: {
@@ -75,7 +76,7 @@ export const NodeDetailsDialog: React.FC<NodeDetailsDialogProps> = ({
       };
 
       // Add event to database
-      const response = await fetch("/api/events", {
+      const response = await apiFetch("/api/events", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -16,6 +16,7 @@ import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { Code } from "lucide-react";
 import type { AnyNode, NodeStateMachineState, StateMachineInfo } from "@/lib/simulation/types";
+import { Statechart } from "@/lib/simulation/statechart";
 // FSLGenerator removed - using simulation store state machine directly
 
 // Simple Dagre-like layout for directed graphs
@@ -110,6 +111,93 @@ const layoutNodes = (nodes: string[], edges: Array<{from: string, to: string}>)
   return positions;
 };
 
+const STATE_WIDTH = 160;
+const STATE_HEIGHT = 40;
+const GROUP_PADDING = 16;
+const GROUP_HEADER = 28;
+const LAYOUT_GAP = 48;
+
+interface StatechartLayout {
+  positions: Map<string, {x: number, y: number}>; // relative to the parent state
+  sizes: Map<string, {width: number, height: number}>;
+  width: number;
+  height: number;
+}
+
+// Nested layout for statecharts: each compound state lays out its children with
+// layoutNodes, parallel states stack their regions, and a container is sized to
+// fit what it holds
+const layoutStatechart = (
+  chart: Statechart,
+  transitions: Array<{from: string, to: string}>,
+  parent?: string
+): StatechartLayout => {
+  const children = chart.getChildren(parent);
+  const layout: StatechartLayout = { positions: new Map(), sizes: new Map(), width: 0, height: 0 };
+
+  children.forEach(child => {
+    if (chart.getChildren(child).length === 0) {
+      layout.sizes.set(child, { width: STATE_WIDTH, height: STATE_HEIGHT });
+      return;
+    }
+    const inner = layoutStatechart(chart, transitions, child);
+    inner.positions.forEach((position, id) => layout.positions.set(id, position));
+    inner.sizes.forEach((size, id) => layout.sizes.set(id, size));
+    layout.sizes.set(child, {
+      width: inner.width + GROUP_PADDING * 2,
+      height: inner.height + GROUP_HEADER + GROUP_PADDING,
+    });
+  });
+
+  const offsetX = parent ? GROUP_PADDING : 0;
+  const offsetY = parent ? GROUP_HEADER : 0;
+
+  if (parent && chart.getKind(parent) === 'parallel') {
+    // Orthogonal regions, one below the other
+    let y = offsetY;
+    children.forEach(child => {
+      const size = layout.sizes.get(child)!;
+      layout.positions.set(child, { x: offsetX, y });
+      y += size.height + GROUP_PADDING;
+      layout.width = Math.max(layout.width, size.width);
+    });
+    layout.height = y - offsetY - GROUP_PADDING;
+    return layout;
+  }
+
+  // Lift each transition to the children of this state that contain its ends
+  const childContaining = (state: string) =>
+    [state, ...chart.getAncestors(state)].find(candidate => chart.getParent(candidate) === parent);
+  const edges = transitions
+    .map(t => ({ from: childContaining(t.from), to: childContaining(t.to) }))
+    .filter((e): e is {from: string, to: string} => !!e.from && !!e.to);
+
+  // layoutNodes decides the columns and their order; sizes decide the spacing
+  const ordering = layoutNodes(children, edges);
+  const columns = new Map<number, string[]>();
+  children.forEach(child => {
+    const x = ordering.get(child)?.x ?? 0;
+    columns.set(x, [...(columns.get(x) || []), child]);
+  });
+
+  let x = offsetX;
+  Array.from(columns.keys()).sort((a, b) => a - b).forEach(columnX => {
+    const column = columns.get(columnX)!.sort((a, b) => (ordering.get(a)?.y ?? 0) - (ordering.get(b)?.y ?? 0));
+    let y = offsetY;
+    let columnWidth = 0;
+    column.forEach(child => {
+      const size = layout.sizes.get(child)!;
+      layout.positions.set(child, { x, y });
+      y += size.height + LAYOUT_GAP / 2;
+      columnWidth = Math.max(columnWidth, size.width);
+    });
+    layout.height = Math.max(layout.height, y - offsetY - LAYOUT_GAP / 2);
+    x += columnWidth + LAYOUT_GAP;
+  });
+  layout.width = Math.max(0, x - offsetX - LAYOUT_GAP);
+  return layout;
+};
+
 interface StateNodeData {
   label: string;
   isActive: boolean;
@@ -128,9 +216,17 @@ interface StateNodeData {
   };
 }
 
+interface StateGroupNodeData {
+  label: string;
+  kind: "compound" | "parallel";
+  isActive: boolean;
+}
+
 interface NodeStateMachineDiagramProps {
   nodeConfig: AnyNode;
   stateMachineInfo?: StateMachineInfo;
+  activeStates?: string[]; // full statechart configuration of an FSM node
+
   width?: number;
   height?: number;
   overrideActiveState?: NodeStateMachineState;
@@ -207,13 +303,33 @@ const StateNode: React.FC<{ data: StateNodeData; selected?: boolean }> = ({ data
   );
 };
 
+// Container for compound and parallel states; parallel regions get a dashed border
+const StateGroupNode: React.FC<{ data: StateGroupNodeData }> = ({ data }) => (
+  <div
+    className={cn(
+      "w-full h-full rounded-lg border-2 bg-white/40",
+      data.kind === 'parallel' ? "border-dashed" : "border-solid",
+      data.isActive ? "border-green-500" : "border-slate-300"
+    )}
+  >
+    <Handle type="target" position={Position.Left} className="!bg-slate-400 !w-2.5 !h-2.5" />
+    <div className="px-2 py-1 text-xs font-semibold text-slate-600 flex items-center gap-1">
+      {data.label}
+      {data.kind === 'parallel' && <span className="text-[9px] font-normal text-slate-400">parallel</span>}
+    </div>
+    <Handle type="source" position={Position.Right} className="!bg-slate-400 !w-2.5 !h-2.5" />
+  </div>
+);
+
 const nodeTypes = {
   stateNode: StateNode,
+  stateGroup: StateGroupNode,
 };
 
 export const NodeStateMachineDiagram: React.FC<NodeStateMachineDiagramProps> = ({
   nodeConfig,
   stateMachineInfo,
+  activeStates,
   width = 400,
   height = 300,
   overrideActiveState,
@@ -266,7 +382,7 @@ export const NodeStateMachineDiagram: React.FC<NodeStateMachineDiagramProps> = (
         case 'FSMProcessNode':
           // For FSM nodes, get states from the FSM definition
           const fsmNode = nodeConfig as any;
-          return fsmNode.fsm?.states || ['idle'];
+          return (fsmNode.fsm?.states || ['idle']).map((state: any) => typeof state === 'string' ? state : state.name);
         case 'Sink':
           return ['sink_idle', 'sink_processing'];
         default:
@@ -317,9 +433,76 @@ export const NodeStateMachineDiagram: React.FC<NodeStateMachineDiagramProps> = (
       }
     };
 
-    const stateNames = getStatesForNodeType(nodeConfig.type);
+    const stateNames: string[] = getStatesForNodeType(nodeConfig.type);
     const transitions = getTransitionsForNodeType(nodeConfig.type);
 
+    // FSM nodes with compound or parallel states are drawn nested
+    const chart = nodeConfig.type === 'FSMProcessNode' ? Statechart.fromFSMDefinition((nodeConfig as any).fsm || {}) : undefined;
+    if (chart?.isHierarchical()) {
+      // A selected log entry shows that state; otherwise the live configuration
+      const highlighted = selectedLogEntry?.state || overrideActiveState;
+      const activeSet = new Set(
+        highlighted ? [highlighted, ...chart.getAncestors(highlighted)] : activeStates || (currentState ? [currentState, ...chart.getAncestors(currentState)] : [])
+      );
+      const layout = layoutStatechart(chart, transitions);
+
+      const rfNodes: Node[] = [];
+      const addNodes = (parent?: string) => {
+        chart.getChildren(parent).forEach(state => {
+          const kind = chart.getKind(state);
+          const size = layout.sizes.get(state)!;
+          const common = {
+            id: state,
+            position: layout.positions.get(state) || { x: 0, y: 0 },
+            ...(parent && { parentNode: parent, extent: 'parent' as const }),
+          };
+          if (kind === 'compound' || kind === 'parallel') {
+            rfNodes.push({
+              ...common,
+              type: 'stateGroup',
+              style: { width: size.width, height: size.height },
+              data: { label: state, kind, isActive: activeSet.has(state) },
+            });
+            addNodes(state);
+            return;
+          }
+          rfNodes.push({
+            ...common,
+            type: 'stateNode',
+            data: {
+              label: kind === 'history' ? ((nodeConfig as any).fsm?.hierarchy?.[state]?.history === 'deep' ? 'H*' : 'H') : state,
+              isActive: activeSet.has(state),
+              isSelected: highlighted === state,
+              stateType: state === (nodeConfig as any).fsm?.initialState ? 'initial' : 'intermediate',
+            },
+            sourcePosition: Position.Right,
+            targetPosition: Position.Left,
+          });
+        });
+      };
+      addNodes();
+
+      const rfEdges: Edge[] = transitions.map((transition, index) => {
+        const isActive = activeSet.has(transition.from);
+        const color = isActive ? "#10b981" : "#64748b";
+        return {
+          id: `edge-${transition.from}-${transition.to}-${index}`,
+          source: transition.from,
+          target: transition.to,
+          label: transition.label,
+          type: 'smoothstep',
+          animated: isActive,
+          zIndex: 1,
+          labelStyle: { fill: color, fontWeight: isActive ? 600 : 400, fontSize: 11 },
+          labelBgStyle: { fill: '#ffffff', fillOpacity: 0.85 },
+          markerEnd: { type: MarkerType.ArrowClosed, width: 16, height: 16, color },
+          style: { stroke: color, strokeWidth: isActive ? 2.5 : 1.8 },
+        };
+      });
+
+      return { nodes: rfNodes, edges: rfEdges, runtimeVariables: variables };
+    }
+
     // Use the layoutNodes function defined at the top
     const positions = layoutNodes(stateNames, transitions);
 
@@ -393,7 +576,7 @@ export const NodeStateMachineDiagram: React.FC<NodeStateMachineDiagramProps> = (
     });
 
     return { nodes: rfNodes, edges: rfEdges, runtimeVariables: variables };
-  }, [nodeConfig.type, stateMachineInfo?.currentState, overrideActiveState, activityLogs, selectedLogEntry]);
+  }, [nodeConfig.type, stateMachineInfo?.currentState, activeStates, overrideActiveState, activityLogs, selectedLogEntry]);
 
   return (
     <div style={{ width, height }} className="border rounded-lg bg-slate-50">
@@ -15,7 +15,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { calculateCurrentState, createStateMachine } from "@/lib/fsm";
 import { handleEventAndGenerateMessages } from "@/utils/stateAndMessageHandler";
 import { Play } from "lucide-react";
-import { fetchFromDb } from "~~/utils/api";
+import { apiFetch, fetchFromDb } from "~~/utils/api";
 
 interface Message {
   id: string;
@@ -528,7 +528,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
 
         console.log("Created action event:", actionEvent);
 
-        const response = await fetch("/api/events", {
+        const response = await apiFetch("/api/events", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -553,7 +553,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
           updatedInstance.history.executedActions.push(executionRecord);
 
           // Update instance
-          const updateResponse = await fetch("/api/procedures/" + procedureId, {
+          const updateResponse = await apiFetch("/api/procedures/" + procedureId, {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -569,7 +569,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
         }
 
         // Mark action as executed
-        await fetch("/api/actions", {
+        await apiFetch("/api/actions", {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -586,7 +586,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
         });
 
         // Also update the instance history
-        await fetch(`/api/procedures/${procedureId}`, {
+        await apiFetch(`/api/procedures/${procedureId}`, {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -778,7 +778,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
             const { envelopeId } = await sendResponse.json();
             console.log("calling /api/procedures/events");
             // Single update for both event and action
-            await fetch(`/api/procedures/${procedureId}`, {
+            await apiFetch(`/api/procedures/${procedureId}`, {
               method: "PATCH",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -830,7 +830,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
 
             console.log("=== DOCUSIGN STATUS DEBUG ===");
             // Single update for custom event
-            await fetch(`/api/procedures/${procedureId}`, {
+            await apiFetch(`/api/procedures/${procedureId}`, {
               method: "PATCH",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -880,7 +880,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
             console.log("Sending CUSTOM_EVENT:", eventData);
 
             // Single update for custom event
-            await fetch(`/api/procedures/${procedureId}`, {
+            await apiFetch(`/api/procedures/${procedureId}`, {
               method: "PATCH",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -933,7 +933,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
               const { clickwrapId, agreementUrl } = await response.json();
 
               // Store result as event
-              await fetch(`/api/procedures/${procedureId}`, {
+              await apiFetch(`/api/procedures/${procedureId}`, {
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
@@ -970,7 +970,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
           }
 
           // Mark action as executed
-          await fetch("/api/actions", {
+          await apiFetch("/api/actions", {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -987,7 +987,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
           });
 
           // Also update the instance history
-          await fetch(`/api/procedures/${procedureId}`, {
+          await apiFetch(`/api/procedures/${procedureId}`, {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
@@ -1022,7 +1022,7 @@ export const ProcedureState: React.FC<ProcedureStateProps> = ({
         ];
 
         // Store actions
-        const response = await fetch("/api/procedures/" + procedureId, {
+        const response = await apiFetch("/api/procedures/" + procedureId, {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { apiFetch } from "../../utils/api";
 import { getValueByPath } from "../../utils/eventMatching";
 import { Card } from "./card";
 import { ScrollArea } from "./scroll-area";
@@ -16,7 +17,7 @@ export const VariablesView = ({ procedureId }: VariablesViewProps) => {
   useEffect(() => {
     async function fetchData() {
       try {
-        const response = await fetch(`/api/procedures/${procedureId}`);
+        const response = await apiFetch(`/api/procedures/${procedureId}`);
         if (!response.ok) throw new Error("Failed to fetch procedure data");
         const data = await response.json();
         setInstance(data.instance);
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { fetchFromDb, updateDb } from "../../utils/api";
+import { fetchFromDb, patchProcedure } from "../../utils/api";
 import { getValueByPath } from "../../utils/eventMatching";
 import { generateMessages } from "../../utils/messageGeneration";
 import { Card } from "../ui/card";
@@ -118,29 +118,8 @@ export const VariablesSection = ({ procedureId, template, instance }: VariablesS
 
   const handleEdit = async (section: string, field: string, value: string) => {
     try {
-      const data = await fetchFromDb();
-      const instanceIndex = data.procedureInstances?.findIndex((p: any) => p.instanceId === procedureId);
-
-      if (instanceIndex === -1) {
-        throw new Error("Instance not found");
-      }
-
-      // Create a deep copy of the data
-      const updatedData = JSON.parse(JSON.stringify(data));
-
-      // Initialize variables object if it doesn't exist
-      if (!updatedData.procedureInstances[instanceIndex].variables) {
-        updatedData.procedureInstances[instanceIndex].variables = {};
-      }
-      if (!updatedData.procedureInstances[instanceIndex].variables[section]) {
-        updatedData.procedureInstances[instanceIndex].variables[section] = {};
-      }
-
-      // Update the variable
-      updatedData.procedureInstances[instanceIndex].variables[section][field] = value;
-
-      // Send the update
-      await updateDb(updatedData);
+      // Merged on the server, so concurrent edits of other fields are kept
+      await patchProcedure(procedureId, { variables: { [section]: { [field]: value } } });
 
       // Update local state
       setEditingState(null);
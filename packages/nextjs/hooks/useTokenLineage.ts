@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { LineageRequestCancelledError, lineageLoadingManager } from "@/lib/simulation/lineageLoadingManager";
+import type { LineageWorkerProgress } from "@/lib/simulation/lineageWorker";
+import type { TokenLineage } from "@/lib/simulation/tokenGenealogyEngine";
+import type { HistoryEntry } from "@/lib/simulation/types";
+
+export interface TokenLineageState {
+  lineage: TokenLineage | null;
+  progress: LineageWorkerProgress | null;
+  error: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Lineage of a token, computed by the lineage worker. The previous lineage stays
+ * visible while a newer activity log is processed; outdated requests are cancelled.
+ */
+export function useTokenLineage(tokenId: string | null | undefined, globalActivityLog: HistoryEntry[]) {
+  const [state, setState] = useState<TokenLineageState>({
+    lineage: null,
+    progress: null,
+    error: null,
+    isLoading: false,
+  });
+
+  useEffect(() => {
+    if (!tokenId) {
+      setState({ lineage: null, progress: null, error: null, isLoading: false });
+      return;
+    }
+
+    const controller = new AbortController();
+    const onProgress = (progress: LineageWorkerProgress) => setState(prev => ({ ...prev, progress }));
+    setState(prev => ({ ...prev, error: null, isLoading: true }));
+
+    // The log load is shared with other views, so only the query is aborted
+    lineageLoadingManager
+      .setActivityLog(globalActivityLog, { onProgress })
+      .then(() => lineageLoadingManager.getLineage(tokenId, { onProgress, signal: controller.signal }))
+      .then(lineage => {
+        if (!controller.signal.aborted) setState({ lineage, progress: null, error: null, isLoading: false });
+      })
+      .catch(error => {
+        if (controller.signal.aborted || error instanceof LineageRequestCancelledError) return;
+        console.error("Failed to build token lineage:", error);
+        setState({ lineage: null, progress: null, error: error.message, isLoading: false });
+      });
+
+    return () => controller.abort();
+  }, [tokenId, globalActivityLog]);
+
+  return state;
+}
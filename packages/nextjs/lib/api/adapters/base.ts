@@ -64,13 +64,40 @@ export interface Controller {
 // Base Adapter Implementation
 // =============================================================================
 
+// HTTP status for failed responses, by error code; other codes map to 400
+const ERROR_STATUS: Record<string, number> = {
+  UNAUTHORIZED: 401,
+  INVALID_API_KEY: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  RESOURCE_NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  RESOURCE_CONFLICT: 409,
+  RATE_LIMIT_EXCEEDED: 429,
+  INTERNAL_SERVER_ERROR: 500,
+  SERVICE_UNAVAILABLE: 503,
+};
+
 export abstract class BaseAdapter implements APIAdapter {
   abstract name: string;
 
+  // Runs around every controller call, in the order added
+  protected middleware = new MiddlewareChain();
+
   abstract parseRequest(req: any, context?: any): Promise<ParsedRequest>;
   abstract createHandler(controller: Controller): DeploymentHandler;
 
-  formatResponse(response: APIResponse, statusCode = 200): FormattedResponse {
+  use(middleware: Middleware): this {
+    this.middleware.use(middleware);
+    return this;
+  }
+
+  // Hand a parsed request to a controller through the middleware
+  dispatch(controller: Controller, req: ParsedRequest): Promise<APIResponse> {
+    return this.middleware.execute(req, () => controller.handle(req));
+  }
+
+  formatResponse(response: APIResponse, statusCode?: number): FormattedResponse {
     const body = JSON.stringify({
       ...response,
       meta: {
@@ -81,7 +108,7 @@ export abstract class BaseAdapter implements APIAdapter {
     });
 
     return {
-      statusCode,
+      statusCode: statusCode ?? (response.success ? 200 : (ERROR_STATUS[response.error?.code ?? ''] ?? 400)),
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-cache',
@@ -344,45 +371,58 @@ export const requestLoggingMiddleware: Middleware = async (req, next) => {
   }
 };
 
-export const authMiddleware: Middleware = async (req, next) => {
-  // Skip auth for public endpoints
-  const publicPaths = ['/health', '/docs', '/openapi.json'];
-  if (publicPaths.some(path => req.path.startsWith(path))) {
-    return next();
-  }
+// Looks up callers for createAuthMiddleware; implemented on top of the
+// platform's AuthProvider and API key store (see lib/api/auth.ts)
+export interface IdentityResolver {
+  // null when the key is unknown, revoked, expired or malformed
+  fromApiKey(key: string): Promise<ParsedRequest['apiKey'] | null>;
+  // The signed-in user of the request's session, if any
+  fromSession(req: ParsedRequest): Promise<ParsedRequest['user'] | null>;
+}
 
-  const authHeader = req.headers.authorization;
-  const apiKey = req.headers['x-api-key'];
+// Full request paths, matched exactly or as a parent of the request path
+const PUBLIC_PATHS = ['/api/v1/health', '/api/v1/docs', '/api/v1/openapi.json'];
+
+const authError = (code: string, message: string): APIResponse => ({
+  success: false,
+  error: {
+    code,
+    message,
+    timestamp: new Date().toISOString(),
+  },
+});
+
+// An API key comes in X-API-Key or as a Bearer token; without one the session
+// decides. Identity is never taken from the request itself.
+export function createAuthMiddleware(identity: IdentityResolver, publicPaths = PUBLIC_PATHS): Middleware {
+  return async (req, next) => {
+    req.user = undefined;
+    req.apiKey = undefined;
+
+    if (req.method === 'OPTIONS' || publicPaths.some(path => req.path === path || req.path.startsWith(`${path}/`))) {
+      return next();
+    }
 
-  if (!authHeader && !apiKey) {
-    return {
-      success: false,
-      error: {
-        code: 'UNAUTHORIZED',
-        message: 'Authentication required',
-        timestamp: new Date().toISOString(),
-      },
-    };
-  }
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const key = req.headers['x-api-key'] || bearer;
 
-  // TODO: Implement actual auth validation
-  // For now, we'll assume valid auth
-  if (authHeader?.startsWith('Bearer ')) {
-    req.user = {
-      id: 'user_123',
-      organizationId: 'org_123',
-      roles: ['user'],
-    };
-  } else if (apiKey) {
-    req.apiKey = {
-      id: 'key_123',
-      organizationId: 'org_123',
-      scopes: ['read', 'write'],
-    };
-  }
+    if (key) {
+      const apiKey = await identity.fromApiKey(key);
+      if (!apiKey) {
+        return authError('INVALID_API_KEY', 'API key is invalid, expired or revoked');
+      }
+      req.apiKey = apiKey;
+      return next();
+    }
 
-  return next();
-};
+    const user = await identity.fromSession(req);
+    if (!user) {
+      return authError('UNAUTHORIZED', 'Authentication required');
+    }
+    req.user = user;
+    return next();
+  };
+}
 
 export const validationMiddleware: Middleware = async (req, next) => {
   // Basic request validation
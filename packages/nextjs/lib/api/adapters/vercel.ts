@@ -7,7 +7,7 @@
 
 import type { NextRequest, NextResponse } from 'next/server';
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { BaseAdapter, type ParsedRequest, type Controller, type DeploymentHandler } from './base';
+import { BaseAdapter, type ParsedRequest, type Controller, type DeploymentHandler, type Middleware } from './base';
 
 // =============================================================================
 // Vercel Adapter (App Router)
@@ -20,10 +20,6 @@ export class VercelAppRouterAdapter extends BaseAdapter {
     const url = new URL(req.url);
     const body = req.body ? await this.parseBody(req) : null;
 
-    // Extract auth information
-    const authHeader = req.headers.get('authorization') || undefined;
-    const apiKey = req.headers.get('x-api-key') || undefined;
-
     return {
       method: req.method,
       path: url.pathname,
@@ -35,9 +31,7 @@ export class VercelAppRouterAdapter extends BaseAdapter {
       timestamp: Date.now(),
       ip: this.getClientIP(req),
       userAgent: req.headers.get('user-agent') || undefined,
-      // TODO: Add actual auth parsing
-      user: authHeader ? this.parseAuthHeader(authHeader) : undefined,
-      apiKey: apiKey ? this.parseAPIKey(apiKey) : undefined,
+      // user and apiKey are filled in by the auth middleware
     };
   }
 
@@ -45,7 +39,7 @@ export class VercelAppRouterAdapter extends BaseAdapter {
     return async (req: NextRequest, context?: { params?: Record<string, string> }) => {
       try {
         const parsedRequest = await this.parseRequest(req, context);
-        const response = await controller.handle(parsedRequest);
+        const response = await this.dispatch(controller, parsedRequest);
         const formatted = this.formatResponse(response);
 
         return new Response(formatted.body, {
@@ -133,27 +127,6 @@ export class VercelAppRouterAdapter extends BaseAdapter {
       undefined
     );
   }
-
-  private parseAuthHeader(authHeader: string): any {
-    // TODO: Implement actual JWT parsing
-    if (authHeader.startsWith('Bearer ')) {
-      return {
-        id: 'user_123',
-        organizationId: 'org_123',
-        roles: ['user'],
-      };
-    }
-    return undefined;
-  }
-
-  private parseAPIKey(apiKey: string): any {
-    // TODO: Implement actual API key validation
-    return {
-      id: 'key_123',
-      organizationId: 'org_123',
-      scopes: ['read', 'write'],
-    };
-  }
 }
 
 // =============================================================================
@@ -164,9 +137,6 @@ export class VercelPagesRouterAdapter extends BaseAdapter {
   name = 'vercel-pages-router';
 
   async parseRequest(req: NextApiRequest, res?: NextApiResponse): Promise<ParsedRequest> {
-    const authHeader = req.headers.authorization;
-    const apiKey = req.headers['x-api-key'] as string;
-
     return {
       method: req.method || 'GET',
       path: req.url || '/',
@@ -178,9 +148,7 @@ export class VercelPagesRouterAdapter extends BaseAdapter {
       timestamp: Date.now(),
       ip: this.getClientIPFromNextAPI(req),
       userAgent: req.headers['user-agent'],
-      // TODO: Add actual auth parsing
-      user: authHeader ? this.parseAuthHeader(authHeader) : undefined,
-      apiKey: apiKey ? this.parseAPIKey(apiKey) : undefined,
+      // user and apiKey are filled in by the auth middleware
     };
   }
 
@@ -197,7 +165,7 @@ export class VercelPagesRouterAdapter extends BaseAdapter {
         }
 
         const parsedRequest = await this.parseRequest(req, res);
-        const response = await controller.handle(parsedRequest);
+        const response = await this.dispatch(controller, parsedRequest);
         const formatted = this.formatResponse(response);
 
         // Set headers
@@ -253,27 +221,6 @@ export class VercelPagesRouterAdapter extends BaseAdapter {
       undefined
     );
   }
-
-  private parseAuthHeader(authHeader: string): any {
-    // TODO: Implement actual JWT parsing
-    if (authHeader.startsWith('Bearer ')) {
-      return {
-        id: 'user_123',
-        organizationId: 'org_123',
-        roles: ['user'],
-      };
-    }
-    return undefined;
-  }
-
-  private parseAPIKey(apiKey: string): any {
-    // TODO: Implement actual API key validation
-    return {
-      id: 'key_123',
-      organizationId: 'org_123',
-      scopes: ['read', 'write'],
-    };
-  }
 }
 
 // =============================================================================
@@ -283,24 +230,26 @@ export class VercelPagesRouterAdapter extends BaseAdapter {
 /**
  * Create a Vercel App Router handler for a controller
  */
-export function createAppRouterHandler(controller: Controller) {
+export function createAppRouterHandler(controller: Controller, middleware: Middleware[] = []) {
   const adapter = new VercelAppRouterAdapter();
+  middleware.forEach(m => adapter.use(m));
   return adapter.createHandler(controller);
 }
 
 /**
  * Create a Vercel Pages Router handler for a controller
  */
-export function createPagesRouterHandler(controller: Controller) {
+export function createPagesRouterHandler(controller: Controller, middleware: Middleware[] = []) {
   const adapter = new VercelPagesRouterAdapter();
+  middleware.forEach(m => adapter.use(m));
   return adapter.createHandler(controller);
 }
 
 /**
  * Create handlers for all HTTP methods (App Router)
  */
-export function createAppRouterHandlers(controller: Controller) {
-  const handler = createAppRouterHandler(controller);
+export function createAppRouterHandlers(controller: Controller, middleware: Middleware[] = []) {
+  const handler = createAppRouterHandler(controller, middleware);
 
   return {
     GET: handler,
@@ -315,8 +264,9 @@ export function createAppRouterHandlers(controller: Controller) {
 /**
  * Create a unified handler that delegates to multiple controllers based on path (App Router)
  */
-export function createAppRouterAPI(routes: Record<string, Controller>) {
+export function createAppRouterAPI(routes: Record<string, Controller>, middleware: Middleware[] = []) {
   const adapter = new VercelAppRouterAdapter();
+  middleware.forEach(m => adapter.use(m));
 
   const handler = async (req: NextRequest, context?: { params?: Record<string, string> }) => {
     try {
@@ -325,7 +275,7 @@ export function createAppRouterAPI(routes: Record<string, Controller>) {
       // Simple path-based routing
       for (const [pattern, controller] of Object.entries(routes)) {
         if (parsedRequest.path.includes(pattern)) {
-          const response = await controller.handle(parsedRequest);
+          const response = await adapter.dispatch(controller, parsedRequest);
           const formatted = adapter.formatResponse(response);
 
           return new Response(formatted.body, {
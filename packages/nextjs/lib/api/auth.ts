@@ -0,0 +1,151 @@
+/**
+ * API Authentication
+ *
+ * Identity for the /api/v1 stack: API keys stored (hashed) in the platform's
+ * DocumentStore, and NextAuth sessions through the platform's AuthProvider.
+ * Either way the request ends up carrying the caller's organization. The
+ * app's own routes check session users' roles with requireOrganizationAccess.
+ */
+
+import { NextResponse } from 'next/server';
+import { getPlatform } from '@/lib/platform';
+import {
+  DEFAULT_ORGANIZATION_ID,
+  isOrganizationRole,
+  resolveOrganizationAccess,
+  roleAllows,
+  type OrganizationPermission,
+} from '@/lib/platform/organizations';
+import type { AuthProvider, Platform } from '@/lib/platform/ports';
+import { ApiKeysRepository, OrganizationsRepository } from '@/lib/platform/repositories';
+import { createAuthMiddleware, type IdentityResolver, type Middleware, type ParsedRequest } from './adapters/base';
+
+export { DEFAULT_ORGANIZATION_ID } from '@/lib/platform/organizations';
+
+// What an API key may do. Session users may do what their role allows.
+export const API_KEY_SCOPES = ['executions:read', 'executions:write', 'events:write'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+const SCOPE_PERMISSIONS: Record<ApiKeyScope, OrganizationPermission> = {
+  'executions:read': 'read',
+  'executions:write': 'operate',
+  'events:write': 'operate',
+};
+
+// Session users pick one of their organizations with this header
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+export class PlatformIdentityResolver implements IdentityResolver {
+  constructor(
+    private auth: AuthProvider,
+    private apiKeys: Pick<ApiKeysRepository, 'verify'>,
+    private organizations: Pick<OrganizationsRepository, 'listMemberships'>,
+  ) {}
+
+  async fromApiKey(key: string): Promise<ParsedRequest['apiKey'] | null> {
+    const apiKey = await this.apiKeys.verify(key);
+    if (!apiKey) return null;
+    return { id: apiKey.id, organizationId: apiKey.organizationId, scopes: apiKey.scopes };
+  }
+
+  // The request's ORGANIZATION_HEADER picks the organization. A user asking for
+  // one they are not a member of gets no role there, so every controller
+  // refuses them
+  async fromSession(req: ParsedRequest): Promise<ParsedRequest['user'] | null> {
+    const user = await this.auth.getCurrentUser();
+    if (!user) return null;
+    const requested = req.headers[ORGANIZATION_HEADER];
+    const access = await resolveOrganizationAccess(user, this.organizations, requested);
+    if (!access) return { id: user.id, organizationId: requested, roles: [] };
+    return { id: user.id, organizationId: access.organizationId, roles: [access.role] };
+  }
+}
+
+/**
+ * Auth middleware backed by the configured platform
+ */
+export function createPlatformAuthMiddleware(): Middleware {
+  const { auth, docs } = getPlatform();
+  return createAuthMiddleware(
+    new PlatformIdentityResolver(auth, new ApiKeysRepository(docs), new OrganizationsRepository(docs)),
+  );
+}
+
+/**
+ * The organization of the caller, from its session or API key
+ */
+export function callerOrganization(req: ParsedRequest): string | undefined {
+  return req.user?.organizationId || req.apiKey?.organizationId;
+}
+
+/**
+ * Whether the session user's role allows the permission; API keys have no role
+ */
+export function hasPermission(req: ParsedRequest, permission: OrganizationPermission): boolean {
+  return req.user?.roles.some(role => isOrganizationRole(role) && roleAllows(role, permission)) ?? false;
+}
+
+/**
+ * Whether the caller may act with the given scope
+ */
+export function hasScope(req: ParsedRequest, scope: ApiKeyScope): boolean {
+  if (req.user) return hasPermission(req, SCOPE_PERMISSIONS[scope]);
+  return req.apiKey?.scopes.includes(scope) ?? false;
+}
+
+export class OrganizationAccessError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403,
+  ) {
+    super(message);
+    this.name = 'OrganizationAccessError';
+  }
+}
+
+/**
+ * The signed-in user of a route request, with the organization they act on;
+ * throws OrganizationAccessError unless their role there allows the permission,
+ * or one of the permissions when given several
+ */
+export async function requireOrganizationAccess(
+  request: Request,
+  permission: OrganizationPermission | OrganizationPermission[],
+  { auth, docs }: Platform = getPlatform(),
+) {
+  const user = await auth.getCurrentUser();
+  if (!user) throw new OrganizationAccessError('Authentication required', 401);
+
+  const requested = request.headers.get(ORGANIZATION_HEADER);
+  const access = await resolveOrganizationAccess(user, new OrganizationsRepository(docs), requested);
+  if (!access) throw new OrganizationAccessError(`Not a member of organization ${requested}`, 403);
+  const permissions = Array.isArray(permission) ? permission : [permission];
+  if (!permissions.some(allowed => roleAllows(access.role, allowed))) {
+    throw new OrganizationAccessError(`The ${access.role} role does not allow ${permissions.join(' or ')} access`, 403);
+  }
+  return { ...access, user };
+}
+
+/**
+ * The signed-in user when they are an admin of the default organization, for
+ * resources every organization shares; the organization the request picks
+ * does not matter, since anyone can create an organization and admin it
+ */
+export async function requireDefaultOrganizationAdmin({ auth, docs }: Platform = getPlatform()) {
+  const user = await auth.getCurrentUser();
+  if (!user) throw new OrganizationAccessError('Authentication required', 401);
+
+  const access = await resolveOrganizationAccess(user, new OrganizationsRepository(docs), DEFAULT_ORGANIZATION_ID);
+  if (access?.role !== 'admin') {
+    throw new OrganizationAccessError(`Only admins of organization ${DEFAULT_ORGANIZATION_ID} have access`, 403);
+  }
+  return { ...access, user };
+}
+
+/**
+ * The response for an OrganizationAccessError; null for any other error
+ */
+export function accessDeniedResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof OrganizationAccessError)) return null;
+  return NextResponse.json({ error: error.message }, { status: error.status });
+}
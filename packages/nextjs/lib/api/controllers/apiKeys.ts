@@ -0,0 +1,118 @@
+/**
+ * API Keys Controller
+ *
+ * Lets organization admins create, list and revoke their organization's API
+ * keys from a signed-in session. Keys themselves cannot manage keys.
+ */
+
+import { BaseController, type ParsedRequest } from '../adapters/base';
+import { API_KEY_SCOPES, hasPermission } from '../auth';
+import type { ApiKeysRepository } from '@/lib/platform/repositories';
+import type { ApiKeyDocument } from '@/lib/firestore-types';
+
+// Everything about a key except the hash of its secret
+const publicApiKey = (apiKey: ApiKeyDocument): Omit<ApiKeyDocument, 'secretHash'> => {
+  const copy = { ...apiKey };
+  delete copy.secretHash;
+  return copy;
+};
+
+export class ApiKeysController extends BaseController {
+  constructor(private apiKeys: ApiKeysRepository) {
+    super();
+  }
+
+  async handle(req: ParsedRequest) {
+    if (!req.user) {
+      return this.error('FORBIDDEN', 'API keys can only be managed from a signed-in session');
+    }
+    if (!hasPermission(req, 'manage')) {
+      return this.error('FORBIDDEN', 'Only organization admins can manage API keys');
+    }
+
+    if (req.path === '/api/v1/api-keys') {
+      switch (req.method) {
+        case 'GET':
+          return this.listApiKeys(req);
+        case 'POST':
+          return this.createApiKey(req);
+        default:
+          return this.error('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`);
+      }
+    }
+
+    const match = req.path.match(/^\/api\/v1\/api-keys\/([^\/]+)$/);
+    if (match) {
+      if (req.method === 'DELETE') {
+        return this.revokeApiKey(req, decodeURIComponent(match[1]));
+      }
+      return this.error('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`);
+    }
+
+    return this.error('NOT_FOUND', 'Endpoint not found');
+  }
+
+  private async listApiKeys(req: ParsedRequest) {
+    try {
+      const apiKeys = await this.apiKeys.listByOrganization(req.user!.organizationId);
+      return this.success(apiKeys.map(publicApiKey));
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async createApiKey(req: ParsedRequest) {
+    try {
+      const missing = this.validateRequiredFields(req.body, ['name', 'scopes']);
+      if (missing.length > 0) {
+        return this.error('MISSING_REQUIRED_FIELD', `Missing required fields: ${missing.join(', ')}`);
+      }
+
+      const scopes = req.body.scopes;
+      const unknown = Array.isArray(scopes)
+        ? scopes.filter(scope => !(API_KEY_SCOPES as readonly string[]).includes(scope))
+        : [];
+      if (!Array.isArray(scopes) || scopes.length === 0 || unknown.length > 0) {
+        return this.error('INVALID_FIELD_VALUE', `scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}`, {
+          unknown,
+        });
+      }
+
+      const expiresAt = req.body.expiresAt === undefined ? undefined : Date.parse(req.body.expiresAt);
+      if (expiresAt !== undefined && (isNaN(expiresAt) || expiresAt <= Date.now())) {
+        return this.error('INVALID_FIELD_VALUE', 'expiresAt must be a future date');
+      }
+
+      const { key, apiKey } = await this.apiKeys.create({
+        name: String(req.body.name),
+        organizationId: req.user!.organizationId,
+        scopes: [...new Set<string>(scopes)],
+        createdBy: req.user!.id,
+        ...(expiresAt !== undefined && { expiresAt }),
+      });
+
+      return this.success({ key, apiKey: publicApiKey(apiKey) }, {
+        message: 'Store the key now; it cannot be shown again',
+      });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async revokeApiKey(req: ParsedRequest, id: string) {
+    try {
+      const apiKey = await this.apiKeys.get(id);
+      if (!apiKey || apiKey.organizationId !== req.user!.organizationId) {
+        return this.error('RESOURCE_NOT_FOUND', `API key ${id} not found`);
+      }
+
+      await this.apiKeys.revoke(id);
+      return this.success({ revoked: true });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
@@ -6,9 +6,12 @@
  */
 
 import { BaseController, type ParsedRequest } from '../adapters/base';
+import { callerOrganization, hasScope, type ApiKeyScope } from '../auth';
 import type { ExecutionService } from '../services/execution';
 import type {
   APIResponse,
+  PaginatedResponse,
+  ExecutionDocument,
   ExecutionCreateRequest,
   ExecutionUpdateRequest,
   EventCreateRequest,
@@ -21,7 +24,9 @@ import type {
 } from '../types';
 
 export class ExecutionsController extends BaseController {
-  constructor(private executionService: ExecutionService) {
+  // Executions live in their organization's store, so each caller gets the
+  // service of the organization they act for
+  constructor(private executionServiceFor: (organizationId: string) => ExecutionService) {
     super();
   }
 
@@ -29,6 +34,11 @@ export class ExecutionsController extends BaseController {
     const method = req.method;
     const path = req.path;
 
+    const denied = await this.authorize(req);
+    if (denied) {
+      return denied;
+    }
+
     // Route to appropriate handler based on path pattern
     if (path === '/api/v1/executions') {
       switch (method) {
@@ -158,14 +168,14 @@ export class ExecutionsController extends BaseController {
         initialVariables: req.body.initialVariables,
       };
 
-      const organizationId = req.user?.organizationId || req.apiKey?.organizationId;
+      const organizationId = callerOrganization(req);
       if (!organizationId) {
         return this.error('UNAUTHORIZED', 'Organization context required');
       }
 
-      const userId = req.user?.id || 'api_user';
+      const userId = req.user?.id || req.apiKey?.id || 'api_user';
 
-      const execution = await this.executionService.createExecution(request, organizationId, userId);
+      const execution = await this.serviceFor(req).createExecution(request, organizationId, userId);
 
       return this.success(execution, {
         message: 'Execution created successfully',
@@ -178,9 +188,32 @@ export class ExecutionsController extends BaseController {
 
   private async listExecutions(req: ParsedRequest): Promise<APIResponse> {
     try {
-      // TODO: Implement actual listing with pagination
-      // For now, return empty list
-      return this.success([]);
+      const query: ExecutionListQuery = {
+        page: Math.max(1, this.parseIntParam(req.query.page as string, 1)),
+        limit: Math.min(100, Math.max(1, this.parseIntParam(req.query.limit as string, 20))),
+        sort: req.query.sort as string,
+        order: req.query.order === 'asc' ? 'asc' : 'desc',
+        status: req.query.status as ExecutionListQuery['status'],
+        scenarioId: req.query.scenarioId as string,
+        createdBy: req.query.createdBy as string,
+        since: req.query.since as string,
+        until: req.query.until as string,
+      };
+      const { executions, total } = await this.serviceFor(req).listExecutions(query);
+      const totalPages = Math.ceil(total / query.limit);
+
+      const response: PaginatedResponse<ExecutionDocument> = {
+        ...this.success(executions),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages,
+          hasNext: query.page < totalPages,
+          hasPrev: query.page > 1,
+        },
+      };
+      return response;
     } catch (error) {
       console.error('Error listing executions:', error);
       return this.error('INTERNAL_SERVER_ERROR', 'Failed to list executions');
@@ -189,7 +222,7 @@ export class ExecutionsController extends BaseController {
 
   private async getExecution(req: ParsedRequest, executionId: string): Promise<APIResponse> {
     try {
-      const execution = await this.executionService.getExecution(executionId);
+      const execution = await this.serviceFor(req).getExecution(executionId);
 
       if (!execution) {
         return this.error('RESOURCE_NOT_FOUND', `Execution ${executionId} not found`);
@@ -205,7 +238,7 @@ export class ExecutionsController extends BaseController {
   private async updateExecution(req: ParsedRequest, executionId: string): Promise<APIResponse> {
     try {
       const request: ExecutionUpdateRequest = req.body;
-      const execution = await this.executionService.updateExecution(executionId, request);
+      const execution = await this.serviceFor(req).updateExecution(executionId, request);
 
       return this.success(execution, {
         message: 'Execution updated successfully',
@@ -218,7 +251,7 @@ export class ExecutionsController extends BaseController {
 
   private async deleteExecution(req: ParsedRequest, executionId: string): Promise<APIResponse> {
     try {
-      await this.executionService.deleteExecution(executionId);
+      await this.serviceFor(req).deleteExecution(executionId);
 
       return this.success({ deleted: true }, {
         message: 'Execution deleted successfully',
@@ -231,7 +264,7 @@ export class ExecutionsController extends BaseController {
 
   private async getExecutionState(req: ParsedRequest, executionId: string): Promise<APIResponse> {
     try {
-      const state = await this.executionService.getExecutionState(executionId);
+      const state = await this.serviceFor(req).getExecutionState(executionId);
       return this.success(state);
     } catch (error) {
       console.error('Error getting execution state:', error);
@@ -259,7 +292,7 @@ export class ExecutionsController extends BaseController {
         idempotencyKey: req.body.idempotencyKey || req.headers['idempotency-key'],
       };
 
-      const result = await this.executionService.processEvent(executionId, request);
+      const result = await this.serviceFor(req).processEvent(executionId, request);
 
       return this.success(result, {
         message: 'Event processed successfully',
@@ -273,7 +306,7 @@ export class ExecutionsController extends BaseController {
   private async getEvents(req: ParsedRequest, executionId: string): Promise<APIResponse> {
     try {
       const afterSequence = this.parseIntParam(req.query.afterSequence as string);
-      const events = await this.executionService.getEvents(executionId, afterSequence);
+      const events = await this.serviceFor(req).getEvents(executionId, afterSequence);
 
       return this.success(events);
     } catch (error) {
@@ -288,7 +321,7 @@ export class ExecutionsController extends BaseController {
 
   private async getNodeState(req: ParsedRequest, executionId: string, nodeId: string): Promise<APIResponse> {
     try {
-      const nodeState = await this.executionService.getNodeState(executionId, nodeId);
+      const nodeState = await this.serviceFor(req).getNodeState(executionId, nodeId);
       return this.success(nodeState);
     } catch (error) {
       console.error('Error getting node state:', error);
@@ -310,7 +343,7 @@ export class ExecutionsController extends BaseController {
         metadata: req.body.metadata,
       };
 
-      await this.executionService.injectToken(executionId, nodeId, request);
+      await this.serviceFor(req).injectToken(executionId, nodeId, request);
 
       return this.success({ injected: true }, {
         message: 'Token injected successfully',
@@ -327,7 +360,7 @@ export class ExecutionsController extends BaseController {
 
   private async getFSMState(req: ParsedRequest, executionId: string, nodeId: string): Promise<APIResponse> {
     try {
-      const fsmState = await this.executionService.getFSMState(executionId, nodeId);
+      const fsmState = await this.serviceFor(req).getFSMState(executionId, nodeId);
       return this.success(fsmState);
     } catch (error) {
       console.error('Error getting FSM state:', error);
@@ -344,7 +377,7 @@ export class ExecutionsController extends BaseController {
         bypassGuards: req.body.bypassGuards,
       };
 
-      const result = await this.executionService.triggerFSMTransition(executionId, nodeId, request);
+      const result = await this.serviceFor(req).triggerFSMTransition(executionId, nodeId, request);
 
       if (result.success) {
         return this.success(result, {
@@ -367,17 +400,17 @@ export class ExecutionsController extends BaseController {
     try {
       switch (action) {
         case 'play':
-          await this.executionService.playExecution(executionId);
+          await this.serviceFor(req).playExecution(executionId);
           break;
         case 'pause':
-          await this.executionService.pauseExecution(executionId);
+          await this.serviceFor(req).pauseExecution(executionId);
           break;
         case 'step':
           const steps = this.parseIntParam(req.body?.steps, 1);
-          await this.executionService.stepExecution(executionId, steps);
+          await this.serviceFor(req).stepExecution(executionId, steps);
           break;
         case 'reset':
-          await this.executionService.resetExecution(executionId);
+          await this.serviceFor(req).resetExecution(executionId);
           break;
         default:
           return this.error('INVALID_REQUEST', `Unknown action: ${action}`);
@@ -404,7 +437,7 @@ export class ExecutionsController extends BaseController {
       };
 
       const userId = req.user?.id || 'api_user';
-      const snapshot = await this.executionService.createSnapshot(executionId, request, userId);
+      const snapshot = await this.serviceFor(req).createSnapshot(executionId, request, userId);
 
       return this.success(snapshot, {
         message: 'Snapshot created successfully',
@@ -417,7 +450,7 @@ export class ExecutionsController extends BaseController {
 
   private async getSnapshots(req: ParsedRequest, executionId: string): Promise<APIResponse> {
     try {
-      const snapshots = await this.executionService.getSnapshots(executionId);
+      const snapshots = await this.serviceFor(req).getSnapshots(executionId);
       return this.success(snapshots);
     } catch (error) {
       console.error('Error getting snapshots:', error);
@@ -425,10 +458,47 @@ export class ExecutionsController extends BaseController {
     }
   }
 
+  // ===========================================================================
+  // Authorization
+  // ===========================================================================
+
+  // Callers need the scope the endpoint requires and only reach executions of
+  // their own organization; others' executions look like they do not exist
+  private async authorize(req: ParsedRequest): Promise<APIResponse | null> {
+    const organizationId = callerOrganization(req);
+    if (!organizationId) {
+      return this.error('UNAUTHORIZED', 'Authentication required');
+    }
+
+    const scope: ApiKeyScope =
+      req.method === 'GET' ? 'executions:read' : req.path.endsWith('/events') ? 'events:write' : 'executions:write';
+    if (!hasScope(req, scope)) {
+      return this.error(
+        'FORBIDDEN',
+        req.user ? `Your role in this organization does not allow ${scope}` : `API key lacks the ${scope} scope`,
+      );
+    }
+
+    const executionId = req.path.match(/^\/api\/v1\/executions\/([^\/]+)/)?.[1];
+    if (executionId) {
+      const execution = await this.serviceFor(req).getExecution(decodeURIComponent(executionId));
+      if (execution && execution.organizationId !== organizationId) {
+        return this.error('RESOURCE_NOT_FOUND', `Execution ${executionId} not found`);
+      }
+    }
+
+    return null;
+  }
+
   // ===========================================================================
   // Helper Methods
   // ===========================================================================
 
+  // authorize() has already turned away callers without an organization
+  private serviceFor(req: ParsedRequest): ExecutionService {
+    return this.executionServiceFor(callerOrganization(req));
+  }
+
   private extractIdFromPath(path: string, offsetFromEnd = 0): string {
     const parts = path.split('/').filter(Boolean);
     const index = parts.length - 1 + offsetFromEnd;
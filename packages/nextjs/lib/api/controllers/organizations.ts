@@ -0,0 +1,159 @@
+/**
+ * Organizations Controller
+ *
+ * Signed-in users list the organizations they belong to and create new ones.
+ * Members of the organization a request acts on (see ORGANIZATION_HEADER) can
+ * see its members; its admins add members, change their roles and remove them.
+ */
+
+import { BaseController, type ParsedRequest } from '../adapters/base';
+import { hasPermission } from '../auth';
+import {
+  DEFAULT_MEMBER_ROLE,
+  DEFAULT_ORGANIZATION_ID,
+  ORGANIZATION_ROLES,
+  isOrganizationRole,
+} from '@/lib/platform/organizations';
+import type { OrganizationsRepository } from '@/lib/platform/repositories';
+
+export class OrganizationsController extends BaseController {
+  constructor(private organizations: OrganizationsRepository) {
+    super();
+  }
+
+  async handle(req: ParsedRequest) {
+    if (!req.user) {
+      return this.error('FORBIDDEN', 'Organizations can only be managed from a signed-in session');
+    }
+
+    if (req.path === '/api/v1/organizations') {
+      switch (req.method) {
+        case 'GET':
+          return this.listOrganizations(req);
+        case 'POST':
+          return this.createOrganization(req);
+        default:
+          return this.error('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`);
+      }
+    }
+
+    const members = req.path.match(/^\/api\/v1\/organizations\/([^\/]+)\/members(?:\/([^\/]+))?$/);
+    if (members) {
+      const organizationId = decodeURIComponent(members[1]);
+      // Only the organization the request acts on is visible
+      if (organizationId !== req.user.organizationId || !hasPermission(req, 'read')) {
+        return this.error('RESOURCE_NOT_FOUND', `Organization ${organizationId} not found`);
+      }
+
+      if (!members[2]) {
+        return req.method === 'GET'
+          ? this.listMembers(organizationId)
+          : this.error('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`);
+      }
+
+      if (!hasPermission(req, 'manage')) {
+        return this.error('FORBIDDEN', 'Only organization admins can manage members');
+      }
+      const userId = decodeURIComponent(members[2]);
+      switch (req.method) {
+        case 'PUT':
+          return this.setMember(req, organizationId, userId);
+        case 'DELETE':
+          return this.removeMember(organizationId, userId);
+        default:
+          return this.error('METHOD_NOT_ALLOWED', `Method ${req.method} not allowed`);
+      }
+    }
+
+    return this.error('NOT_FOUND', 'Endpoint not found');
+  }
+
+  private async listOrganizations(req: ParsedRequest) {
+    try {
+      const memberships = await this.organizations.listMemberships(req.user!.id);
+      // Users keep the default organization next to the ones they joined
+      const implicit = memberships.some(membership => membership.organizationId === DEFAULT_ORGANIZATION_ID)
+        ? []
+        : [{ organizationId: DEFAULT_ORGANIZATION_ID, role: DEFAULT_MEMBER_ROLE }];
+      const organizations = await Promise.all(
+        [...implicit, ...memberships].map(async membership => ({
+          id: membership.organizationId,
+          name: (await this.organizations.get(membership.organizationId))?.name ?? membership.organizationId,
+          role: membership.role,
+        })),
+      );
+      return this.success({
+        organizations,
+        active: { id: req.user!.organizationId, role: req.user!.roles[0] ?? null },
+      });
+    } catch (error) {
+      console.error('Error listing organizations:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async createOrganization(req: ParsedRequest) {
+    try {
+      const missing = this.validateRequiredFields(req.body, ['name']);
+      if (missing.length > 0) {
+        return this.error('MISSING_REQUIRED_FIELD', `Missing required fields: ${missing.join(', ')}`);
+      }
+
+      const organization = await this.organizations.create({ name: String(req.body.name), createdBy: req.user!.id });
+      return this.success(organization, {
+        message: 'Organization created; you are its admin',
+      });
+    } catch (error) {
+      console.error('Error creating organization:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async listMembers(organizationId: string) {
+    try {
+      return this.success(await this.organizations.listMembers(organizationId));
+    } catch (error) {
+      console.error('Error listing members:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async setMember(req: ParsedRequest, organizationId: string, userId: string) {
+    try {
+      const role = req.body?.role;
+      if (!isOrganizationRole(role)) {
+        return this.error('INVALID_FIELD_VALUE', `role must be one of ${ORGANIZATION_ROLES.join(', ')}`);
+      }
+      if (role !== 'admin' && (await this.isLastAdmin(organizationId, userId))) {
+        return this.error('RESOURCE_CONFLICT', 'An organization needs at least one admin');
+      }
+
+      return this.success(await this.organizations.setMember(organizationId, userId, role));
+    } catch (error) {
+      console.error('Error setting member:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async removeMember(organizationId: string, userId: string) {
+    try {
+      if (!(await this.organizations.getMember(organizationId, userId))) {
+        return this.error('RESOURCE_NOT_FOUND', `${userId} is not a member of ${organizationId}`);
+      }
+      if (await this.isLastAdmin(organizationId, userId)) {
+        return this.error('RESOURCE_CONFLICT', 'An organization needs at least one admin');
+      }
+
+      await this.organizations.removeMember(organizationId, userId);
+      return this.success({ removed: true });
+    } catch (error) {
+      console.error('Error removing member:', error);
+      return this.error('INTERNAL_SERVER_ERROR', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async isLastAdmin(organizationId: string, userId: string) {
+    const admins = (await this.organizations.listMembers(organizationId)).filter(member => member.role === 'admin');
+    return admins.length === 1 && admins[0].userId === userId;
+  }
+}
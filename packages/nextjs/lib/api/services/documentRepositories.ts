@@ -0,0 +1,158 @@
+/**
+ * DocumentStore Repositories for the Execution Service
+ *
+ * Executions, their events, activity and snapshots live in one organization's
+ * DocumentStore; the scenarios they run are that organization's templates.
+ */
+
+import { nanoid } from '@/lib/nanoid';
+import type { DataService } from '@/lib/platform/dataService';
+import type { DocumentStore } from '@/lib/platform/ports';
+import type { HistoryEntry } from '@/lib/simulation/types';
+import type { Event, ExecutionDocument, ExecutionSnapshot } from '../types';
+import type { ExecutionRepository, ScenarioRepository } from './execution';
+
+const COLLECTIONS = {
+  executions: 'api/executions/items',
+  events: 'api/executions/events',
+  activity: 'api/executions/activity',
+  snapshots: 'api/executions/snapshots',
+};
+
+// Activity is appended in chunks, one document per appendActivity call
+interface ActivityChunk {
+  id: string;
+  executionId: string;
+  entries: HistoryEntry[];
+  recordedAt: number;
+}
+
+export class DocumentExecutionRepository implements ExecutionRepository {
+  private lastRecordedAt = 0;
+
+  constructor(private docs: DocumentStore) {}
+
+  async create(execution: Omit<ExecutionDocument, 'id' | 'createdAt' | 'updatedAt'>): Promise<ExecutionDocument> {
+    const now = new Date().toISOString();
+    const document: ExecutionDocument = { ...execution, id: nanoid(), createdAt: now, updatedAt: now };
+    await this.docs.create<ExecutionDocument>(COLLECTIONS.executions, document);
+    return document;
+  }
+
+  findById(id: string) {
+    return this.docs.get<ExecutionDocument>(COLLECTIONS.executions, id);
+  }
+
+  list() {
+    return this.docs.list<ExecutionDocument>(COLLECTIONS.executions);
+  }
+
+  findByScenario(scenarioId: string) {
+    return this.docs.list<ExecutionDocument>(COLLECTIONS.executions, {
+      where: [{ field: 'scenarioId', op: '==', value: scenarioId }],
+    });
+  }
+
+  async update(id: string, updates: Partial<ExecutionDocument>): Promise<ExecutionDocument> {
+    if (!(await this.findById(id))) throw new Error(`Execution ${id} not found`);
+    await this.docs.update<ExecutionDocument>(COLLECTIONS.executions, id, {
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    });
+    return this.findById(id);
+  }
+
+  async delete(id: string) {
+    const byExecution = { where: [{ field: 'executionId', op: '==' as const, value: id }] };
+    const [events, activity, snapshots] = await Promise.all([
+      this.docs.list<Event>(COLLECTIONS.events, byExecution),
+      this.docs.list<ActivityChunk>(COLLECTIONS.activity, byExecution),
+      this.docs.list<ExecutionSnapshot>(COLLECTIONS.snapshots, byExecution),
+    ]);
+    await Promise.all([
+      ...events.map(event => this.docs.delete(COLLECTIONS.events, event.id)),
+      ...activity.map(chunk => this.docs.delete(COLLECTIONS.activity, chunk.id)),
+      ...snapshots.map(snapshot => this.docs.delete(COLLECTIONS.snapshots, snapshot.id)),
+    ]);
+    await this.docs.delete(COLLECTIONS.executions, id);
+  }
+
+  async saveState(id: string, nodeStates: ExecutionDocument['nodeStates'], currentTime: number) {
+    await this.update(id, { nodeStates, currentTime });
+  }
+
+  async loadState(id: string) {
+    const execution = await this.findById(id);
+    return execution ? { nodeStates: execution.nodeStates || {}, currentTime: execution.currentTime || 0 } : null;
+  }
+
+  async addEvent(event: Event) {
+    await this.docs.create<Event>(COLLECTIONS.events, event);
+    return event;
+  }
+
+  async getEvents(executionId: string, afterSequence?: number) {
+    const events = await this.docs.list<Event>(COLLECTIONS.events, {
+      where: [{ field: 'executionId', op: '==', value: executionId }],
+      orderBy: { field: 'sequence' },
+    });
+    return afterSequence === undefined ? events : events.filter(event => event.sequence > afterSequence);
+  }
+
+  getEvent(eventId: string) {
+    return this.docs.get<Event>(COLLECTIONS.events, eventId);
+  }
+
+  async appendActivity(executionId: string, entries: HistoryEntry[]) {
+    if (entries.length === 0) return;
+    await this.docs.create<ActivityChunk>(COLLECTIONS.activity, {
+      id: nanoid(),
+      executionId,
+      entries,
+      recordedAt: this.nextRecordedAt(),
+    });
+  }
+
+  async getActivity(executionId: string, limit?: number) {
+    const chunks = await this.docs.list<ActivityChunk>(COLLECTIONS.activity, {
+      where: [{ field: 'executionId', op: '==', value: executionId }],
+      orderBy: { field: 'recordedAt' },
+    });
+    const activity = chunks.flatMap(chunk => chunk.entries);
+    return limit ? activity.slice(-limit) : activity;
+  }
+
+  async createSnapshot(snapshot: Omit<ExecutionSnapshot, 'id' | 'createdAt'>): Promise<ExecutionSnapshot> {
+    const document: ExecutionSnapshot = { ...snapshot, id: nanoid(), createdAt: new Date().toISOString() };
+    await this.docs.create<ExecutionSnapshot>(COLLECTIONS.snapshots, document);
+    return document;
+  }
+
+  getSnapshots(executionId: string) {
+    return this.docs.list<ExecutionSnapshot>(COLLECTIONS.snapshots, {
+      where: [{ field: 'executionId', op: '==', value: executionId }],
+      orderBy: { field: 'createdAt' },
+    });
+  }
+
+  getSnapshot(snapshotId: string) {
+    return this.docs.get<ExecutionSnapshot>(COLLECTIONS.snapshots, snapshotId);
+  }
+
+  // Strictly increasing within this process, so chunks appended in the same
+  // millisecond keep their order
+  private nextRecordedAt() {
+    this.lastRecordedAt = Math.max(Date.now(), this.lastRecordedAt + 1);
+    return this.lastRecordedAt;
+  }
+}
+
+// Executions run the organization's templates; a scenario id is a template id
+export class TemplateScenarioRepository implements ScenarioRepository {
+  constructor(private data: DataService) {}
+
+  async findById(id: string) {
+    const template = await this.data.getTemplate(id);
+    return template ? { id: template.id, scenario: template.scenario } : null;
+  }
+}
@@ -7,6 +7,7 @@
 
 import type {
   ExecutionDocument,
+  ExecutionListQuery,
   ExecutionCreateRequest,
   ExecutionUpdateRequest,
   ExecutionState,
@@ -41,6 +42,7 @@ export interface ExecutionRepository {
   // Basic CRUD
   create(execution: Omit<ExecutionDocument, 'id' | 'createdAt' | 'updatedAt'>): Promise<ExecutionDocument>;
   findById(id: string): Promise<ExecutionDocument | null>;
+  list(): Promise<ExecutionDocument[]>;
   findByScenario(scenarioId: string): Promise<ExecutionDocument[]>;
   update(id: string, updates: Partial<ExecutionDocument>): Promise<ExecutionDocument>;
   delete(id: string): Promise<void>;
@@ -150,6 +152,30 @@ export class ExecutionService {
     return this.executionRepo.findById(id);
   }
 
+  async listExecutions(query: ExecutionListQuery = {}): Promise<{ executions: ExecutionDocument[]; total: number }> {
+    const page = Math.max(1, query.page || 1);
+    const limit = Math.max(1, query.limit || 20);
+    const since = query.since ? new Date(query.since).getTime() : undefined;
+    const until = query.until ? new Date(query.until).getTime() : undefined;
+
+    const matching = (await this.executionRepo.list())
+      .filter(execution => !query.status || execution.status === query.status)
+      .filter(execution => !query.scenarioId || execution.scenarioId === query.scenarioId)
+      .filter(execution => !query.createdBy || execution.createdBy === query.createdBy)
+      .filter(execution => since === undefined || new Date(execution.createdAt).getTime() >= since)
+      .filter(execution => until === undefined || new Date(execution.createdAt).getTime() <= until);
+
+    // Newest first unless asked otherwise; ISO timestamps sort lexically
+    const field = (query.sort || 'createdAt') as keyof ExecutionDocument;
+    const direction = query.order === 'asc' ? 1 : -1;
+    matching.sort((a, b) => String(a[field] ?? '').localeCompare(String(b[field] ?? '')) * direction);
+
+    return {
+      executions: matching.slice((page - 1) * limit, page * limit),
+      total: matching.length,
+    };
+  }
+
   async updateExecution(id: string, request: ExecutionUpdateRequest): Promise<ExecutionDocument> {
     const execution = await this.executionRepo.findById(id);
     if (!execution) {
@@ -0,0 +1,202 @@
+/**
+ * Simulation Engine Adapter
+ *
+ * Implements the ExecutionService SimulationEngine port on top of the
+ * headless simulation engine used by the editor, so API executions run
+ * the same token-flow semantics as the browser.
+ */
+
+import type {
+  Event,
+  FSMTransitionRequest,
+  ProcessingError,
+  StateChange,
+} from '../types';
+
+import type { FSMProcessNodeState, NodeState, Scenario, Token } from '@/lib/simulation/types';
+import {
+  SimulationEngine as CoreSimulationEngine,
+  type SimulationEngineOptions,
+} from '@/lib/simulation/simulationEngine';
+
+import type { SimulationEngine } from './execution';
+
+export class HeadlessSimulationEngine implements SimulationEngine {
+  private engine: CoreSimulationEngine | null = null;
+
+  constructor(private options: SimulationEngineOptions = {}) {}
+
+  // ===========================================================================
+  // Scenario management
+  // ===========================================================================
+
+  async loadScenario(scenario: Scenario): Promise<void> {
+    this.engine = CoreSimulationEngine.fromScenarioData(scenario, this.options);
+  }
+
+  async getCurrentState() {
+    const { nodeStates, currentTime } = this.requireEngine().getState();
+    return { nodeStates, currentTime };
+  }
+
+  // ===========================================================================
+  // Event processing
+  // ===========================================================================
+
+  async processEvent(event: Event) {
+    const engine = this.requireEngine();
+    const startTime = Date.now();
+    const previousStates = engine.getState().nodeStates;
+    const tokensCreated: Token[] = [];
+    const errors: ProcessingError[] = [];
+    const warnings: string[] = [];
+
+    try {
+      switch (event.type) {
+        case 'tick':
+        case 'step':
+          engine.step(event.payload?.steps ?? 1);
+          break;
+
+        case 'token_injection':
+        case 'inject_token':
+          tokensCreated.push(engine.injectToken(event.payload.nodeId, event.payload.value, event.source || 'api'));
+          break;
+
+        case 'fsm_transition': {
+          const result = await this.triggerFSMTransition(event.payload.nodeId, event.payload);
+          if (!result.success) {
+            errors.push({ nodeId: event.payload.nodeId, type: 'fsm_transition', message: result.error || 'Transition failed', retryable: false });
+          }
+          break;
+        }
+
+        default:
+          warnings.push(`Event type "${event.type}" is not handled by the simulation engine`);
+      }
+    } catch (error) {
+      errors.push({
+        nodeId: event.payload?.nodeId,
+        type: 'processing_error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        retryable: false,
+      });
+    }
+
+    return {
+      eventId: event.id,
+      success: errors.length === 0,
+      processingTime: Date.now() - startTime,
+      messagesGenerated: [],
+      stateChanges: this.diffNodeStates(previousStates, engine.getState().nodeStates),
+      tokensCreated,
+      actionsTriggered: [],
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    };
+  }
+
+  // ===========================================================================
+  // Node operations
+  // ===========================================================================
+
+  async getNodeState(nodeId: string) {
+    return this.requireEngine().getNodeState(nodeId);
+  }
+
+  async injectToken(nodeId: string, token: Token): Promise<void> {
+    this.requireEngine().receiveToken(nodeId, token, 'api');
+  }
+
+  // ===========================================================================
+  // FSM operations
+  // ===========================================================================
+
+  async getFSMState(nodeId: string): Promise<FSMProcessNodeState | null> {
+    const nodeState = this.requireEngine().getNodeState(nodeId);
+    if (nodeState && 'currentFSMState' in nodeState) {
+      return nodeState as FSMProcessNodeState;
+    }
+    return null;
+  }
+
+  async triggerFSMTransition(nodeId: string, request: FSMTransitionRequest): Promise<{ success: boolean; newState?: string; error?: string }> {
+    const engine = this.requireEngine();
+    const nodeConfig = engine.nodesConfig[nodeId];
+    const fsmState = await this.getFSMState(nodeId);
+    if (!nodeConfig || nodeConfig.type !== 'FSMProcessNode' || !fsmState) {
+      return { success: false, error: `Node ${nodeId} is not an FSM process node` };
+    }
+
+    if (request.targetState) {
+      return engine.triggerFSMTransition(nodeId, request.targetState, request.reason || 'manual');
+    }
+
+    if (request.message) {
+      const transition = nodeConfig.fsm.transitions.find(
+        t => t.from === fsmState.currentFSMState && t.trigger === request.message!.type,
+      );
+      if (!transition) {
+        return { success: false, error: `No transition from ${fsmState.currentFSMState} on ${request.message.type}` };
+      }
+      return engine.triggerFSMTransition(nodeId, transition.to, transition.trigger);
+    }
+
+    return { success: false, error: 'Either targetState or message is required' };
+  }
+
+  // ===========================================================================
+  // Control
+  // ===========================================================================
+
+  // The server has no wall clock loop: a running execution advances through
+  // step() calls or 'tick' events.
+  async play(): Promise<void> {
+    this.requireEngine();
+  }
+
+  async pause(): Promise<void> {
+    this.requireEngine();
+  }
+
+  async step(steps = 1): Promise<void> {
+    this.requireEngine().step(steps);
+  }
+
+  async reset(): Promise<void> {
+    this.requireEngine().reset();
+  }
+
+  // ===========================================================================
+  // Helpers
+  // ===========================================================================
+
+  private requireEngine(): CoreSimulationEngine {
+    if (!this.engine) {
+      throw new Error('No scenario loaded in simulation engine');
+    }
+    return this.engine;
+  }
+
+  private diffNodeStates(previous: Record<string, unknown>, next: Record<string, unknown>): StateChange[] {
+    const timestamp = new Date().toISOString();
+    const changes: StateChange[] = [];
+
+    Object.entries(next).forEach(([nodeId, nodeState]) => {
+      const previousState = (previous[nodeId] as NodeState | undefined)?.stateMachine?.currentState;
+      const newState = (nodeState as NodeState).stateMachine?.currentState;
+      if (previous[nodeId] !== nodeState && previousState !== newState) {
+        changes.push({
+          nodeId,
+          nodeType: this.engine?.nodesConfig[nodeId]?.type || 'unknown',
+          field: 'stateMachine.currentState',
+          previousValue: previousState,
+          newValue: newState,
+          timestamp,
+        });
+      }
+    });
+
+    return changes;
+  }
+}
@@ -41,6 +41,7 @@ export interface APIResponse<T = any> {
     code: string;
     message: string;
     details?: any;
+    timestamp?: string;
   };
   meta?: {
     timestamp: number;
@@ -11,6 +11,7 @@ export interface TemplateDocument {
   updatedAt: number;
   createdBy?: string;
   version: string;
+  revision?: number;
   // Optional execution state for templates with saved simulation progress
   executionState?: {
     scenario: Scenario;
@@ -41,4 +42,92 @@ export interface ExecutionDocument {
   lastSavedAt: number;
   isCompleted: boolean;
   createdBy?: string;
-}
\ No newline at end of file
+  revision?: number;
+}
+
+export interface ProcedureActionExecution {
+  actionId: string;
+  state: string;
+  trigger: string;
+  type?: string;
+  timestamp: string;
+  [key: string]: any;
+}
+
+// A running procedure. Events and messages are append-only subcollections of
+// the instance, so only variables, state and executed actions are rewritten
+export interface ProcedureInstanceDocument {
+  id: string;
+  instanceId: string;
+  templateId: string;
+  variables: Record<string, any>;
+  currentState?: { name: string; enteredAt: string };
+  executedActions: ProcedureActionExecution[];
+  startDate: string;
+  revision?: number;
+}
+
+export interface ProcedureEventDocument {
+  id: string;
+  type: string;
+  timestamp: string;
+  data?: any;
+  // Server time of the append; events are listed in this order
+  recordedAt: number;
+  [key: string]: any;
+}
+
+export interface ProcedureMessageDocument {
+  id: string;
+  type: string;
+  // The event that produced the message; reverting the event removes it
+  fromEvent?: string;
+  recordedAt: number;
+  [key: string]: any;
+}
+
+// The shape the UI has always worked with: one object with an embedded history
+export interface ProcedureInstanceWithHistory extends Omit<ProcedureInstanceDocument, 'executedActions'> {
+  history: {
+    events: ProcedureEventDocument[];
+    messages: ProcedureMessageDocument[];
+    executedActions: ProcedureActionExecution[];
+  };
+}
+// A key for the /api/v1 stack. Only a hash of the secret is stored; the
+// plaintext key is returned once, when the key is created
+export interface ApiKeyDocument {
+  id: string;
+  name: string;
+  organizationId: string;
+  scopes: string[];
+  secretHash: string;
+  createdBy: string;
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+  revision?: number;
+}
+
+// What a member may do in an organization; see lib/platform/organizations.ts
+export type OrganizationRole = 'viewer' | 'editor' | 'operator' | 'admin';
+
+// A team with its own templates, executions and procedures
+export interface OrganizationDocument {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: number;
+  revision?: number;
+}
+
+// Stored with the id `${organizationId}__${userId}`
+export interface OrganizationMemberDocument {
+  id: string;
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  createdAt: number;
+  revision?: number;
+}
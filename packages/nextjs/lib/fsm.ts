@@ -1,4 +1,5 @@
-import { sm } from "jssm";
+import { compileFSL } from "./simulation/fslParser";
+import { apiFetch } from "@/utils/api";
 
 interface Message {
   id: string;
@@ -44,25 +45,14 @@ export function createStateMachine(definition: string): StateMachine {
   const transitions = new Map<string, Map<string, string>>();
   const states = new Set<string>();
 
-  // Parse the definition
-  definition.split(";").forEach(line => {
-    line = line.trim();
-    if (!line) return;
-
-    const match = line.match(/(\w+)\s+'([^']+)'\s*->\s*(\w+)/);
-    if (match) {
-      const [, source, event, target] = match;
-
-      // Add states to set
-      states.add(source);
-      states.add(target);
-
-      // Add transition
-      if (!transitions.has(source)) {
-        transitions.set(source, new Map());
-      }
-      transitions.get(source)!.set(event, target);
+  // Parse the definition; statements with syntax errors are left out
+  const fsm = compileFSL(definition).definition;
+  fsm.states.forEach(state => states.add(state));
+  fsm.transitions.forEach(({ from, trigger, to }) => {
+    if (!transitions.has(from)) {
+      transitions.set(from, new Map());
     }
+    transitions.get(from)!.set(trigger, to);
   });
 
   const currentState = Array.from(states).find(state => state === "idle") || Array.from(states)[0];
@@ -180,7 +170,7 @@ export const calculateStateAndExecuteActions = async (
               },
             };
 
-            const response = await fetch("/api/events", {
+            const response = await apiFetch("/api/events", {
               method: "POST",
               headers: { "Content-Type": "application/json" },
               body: JSON.stringify({
@@ -201,7 +191,7 @@ export const calculateStateAndExecuteActions = async (
               });
 
               // Update instance in database
-              await fetch("/api/procedures/" + instance.instanceId, {
+              await apiFetch("/api/procedures/" + instance.instanceId, {
                 method: "PATCH",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import type { DocumentStore, ListQuery } from '@/lib/platform/ports';
+import { DocumentExistsError, RevisionConflictError, type DocumentStore, type ListQuery, type UpdateOptions } from '@/lib/platform/ports';
 import type { TemplateDocument, ExecutionDocument } from '@/lib/firestore-types';
 
 function ensureDir(dir: string) {
@@ -41,6 +41,46 @@ function executionFile(templateId: string, executionId: string) {
   return path.join(executionsDir(templateId), `${executionId}.json`);
 }
 
+// Any other collection keeps one JSON file per document under collections/<collectionPath>
+function collectionDir(collectionPath: string) {
+  const segments = collectionPath.split('/').filter(Boolean);
+  if (segments.some(segment => segment === '.' || segment === '..')) {
+    throw new Error(`Invalid collection path: ${collectionPath}`);
+  }
+  return path.join(pledBaseDir(), 'collections', ...segments);
+}
+
+function documentFile(collectionPath: string, id: string) {
+  if (!id || id.includes('/') || id.includes('\\') || id === '.' || id === '..') {
+    throw new Error(`Invalid document id: ${id}`);
+  }
+  return path.join(collectionDir(collectionPath), `${id}.json`);
+}
+
+function newId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Reading, comparing and writing happen in one synchronous step, so no other
+// request can write in between
+function checkRevision(collectionPath: string, id: string, existing: { revision?: number }, options?: UpdateOptions) {
+  const actual = existing.revision ?? 0;
+  if (options?.expectedRevision !== undefined && options.expectedRevision !== actual) {
+    throw new RevisionConflictError(collectionPath, id, options.expectedRevision, actual);
+  }
+  return actual + 1;
+}
+
+// Writes a new document file, failing rather than overwriting an existing one
+function createFile(file: string, doc: unknown, collectionPath: string, id: string) {
+  try {
+    fs.writeFileSync(file, JSON.stringify(doc, null, 2), { flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') throw new DocumentExistsError(collectionPath, id);
+    throw error;
+  }
+}
+
 function listDirectories(dir: string): string[] {
   if (!fs.existsSync(dir)) return [];
   return fs.readdirSync(dir, { withFileTypes: true })
@@ -115,7 +155,7 @@ export class FileDocumentStore implements DocumentStore {
       return (match?.data ?? null) as unknown as T;
     }
 
-    return null;
+    return readJSON<T>(documentFile(collectionPath, id));
   }
 
   async list<T>(collectionPath: string, query?: ListQuery): Promise<T[]> {
@@ -143,13 +183,19 @@ export class FileDocumentStore implements DocumentStore {
       return applyQuery(executions as any[], query) as any[];
     }
 
-    return [];
+    const dir = collectionDir(collectionPath);
+    if (!fs.existsSync(dir)) return [];
+    const docs = fs.readdirSync(dir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => readJSON<Record<string, any>>(path.join(dir, f)))
+      .filter((doc): doc is Record<string, any> => doc !== null);
+    return applyQuery(docs, query) as T[];
   }
 
   async create<T extends { id?: string }>(collectionPath: string, data: T): Promise<string> {
     if (collectionPath === TEMPLATE_COLLECTION) {
       const now = Date.now();
-      const id = (data as any).id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const id = (data as any).id ?? newId();
       const doc: TemplateDocument = {
         ...(data as any),
         id,
@@ -157,7 +203,7 @@ export class FileDocumentStore implements DocumentStore {
         updatedAt: now,
       };
       ensureTemplateDir(id);
-      fs.writeFileSync(templateFile(id), JSON.stringify(doc, null, 2));
+      createFile(templateFile(id), doc, collectionPath, id);
       return id;
     }
 
@@ -166,21 +212,25 @@ export class FileDocumentStore implements DocumentStore {
       const templateId = input.templateId;
       if (!templateId) throw new Error('Execution requires templateId');
       const now = Date.now();
-      const id = input.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const id = input.id ?? newId();
       const doc: ExecutionDocument = {
         ...input,
         id,
         startedAt: input.startedAt ?? now,
         lastSavedAt: now,
       };
-      fs.writeFileSync(executionFile(templateId, id), JSON.stringify(doc, null, 2));
+      createFile(executionFile(templateId, id), doc, collectionPath, id);
       return id;
     }
 
-    throw new Error(`Unsupported collection for file adapter: ${collectionPath}`);
+    const id = data.id ?? newId();
+    const file = documentFile(collectionPath, id);
+    ensureDir(path.dirname(file));
+    createFile(file, { ...data, id }, collectionPath, id);
+    return id;
   }
 
-  async update<T>(collectionPath: string, id: string, updates: Partial<T>): Promise<void> {
+  async update<T>(collectionPath: string, id: string, updates: Partial<T>, options?: UpdateOptions): Promise<void> {
     if (collectionPath === TEMPLATE_COLLECTION) {
       const existing = readJSON<TemplateDocument>(templateFile(id));
       if (!existing) throw new Error('Document not found');
@@ -188,6 +238,7 @@ export class FileDocumentStore implements DocumentStore {
         ...existing,
         ...(updates as any),
         updatedAt: Date.now(),
+        revision: checkRevision(collectionPath, id, existing as any, options),
       };
       ensureTemplateDir(id);
       fs.writeFileSync(templateFile(id), JSON.stringify(updated, null, 2));
@@ -201,12 +252,17 @@ export class FileDocumentStore implements DocumentStore {
         ...match.data,
         ...(updates as any),
         lastSavedAt: Date.now(),
+        revision: checkRevision(collectionPath, id, match.data as any, options),
       };
       fs.writeFileSync(match.path, JSON.stringify(updated, null, 2));
       return;
     }
 
-    throw new Error(`Unsupported collection for file adapter: ${collectionPath}`);
+    const file = documentFile(collectionPath, id);
+    const existing = readJSON<Record<string, any>>(file);
+    if (!existing) throw new Error('Document not found');
+    const revision = checkRevision(collectionPath, id, existing, options);
+    fs.writeFileSync(file, JSON.stringify({ ...existing, ...updates, id, revision }, null, 2));
   }
 
   async delete(collectionPath: string, id: string): Promise<void> {
@@ -226,6 +282,8 @@ export class FileDocumentStore implements DocumentStore {
       return;
     }
 
-    throw new Error(`Unsupported collection for file adapter: ${collectionPath}`);
+    const file = documentFile(collectionPath, id);
+    if (fs.existsSync(file)) fs.unlinkSync(file);
+    // Like Firestore, deleting a document leaves its subcollections alone
   }
 }
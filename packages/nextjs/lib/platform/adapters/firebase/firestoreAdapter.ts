@@ -1,5 +1,12 @@
+import { FieldValue } from 'firebase-admin/firestore';
 import { getFirestore } from '@/lib/firebase-simple';
-import type { DocumentStore, ListQuery, WhereClause } from '@/lib/platform/ports';
+import {
+  DocumentExistsError,
+  RevisionConflictError,
+  type DocumentStore,
+  type ListQuery,
+  type UpdateOptions,
+} from '@/lib/platform/ports';
 
 function applyQuery(ref: FirebaseFirestore.Query, query?: ListQuery) {
   let q = ref;
@@ -36,15 +43,35 @@ export class FirestoreDocumentStore implements DocumentStore {
   }
 
   async create<T extends { id?: string }>(collectionPath: string, data: T): Promise<string> {
-    const docRef = this.db.collection(collectionPath).doc();
-    const toWrite = { ...data, id: data.id ?? docRef.id } as any;
-    await docRef.set(toWrite);
+    const collection = this.db.collection(collectionPath);
+    const docRef = data.id ? collection.doc(data.id) : collection.doc();
+    const toWrite = { ...data, id: docRef.id } as any;
+    // create() fails instead of overwriting an existing document
+    try {
+      await docRef.create(toWrite);
+    } catch (error) {
+      // gRPC ALREADY_EXISTS
+      if ((error as { code?: number }).code === 6) throw new DocumentExistsError(collectionPath, docRef.id);
+      throw error;
+    }
     return docRef.id;
   }
 
-  async update<T>(collectionPath: string, id: string, updates: Partial<T>): Promise<void> {
+  async update<T>(collectionPath: string, id: string, updates: Partial<T>, options?: UpdateOptions): Promise<void> {
     const docRef = this.db.collection(collectionPath).doc(id);
-    await docRef.update(updates as any);
+    const expected = options?.expectedRevision;
+    if (expected === undefined) {
+      await docRef.update({ ...(updates as any), revision: FieldValue.increment(1) });
+      return;
+    }
+
+    await this.db.runTransaction(async transaction => {
+      const snap = await transaction.get(docRef);
+      if (!snap.exists) throw new Error('Document not found');
+      const actual = snap.get('revision') ?? 0;
+      if (actual !== expected) throw new RevisionConflictError(collectionPath, id, expected, actual);
+      transaction.update(docRef, { ...(updates as any), revision: actual + 1 });
+    });
   }
 
   async delete(collectionPath: string, id: string): Promise<void> {
@@ -0,0 +1,51 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { LLMCompletionRequest, LLMProvider } from '@/lib/platform/ports';
+
+// Tried in order when a model is missing or over quota
+const MODEL_FALLBACKS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+export class GeminiLLMProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY) {
+    if (!apiKey) throw new Error('GEMINI_API_KEY environment variable is not set');
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async complete(request: LLMCompletionRequest) {
+    const models = request.model ? [request.model] : MODEL_FALLBACKS;
+    const systemInstruction = request.messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .join('\n\n');
+    const contents = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    let lastError: unknown;
+    for (const model of models) {
+      try {
+        const generativeModel = this.genAI.getGenerativeModel({
+          model,
+          systemInstruction: systemInstruction || undefined,
+          generationConfig: {
+            temperature: request.temperature ?? 0.2,
+            topK: 40,
+            topP: 0.9,
+            maxOutputTokens: request.maxTokens ?? 2048,
+            responseMimeType: request.json ? 'application/json' : undefined,
+          },
+        });
+        const result = await generativeModel.generateContent({ contents });
+        return { text: result.response.text(), provider: this.name, model };
+      } catch (error: any) {
+        lastError = error;
+        console.error(`Gemini model ${model} failed:`, error);
+        // Only a missing model or exhausted quota moves on to the next model
+        if (!(error?.status === 404 || error?.status === 429 || error?.message?.includes('quota'))) throw error;
+      }
+    }
+    throw lastError;
+  }
+}
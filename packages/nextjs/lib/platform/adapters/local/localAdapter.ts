@@ -0,0 +1,44 @@
+import fs from 'fs';
+import type { LLMCompletionRequest, LLMProvider } from '@/lib/platform/ports';
+
+export interface LLMFixture {
+  // Substring of the prompt, or a regular expression written as /pattern/flags
+  match: string;
+  response: string;
+  // Only answer JSON requests (true) or only plain ones (false); both when unset
+  json?: boolean;
+}
+
+function loadFixtures(file: string | undefined): LLMFixture[] {
+  if (!file) return [];
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as LLMFixture[];
+  } catch (err) {
+    console.warn(`Failed to read LLM fixtures from ${file}:`, err);
+    return [];
+  }
+}
+
+function matches(fixture: LLMFixture, prompt: string) {
+  const regex = fixture.match.match(/^\/(.*)\/([a-z]*)$/s);
+  return regex ? new RegExp(regex[1], regex[2]).test(prompt) : prompt.includes(fixture.match);
+}
+
+// Deterministic backend for tests and offline work: the first fixture that
+// matches the prompt answers, otherwise a fixed placeholder does. The prompt
+// is the last user message, or the last message when there is none.
+export class LocalLLMProvider implements LLMProvider {
+  readonly name = 'local';
+
+  constructor(private fixtures: LLMFixture[] = loadFixtures(process.env.LLM_FIXTURES_FILE)) {}
+
+  async complete(request: LLMCompletionRequest) {
+    const userMessages = request.messages.filter(m => m.role === 'user');
+    const prompt = (userMessages.length ? userMessages : request.messages).at(-1)?.content ?? '';
+    const fixture = this.fixtures.find(f => (f.json === undefined || f.json === !!request.json) && matches(f, prompt));
+    if (fixture) return { text: fixture.response, provider: this.name, model: 'fixture' };
+
+    const text = request.json ? '{}' : `No local fixture matches this request: "${prompt.slice(0, 80)}"`;
+    return { text, provider: this.name, model: 'placeholder' };
+  }
+}
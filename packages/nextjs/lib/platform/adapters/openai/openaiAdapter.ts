@@ -0,0 +1,28 @@
+import { OpenAI } from 'openai';
+import type { LLMCompletionRequest, LLMProvider } from '@/lib/platform/ports';
+
+const DEFAULT_MODEL = 'gpt-4';
+// Models that accept response_format: json_object
+const JSON_MODE_MODELS = ['gpt-4-turbo-preview', 'gpt-4-turbo', 'gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo'];
+
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey = process.env.OPENAI_API_KEY) {
+    if (!apiKey) throw new Error('OPENAI_API_KEY environment variable is not set');
+    this.client = new OpenAI({ apiKey });
+  }
+
+  async complete(request: LLMCompletionRequest) {
+    const model = request.model ?? DEFAULT_MODEL;
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens,
+      ...(request.json && JSON_MODE_MODELS.includes(model) ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+    return { text: completion.choices[0]?.message?.content ?? '', provider: this.name, model };
+  }
+}
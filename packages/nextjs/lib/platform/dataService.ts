@@ -1,25 +1,65 @@
 import { getPlatform } from '@/lib/platform';
-import { TemplatesRepository, ExecutionsRepository } from '@/lib/platform/repositories';
-import type { TemplateDocument, ExecutionDocument } from '@/lib/firestore-types';
+import { DEFAULT_ORGANIZATION_ID, OrganizationDocumentStore } from '@/lib/platform/organizations';
+import type { DocumentStore } from '@/lib/platform/ports';
+import {
+  TemplatesRepository,
+  ExecutionsRepository,
+  MigrationsRepository,
+  ProceduresRepository,
+  type ProcedureChangeSet,
+} from '@/lib/platform/repositories';
+import type {
+  TemplateDocument,
+  ExecutionDocument,
+  ProcedureActionExecution,
+  ProcedureEventDocument,
+  ProcedureInstanceDocument,
+  ProcedureInstanceWithHistory,
+  ProcedureMessageDocument,
+} from '@/lib/firestore-types';
+import { readDbBlob, writeDbBlob } from '@/lib/platform/dbBlob';
 
+// Templates used to be JSON files under pled/templates in Firebase Storage;
+// null when Firebase Storage is not configured
+async function listPledStorageTemplates(): Promise<TemplateDocument[] | null> {
+  if (!process.env.FIREBASE_SERVICE_ACCOUNT) return null;
+  const { pledStorageService } = await import('@/lib/firebase/pled-storage-service');
+  return pledStorageService.listTemplates();
+}
+
+const LEGACY_TEMPLATES_MIGRATION = 'pled-storage-templates';
+
+// Templates, executions and procedures of one organization
 export class DataService {
   private templates: TemplatesRepository;
   private executions: ExecutionsRepository;
+  private procedures: ProceduresRepository;
+  private migrations: MigrationsRepository;
+  private legacyImport?: Promise<void>;
+  private legacyTemplatesImport?: Promise<void>;
 
-  constructor() {
-    const { docs } = getPlatform();
-    this.templates = new TemplatesRepository(docs);
-    this.executions = new ExecutionsRepository(docs);
+  constructor(
+    readonly organizationId: string,
+    docs: DocumentStore = getPlatform().docs,
+    private legacyTemplates: () => Promise<TemplateDocument[] | null> = listPledStorageTemplates,
+  ) {
+    const scoped = new OrganizationDocumentStore(docs, organizationId);
+    this.templates = new TemplatesRepository(scoped);
+    this.executions = new ExecutionsRepository(scoped);
+    this.procedures = new ProceduresRepository(scoped);
+    this.migrations = new MigrationsRepository(scoped);
   }
 
   // Templates
   createTemplate(input: Omit<TemplateDocument, 'id' | 'createdAt' | 'updatedAt'>) {
     return this.templates.create(input);
   }
-  getTemplate(id: string) {
+  async getTemplate(id: string) {
+    await this.importLegacyTemplates();
     return this.templates.get(id);
   }
-  listTemplates() {
+  async listTemplates() {
+    await this.importLegacyTemplates();
     return this.templates.list();
   }
   updateTemplate(id: string, updates: Partial<TemplateDocument>) {
@@ -45,6 +85,106 @@ export class DataService {
   deleteExecution(id: string) {
     return this.executions.delete(id);
   }
+
+  // Procedures
+  async createProcedureInstance(input: Omit<ProcedureInstanceDocument, 'id' | 'revision'>) {
+    await this.importLegacyProcedures();
+    return this.procedures.create(input);
+  }
+  async getProcedureInstance(instanceId: string) {
+    await this.importLegacyProcedures();
+    return this.procedures.getWithHistory(instanceId);
+  }
+  async listProcedureInstances(): Promise<ProcedureInstanceWithHistory[]> {
+    await this.importLegacyProcedures();
+    const instances = await this.procedures.list();
+    return Promise.all(instances.map(instance => this.procedures.getWithHistory(instance.instanceId)));
+  }
+  updateProcedureInstance(
+    instanceId: string,
+    change: (instance: ProcedureInstanceDocument) => Partial<ProcedureInstanceDocument>,
+  ) {
+    return this.procedures.update(instanceId, change);
+  }
+  updateProcedureInstanceAt(instanceId: string, expectedRevision: number, updates: Partial<ProcedureInstanceDocument>) {
+    return this.procedures.updateAt(instanceId, expectedRevision, updates);
+  }
+  recordProcedureAction(instanceId: string, execution: ProcedureActionExecution) {
+    return this.procedures.recordAction(instanceId, execution);
+  }
+  appendProcedureEvent(instanceId: string, event: Partial<ProcedureEventDocument>) {
+    return this.procedures.appendEvent(instanceId, event);
+  }
+  appendProcedureMessage(instanceId: string, message: Partial<ProcedureMessageDocument>) {
+    return this.procedures.appendMessage(instanceId, message);
+  }
+  listProcedureMessages(instanceId: string) {
+    return this.procedures.listMessages(instanceId);
+  }
+  revertProcedureEvents(instanceId: string, eventIds: string[]) {
+    return this.procedures.revertEvents(instanceId, eventIds);
+  }
+  async applyProcedureChanges(instanceId: string, changes: ProcedureChangeSet) {
+    await this.importLegacyProcedures();
+    return this.procedures.applyChanges(instanceId, changes);
+  }
+  deleteProcedureInstance(instanceId: string) {
+    return this.procedures.delete(instanceId);
+  }
+
+  // Instances used to live inside the JSON blob behind /api/db. The first
+  // access in a process moves any that are still there into the store and
+  // drops them from the blob, so whole-blob writes cannot clobber them again.
+  // They predate organizations, so they go to the default one.
+  private importLegacyProcedures() {
+    if (this.organizationId !== DEFAULT_ORGANIZATION_ID) return Promise.resolve();
+    this.legacyImport ??= (async () => {
+      const blob = await readDbBlob(this.organizationId);
+      const legacy: Record<string, any>[] = blob.procedureInstances ?? [];
+      if (legacy.length === 0) return;
+      for (const instance of legacy) {
+        await this.procedures.importLegacy(instance);
+      }
+      await writeDbBlob(this.organizationId, blob);
+    })().catch(error => {
+      // Try again on the next access rather than caching the failure
+      this.legacyImport = undefined;
+      throw error;
+    });
+    return this.legacyImport;
+  }
+
+  // The default organization copies the templates from Firebase Storage once,
+  // keeping their ids. Templates already in the store are skipped, so an import
+  // cut short resumes where it stopped, and the recorded migration keeps
+  // templates deleted since from coming back.
+  private importLegacyTemplates() {
+    if (this.organizationId !== DEFAULT_ORGANIZATION_ID) return Promise.resolve();
+    this.legacyTemplatesImport ??= (async () => {
+      if (await this.migrations.isDone(LEGACY_TEMPLATES_MIGRATION)) return;
+      const templates = await this.legacyTemplates();
+      if (!templates) return;
+      for (const template of templates) {
+        await this.templates.importLegacy(template);
+      }
+      await this.migrations.markDone(LEGACY_TEMPLATES_MIGRATION);
+    })().catch(error => {
+      // Try again on the next access rather than caching the failure
+      this.legacyTemplatesImport = undefined;
+      throw error;
+    });
+    return this.legacyTemplatesImport;
+  }
 }
 
-export const dataService = new DataService();
+const services = new Map<string, DataService>();
+
+// One service per organization and process, so the legacy import runs once
+export function dataServiceFor(organizationId: string): DataService {
+  let service = services.get(organizationId);
+  if (!service) {
+    service = new DataService(organizationId);
+    services.set(organizationId, service);
+  }
+  return service;
+}
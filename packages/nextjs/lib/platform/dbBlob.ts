@@ -0,0 +1,32 @@
+// The JSON blob behind /api/db: procedure and event templates, the event
+// calendar and users. Every organization has its own; the default one keeps
+// pled.json, where the blob lived before organizations existed.
+import { organizationCollectionPath } from '@/lib/platform/organizations';
+
+export function dbBlobPath(organizationId: string) {
+  return organizationCollectionPath(organizationId, 'pled.json');
+}
+
+// Firebase Storage is only loaded when the blob is used, so the rest of the
+// platform works without it
+async function blobFile(organizationId: string) {
+  const { bucket } = await import('@/app/lib/firebase');
+  return bucket.file(dbBlobPath(organizationId));
+}
+
+// An organization that never saved its blob starts from an empty one
+export async function readDbBlob(organizationId: string): Promise<Record<string, any>> {
+  const file = await blobFile(organizationId);
+  const [exists] = await file.exists();
+  if (!exists) return { procedureTemplates: [], eventTemplates: {}, events: {} };
+  const [contents] = await file.download();
+  return JSON.parse(contents.toString('utf8'));
+}
+
+// Procedure instances are never written: they live in the document store
+export async function writeDbBlob(organizationId: string, data: Record<string, any>) {
+  const blob = { ...data };
+  delete blob.procedureInstances;
+  const file = await blobFile(organizationId);
+  await file.save(JSON.stringify(blob, null, 2), { contentType: 'application/json' });
+}
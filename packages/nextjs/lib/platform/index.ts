@@ -1,7 +1,10 @@
-import type { Platform } from '@/lib/platform/ports';
+import type { LLMProvider, Platform } from '@/lib/platform/ports';
 import { FirestoreDocumentStore } from '@/lib/platform/adapters/firebase/firestoreAdapter';
 import { FileDocumentStore } from '@/lib/platform/adapters/file/fileAdapter';
 import { NextAuthProvider } from '@/lib/platform/adapters/nextauth/authAdapter';
+import { GeminiLLMProvider } from '@/lib/platform/adapters/gemini/geminiAdapter';
+import { OpenAILLMProvider } from '@/lib/platform/adapters/openai/openaiAdapter';
+import { LocalLLMProvider } from '@/lib/platform/adapters/local/localAdapter';
 
 // In the future we can switch based on env (e.g., DATA_BACKEND=postgres)
 export function getPlatform(): Platform {
@@ -28,3 +31,39 @@ export function getPlatform(): Platform {
     return { auth, docs };
   }
 }
+
+// LLM_PROVIDER picks the backend (gemini, openai or local). Unset, it follows
+// whichever API key is configured and otherwise stays local, so AI features
+// keep working offline. In production a missing or failing backend is an
+// error rather than a silent switch to canned answers, unless LLM_PROVIDER=local.
+export function getLLMProvider(): LLMProvider {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase() || undefined;
+  const backend =
+    configured ??
+    (process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY
+      ? 'gemini'
+      : process.env.OPENAI_API_KEY
+        ? 'openai'
+        : 'local');
+
+  const fallBack = (reason: string, error?: unknown) => {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`${reason}. Set LLM_PROVIDER=local to use the local provider in production.`, { cause: error });
+    }
+    console.warn(`${reason}. Falling back to the local provider.`, error ?? '');
+    return new LocalLLMProvider();
+  };
+
+  try {
+    if (backend === 'gemini') return new GeminiLLMProvider();
+    if (backend === 'openai') return new OpenAILLMProvider();
+  } catch (e) {
+    return fallBack(`The ${backend} LLM provider failed to initialise`, e);
+  }
+
+  if (backend !== 'local') return fallBack(`Unknown LLM_PROVIDER "${backend}"`);
+  if (!configured && process.env.NODE_ENV === 'production') {
+    throw new Error('No LLM provider is configured. Set GEMINI_API_KEY or OPENAI_API_KEY, or LLM_PROVIDER=local.');
+  }
+  return new LocalLLMProvider();
+}
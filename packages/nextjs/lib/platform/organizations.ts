@@ -0,0 +1,123 @@
+// Organizations: every template, execution and procedure belongs to one, and
+// members act on it according to their role.
+import type { DocumentStore, ListQuery, UpdateOptions, UserIdentity } from '@/lib/platform/ports';
+import type { OrganizationRole } from '@/lib/firestore-types';
+
+export type { OrganizationRole };
+
+export const ORGANIZATION_ROLES: readonly OrganizationRole[] = ['viewer', 'editor', 'operator', 'admin'];
+
+// read: see templates, executions and procedures
+// edit: create, change and delete templates
+// operate: run executions and procedures and send them events
+// manage: members and API keys
+export type OrganizationPermission = 'read' | 'edit' | 'operate' | 'manage';
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, OrganizationPermission[]> = {
+  viewer: ['read'],
+  editor: ['read', 'edit'],
+  operator: ['read', 'operate'],
+  admin: ['read', 'edit', 'operate', 'manage'],
+};
+
+export function isOrganizationRole(value: unknown): value is OrganizationRole {
+  return (ORGANIZATION_ROLES as readonly unknown[]).includes(value);
+}
+
+export function roleAllows(role: OrganizationRole, permission: OrganizationPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Owns the data stored before organizations existed
+export const DEFAULT_ORGANIZATION_ID = process.env.PLED_DEFAULT_ORGANIZATION || 'default';
+
+// Role in the default organization of signed-in users who belong to no organization
+export const DEFAULT_MEMBER_ROLE: OrganizationRole = isOrganizationRole(process.env.PLED_DEFAULT_ROLE)
+  ? process.env.PLED_DEFAULT_ROLE
+  : 'viewer';
+
+const ORGANIZATION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// The default organization keeps the unprefixed paths, so existing data stays where it is
+export function organizationCollectionPath(organizationId: string, collectionPath: string) {
+  if (!ORGANIZATION_ID_PATTERN.test(organizationId)) {
+    throw new Error(`Invalid organization id: ${organizationId}`);
+  }
+  return organizationId === DEFAULT_ORGANIZATION_ID ? collectionPath : `orgs/${organizationId}/${collectionPath}`;
+}
+
+// A DocumentStore that only sees one organization's documents
+export class OrganizationDocumentStore implements DocumentStore {
+  constructor(
+    private docs: DocumentStore,
+    readonly organizationId: string,
+  ) {
+    organizationCollectionPath(organizationId, '');
+  }
+
+  get<T>(collectionPath: string, id: string) {
+    return this.docs.get<T>(this.path(collectionPath), id);
+  }
+
+  list<T>(collectionPath: string, query?: ListQuery) {
+    return this.docs.list<T>(this.path(collectionPath), query);
+  }
+
+  create<T extends { id?: string }>(collectionPath: string, data: T) {
+    return this.docs.create<T>(this.path(collectionPath), data);
+  }
+
+  update<T>(collectionPath: string, id: string, updates: Partial<T>, options?: UpdateOptions) {
+    return this.docs.update<T>(this.path(collectionPath), id, updates, options);
+  }
+
+  delete(collectionPath: string, id: string) {
+    return this.docs.delete(this.path(collectionPath), id);
+  }
+
+  private path(collectionPath: string) {
+    return organizationCollectionPath(this.organizationId, collectionPath);
+  }
+}
+
+export interface OrganizationAccess {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+// Looks up a user's memberships, oldest first
+export interface MembershipSource {
+  listMemberships(userId: string): Promise<OrganizationAccess[]>;
+}
+
+/**
+ * The organization a user acts on and their role there; null when they may not
+ * act on the requested one. Auth providers that put an organization in the
+ * identity are trusted as is. Otherwise memberships decide: the requested
+ * organization, else the oldest one. Every user without an explicit membership
+ * of the default organization belongs to it as DEFAULT_MEMBER_ROLE.
+ */
+export async function resolveOrganizationAccess(
+  user: UserIdentity,
+  organizations: MembershipSource,
+  requested?: string | null,
+): Promise<OrganizationAccess | null> {
+  if (user.orgId) {
+    if (requested && requested !== user.orgId) return null;
+    return { organizationId: user.orgId, role: user.roles?.find(isOrganizationRole) ?? 'viewer' };
+  }
+
+  const memberships = await organizations.listMemberships(user.id);
+  if (memberships.length === 0) {
+    if (requested && requested !== DEFAULT_ORGANIZATION_ID) return null;
+    return { organizationId: DEFAULT_ORGANIZATION_ID, role: DEFAULT_MEMBER_ROLE };
+  }
+
+  const membership = requested ? memberships.find(m => m.organizationId === requested) : memberships[0];
+  if (membership) return { organizationId: membership.organizationId, role: membership.role };
+  // Creating or joining an organization does not take the default one away
+  if (requested === DEFAULT_ORGANIZATION_ID) {
+    return { organizationId: DEFAULT_ORGANIZATION_ID, role: DEFAULT_MEMBER_ROLE };
+  }
+  return null;
+}
@@ -34,12 +34,34 @@ export interface ListQuery {
   orderBy?: { field: string; direction?: 'asc' | 'desc' };
 }
 
+// Optimistic concurrency: every update bumps a document's numeric `revision`
+// (absent counts as 0). An update with expectedRevision fails with
+// RevisionConflictError when another write got there first.
+export interface UpdateOptions {
+  expectedRevision?: number;
+}
+
+export class RevisionConflictError extends Error {
+  constructor(public collectionPath: string, public id: string, public expectedRevision: number, public actualRevision: number) {
+    super(`${collectionPath}/${id} is at revision ${actualRevision}, expected ${expectedRevision}`);
+    this.name = 'RevisionConflictError';
+  }
+}
+
+export class DocumentExistsError extends Error {
+  constructor(public collectionPath: string, public id: string) {
+    super(`${collectionPath}/${id} already exists`);
+    this.name = 'DocumentExistsError';
+  }
+}
+
 export interface DocumentStore {
   // collectionPath can be nested, e.g. 'admin/templates/items'
   get<T>(collectionPath: string, id: string): Promise<T | null>;
   list<T>(collectionPath: string, query?: ListQuery): Promise<T[]>;
+  // Fails with DocumentExistsError when a document with the given id already exists
   create<T extends { id?: string }>(collectionPath: string, data: T): Promise<string>;
-  update<T>(collectionPath: string, id: string, updates: Partial<T>): Promise<void>;
+  update<T>(collectionPath: string, id: string, updates: Partial<T>, options?: UpdateOptions): Promise<void>;
   delete(collectionPath: string, id: string): Promise<void>;
 }
 
@@ -57,6 +79,33 @@ export interface BlobStore {
   getSignedUrl?(key: string, expiresInSeconds?: number): Promise<string>;
 }
 
+// Text generation: implemented by Gemini, OpenAI and a local fixture backend
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  // Provider-specific model id; each provider has its own default
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object as the reply
+  json?: boolean;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
 // Platform factory lets us swap providers via env/config
 export interface Platform {
   auth: AuthProvider;
@@ -1,12 +1,36 @@
-import type { DocumentStore } from '@/lib/platform/ports';
-import type { TemplateDocument, ExecutionDocument } from '@/lib/firestore-types';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { DocumentExistsError, RevisionConflictError, type DocumentStore } from '@/lib/platform/ports';
+import type {
+  ApiKeyDocument,
+  TemplateDocument,
+  ExecutionDocument,
+  OrganizationDocument,
+  OrganizationMemberDocument,
+  OrganizationRole,
+  ProcedureActionExecution,
+  ProcedureEventDocument,
+  ProcedureInstanceDocument,
+  ProcedureInstanceWithHistory,
+  ProcedureMessageDocument,
+} from '@/lib/firestore-types';
 
 // Centralize collection paths so a future migration only changes them here
 const COLLECTIONS = {
   templates: 'admin/templates/items',
   executions: 'admin/executions/items',
+  procedureInstances: 'procedures/instances/items',
+  apiKeys: 'api/keys/items',
+  organizations: 'organizations/directory/items',
+  organizationMembers: 'organizations/members/items',
+  migrations: 'admin/migrations/items',
 };
 
+const procedureEvents = (instanceId: string) => `${COLLECTIONS.procedureInstances}/${instanceId}/events`;
+const procedureMessages = (instanceId: string) => `${COLLECTIONS.procedureInstances}/${instanceId}/messages`;
+
+// How often update() re-reads and retries after losing a race
+const MAX_UPDATE_ATTEMPTS = 5;
+
 export class TemplatesRepository {
   constructor(private docs: DocumentStore) {}
 
@@ -38,6 +62,18 @@ export class TemplatesRepository {
   delete(id: string) {
     return this.docs.delete(COLLECTIONS.templates, id);
   }
+
+  // Stores a template kept elsewhere before, with its id and timestamps;
+  // false when a template with that id is already stored
+  async importLegacy(template: TemplateDocument): Promise<boolean> {
+    try {
+      await this.docs.create<TemplateDocument>(COLLECTIONS.templates, template);
+      return true;
+    } catch (error) {
+      if (error instanceof DocumentExistsError) return false;
+      throw error;
+    }
+  }
 }
 
 export class ExecutionsRepository {
@@ -75,3 +111,397 @@ export class ExecutionsRepository {
     return this.docs.delete(COLLECTIONS.executions, id);
   }
 }
+
+export class ProcedureNotFoundError extends Error {
+  constructor(public instanceId: string) {
+    super(`Procedure instance not found: ${instanceId}`);
+    this.name = 'ProcedureNotFoundError';
+  }
+}
+
+// Everything one request changes on a procedure instance; see applyChanges()
+export interface ProcedureChangeSet {
+  // Run against the latest instance, or against the one at expectedRevision
+  change?: (instance: ProcedureInstanceDocument) => Partial<ProcedureInstanceDocument>;
+  expectedRevision?: number;
+  // Items whose id is already stored are skipped
+  events?: Partial<ProcedureEventDocument>[];
+  messages?: Partial<ProcedureMessageDocument>[];
+  revertEventIds?: string[];
+}
+
+export class ProceduresRepository {
+  private lastRecordedAt = 0;
+
+  constructor(private docs: DocumentStore) {}
+
+  get(instanceId: string) {
+    return this.docs.get<ProcedureInstanceDocument>(COLLECTIONS.procedureInstances, instanceId);
+  }
+
+  list() {
+    return this.docs.list<ProcedureInstanceDocument>(COLLECTIONS.procedureInstances);
+  }
+
+  async create(data: Omit<ProcedureInstanceDocument, 'id' | 'revision'>): Promise<string> {
+    return this.docs.create<ProcedureInstanceDocument>(COLLECTIONS.procedureInstances, {
+      ...data,
+      id: data.instanceId,
+      executedActions: data.executedActions ?? [],
+      revision: 0,
+    });
+  }
+
+  // Read-modify-write under optimistic concurrency: `change` sees the latest
+  // instance and runs again when another request wrote in between
+  async update(
+    instanceId: string,
+    change: (instance: ProcedureInstanceDocument) => Partial<ProcedureInstanceDocument>,
+  ): Promise<ProcedureInstanceDocument> {
+    for (let attempt = 1; ; attempt++) {
+      const instance = await this.get(instanceId);
+      if (!instance) throw new ProcedureNotFoundError(instanceId);
+      const revision = instance.revision ?? 0;
+      const updates = change(instance);
+      try {
+        await this.docs.update<ProcedureInstanceDocument>(COLLECTIONS.procedureInstances, instanceId, updates, {
+          expectedRevision: revision,
+        });
+        return { ...instance, ...updates, revision: revision + 1 };
+      } catch (error) {
+        if (!(error instanceof RevisionConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  // For callers that edited a copy they read earlier: fails with
+  // RevisionConflictError instead of retrying when the copy is stale
+  updateAt(instanceId: string, expectedRevision: number, updates: Partial<ProcedureInstanceDocument>) {
+    return this.docs.update<ProcedureInstanceDocument>(COLLECTIONS.procedureInstances, instanceId, updates, {
+      expectedRevision,
+    });
+  }
+
+  recordAction(instanceId: string, execution: ProcedureActionExecution) {
+    return this.update(instanceId, instance => ({
+      executedActions: [...(instance.executedActions ?? []), execution],
+    }));
+  }
+
+  async delete(instanceId: string) {
+    const [events, messages] = await Promise.all([this.listEvents(instanceId), this.listMessages(instanceId)]);
+    await Promise.all([
+      ...events.map(event => this.docs.delete(procedureEvents(instanceId), event.id)),
+      ...messages.map(message => this.docs.delete(procedureMessages(instanceId), message.id)),
+    ]);
+    await this.docs.delete(COLLECTIONS.procedureInstances, instanceId);
+  }
+
+  // Events and messages are only ever created or deleted, never rewritten, so
+  // concurrent appends cannot overwrite each other. Ids are kept when given;
+  // appending an id that is already stored fails rather than duplicating it.
+  appendEvent(instanceId: string, event: Partial<ProcedureEventDocument>) {
+    return this.docs.create<ProcedureEventDocument>(procedureEvents(instanceId), {
+      ...event,
+      id: event.id ?? `evt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      recordedAt: this.nextRecordedAt(),
+    } as ProcedureEventDocument);
+  }
+
+  listEvents(instanceId: string) {
+    return this.docs.list<ProcedureEventDocument>(procedureEvents(instanceId), {
+      orderBy: { field: 'recordedAt' },
+    });
+  }
+
+  appendMessage(instanceId: string, message: Partial<ProcedureMessageDocument>) {
+    return this.docs.create<ProcedureMessageDocument>(procedureMessages(instanceId), {
+      ...message,
+      id: message.id ?? `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      recordedAt: this.nextRecordedAt(),
+    } as ProcedureMessageDocument);
+  }
+
+  listMessages(instanceId: string) {
+    return this.docs.list<ProcedureMessageDocument>(procedureMessages(instanceId), {
+      orderBy: { field: 'recordedAt' },
+    });
+  }
+
+  // Reverting events also drops the messages they produced
+  async revertEvents(instanceId: string, eventIds: string[]) {
+    const messages = await this.listMessages(instanceId);
+    await Promise.all([
+      ...eventIds.map(id => this.docs.delete(procedureEvents(instanceId), id)),
+      ...messages
+        .filter(message => message.fromEvent && eventIds.includes(message.fromEvent))
+        .map(message => this.docs.delete(procedureMessages(instanceId), message.id)),
+    ]);
+  }
+
+  // The store has no transactions, so the instance update, the appends and the
+  // reverts are written one by one and, when one of them fails, the writes
+  // made so far are undone before the error is rethrown. A stale
+  // expectedRevision fails before anything is written.
+  async applyChanges(instanceId: string, changes: ProcedureChangeSet): Promise<void> {
+    const instance = await this.get(instanceId);
+    if (!instance) throw new ProcedureNotFoundError(instanceId);
+    const revision = instance.revision ?? 0;
+    if (changes.expectedRevision !== undefined && changes.expectedRevision !== revision) {
+      throw new RevisionConflictError(COLLECTIONS.procedureInstances, instanceId, changes.expectedRevision, revision);
+    }
+
+    const undo: Array<() => Promise<unknown>> = [];
+    try {
+      if (changes.change) {
+        let previous = instance;
+        let updates: Partial<ProcedureInstanceDocument>;
+        let written: number;
+        if (changes.expectedRevision !== undefined) {
+          updates = changes.change(instance);
+          await this.updateAt(instanceId, revision, updates);
+          written = revision + 1;
+        } else {
+          const updated = await this.update(instanceId, latest => {
+            previous = latest;
+            return (updates = changes.change(latest));
+          });
+          written = updated.revision;
+        }
+        const restore = Object.fromEntries(Object.keys(updates).map(key => [key, previous[key]]));
+        undo.push(() => this.updateAt(instanceId, written, restore));
+      }
+
+      const [events, messages] = await Promise.all([this.listEvents(instanceId), this.listMessages(instanceId)]);
+      const knownEvents = new Set(events.map(event => event.id));
+      for (const event of changes.events ?? []) {
+        if (event.id && knownEvents.has(event.id)) continue;
+        const id = await this.appendEvent(instanceId, event);
+        knownEvents.add(id);
+        undo.push(() => this.docs.delete(procedureEvents(instanceId), id));
+      }
+      const knownMessages = new Set(messages.map(message => message.id));
+      for (const message of changes.messages ?? []) {
+        if (message.id && knownMessages.has(message.id)) continue;
+        const id = await this.appendMessage(instanceId, message);
+        knownMessages.add(id);
+        undo.push(() => this.docs.delete(procedureMessages(instanceId), id));
+      }
+
+      if (changes.revertEventIds?.length) {
+        // Put back whatever the revert managed to delete
+        const [storedEvents, storedMessages] = await Promise.all([
+          this.listEvents(instanceId),
+          this.listMessages(instanceId),
+        ]);
+        undo.push(() =>
+          Promise.all([
+            ...storedEvents.map(event => this.restore(procedureEvents(instanceId), event)),
+            ...storedMessages.map(message => this.restore(procedureMessages(instanceId), message)),
+          ]),
+        );
+        await this.revertEvents(instanceId, changes.revertEventIds);
+      }
+    } catch (error) {
+      for (const step of undo.reverse()) {
+        await step().catch(undoError => console.error(`Could not roll back a change to ${instanceId}:`, undoError));
+      }
+      throw error;
+    }
+  }
+
+  // Moves an instance from the old embedded-history shape into the store;
+  // instances that are already stored are left alone. The instance is written
+  // last, so an import cut short leaves nothing visible and a re-run appends
+  // only the events and messages still missing.
+  async importLegacy(legacy: Record<string, any>): Promise<boolean> {
+    // create() sets the id and revision of the stored instance
+    const { history, ...instance } = legacy;
+    if (await this.get(instance.instanceId)) return false;
+
+    // Sequential appends keep the recorded order. Ids are derived from the
+    // legacy ones, repeats included, so every run gives an item the same id
+    const importIds = (items: { id?: string }[], prefix: string) => {
+      const seen = new Map<string, number>();
+      return items.map((item, index) => {
+        const base = item.id ?? `${prefix}_legacy_${index}`;
+        const count = seen.get(base) ?? 0;
+        seen.set(base, count + 1);
+        return count === 0 ? base : `${base}_${count}`;
+      });
+    };
+    const events: Record<string, any>[] = history?.events ?? [];
+    const storedEvents = new Set((await this.listEvents(instance.instanceId)).map(event => event.id));
+    for (const [index, id] of importIds(events, 'evt').entries()) {
+      if (!storedEvents.has(id)) await this.appendEvent(instance.instanceId, { ...events[index], id });
+    }
+    const messages: Record<string, any>[] = history?.messages ?? [];
+    const storedMessages = new Set((await this.listMessages(instance.instanceId)).map(message => message.id));
+    for (const [index, id] of importIds(messages, 'msg').entries()) {
+      if (!storedMessages.has(id)) await this.appendMessage(instance.instanceId, { ...messages[index], id });
+    }
+
+    await this.create({ ...(instance as ProcedureInstanceDocument), executedActions: history?.executedActions ?? [] });
+    return true;
+  }
+
+  async getWithHistory(instanceId: string): Promise<ProcedureInstanceWithHistory | null> {
+    const instance = await this.get(instanceId);
+    if (!instance) return null;
+    const [events, messages] = await Promise.all([this.listEvents(instanceId), this.listMessages(instanceId)]);
+    const { executedActions, ...rest } = instance;
+    return { ...rest, history: { events, messages, executedActions: executedActions ?? [] } };
+  }
+
+  // Create a document again unless it is still there
+  private async restore<T extends { id: string }>(collectionPath: string, document: T) {
+    try {
+      await this.docs.create<T>(collectionPath, document);
+    } catch (error) {
+      if (!(error instanceof DocumentExistsError)) throw error;
+    }
+  }
+
+  // Strictly increasing within this process, so appends made in the same
+  // millisecond keep their order
+  private nextRecordedAt() {
+    this.lastRecordedAt = Math.max(Date.now(), this.lastRecordedAt + 1);
+    return this.lastRecordedAt;
+  }
+}
+
+// Plaintext keys look like pled_<id>.<secret>; the id locates the stored key
+const API_KEY_PATTERN = /^pled_(key_[0-9a-f]{16})\.([A-Za-z0-9_-]{32})$/;
+
+// lastUsedAt is only rewritten when it is older than this
+const API_KEY_USAGE_RESOLUTION_MS = 60_000;
+
+const hashSecret = (secret: string) => createHash('sha256').update(secret).digest('hex');
+
+export interface CreatedApiKey {
+  // The plaintext key; it cannot be recovered later
+  key: string;
+  apiKey: ApiKeyDocument;
+}
+
+// One-off data moves, recorded so they do not run again once done
+export class MigrationsRepository {
+  constructor(private docs: DocumentStore) {}
+
+  async isDone(id: string) {
+    return (await this.docs.get(COLLECTIONS.migrations, id)) !== null;
+  }
+
+  async markDone(id: string) {
+    try {
+      await this.docs.create(COLLECTIONS.migrations, { id, doneAt: Date.now() });
+    } catch (error) {
+      if (!(error instanceof DocumentExistsError)) throw error;
+    }
+  }
+}
+
+export class ApiKeysRepository {
+  constructor(private docs: DocumentStore) {}
+
+  async create(
+    data: Omit<ApiKeyDocument, 'id' | 'secretHash' | 'createdAt' | 'lastUsedAt' | 'revokedAt' | 'revision'>,
+  ): Promise<CreatedApiKey> {
+    const id = `key_${randomBytes(8).toString('hex')}`;
+    const secret = randomBytes(24).toString('base64url');
+    const apiKey: ApiKeyDocument = { ...data, id, secretHash: hashSecret(secret), createdAt: Date.now() };
+    await this.docs.create<ApiKeyDocument>(COLLECTIONS.apiKeys, apiKey);
+    return { key: `pled_${id}.${secret}`, apiKey };
+  }
+
+  get(id: string) {
+    return this.docs.get<ApiKeyDocument>(COLLECTIONS.apiKeys, id);
+  }
+
+  listByOrganization(organizationId: string) {
+    return this.docs.list<ApiKeyDocument>(COLLECTIONS.apiKeys, {
+      where: [{ field: 'organizationId', op: '==', value: organizationId }],
+    });
+  }
+
+  revoke(id: string) {
+    return this.docs.update<ApiKeyDocument>(COLLECTIONS.apiKeys, id, { revokedAt: Date.now() });
+  }
+
+  // The stored key a plaintext key belongs to; null when it is malformed,
+  // unknown, revoked, expired or its secret does not match
+  async verify(key: string): Promise<ApiKeyDocument | null> {
+    const match = API_KEY_PATTERN.exec(key);
+    if (!match) return null;
+    const apiKey = await this.get(match[1]);
+    if (!apiKey || apiKey.revokedAt) return null;
+
+    const now = Date.now();
+    if (apiKey.expiresAt !== undefined && apiKey.expiresAt <= now) return null;
+    if (!timingSafeEqual(Buffer.from(hashSecret(match[2]), 'hex'), Buffer.from(apiKey.secretHash, 'hex'))) return null;
+
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt >= API_KEY_USAGE_RESOLUTION_MS) {
+      await this.docs.update<ApiKeyDocument>(COLLECTIONS.apiKeys, apiKey.id, { lastUsedAt: now });
+    }
+    return apiKey;
+  }
+}
+
+const memberId = (organizationId: string, userId: string) => `${organizationId}__${userId}`;
+
+// Organizations and their members are global; what an organization owns is
+// stored under its own paths (see lib/platform/organizations.ts)
+export class OrganizationsRepository {
+  constructor(private docs: DocumentStore) {}
+
+  // The creator becomes the organization's first admin
+  async create(data: Omit<OrganizationDocument, 'id' | 'createdAt' | 'revision'>): Promise<OrganizationDocument> {
+    const organization: OrganizationDocument = {
+      ...data,
+      id: `org_${randomBytes(6).toString('hex')}`,
+      createdAt: Date.now(),
+    };
+    await this.docs.create<OrganizationDocument>(COLLECTIONS.organizations, organization);
+    await this.setMember(organization.id, data.createdBy, 'admin');
+    return organization;
+  }
+
+  get(id: string) {
+    return this.docs.get<OrganizationDocument>(COLLECTIONS.organizations, id);
+  }
+
+  getMember(organizationId: string, userId: string) {
+    return this.docs.get<OrganizationMemberDocument>(COLLECTIONS.organizationMembers, memberId(organizationId, userId));
+  }
+
+  listMembers(organizationId: string) {
+    return this.docs.list<OrganizationMemberDocument>(COLLECTIONS.organizationMembers, {
+      where: [{ field: 'organizationId', op: '==', value: organizationId }],
+    });
+  }
+
+  // A user's memberships, oldest first
+  async listMemberships(userId: string) {
+    const memberships = await this.docs.list<OrganizationMemberDocument>(COLLECTIONS.organizationMembers, {
+      where: [{ field: 'userId', op: '==', value: userId }],
+    });
+    return memberships.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Adds the user to the organization, or changes the role they have there
+  async setMember(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMemberDocument> {
+    const id = memberId(organizationId, userId);
+    const existing = await this.getMember(organizationId, userId);
+    if (existing) {
+      await this.docs.update<OrganizationMemberDocument>(COLLECTIONS.organizationMembers, id, { role });
+      return { ...existing, role };
+    }
+    const member: OrganizationMemberDocument = { id, organizationId, userId, role, createdAt: Date.now() };
+    await this.docs.create<OrganizationMemberDocument>(COLLECTIONS.organizationMembers, member);
+    return member;
+  }
+
+  removeMember(organizationId: string, userId: string) {
+    return this.docs.delete(COLLECTIONS.organizationMembers, memberId(organizationId, userId));
+  }
+}
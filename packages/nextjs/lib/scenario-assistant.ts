@@ -1,32 +1,5 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const apiKey = process.env.GEMINI_API_KEY || process.env.NEXT_PUBLIC_GEMINI_API_KEY;
-
-if (!apiKey) {
-  throw new Error('GEMINI_API_KEY environment variable is not set');
-}
-
-const genAI = new GoogleGenerativeAI(apiKey);
-
-// Model fallback order - using current valid model names
-const MODEL_FALLBACKS = [
-  "gemini-2.5-flash",
-  "gemini-2.5-flash-lite",
-  "gemini-2.5-pro"
-];
-
-const generationConfig = {
-  // Lower temperature for deterministic, schema-accurate edits
-  temperature: 0.2,
-  topK: 40,
-  topP: 0.9,
-  maxOutputTokens: 2048,
-};
-
-export const model = genAI.getGenerativeModel({
-  model: MODEL_FALLBACKS[0],
-  generationConfig,
-});
+import { getLLMProvider } from '@/lib/platform';
+import type { LLMProvider } from '@/lib/platform/ports';
 
 export interface ChatMessage {
   id: string;
@@ -43,63 +16,10 @@ export interface ScenarioContext {
   isRunning: boolean;
 }
 
-async function tryModelWithFallback(
-  messages: ChatMessage[],
-  scenarioContext: ScenarioContext,
-  contextPrompt: string,
-  modelIndex: number = 0
-): Promise<string> {
-  if (modelIndex >= MODEL_FALLBACKS.length) {
-    throw new Error('All model fallbacks exhausted');
-  }
-
-  const modelName = MODEL_FALLBACKS[modelIndex];
-  console.log(`Trying model: ${modelName}`);
-
-  try {
-    const currentModel = genAI.getGenerativeModel({
-      model: modelName,
-      generationConfig,
-    });
-
-    // Prepare conversation history
-    const conversation = messages.map(msg => ({
-      role: msg.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: msg.content }]
-    }));
-
-    // Add context as the first system message
-    const fullConversation = [
-      { role: 'user', parts: [{ text: contextPrompt }] },
-      { role: 'model', parts: [{ text: 'I understand. I\'m ready to help you with scenario editing and template configuration. What would you like to work on?' }] },
-      ...conversation
-    ];
-
-    const chat = currentModel.startChat({
-      history: fullConversation.slice(0, -1), // All but the last message
-    });
-
-    const lastMessage = messages[messages.length - 1];
-    const result = await chat.sendMessage(lastMessage.content);
-
-    console.log(`Successfully used model: ${modelName}`);
-    return result.response.text();
-  } catch (error) {
-    console.error(`Model ${modelName} failed:`, error);
-
-    // If this is a 404/quota error, try next model
-    if (error.status === 404 || error.status === 429 || error.message?.includes('quota')) {
-      return tryModelWithFallback(messages, scenarioContext, contextPrompt, modelIndex + 1);
-    }
-
-    // For other errors, throw immediately
-    throw error;
-  }
-}
-
 export async function generateResponse(
   messages: ChatMessage[],
-  scenarioContext: ScenarioContext
+  scenarioContext: ScenarioContext,
+  provider: LLMProvider = getLLMProvider()
 ): Promise<string> {
   try {
     // Create context-aware prompt
@@ -229,9 +149,21 @@ ${JSON.stringify(scenarioContext.scenario, null, 2)}
 
 Now, given the user request, produce the output in the exact format above.`;
 
-    return await tryModelWithFallback(messages, scenarioContext, contextPrompt);
+    const completion = await provider.complete({
+      messages: [
+        { role: 'system', content: contextPrompt },
+        ...messages.map(msg => ({
+          role: msg.role === 'assistant' ? ('assistant' as const) : ('user' as const),
+          content: msg.content,
+        })),
+      ],
+      // Lower temperature for deterministic, schema-accurate edits
+      temperature: 0.2,
+      maxTokens: 2048,
+    });
+    return completion.text;
   } catch (error) {
-    console.error('All Gemini models failed:', error);
+    console.error(`LLM provider ${provider.name} failed:`, error);
     throw new Error('Failed to generate response - all models unavailable');
   }
 }
\ No newline at end of file
@@ -0,0 +1,202 @@
+/**
+ * Queue Aggregation
+ *
+ * Window triggers and aggregation methods for Queue nodes. A trigger decides
+ * when a window closes and which buffered tokens it covers; the method reduces
+ * those tokens to the value of the emitted token.
+ */
+import { evaluateFormula } from "./formulaEngine";
+import type { AggregationConfig, QueueState, Token } from "./types";
+import { AggregationMethodSchema } from "./types";
+
+export const AGGREGATION_TRIGGER_TYPES = ["time", "count", "session"] as const;
+
+export interface AggregationWindow {
+  /** Tokens reduced into the emitted token */
+  tokens: Token[];
+  /** Tokens left in the input buffer afterwards, with their arrival times */
+  remaining: Token[];
+  remainingArrivalTimes: number[];
+}
+
+/**
+ * Whether the queue's trigger fires at `newTime`
+ */
+export function isAggregationDue(config: AggregationConfig, qState: QueueState, newTime: number): boolean {
+  const { trigger } = config;
+  const sliding = trigger.windowType === "sliding";
+
+  switch (trigger.type) {
+    case "count":
+      return qState.inputBuffer.length >= trigger.window;
+
+    case "session":
+      return (
+        qState.inputBuffer.length > 0 &&
+        qState.lastArrivalTime !== undefined &&
+        newTime - qState.lastArrivalTime >= trigger.window
+      );
+
+    case "time":
+    default: {
+      const lastAggregation = qState.lastAggregationTime < 0 ? 0 : qState.lastAggregationTime;
+      return newTime >= lastAggregation + (sliding ? (trigger.slide ?? 1) : trigger.window);
+    }
+  }
+}
+
+/**
+ * Split the input buffer into the tokens covered by the closing window and the
+ * tokens that stay buffered. Tumbling windows consume what they cover; sliding
+ * windows keep their tokens for the next, overlapping window.
+ */
+export function selectAggregationWindow(
+  config: AggregationConfig,
+  qState: QueueState,
+  newTime: number,
+): AggregationWindow {
+  const { trigger } = config;
+  const buffer = qState.inputBuffer;
+  const arrivalTimes = buffer.map((_, i) => qState.inputArrivalTimes?.[i] ?? newTime);
+  const sliding = trigger.windowType === "sliding";
+
+  if (trigger.type === "count") {
+    // The window covers the oldest `window` tokens and then advances by `slide`
+    // tokens (sliding) or past the whole window (tumbling)
+    const advance = sliding ? Math.min(trigger.slide ?? 1, trigger.window) : trigger.window;
+    return {
+      tokens: buffer.slice(0, trigger.window),
+      remaining: buffer.slice(advance),
+      remainingArrivalTimes: arrivalTimes.slice(advance),
+    };
+  }
+
+  if (trigger.type !== "session" && sliding) {
+    const start = arrivalTimes.findIndex(time => time > newTime - trigger.window);
+    const tokens = start < 0 ? [] : buffer.slice(start);
+    return { tokens, remaining: tokens, remainingArrivalTimes: start < 0 ? [] : arrivalTimes.slice(start) };
+  }
+
+  return { tokens: [...buffer], remaining: [], remainingArrivalTimes: [] };
+}
+
+/**
+ * Reduce the window's tokens with the configured method. The value is
+ * undefined when there is nothing to aggregate.
+ */
+export function aggregateTokens(config: AggregationConfig, tokens: Token[]): { value: any; error: string | null } {
+  const values = tokens.map(t => Number(t.value));
+
+  switch (config.method) {
+    case "sum":
+      return { value: sum(values), error: null };
+    case "average":
+      return { value: values.length > 0 ? sum(values) / values.length : 0, error: null };
+    case "count":
+      return { value: tokens.length, error: null };
+    case "last":
+      return { value: tokens[tokens.length - 1]?.value, error: null };
+    case "min":
+      return { value: values.length > 0 ? Math.min(...values) : undefined, error: null };
+    case "max":
+      return { value: values.length > 0 ? Math.max(...values) : undefined, error: null };
+    case "median":
+      return { value: percentile(values, 50), error: null };
+    case "percentile":
+      return { value: percentile(values, config.percentile ?? 50), error: null };
+    case "stddev":
+      return { value: standardDeviation(values), error: null };
+    case "formula": {
+      if (tokens.length === 0) return { value: undefined, error: null };
+      const result = evaluateFormula(config.formula, createAggregationFormulaContext(tokens));
+      return result.error ? { value: undefined, error: result.error } : result;
+    }
+    case "first":
+    default:
+      return { value: tokens[0]?.value, error: null };
+  }
+}
+
+/**
+ * Variables and helpers available to "formula" aggregations, e.g.
+ * `sum(input) / count` or `percentile(values, 95) - median(values)`
+ */
+export function createAggregationFormulaContext(tokens: Token[]): Record<string, any> {
+  const values = tokens.map(t => t.value);
+  return {
+    input: values,
+    values,
+    count: tokens.length,
+    first: values[0],
+    last: values[values.length - 1],
+    sum: (list: any[]) => sum(list.map(Number)),
+    avg: (list: any[]) => (list.length > 0 ? sum(list.map(Number)) / list.length : 0),
+    median: (list: any[]) => percentile(list.map(Number), 50),
+    percentile: (list: any[], p: number) => percentile(list.map(Number), p),
+    stddev: (list: any[]) => standardDeviation(list.map(Number)),
+  };
+}
+
+/**
+ * Check a queue's aggregation config. Returns human-readable problems, empty
+ * when the config is usable.
+ */
+export function validateAggregationConfig(config: AggregationConfig): string[] {
+  const errors: string[] = [];
+  const methods = AggregationMethodSchema.options as readonly string[];
+  const { trigger } = config;
+
+  if (!methods.includes(config.method)) {
+    errors.push(`unknown aggregation method "${config.method}" (expected one of ${methods.join(", ")}).`);
+  }
+  if (config.method === "percentile" && config.percentile === undefined) {
+    errors.push("percentile aggregation requires percentile.");
+  }
+  if (config.method === "formula" && !config.formula.trim()) {
+    errors.push("formula aggregation requires a formula.");
+  }
+
+  if (!(AGGREGATION_TRIGGER_TYPES as readonly string[]).includes(trigger.type)) {
+    errors.push(
+      `unknown aggregation trigger "${trigger.type}" (expected one of ${AGGREGATION_TRIGGER_TYPES.join(", ")}).`,
+    );
+  } else if (trigger.type === "count" && !Number.isInteger(trigger.window)) {
+    errors.push("count trigger window must be a whole number of tokens.");
+  } else if (trigger.type === "session" && trigger.windowType === "sliding") {
+    errors.push("session triggers cannot use sliding windows.");
+  }
+  if (trigger.slide !== undefined && trigger.slide > trigger.window) {
+    errors.push("sliding window slide must not exceed the window.");
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Linearly interpolated percentile (0-100) of the values; undefined when empty
+ */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Population standard deviation; undefined when empty
+ */
+export function standardDeviation(values: number[]): number | undefined {
+  if (values.length === 0) return undefined;
+  const mean = sum(values) / values.length;
+  return Math.sqrt(sum(values.map(value => (value - mean) ** 2)) / values.length);
+}
@@ -0,0 +1,240 @@
+/**
+ * Value and Inter-Arrival Distributions
+ *
+ * Samplers for DataSource generation. Every draw goes through the node's
+ * RandomSource, so seeded runs stay reproducible.
+ */
+import type { RandomSource } from "./random";
+import type { CsvReplayConfig, DataSourceNode, GenerationConfig, IntervalDistribution } from "./types";
+import { GENERATION_TYPES } from "./types";
+
+/**
+ * Draw the next generated value. `index` is the number of values generated so
+ * far, used as the row cursor for CSV replay. Returns undefined when a
+ * non-looping CSV column is exhausted.
+ */
+export function sampleGenerationValue(
+  generation: GenerationConfig,
+  random: RandomSource,
+  index: number,
+): number | string | undefined {
+  const { valueMin, valueMax } = generation;
+
+  switch (generation.type) {
+    case "normal":
+      return clamp(
+        (generation.mean ?? (valueMin + valueMax) / 2) + (generation.stdDev ?? 1) * standardNormal(random),
+        valueMin,
+        valueMax,
+      );
+
+    case "exponential":
+      return clamp(valueMin + exponential(random, generation.rate ?? 1), valueMin, valueMax);
+
+    case "poisson":
+      return clamp(poisson(random, generation.rate ?? 1), valueMin, valueMax);
+
+    case "triangular":
+      return triangular(random, valueMin, generation.mode ?? (valueMin + valueMax) / 2, valueMax);
+
+    case "discrete":
+      return weightedChoice(random, generation.outcomes ?? []);
+
+    case "constant":
+      return generation.value ?? valueMin;
+
+    case "csv":
+      return generation.csv ? csvValue(generation.csv, index) : undefined;
+
+    case "uniform":
+    case "random":
+    default:
+      return random.nextInt(valueMin, valueMax);
+  }
+}
+
+/**
+ * Draw the number of ticks until the next emission (at least 1)
+ */
+export function sampleInterval(node: DataSourceNode, random: RandomSource): number {
+  const distribution: IntervalDistribution = node.intervalDistribution ?? { type: "fixed" };
+
+  switch (distribution.type) {
+    case "jitter": {
+      const jitter = distribution.jitter ?? 0;
+      return Math.max(1, Math.round(node.interval + (random.next() * 2 - 1) * jitter));
+    }
+    case "exponential":
+      return Math.max(1, Math.round(exponential(random, 1 / node.interval)));
+    case "fixed":
+    default:
+      return node.interval;
+  }
+}
+
+/**
+ * Check the distribution parameters of a generation config. Returns
+ * human-readable problems, empty when the config is usable.
+ */
+export function validateGenerationConfig(generation: GenerationConfig): string[] {
+  const errors: string[] = [];
+
+  if (!(GENERATION_TYPES as readonly string[]).includes(generation.type)) {
+    errors.push(`unknown generation type "${generation.type}" (expected one of ${GENERATION_TYPES.join(", ")}).`);
+    return errors;
+  }
+
+  switch (generation.type) {
+    case "normal":
+      if (generation.mean === undefined || generation.stdDev === undefined) {
+        errors.push("normal generation requires mean and stdDev.");
+      } else if (generation.stdDev <= 0) {
+        errors.push("normal generation stdDev must be greater than 0.");
+      }
+      break;
+
+    case "exponential":
+    case "poisson":
+      if (generation.rate === undefined || generation.rate <= 0) {
+        errors.push(`${generation.type} generation requires a rate greater than 0.`);
+      }
+      break;
+
+    case "triangular":
+      if (generation.mode === undefined) {
+        errors.push("triangular generation requires mode.");
+      } else if (generation.mode < generation.valueMin || generation.mode > generation.valueMax) {
+        errors.push("triangular generation mode must lie between valueMin and valueMax.");
+      }
+      break;
+
+    case "discrete": {
+      const outcomes = generation.outcomes ?? [];
+      if (outcomes.length === 0) {
+        errors.push("discrete generation requires at least one outcome.");
+      } else if (outcomes.reduce((total, outcome) => total + outcome.weight, 0) <= 0) {
+        errors.push("discrete generation outcome weights must add up to more than 0.");
+      }
+      break;
+    }
+
+    case "constant":
+      if (generation.value === undefined) {
+        errors.push("constant generation requires value.");
+      }
+      break;
+
+    case "csv": {
+      const column = generation.csv ? parseCsvColumn(generation.csv) : null;
+      if (!generation.csv) {
+        errors.push("csv generation requires a csv config.");
+      } else if (column === null) {
+        errors.push(`csv column "${generation.csv.column}" not found.`);
+      } else if (column.length === 0) {
+        errors.push("csv data has no rows.");
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+export function validateIntervalDistribution(distribution: IntervalDistribution): string[] {
+  if (distribution.type === "jitter" && distribution.jitter === undefined) {
+    return ["jitter interval requires jitter."];
+  }
+  return [];
+}
+
+// ============================================================================
+// Samplers
+// ============================================================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Box-Muller transform
+function standardNormal(random: RandomSource): number {
+  const u = 1 - random.next(); // (0, 1], avoids log(0)
+  const v = random.next();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function exponential(random: RandomSource, rate: number): number {
+  return -Math.log(1 - random.next()) / rate;
+}
+
+// Knuth's algorithm; fine for the small rates used in simulations
+function poisson(random: RandomSource, lambda: number): number {
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random.next();
+  while (product > limit) {
+    count++;
+    product *= random.next();
+  }
+  return count;
+}
+
+function triangular(random: RandomSource, min: number, mode: number, max: number): number {
+  if (max === min) return min;
+  const u = random.next();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+function weightedChoice(
+  random: RandomSource,
+  outcomes: NonNullable<GenerationConfig["outcomes"]>,
+): number | string | undefined {
+  const total = outcomes.reduce((sum, outcome) => sum + outcome.weight, 0);
+  let threshold = random.next() * total;
+  for (const outcome of outcomes) {
+    threshold -= outcome.weight;
+    if (threshold < 0) return outcome.value;
+  }
+  return outcomes[outcomes.length - 1]?.value;
+}
+
+// ============================================================================
+// CSV replay
+// ============================================================================
+
+// Parsed columns, keyed by config object so the CSV text is parsed once per scenario
+const csvColumnCache = new WeakMap<CsvReplayConfig, Array<number | string> | null>();
+
+function csvValue(csv: CsvReplayConfig, index: number): number | string | undefined {
+  const column = parseCsvColumn(csv);
+  if (!column || column.length === 0) return undefined;
+  if (index >= column.length && csv.loop === false) return undefined;
+  return column[index % column.length];
+}
+
+/**
+ * Values of the configured column, numbers where the cell is numeric.
+ * Returns null when the column does not exist.
+ */
+export function parseCsvColumn(csv: CsvReplayConfig): Array<number | string> | null {
+  if (csvColumnCache.has(csv)) return csvColumnCache.get(csv)!;
+
+  const [header, ...rows] = csv.data
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== "")
+    .map(line => line.split(",").map(cell => cell.trim()));
+
+  const columnIndex = typeof csv.column === "number" ? csv.column : (header ?? []).indexOf(csv.column);
+  const values =
+    columnIndex < 0 || columnIndex >= (header ?? []).length
+      ? null
+      : rows.map(row => {
+          const cell = row[columnIndex] ?? "";
+          return cell !== "" && !isNaN(Number(cell)) ? Number(cell) : cell;
+        });
+
+  csvColumnCache.set(csv, values);
+  return values;
+}
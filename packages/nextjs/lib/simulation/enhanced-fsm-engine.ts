@@ -14,6 +14,7 @@ import {
   Message,
   EnhancedFSMProcessNode,
   EnhancedFSMProcessNodeState,
+  EnhancedFSMDefinition,
   EnhancedFSMAction,
   ActionOutput,
   FeedbackLoopConfig,
@@ -22,8 +23,11 @@ import {
   EventInterpretationRule,
 } from "./enhanced-fsm-types";
 import { EventInterpretationEngine } from "./event-interpretation-engine";
+import { HttpInterpretationClient } from "./llmInterpretation";
 import { EnhancedActionSystem } from "./enhanced-action-system";
 import { FeedbackLoopManager } from "./feedback-loop-manager";
+import { Statechart, type StatechartConfiguration } from "./statechart";
+import { type TimerTransition, cancelTimers, nextDueTimer, scheduleTimers } from "./fsmTimers";
 import { Token, HistoryEntry } from "./types";
 import { nanoid } from "@/lib/nanoid";
 import { evaluateFormula } from "./formulaEngine";
@@ -39,11 +43,25 @@ export interface EnhancedFSMExecutionContext {
   transitionNodeState: (nodeId: string, newState: string, timestamp: number, trigger?: string) => void;
 }
 
+// Timer transitions wait their own timeout; a state's timeout fires its "timeout" event transitions
+const enhancedTimerTransitions = (fsm: EnhancedFSMDefinition): TimerTransition[] =>
+  fsm.transitions.flatMap((transition, transitionIndex) => {
+    if (transition.trigger.type === "timer") {
+      return [{ transitionIndex, from: transition.from, after: transition.trigger.timeout }];
+    }
+    const timeout = fsm.states.find(state => state.id === transition.from)?.timeout;
+    if (transition.trigger.type === "event" && transition.trigger.eventType === "timeout" && timeout !== undefined) {
+      return [{ transitionIndex, from: transition.from, after: timeout }];
+    }
+    return [];
+  });
+
 export class EnhancedFSMEngine {
   private interpretationEngine: EventInterpretationEngine;
   private actionSystem: EnhancedActionSystem;
   private feedbackManager: FeedbackLoopManager;
   private activeExecutions: Map<string, string> = new Map(); // nodeId -> executionId
+  private statecharts = new WeakMap<object, Statechart>(); // fsm definition -> statechart
 
   constructor() {
     // Initialize with default configurations
@@ -63,7 +81,8 @@ export class EnhancedFSMEngine {
       },
     };
 
-    this.interpretationEngine = new EventInterpretationEngine([]);
+    // `ai` rules go through /api/llm/interpret and the deployment's LLM provider
+    this.interpretationEngine = new EventInterpretationEngine({ aiClient: new HttpInterpretationClient() });
     this.actionSystem = new EnhancedActionSystem();
     this.feedbackManager = new FeedbackLoopManager(defaultFeedbackConfig);
   }
@@ -171,26 +190,25 @@ export class EnhancedFSMEngine {
     if (messagesToProcess.length === 0) return;
 
     // Check for message-triggered transitions
+    const chart = this.statechartFor(nodeConfig);
     for (const message of messagesToProcess) {
       const matchingTransitions = nodeConfig.fsm.transitions.filter(t =>
         t.trigger.type === "message" &&
-        t.trigger.messageType === message.type &&
-        t.from === nodeState.currentState
+        t.trigger.messageType === message.type
       );
 
-      for (const transition of matchingTransitions) {
-        // Check guard condition if present
-        if (transition.guard) {
-          const guardContext = this.buildGuardContext(nodeState, message);
-          const { value: guardResult } = evaluateFormula(transition.guard, guardContext);
-          if (!guardResult) continue;
-        }
+      // One transition per active region, from the innermost state that handles the message
+      const selected = chart.selectTransitions(this.configurationOf(nodeState), matchingTransitions, transition => {
+        if (!transition.guard) return true;
+        const guardContext = this.buildGuardContext(nodeState, message);
+        const { value: guardResult } = evaluateFormula(transition.guard, guardContext);
+        return Boolean(guardResult);
+      });
 
-        // Execute transition
+      for (const transition of selected) {
         await this.executeTransition(nodeConfig, nodeState, transition, context, executionId, {
           triggerMessage: message
         });
-        break; // Only execute one transition per message
       }
     }
 
@@ -247,33 +265,36 @@ export class EnhancedFSMEngine {
     executionId: string
   ): Promise<void> {
     const currentTime = context.currentTime;
+    const chart = this.statechartFor(nodeConfig);
 
-    // Check condition-based transitions
-    const conditionTransitions = nodeConfig.fsm.transitions.filter(t =>
-      t.trigger.type === "condition" && t.from === nodeState.currentState
-    );
-
-    for (const transition of conditionTransitions) {
-      const conditionContext = this.buildConditionContext(nodeState);
+    // Check condition-based transitions, one per active region per tick
+    const conditionTransitions = nodeConfig.fsm.transitions.filter(t => t.trigger.type === "condition");
+    const enabledConditions = chart.selectTransitions(this.configurationOf(nodeState), conditionTransitions, transition => {
+      if (transition.trigger.type !== "condition") return false;
+      const conditionContext = this.buildConditionContext(nodeState, currentTime);
       const { value: conditionResult } = evaluateFormula(transition.trigger.condition, conditionContext);
+      return Boolean(conditionResult);
+    });
 
-      if (conditionResult) {
-        await this.executeTransition(nodeConfig, nodeState, transition, context, executionId);
-        break; // Only execute one transition per tick
-      }
+    for (const transition of enabledConditions) {
+      await this.executeTransition(nodeConfig, nodeState, transition, context, executionId);
     }
 
-    // Check timer-based transitions
-    const timerTransitions = nodeConfig.fsm.transitions.filter(t =>
-      t.trigger.type === "timer" && t.from === nodeState.currentState
-    );
-
-    for (const transition of timerTransitions) {
-      const timeInState = currentTime - nodeState.stateChangedAt;
-      if (timeInState >= transition.trigger.timeout) {
+    // Fire timers due on the simulation clock, one at a time since each may cancel others
+    let timer = nextDueTimer(nodeState.timers || [], currentTime);
+    while (timer) {
+      const firing = timer;
+      nodeState.timers = nodeState.timers.filter(pending => pending !== firing);
+      const transition = nodeConfig.fsm.transitions[firing.transitionIndex];
+      if (transition) {
+        context.logActivity(context.nodeId, {
+          action: "timer_fired",
+          value: firing.dueAt,
+          details: `Timer ${transition.from} → ${transition.to} (scheduled at ${firing.scheduledAt})`,
+        }, currentTime);
         await this.executeTransition(nodeConfig, nodeState, transition, context, executionId);
-        break;
       }
+      timer = nextDueTimer(nodeState.timers || [], currentTime);
     }
   }
 
@@ -288,8 +309,10 @@ export class EnhancedFSMEngine {
     executionId: string,
     triggerData?: any
   ): Promise<void> {
+    const chart = this.statechartFor(nodeConfig);
+    const step = chart.transition(this.configurationOf(nodeState), transition.from, transition.to);
     const oldState = nodeState.currentState;
-    const newState = transition.to;
+    const newState = chart.getActiveLeaves(step.configuration)[0] ?? transition.to;
 
     // Log transition
     context.logActivity(context.nodeId, {
@@ -311,37 +334,88 @@ export class EnhancedFSMEngine {
     // Update current state
     nodeState.previousState = oldState;
     nodeState.currentState = newState;
+    nodeState.activeStates = step.configuration.active;
+    nodeState.historyStates = step.configuration.history;
     nodeState.stateChangedAt = context.currentTime;
 
     // Update state machine tracking in simulation
     context.transitionNodeState(context.nodeId, newState, context.currentTime, transition.trigger.type);
 
-    // Execute transition actions
+    // Leaving a state cancels its timers; entering one starts them
+    const { timers: remaining, cancelled } = cancelTimers(nodeState.timers || [], step.exited);
+    const scheduled = scheduleTimers(
+      remaining,
+      step.entered,
+      enhancedTimerTransitions(nodeConfig.fsm),
+      context.currentTime,
+      nodeState.timerSequence ?? 0
+    );
+    nodeState.timers = scheduled.timers;
+    nodeState.timerSequence = scheduled.sequence;
+    [
+      ...cancelled.map(timer => ({ action: "timer_cancelled", timer })),
+      ...scheduled.scheduled.map(timer => ({ action: "timer_scheduled", timer })),
+    ].forEach(({ action, timer }) => {
+      const timerTransition = nodeConfig.fsm.transitions[timer.transitionIndex];
+      context.logActivity(context.nodeId, {
+        action,
+        value: timer.dueAt,
+        details: `Timer ${timerTransition?.from} → ${timerTransition?.to} due at t=${timer.dueAt}`,
+      }, context.currentTime);
+    });
+
+    // Statechart order: exit actions innermost first, then transition actions, then entry actions outermost first
+    for (const exited of step.exited) {
+      await this.scheduleStateActions(nodeConfig, exited, "onExit", context, executionId);
+    }
+
     if (transition.actions) {
       for (const action of transition.actions) {
         await this.scheduleAction(action, context, executionId);
       }
     }
 
-    // Execute exit actions for old state
-    const oldStateConfig = nodeConfig.fsm.states.find(s => s.id === oldState);
-    if (oldStateConfig?.actions) {
-      const exitActions = oldStateConfig.actions.filter(a => a.trigger === "onExit");
-      for (const action of exitActions) {
-        await this.scheduleAction(action, context, executionId);
-      }
+    for (const entered of step.entered) {
+      await this.scheduleStateActions(nodeConfig, entered, "onEntry", context, executionId);
     }
+  }
 
-    // Execute entry actions for new state
-    const newStateConfig = nodeConfig.fsm.states.find(s => s.id === newState);
-    if (newStateConfig?.actions) {
-      const entryActions = newStateConfig.actions.filter(a => a.trigger === "onEntry");
-      for (const action of entryActions) {
-        await this.scheduleAction(action, context, executionId);
-      }
+  /**
+   * Schedule the entry or exit actions of one state
+   */
+  private async scheduleStateActions(
+    nodeConfig: EnhancedFSMProcessNode,
+    stateId: string,
+    trigger: "onEntry" | "onExit",
+    context: EnhancedFSMExecutionContext,
+    executionId: string
+  ): Promise<void> {
+    const stateConfig = nodeConfig.fsm.states.find(s => s.id === stateId);
+    const actions = stateConfig?.actions?.filter(a => a.trigger === trigger) || [];
+    for (const action of actions) {
+      await this.scheduleAction(action, context, executionId);
     }
   }
 
+  /**
+   * The statechart of a node's FSM definition, built once per definition
+   */
+  private statechartFor(nodeConfig: EnhancedFSMProcessNode): Statechart {
+    let chart = this.statecharts.get(nodeConfig.fsm);
+    if (!chart) {
+      chart = Statechart.fromEnhancedFSMDefinition(nodeConfig.fsm);
+      this.statecharts.set(nodeConfig.fsm, chart);
+    }
+    return chart;
+  }
+
+  private configurationOf(nodeState: EnhancedFSMProcessNodeState): StatechartConfiguration {
+    return {
+      active: nodeState.activeStates || [nodeState.currentState],
+      history: nodeState.historyStates || {},
+    };
+  }
+
   /**
    * Schedule an action for execution
    */
@@ -596,13 +670,13 @@ export class EnhancedFSMEngine {
   /**
    * Build context for condition evaluation
    */
-  private buildConditionContext(nodeState: EnhancedFSMProcessNodeState): Record<string, any> {
+  private buildConditionContext(nodeState: EnhancedFSMProcessNodeState, currentTime: number): Record<string, any> {
     return {
       variables: nodeState.variables,
       stateVariables: nodeState.stateVariables,
       currentState: nodeState.currentState,
       previousState: nodeState.previousState,
-      timeInState: Date.now() - nodeState.stateChangedAt,
+      timeInState: currentTime - nodeState.stateChangedAt,
       eventCount: nodeState.processedEventCount,
       messageCount: nodeState.processedMessageCount,
       bufferSizes: {
@@ -619,13 +693,23 @@ export class EnhancedFSMEngine {
    * Initialize Enhanced FSM node state
    */
   initializeNodeState(nodeConfig: EnhancedFSMProcessNode): EnhancedFSMProcessNodeState {
-    const initialState = nodeConfig.fsm.initialState ||
+    const declaredInitialState = nodeConfig.fsm.initialState ||
       nodeConfig.fsm.states.find(s => s.type === "initial")?.id ||
       nodeConfig.fsm.states[0]?.id ||
       "idle";
 
+    // A compound initial state starts in its initial descendants
+    const chart = Statechart.fromEnhancedFSMDefinition(nodeConfig.fsm, declaredInitialState);
+    const { configuration } = chart.initialConfiguration();
+    const initialState = chart.getActiveLeaves(configuration)[0] ?? declaredInitialState;
+    const initialTimers = scheduleTimers([], configuration.active, enhancedTimerTransitions(nodeConfig.fsm), 0, 0);
+
     return {
       currentState: initialState,
+      activeStates: configuration.active,
+      historyStates: configuration.history,
+      timers: initialTimers.timers,
+      timerSequence: initialTimers.sequence,
       previousState: undefined,
       stateChangedAt: 0,
       variables: { ...nodeConfig.fsm.variables } || {},
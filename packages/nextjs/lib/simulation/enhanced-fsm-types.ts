@@ -1,4 +1,5 @@
 import { z } from "zod";
+import type { FSMTimer } from "./types";
 
 /**
  * Enhanced FSM Node Type Definitions
@@ -197,6 +198,10 @@ export const EnhancedFSMStateSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   type: z.enum(["initial", "intermediate", "final", "error"]).default("intermediate"),
+  parent: z.string().optional(), // enclosing compound or parallel state
+  kind: z.enum(["atomic", "compound", "parallel", "history"]).optional(),
+  initial: z.string().optional(), // compound: child entered by default; history: default target
+  history: z.enum(["shallow", "deep"]).optional(),
   timeout: z.number().optional(),
   variables: z.record(z.string(), z.any()).optional(),
   actions: z.array(EnhancedFSMActionSchema).optional(),
@@ -244,6 +249,10 @@ export const EnhancedFSMDefinitionSchema = z.object({
   variables: z.record(z.string(), z.any()).optional(),
   interpretationRules: z.array(EventInterpretationRuleSchema),
   feedbackConfig: FeedbackLoopConfigSchema.optional(),
+  invariants: z.array(z.object({
+    name: z.string(),
+    formula: z.string(),
+  })).optional(),
   outputs: z.array(z.object({
     name: z.string(),
     interface: InterfaceSchema,
@@ -327,6 +336,10 @@ export type EnhancedFSMProcessNode = z.infer<typeof EnhancedFSMProcessNodeSchema
 
 export interface EnhancedFSMProcessNodeState {
   currentState: string;
+  activeStates?: string[]; // statechart configuration, ancestors included
+  historyStates?: Record<string, string[]>;
+  timers?: FSMTimer[]; // pending timer transitions, on the simulation clock
+  timerSequence?: number;
   previousState?: string;
   stateChangedAt: number;
   variables: Record<string, any>;
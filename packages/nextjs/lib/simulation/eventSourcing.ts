@@ -9,7 +9,10 @@
  */
 
 import { nanoid } from "@/lib/nanoid";
-import type { Scenario, AnyNodeState, HistoryEntry } from "./types";
+import type { Scenario, AnyNodeState, HistoryEntry, Token } from "./types";
+import { generateSeed } from "./random";
+import { EnhancedReplayEngine, heldTokens } from "./replayEngine";
+import { compareRuns, type ScenarioComparisonResult } from "./scenarioComparison";
 
 // ============================================================================
 // CORE EVENT TYPES - External events that drive the simulation
@@ -61,6 +64,10 @@ export interface SimulationScenario {
   initialModel: Scenario;                    // Starting model definition
   coreEvents: CoreEvent[];                   // External events that drive everything
 
+  // Determinism
+  seed?: number;                             // Engine seed; every random draw derives from it
+  startEpoch?: number;                       // Wall clock at simulation time 0 (epochTimestamp base)
+
   // Performance Optimization
   snapshots: SimulationSnapshot[];           // Periodic state snapshots
 
@@ -90,6 +97,7 @@ export interface SimulationSnapshot {
   // Derived state (for performance)
   globalActivityLog: HistoryEntry[];
   nodeActivityLogs: Record<string, HistoryEntry[]>;
+  randomState?: Record<string, number>;      // Random stream positions, to resume the exact sequence
 
   // Metadata
   description?: string;
@@ -203,13 +211,20 @@ export class EventCaptureService {
 export class SimulationScenarioManager {
   private scenarios: Map<string, SimulationScenario> = new Map();
 
-  createScenario(name: string, initialModel: Scenario, description?: string): SimulationScenario {
+  createScenario(
+    name: string,
+    initialModel: Scenario,
+    description?: string,
+    randomContext?: { seed: number; startEpoch: number }
+  ): SimulationScenario {
     const scenario: SimulationScenario = {
       id: nanoid(12),
       name,
       description,
       initialModel,
       coreEvents: [],
+      seed: randomContext?.seed,
+      startEpoch: randomContext?.startEpoch,
       snapshots: [],
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -241,6 +256,7 @@ export class SimulationScenarioManager {
     eventCounter: number;
     globalActivityLog: HistoryEntry[];
     nodeActivityLogs: Record<string, HistoryEntry[]>;
+    randomState?: Record<string, number>;
   }, description?: string): SimulationSnapshot {
     const scenario = this.scenarios.get(scenarioId);
     if (!scenario) {
@@ -258,6 +274,7 @@ export class SimulationScenarioManager {
       eventCounter: state.eventCounter,
       globalActivityLog: [...state.globalActivityLog],
       nodeActivityLogs: { ...state.nodeActivityLogs },
+      randomState: state.randomState ? { ...state.randomState } : undefined,
       description,
       snapshotType: 'manual'
     };
@@ -320,161 +337,64 @@ export class SimulationScenarioManager {
 // DETERMINISTIC REPLAY ENGINE
 // ============================================================================
 
+export interface ReplayedState {
+  scenario: Scenario;
+  nodeStates: Record<string, AnyNodeState>;
+  currentTime: number;
+  eventCounter: number;
+  tokens: Token[];                           // Tokens held by nodes: buffers, held deliveries, consumed
+  randomState: Record<string, number>;
+}
+
+export interface ReplayValidation {
+  isValid: boolean;
+  checkedSnapshots: string[];                // Snapshots the replay passed and compared against
+  errors: string[];
+}
+
 export class ReplayEngine {
+  private readonly engine = new EnhancedReplayEngine();
+
+  /**
+   * Rebuild the simulation at `targetTime` (or after the last core event) by
+   * driving a SimulationEngine with the recorded events. Replay starts from the
+   * latest snapshot at or before the target unless `fromStart` is set, and every
+   * snapshot recorded along the way is compared with the replayed state.
+   */
   async replayScenario(
     scenario: SimulationScenario,
     targetTime?: number,
-    onProgress?: (progress: { currentTime: number; totalEvents: number; processedEvents: number }) => void
+    onProgress?: (progress: { currentTime: number; totalEvents: number; processedEvents: number }) => void,
+    options: { fromStart?: boolean } = {}
   ): Promise<{
-    finalState: any;
+    finalState: ReplayedState;
     derivedEvents: HistoryEntry[];
     replayLog: string[];
+    validation: ReplayValidation;
   }> {
-    console.log(`🔄 Starting replay of "${scenario.name}"`);
-
-    const replayLog: string[] = [];
-    let currentState = this.initializeState(scenario.initialModel);
-    let currentTime = 0;
-    let derivedEvents: HistoryEntry[] = [];
-
-    // Find best snapshot to start from
-    const startSnapshot = this.findBestSnapshot(scenario, targetTime || Infinity);
-    if (startSnapshot) {
-      currentState = this.restoreFromSnapshot(startSnapshot);
-      currentTime = startSnapshot.timestamp;
-      derivedEvents = [...startSnapshot.globalActivityLog];
-      replayLog.push(`📸 Starting from snapshot at t=${currentTime}`);
-    }
-
-    // Replay events from snapshot point
-    const eventsToReplay = scenario.coreEvents.filter(e => e.timestamp >= currentTime);
-
-    for (let i = 0; i < eventsToReplay.length; i++) {
-      const event = eventsToReplay[i];
-
-      if (targetTime && event.timestamp > targetTime) {
-        break;
-      }
-
-      const result = await this.processEvent(event, currentState);
-      currentState = result.newState;
-      derivedEvents.push(...result.derivedEvents);
-
-      replayLog.push(`⚡ Processed ${event.type} at t=${event.timestamp}`);
-
-      if (onProgress) {
-        onProgress({
-          currentTime: event.timestamp,
-          totalEvents: eventsToReplay.length,
-          processedEvents: i + 1
-        });
-      }
-    }
-
-    console.log(`✅ Replay complete. Final time: ${currentTime}`);
-
-    return {
-      finalState: currentState,
-      derivedEvents,
-      replayLog
-    };
-  }
-
-  private initializeState(model: Scenario): any {
-    // Initialize state from model definition
-    // This would match the logic in simulationStore.loadScenario
-    return {
-      scenario: model,
-      nodeStates: {},
-      currentTime: 0,
-      eventCounter: 0
-    };
-  }
-
-  private findBestSnapshot(scenario: SimulationScenario, targetTime: number): SimulationSnapshot | null {
-    // Find the latest snapshot that's before our target time
-    const eligibleSnapshots = scenario.snapshots
-      .filter(s => s.timestamp <= targetTime)
-      .sort((a, b) => b.timestamp - a.timestamp);
-
-    return eligibleSnapshots[0] || null;
-  }
-
-  private restoreFromSnapshot(snapshot: SimulationSnapshot): any {
-    return {
-      scenario: snapshot.modelDefinition,
-      nodeStates: snapshot.nodeStates,
-      currentTime: snapshot.simulationTime,
-      eventCounter: snapshot.eventCounter
-    };
-  }
-
-  private async processEvent(event: CoreEvent, currentState: any): Promise<{
-    newState: any;
-    derivedEvents: HistoryEntry[];
-  }> {
-    // This would integrate with the existing simulation engine
-    // For now, we'll return a mock implementation
-    const derivedEvents: HistoryEntry[] = [];
-
-    switch (event.type) {
-      case 'timer_tick':
-        // Process timer tick - this would call the existing tick() logic
-        derivedEvents.push({
-          timestamp: event.timestamp,
-          epochTimestamp: event.realTimestamp,
-          sequence: currentState.eventCounter++,
-          nodeId: 'system',
-          action: 'timer_tick',
-          value: event.timestamp,
-          details: 'System timer advancement',
-          state: 'processing',
-          bufferSize: 0,
-          outputBufferSize: 0
-        });
-        break;
-
-      case 'manual_input_injection':
-        // Process manual input
-        if (event.nodeId && event.payload.value !== undefined) {
-          derivedEvents.push({
-            timestamp: event.timestamp,
-            epochTimestamp: event.realTimestamp,
-            sequence: currentState.eventCounter++,
-            nodeId: event.nodeId,
-            action: 'token_injected',
-            value: event.payload.value,
-            details: `Manual injection: ${event.payload.value}`,
-            state: 'receiving',
-            bufferSize: 0,
-            outputBufferSize: 0
-          });
-        }
-        break;
-
-      case 'model_upgrade':
-        // Process model upgrade
-        if (event.payload.modelDefinition) {
-          currentState.scenario = event.payload.modelDefinition;
-          derivedEvents.push({
-            timestamp: event.timestamp,
-            epochTimestamp: event.realTimestamp,
-            sequence: currentState.eventCounter++,
-            nodeId: 'system',
-            action: 'model_upgraded',
-            value: 0,
-            details: 'Model definition upgraded during simulation',
-            state: 'upgrading',
-            bufferSize: 0,
-            outputBufferSize: 0
-          });
-        }
-        break;
-    }
+    const result = await this.engine.replayScenario(scenario, {
+      targetTime,
+      fromStart: options.fromStart,
+      onProgress
+    });
+    const { nodeStates, currentTime, eventCounter, randomState } = result.finalState;
 
     return {
-      newState: { ...currentState, currentTime: event.timestamp },
-      derivedEvents
+      finalState: {
+        scenario: result.finalState.scenario,
+        nodeStates,
+        currentTime,
+        eventCounter,
+        tokens: Object.values(nodeStates).flatMap(heldTokens),
+        randomState
+      },
+      derivedEvents: result.derivedEvents,
+      replayLog: result.replayLog,
+      validation: {
+        isValid: result.validation.isValid,
+        checkedSnapshots: result.validation.checkedSnapshots,
+        errors: result.validation.errors
+      }
     };
   }
 }
@@ -491,27 +411,43 @@ export const replayEngine = new ReplayEngine();
 // UTILITY FUNCTIONS
 // ============================================================================
 
-export function compareScenarioResults(
+/**
+ * A/B test two models against the same recorded external events: replay the
+ * scenario's core events with each model, align the derived activity logs by
+ * time and node and report per-node divergences, the first divergent token and
+ * the KPI deltas (B - A).
+ */
+export async function compareScenarioResults(
   scenarioId: string,
   modelA: Scenario,
   modelB: Scenario
-): Promise<{
-  resultsA: any;
-  resultsB: any;
-  differences: Array<{
-    timestamp: number;
-    field: string;
-    valueA: any;
-    valueB: any;
-  }>;
-}> {
-  // This would replay the same core events with different models
-  // and compare the results for A/B testing
-  return Promise.resolve({
-    resultsA: {},
-    resultsB: {},
-    differences: []
-  });
+): Promise<ScenarioComparisonResult> {
+  const scenario = scenarioManager.loadScenario(scenarioId);
+  if (!scenario) {
+    throw new Error(`Scenario ${scenarioId} not found`);
+  }
+
+  // Both runs share one seed, so random draws only differ where the models do
+  const seed = scenario.seed ?? scenario.initialModel.seed ?? generateSeed();
+
+  const replayWith = async (model: Scenario) => {
+    // Start from t=0 without snapshots or recorded model upgrades: both would
+    // swap the recorded model back in for the one under test
+    const result = await new EnhancedReplayEngine().replayScenario({
+      ...scenario,
+      initialModel: model,
+      seed,
+      coreEvents: scenario.coreEvents.filter(event => event.type !== 'model_upgrade'),
+      snapshots: []
+    });
+    return {
+      derivedEvents: result.derivedEvents,
+      nodes: model.nodes,
+      finalTime: result.finalState.currentTime
+    };
+  };
+
+  return compareRuns(await replayWith(modelA), await replayWith(modelB));
 }
 
 export function validateEventSequence(events: CoreEvent[]): {
@@ -1,26 +1,342 @@
-import { Parser } from "expr-eval";
+/**
+ * Formula Engine
+ *
+ * Formulas are expr-eval expressions. Each distinct formula is parsed once and
+ * cached. On top of expr-eval's built-ins the parser provides string, date and
+ * collection helpers, plus any helper functions registered at runtime.
+ * expr-eval's `random` is replaced by one that draws from the seeded stream
+ * of the simulation evaluating the formula, so seeded runs stay reproducible.
+ *
+ * `checkFormula` resolves a formula's identifiers against the fields its inputs
+ * provide, so broken references are reported at design time instead of on the
+ * tick that evaluates them.
+ */
+import type { RandomSource } from "./random";
+import type { AnyNode, Interface, ProcessNode, Token } from "./types";
+import { type Expression, Parser } from "expr-eval";
+
+type FormulaFunction = (...args: any[]) => any;
 
 const parser = new Parser({
   operators: {
     // By default, expr-eval allows assignment, which we don't want for security/simplicity.
-    // We can add more custom functions if needed.
     assignment: false,
   },
 });
 
-export function evaluateFormula(formula: string, context: Record<string, any>): { value: any; error: string | null } {
+// ============================================================================
+// Built-in helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toTime = (value: unknown): number => {
+  const time = typeof value === "number" ? value : new Date(String(value)).getTime();
+  if (isNaN(time)) throw new Error(`invalid date: ${value}`);
+  return time;
+};
+
+const numbers = (list: unknown): number[] => (Array.isArray(list) ? list : [list]).map(Number);
+
+// The stream random() draws from while withFormulaRandom runs
+let formulaRandom: RandomSource | null = null;
+
+/**
+ * Evaluate formulas with random() drawing from `random`
+ */
+export function withFormulaRandom<T>(random: RandomSource, evaluate: () => T): T {
+  const previous = formulaRandom;
+  formulaRandom = random;
   try {
-    // Sanitize context keys to be valid variable names if necessary
-    // For example, replace dots or hyphens if node IDs contain them
-    // const sanitizedContext = Object.fromEntries(
-    //   Object.entries(context).map(([key, value]) => [key.replace(/[^a-zA-Z0-9_]/g, '_'), value])
-    // );
-    // For now, assuming context keys are simple enough (e.g., inputs.Node_A.value)
-
-    const expr = parser.parse(formula);
-    const result = expr.evaluate(context);
-    return { value: result, error: null };
+    return evaluate();
+  } finally {
+    formulaRandom = previous;
+  }
+}
+
+// Dates are epoch milliseconds; all calendar fields are UTC so runs are reproducible
+const BUILTIN_FUNCTIONS: Record<string, FormulaFunction> = {
+  // Strings
+  str: (value: unknown) => (isPlainObject(value) || Array.isArray(value) ? JSON.stringify(value) : String(value)),
+  num: (value: unknown) => Number(value),
+  upper: (s: string) => String(s).toUpperCase(),
+  lower: (s: string) => String(s).toLowerCase(),
+  trim: (s: string) => String(s).trim(),
+  concat: (...parts: unknown[]) => parts.map(String).join(""),
+  substring: (s: string, start: number, end?: number) => String(s).substring(start, end),
+  replace: (s: string, search: string, replacement: string) => String(s).split(search).join(replacement),
+  split: (s: string, separator: string) => String(s).split(separator),
+  contains: (haystack: unknown, needle: unknown) =>
+    Array.isArray(haystack) ? haystack.includes(needle) : String(haystack).includes(String(needle)),
+  startsWith: (s: string, prefix: string) => String(s).startsWith(prefix),
+  endsWith: (s: string, suffix: string) => String(s).endsWith(suffix),
+
+  // Dates
+  date: toTime,
+  year: (t: unknown) => new Date(toTime(t)).getUTCFullYear(),
+  month: (t: unknown) => new Date(toTime(t)).getUTCMonth() + 1,
+  day: (t: unknown) => new Date(toTime(t)).getUTCDate(),
+  weekday: (t: unknown) => new Date(toTime(t)).getUTCDay(),
+  hour: (t: unknown) => new Date(toTime(t)).getUTCHours(),
+  minute: (t: unknown) => new Date(toTime(t)).getUTCMinutes(),
+  addDays: (t: unknown, days: number) => toTime(t) + days * DAY_MS,
+  diffDays: (a: unknown, b: unknown) => (toTime(a) - toTime(b)) / DAY_MS,
+  formatDate: (t: unknown) => new Date(toTime(t)).toISOString(),
+
+  // Objects and arrays
+  get: (target: unknown, path: string, fallback?: unknown) => {
+    const value = String(path)
+      .split(".")
+      .reduce<any>((current, key) => (current == null ? undefined : current[key]), target);
+    return value === undefined ? fallback : value;
+  },
+  has: (target: unknown, key: string) => isPlainObject(target) && key in target,
+  keys: (target: unknown) => (isPlainObject(target) ? Object.keys(target) : []),
+  size: (target: unknown) =>
+    Array.isArray(target) || typeof target === "string"
+      ? target.length
+      : isPlainObject(target)
+        ? Object.keys(target).length
+        : 0,
+  sum: (list: unknown) => numbers(list).reduce((total, value) => total + value, 0),
+  avg: (list: unknown) => {
+    const values = numbers(list);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+  },
+
+  // Numbers; random(n) is uniform in [0, n), like expr-eval's
+  random: (max?: number) => {
+    if (!formulaRandom) throw new Error("random() is only available while a simulation runs");
+    return formulaRandom.next() * (max || 1);
+  },
+};
+
+const BUILTIN_NAMES = new Set([...Object.keys(parser.functions), ...Object.keys(BUILTIN_FUNCTIONS)]);
+Object.assign(parser.functions, BUILTIN_FUNCTIONS);
+
+// ============================================================================
+// Compilation
+// ============================================================================
+
+export interface CompiledFormula {
+  source: string;
+  /** Root identifiers the formula reads, e.g. "inputA" (functions excluded) */
+  variables: string[];
+  /** Full member paths the formula reads, e.g. "inputA.data.value" */
+  references: string[];
+  evaluate(context: Record<string, any>): { value: any; error: string | null };
+}
+
+const MAX_CACHED_FORMULAS = 500;
+const formulaCache = new Map<string, CompiledFormula>();
+
+/**
+ * Parse a formula, reusing the cached compilation when it was seen before
+ */
+export function compileFormula(formula: string): { compiled: CompiledFormula | null; error: string | null } {
+  const cached = formulaCache.get(formula);
+  if (cached) {
+    // Refresh its position so the cache evicts least recently used formulas
+    formulaCache.delete(formula);
+    formulaCache.set(formula, cached);
+    return { compiled: cached, error: null };
+  }
+
+  let expression: Expression;
+  try {
+    expression = parser.parse(formula);
   } catch (e: any) {
-    return { value: null, error: e.message || "Formula evaluation failed" };
+    return { compiled: null, error: e.message || "Formula parse failed" };
+  }
+
+  const compiled: CompiledFormula = {
+    source: formula,
+    variables: expression.variables(),
+    references: expression.variables({ withMembers: true }),
+    evaluate: context => {
+      try {
+        return { value: expression.evaluate(context), error: null };
+      } catch (e: any) {
+        return { value: null, error: e.message || "Formula evaluation failed" };
+      }
+    },
+  };
+
+  if (formulaCache.size >= MAX_CACHED_FORMULAS) {
+    formulaCache.delete(formulaCache.keys().next().value!);
+  }
+  formulaCache.set(formula, compiled);
+  return { compiled, error: null };
+}
+
+export function evaluateFormula(formula: string, context: Record<string, any>): { value: any; error: string | null } {
+  const { compiled, error } = compileFormula(formula);
+  if (!compiled) return { value: null, error };
+  return compiled.evaluate(context);
+}
+
+/**
+ * Make a helper function callable from every formula. Built-in functions
+ * cannot be replaced.
+ */
+export function registerFormulaFunction(name: string, fn: FormulaFunction): void {
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+    throw new Error(`Invalid formula function name "${name}"`);
+  }
+  if (BUILTIN_NAMES.has(name)) {
+    throw new Error(`Formula function "${name}" is built in and cannot be replaced`);
   }
+  parser.functions[name] = fn;
+  // Cached variable lists exclude function names, so they depend on the registry
+  formulaCache.clear();
+}
+
+export function unregisterFormulaFunction(name: string): void {
+  if (BUILTIN_NAMES.has(name) || !(name in parser.functions)) return;
+  delete parser.functions[name];
+  formulaCache.clear();
+}
+
+export function getFormulaFunctionNames(): string[] {
+  return Object.keys(parser.functions);
+}
+
+// ============================================================================
+// Static checking
+// ============================================================================
+
+/**
+ * The identifiers a formula may use, mapped to the member paths each provides
+ * (e.g. `inputA: ["data.value"]`). `null` accepts any member, for values whose
+ * shape is not declared.
+ */
+export type FormulaSymbols = Record<string, string[] | null>;
+
+export interface FormulaCheckResult {
+  errors: string[];
+  /** Identifiers and member paths that did not resolve */
+  unresolved: string[];
+}
+
+/**
+ * Parse a formula and resolve every identifier it reads against `symbols`.
+ * A member path resolves when it names a provided field, an object above one
+ * (`data` for `data.value`) or a property inside one (structured values).
+ */
+export function checkFormula(formula: string, symbols: FormulaSymbols): FormulaCheckResult {
+  const { compiled, error } = compileFormula(formula);
+  if (!compiled) return { errors: [`syntax error: ${error}`], unresolved: [] };
+
+  const errors: string[] = [];
+  const unresolved: string[] = [];
+
+  compiled.references.forEach(reference => {
+    const [root, ...members] = reference.split(".");
+    if (root in parser.functions) return;
+
+    if (!Object.prototype.hasOwnProperty.call(symbols, root)) {
+      errors.push(`unknown identifier "${root}".`);
+      unresolved.push(root);
+      return;
+    }
+
+    const fields = symbols[root];
+    const member = members.join(".");
+    if (fields === null || member === "") return;
+
+    const resolved = fields.some(
+      field => field === member || field.startsWith(`${member}.`) || member.startsWith(`${field}.`),
+    );
+    if (!resolved) {
+      const available = fields.length > 0 ? fields.join(", ") : "none";
+      errors.push(`"${reference}" is not provided (available fields: ${available}).`);
+      unresolved.push(reference);
+    }
+  });
+
+  return { errors, unresolved };
+}
+
+// ============================================================================
+// ProcessNode formulas
+// ============================================================================
+
+// Fields the engine fills in on every input token, whatever its interface
+export const STANDARD_TOKEN_FIELDS = [
+  "data.value",
+  "data.aggregatedValue",
+  "data.transformedValue",
+  "metadata.timestamp",
+  "metadata.tokenId",
+  "metadata.originNodeId",
+];
+
+// Interface types that do not constrain the token shape
+const UNTYPED_INTERFACES = new Set(["Any"]);
+
+/**
+ * The view of a token a formula sees. Object values are spread into `data`,
+ * so `input.data.temperature` reads a field of a structured token.
+ */
+export function tokenFormulaValue(token: Token): Record<string, any> {
+  return {
+    data: {
+      value: token.value,
+      aggregatedValue: token.value,
+      transformedValue: token.value,
+      ...(isPlainObject(token.value) ? token.value : {}),
+    },
+    metadata: { timestamp: token.createdAt, tokenId: token.id, originNodeId: token.originNodeId },
+  };
+}
+
+/**
+ * Formula context for a ProcessNode firing with one token per input alias:
+ * `inputs.<alias>.value`, `<alias>.data.<field>` and `<alias>Value`
+ */
+export function createProcessNodeFormulaContext(inputTokens: Record<string, Token>): Record<string, any> {
+  const context: Record<string, any> = { inputs: {} };
+  Object.entries(inputTokens).forEach(([alias, token]) => {
+    context.inputs[alias] = { value: token.value };
+    context[alias] = tokenFormulaValue(token);
+    context[`${alias}Value`] = token.value;
+  });
+  return context;
+}
+
+/**
+ * The symbols a ProcessNode's output formulas can resolve. Each input exposes
+ * the standard token fields plus the requiredFields of the interface its
+ * upstream node declares for that connection.
+ */
+export function processNodeFormulaSymbols(node: ProcessNode, nodes: AnyNode[]): FormulaSymbols {
+  const symbols: FormulaSymbols = { inputs: [] };
+
+  node.inputs.forEach(input => {
+    const alias = input.alias || input.nodeId;
+    if (!alias) return;
+
+    const upstream = upstreamInterface(node, input, nodes);
+    symbols.inputs!.push(`${alias}.value`);
+    symbols[alias] = UNTYPED_INTERFACES.has(upstream.type)
+      ? null
+      : [...STANDARD_TOKEN_FIELDS, ...upstream.requiredFields];
+    symbols[`${alias}Value`] = null;
+  });
+
+  return symbols;
+}
+
+// The interface on the upstream output feeding this input, else the input's own
+function upstreamInterface(node: ProcessNode, input: ProcessNode["inputs"][number], nodes: AnyNode[]): Interface {
+  const source = nodes.find(candidate => candidate.nodeId === input.nodeId);
+  const outputs: Array<{ destinationNodeId: string; destinationInputName: string; interface: Interface }> =
+    source && "outputs" in source && Array.isArray(source.outputs) ? source.outputs : [];
+  const connection =
+    outputs.find(output => output.destinationNodeId === node.nodeId && output.destinationInputName === input.name) ??
+    outputs.find(output => output.destinationNodeId === node.nodeId);
+  return connection?.interface ?? input.interface;
 }
@@ -0,0 +1,878 @@
+/**
+ * FSL Parser
+ *
+ * One grammar for FSL (Finite State Language) text, parsed into an AST with
+ * source positions, checked for semantic problems and compiled to an
+ * FSMDefinition; `printFSL` writes an FSMDefinition back as FSL.
+ *
+ *   document   := (state | transition | variable | outputs | invariant)*
+ *   state      := "state" STATE ("[" NAME ("," NAME)* "]")? "{" (on | on_entry | on_exit)* "}"
+ *   on         := "on" TRIGGER ("after" NUMBER)? ("if" EXPR)? ("when" EXPR)? "->" STATE ";"?
+ *   on_entry   := "on_entry" "{" (ACTION "(" ARGS ")" ";"?)* "}"      (on_exit alike)
+ *   transition := NAME STRING ("[" EXPR "]")? "->" STATE (STRING ("[" EXPR "]")? "->" STATE)* ";"
+ *   variable   := "var" NAME "=" VALUE ";"
+ *   outputs    := "outputs" NAME ("," NAME)* ";"
+ *   invariant  := "invariant" NAME "=" EXPR ";"
+ *
+ * The statement form of `transition` is what procedure templates and
+ * FSLGenerator write (`idle 'start' -> running;`). A TRIGGER that is a single
+ * name or string is an event; any other expression is a condition. A STATE is
+ * a name or, for names that are not identifiers, a string (`-> "in review"`).
+ */
+import type { FSMDefinition, FSMInvariant, FSMTransition } from "./types";
+
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number;
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+export interface FSLDiagnostic {
+  severity: "error" | "warning";
+  message: string;
+  span: SourceSpan;
+}
+
+export interface FSLArgument {
+  // Source text, or the unquoted value of a string argument
+  value: string;
+  // Source text, string quotes included
+  text: string;
+  span: SourceSpan;
+}
+
+export interface FSLAction {
+  kind: "action";
+  name: string;
+  args: FSLArgument[];
+  span: SourceSpan;
+}
+
+export interface FSLActionBlock {
+  kind: "on_entry" | "on_exit";
+  actions: FSLAction[];
+  span: SourceSpan;
+}
+
+export interface FSLTransition {
+  kind: "transition";
+  from: string;
+  fromSpan: SourceSpan;
+  trigger: string;
+  condition?: string;
+  guard?: string;
+  after?: number;
+  to: string;
+  toSpan: SourceSpan;
+  span: SourceSpan;
+}
+
+export interface FSLStateDeclaration {
+  kind: "state";
+  name: string;
+  nameSpan: SourceSpan;
+  modifiers: Array<{ name: string; span: SourceSpan }>;
+  body: Array<FSLTransition | FSLActionBlock>;
+  span: SourceSpan;
+}
+
+export interface FSLVariableDeclaration {
+  kind: "variable";
+  name: string;
+  value: any;
+  span: SourceSpan;
+}
+
+export interface FSLOutputsDeclaration {
+  kind: "outputs";
+  names: string[];
+  span: SourceSpan;
+}
+
+export interface FSLInvariantDeclaration {
+  kind: "invariant";
+  name: string;
+  formula: string;
+  span: SourceSpan;
+}
+
+export type FSLStatement =
+  | FSLStateDeclaration
+  | FSLTransition
+  | FSLVariableDeclaration
+  | FSLOutputsDeclaration
+  | FSLInvariantDeclaration;
+
+export interface FSLDocument {
+  statements: FSLStatement[];
+  span: SourceSpan;
+}
+
+export interface FSLParseResult {
+  document: FSLDocument;
+  diagnostics: FSLDiagnostic[];
+}
+
+export interface FSLCompileResult extends FSLParseResult {
+  // Best effort, also when there are errors
+  definition: FSMDefinition;
+}
+
+type TokenKind = "name" | "string" | "number" | "arrow" | "punct" | "operator" | "eof";
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  // Unquoted value of a string token
+  value: string;
+  span: SourceSpan;
+}
+
+const KNOWN_MODIFIERS = ["initial", "final"];
+const KEYWORDS = ["state", "on", "on_entry", "on_exit", "after", "if", "when", "var", "outputs", "invariant"];
+const NAME_PATTERN = /^[A-Za-z_]\w*$/;
+const PUNCTUATION = "{}[](),;";
+const ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+const OPERATORS = [">=", "<=", "==", "!=", "&&", "||", ">", "<", "+", "-", "*", "/", "%", "!", ".", "=", "?", ":"];
+
+/**
+ * Split FSL text into tokens; comments (`//` and `/* *\/`) and whitespace are skipped
+ */
+function tokenize(source: string, diagnostics: FSLDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): SourcePosition => ({ line, column, offset });
+  const advance = (count: number) => {
+    for (let i = 0; i < count && offset < source.length; i++) {
+      if (source[offset] === "\n") {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+  const push = (kind: TokenKind, start: SourcePosition, value?: string) => {
+    const text = source.slice(start.offset, offset);
+    tokens.push({ kind, text, value: value ?? text, span: { start, end: position() } });
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+    const rest = source.slice(offset);
+    const start = position();
+
+    if (/\s/.test(char)) {
+      advance(1);
+    } else if (rest.startsWith("//")) {
+      const end = source.indexOf("\n", offset);
+      advance((end < 0 ? source.length : end) - offset);
+    } else if (rest.startsWith("/*")) {
+      const end = source.indexOf("*/", offset + 2);
+      if (end < 0) {
+        advance(source.length - offset);
+        diagnostics.push({ severity: "error", message: "Unterminated comment", span: { start, end: position() } });
+      } else {
+        advance(end + 2 - offset);
+      }
+    } else if (/[A-Za-z_]/.test(char)) {
+      advance(rest.match(/^\w+/)![0].length);
+      push("name", start);
+    } else if (/\d/.test(char)) {
+      advance(rest.match(/^\d+(\.\d+)?/)![0].length);
+      push("number", start);
+    } else if (char === "'" || char === '"') {
+      let value = "";
+      advance(1);
+      while (offset < source.length && source[offset] !== char && source[offset] !== "\n") {
+        if (source[offset] === "\\" && offset + 1 < source.length) {
+          const escaped = source[offset + 1];
+          const unicode = escaped === "u" ? source.slice(offset + 2, offset + 6) : "";
+          if (/^[0-9A-Fa-f]{4}$/.test(unicode)) {
+            value += String.fromCharCode(parseInt(unicode, 16));
+            advance(6);
+          } else {
+            value += ESCAPES[escaped] ?? escaped;
+            advance(2);
+          }
+        } else {
+          value += source[offset];
+          advance(1);
+        }
+      }
+      if (source[offset] === char) {
+        advance(1);
+      } else {
+        diagnostics.push({ severity: "error", message: "Unterminated string", span: { start, end: position() } });
+      }
+      push("string", start, value);
+    } else if (rest.startsWith("->")) {
+      advance(2);
+      push("arrow", start);
+    } else if (PUNCTUATION.includes(char)) {
+      advance(1);
+      push("punct", start);
+    } else {
+      const operator = OPERATORS.find(candidate => rest.startsWith(candidate));
+      advance(operator ? operator.length : 1);
+      if (operator) {
+        push("operator", start);
+      } else {
+        diagnostics.push({
+          severity: "error",
+          message: `Unexpected character '${char}'`,
+          span: { start, end: position() },
+        });
+      }
+    }
+  }
+
+  const end = position();
+  tokens.push({ kind: "eof", text: "", value: "", span: { start: end, end } });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private source: string,
+    private tokens: Token[],
+    private diagnostics: FSLDiagnostic[],
+  ) {}
+
+  parseDocument(): FSLDocument {
+    const statements: FSLStatement[] = [];
+    while (!this.at("eof")) {
+      const statement = this.parseStatement();
+      if (statement) statements.push(...statement);
+    }
+    return { statements, span: this.spanFrom(this.tokens[0]) };
+  }
+
+  private parseStatement(): FSLStatement[] | null {
+    const token = this.peek();
+    if (this.atName("state")) return [this.parseState()];
+    if (this.atName("var")) return this.parseVariable();
+    if (this.atName("outputs")) return this.parseOutputs();
+    if (this.atName("invariant")) return this.parseInvariant();
+    if (token.kind === "name" && this.peek(1).kind === "string") return this.parseTransitionChain();
+
+    this.error(`Expected 'state', 'var', 'outputs', 'invariant' or a transition, found ${describe(token)}`, token.span);
+    this.recover([";", "}"]);
+    return null;
+  }
+
+  private parseState(): FSLStateDeclaration {
+    const keyword = this.next();
+    const name = this.expectStateName("state name");
+    const modifiers: FSLStateDeclaration["modifiers"] = [];
+    if (this.atPunct("[")) {
+      this.next();
+      do {
+        const modifier = this.expectName("state modifier");
+        if (modifier) modifiers.push({ name: modifier.text, span: modifier.span });
+      } while (this.acceptPunct(","));
+      this.expectPunct("]");
+    }
+
+    const body: FSLStateDeclaration["body"] = [];
+    if (this.expectPunct("{")) {
+      while (!this.atPunct("}") && !this.at("eof")) {
+        if (this.atName("on")) {
+          const transition = this.parseOn(name?.value ?? "", name?.span ?? keyword.span);
+          if (transition) body.push(transition);
+        } else if (this.atName("on_entry") || this.atName("on_exit")) {
+          body.push(this.parseActionBlock());
+        } else if (this.atName("state")) {
+          // A missing closing brace; let the next declaration start
+          break;
+        } else {
+          const token = this.next();
+          this.error(`Expected 'on', 'on_entry' or 'on_exit', found ${describe(token)}`, token.span);
+        }
+      }
+      this.expectPunct("}");
+    }
+
+    return {
+      kind: "state",
+      name: name?.value ?? "",
+      nameSpan: name?.span ?? keyword.span,
+      modifiers,
+      body,
+      span: this.spanFrom(keyword),
+    };
+  }
+
+  private parseOn(from: string, fromSpan: SourceSpan): FSLTransition | null {
+    const keyword = this.next();
+    // The clauses end at '->', so a ';' in them belongs to the expression
+    const trigger = this.collectUntil(
+      token => isName(token, "after") || isName(token, "if") || isName(token, "when") || token.kind === "arrow",
+      false,
+    );
+    if (trigger.length === 0) {
+      this.error("Expected a trigger after 'on'", this.peek().span);
+    }
+
+    const transition: FSLTransition = {
+      kind: "transition",
+      from,
+      fromSpan,
+      trigger: "",
+      to: "",
+      toSpan: keyword.span,
+      span: keyword.span,
+    };
+    if (trigger.length === 1 && (trigger[0].kind === "name" || trigger[0].kind === "string")) {
+      transition.trigger = trigger[0].value;
+    } else if (trigger.length > 0) {
+      transition.trigger = "condition";
+      transition.condition = this.textOf(trigger);
+    }
+
+    if (this.atName("after")) {
+      this.next();
+      const delay = this.expect("number", "a delay after 'after'");
+      if (delay) transition.after = Number(delay.text);
+    }
+    if (this.atName("if")) {
+      const clause = this.next();
+      const condition = this.collectUntil(token => isName(token, "when") || token.kind === "arrow", false);
+      if (transition.condition !== undefined) {
+        this.error("A condition trigger cannot have an 'if' clause", clause.span);
+      } else if (condition.length === 0) {
+        this.error("Expected a condition after 'if'", this.peek().span);
+      } else {
+        transition.condition = this.textOf(condition);
+      }
+    }
+    if (this.atName("when")) {
+      this.next();
+      const guard = this.collectUntil(token => token.kind === "arrow", false);
+      if (guard.length === 0) this.error("Expected a guard after 'when'", this.peek().span);
+      else transition.guard = this.textOf(guard);
+    }
+
+    if (!this.expect("arrow", "'->'")) {
+      this.recover([";", "}"], false);
+      return null;
+    }
+    const to = this.expectStateName("target state");
+    this.acceptPunct(";");
+    if (!to) return null;
+
+    transition.to = to.value;
+    transition.toSpan = to.span;
+    transition.span = this.spanFrom(keyword);
+    return transition;
+  }
+
+  private parseActionBlock(): FSLActionBlock {
+    const keyword = this.next();
+    const actions: FSLAction[] = [];
+    if (this.expectPunct("{")) {
+      while (!this.atPunct("}") && !this.at("eof")) {
+        const name = this.expectName("action");
+        if (!name) {
+          this.recover([";", "}"], false);
+          this.acceptPunct(";");
+          continue;
+        }
+        const args: FSLArgument[] = [];
+        if (this.expectPunct("(")) {
+          while (!this.atPunct(")") && !this.at("eof")) {
+            const arg = this.collectUntil(
+              token => token.kind === "punct" && (token.text === "," || token.text === ")"),
+              false,
+            );
+            if (arg.length === 0) {
+              this.error("Expected an argument", this.peek().span);
+            } else {
+              args.push({
+                value: arg.length === 1 && arg[0].kind === "string" ? arg[0].value : this.textOf(arg),
+                text: this.textOf(arg),
+                span: { start: arg[0].span.start, end: arg[arg.length - 1].span.end },
+              });
+            }
+            if (!this.acceptPunct(",")) break;
+          }
+          this.expectPunct(")");
+        }
+        actions.push({ kind: "action", name: name.text, args, span: this.spanFrom(name) });
+        this.acceptPunct(";");
+      }
+      this.expectPunct("}");
+    }
+    return { kind: keyword.text as FSLActionBlock["kind"], actions, span: this.spanFrom(keyword) };
+  }
+
+  private parseTransitionChain(): FSLTransition[] {
+    const transitions: FSLTransition[] = [];
+    let from = this.next();
+    let failed = false;
+
+    while (this.peek().kind === "string") {
+      const event = this.next();
+      let condition: string | undefined;
+      if (this.acceptPunct("[")) {
+        const tokens = this.collectUntil(token => isPunct(token, "]"));
+        condition = tokens.length > 0 ? this.textOf(tokens) : undefined;
+        this.expectPunct("]");
+      }
+      const to = this.expect("arrow", "'->'") && this.expectStateName("target state");
+      if (!to) {
+        failed = true;
+        break;
+      }
+
+      transitions.push({
+        kind: "transition",
+        from: from.value,
+        fromSpan: from.span,
+        trigger: event.value,
+        ...(condition !== undefined && { condition }),
+        to: to.value,
+        toSpan: to.span,
+        span: this.spanFrom(from),
+      });
+      from = to;
+    }
+
+    if (!this.acceptPunct(";")) {
+      if (!failed) this.error(`Expected ';', found ${describe(this.peek())}`, this.peek().span);
+      this.recover([";", "}"]);
+    }
+    return transitions;
+  }
+
+  private parseVariable(): FSLVariableDeclaration[] {
+    const keyword = this.next();
+    const name = this.expectName("variable name");
+    if (!name || !this.expectOperator("=")) {
+      this.recover([";"]);
+      return [];
+    }
+
+    const tokens = this.collectUntil(token => isPunct(token, ";"));
+    this.expectPunct(";");
+    let value: any;
+    if (tokens.length === 1 && tokens[0].kind === "string") {
+      value = tokens[0].value;
+    } else {
+      try {
+        value = JSON.parse(this.textOf(tokens));
+      } catch {
+        this.error(`Invalid value for variable '${name.text}'`, tokens[0]?.span ?? name.span);
+        return [];
+      }
+    }
+    return [{ kind: "variable", name: name.text, value, span: this.spanFrom(keyword) }];
+  }
+
+  private parseOutputs(): FSLOutputsDeclaration[] {
+    const keyword = this.next();
+    const names: string[] = [];
+    do {
+      const name = this.expectName("output name");
+      if (name) names.push(name.text);
+    } while (this.acceptPunct(","));
+    if (!this.acceptPunct(";")) {
+      this.error(`Expected ';', found ${describe(this.peek())}`, this.peek().span);
+      this.recover([";", "}"]);
+    }
+    return [{ kind: "outputs", names, span: this.spanFrom(keyword) }];
+  }
+
+  private parseInvariant(): FSLInvariantDeclaration[] {
+    const keyword = this.next();
+    const name = this.expectName("invariant name");
+    if (!name || !this.expectOperator("=")) {
+      this.recover([";"]);
+      return [];
+    }
+
+    const formula = this.collectUntil(token => isPunct(token, ";"));
+    this.expectPunct(";");
+    if (formula.length === 0) {
+      this.error(`Expected a formula for invariant '${name.text}'`, name.span);
+      return [];
+    }
+    return [{ kind: "invariant", name: name.text, formula: this.textOf(formula), span: this.spanFrom(keyword) }];
+  }
+
+  // Tokens up to (not including) a stop token, keeping brackets balanced
+  private collectUntil(stop: (token: Token) => boolean, stopAtSemicolon = true): Token[] {
+    const collected: Token[] = [];
+    let depth = 0;
+    while (!this.at("eof")) {
+      const token = this.peek();
+      if (depth === 0 && (stop(token) || isPunct(token, "}") || (stopAtSemicolon && isPunct(token, ";")))) break;
+      if (isPunct(token, "(") || isPunct(token, "[")) depth++;
+      if (isPunct(token, ")") || isPunct(token, "]")) depth--;
+      collected.push(this.next());
+    }
+    return collected;
+  }
+
+  private textOf(tokens: Token[]): string {
+    return this.source.slice(tokens[0].span.start.offset, tokens[tokens.length - 1].span.end.offset).trim();
+  }
+
+  // Skip to just past the next stop punctuation (or up to it when `consume` is false)
+  private recover(stops: string[], consume = true): void {
+    while (!this.at("eof")) {
+      const token = this.peek();
+      if (token.kind === "punct" && stops.includes(token.text)) {
+        if (consume) this.next();
+        return;
+      }
+      if (isName(token, "state")) return;
+      this.next();
+    }
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== "eof") this.index++;
+    return token;
+  }
+
+  private at(kind: TokenKind): boolean {
+    return this.peek().kind === kind;
+  }
+
+  private atName(text: string): boolean {
+    return isName(this.peek(), text);
+  }
+
+  private atPunct(text: string): boolean {
+    return isPunct(this.peek(), text);
+  }
+
+  private acceptPunct(text: string): boolean {
+    if (!this.atPunct(text)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(kind: TokenKind, description: string): Token | null {
+    if (this.at(kind)) return this.next();
+    this.error(`Expected ${description}, found ${describe(this.peek())}`, this.peek().span);
+    return null;
+  }
+
+  private expectPunct(text: string): boolean {
+    if (this.acceptPunct(text)) return true;
+    this.error(`Expected '${text}', found ${describe(this.peek())}`, this.peek().span);
+    return false;
+  }
+
+  private expectOperator(text: string): boolean {
+    if (this.peek().kind === "operator" && this.peek().text === text) {
+      this.next();
+      return true;
+    }
+    this.error(`Expected '${text}', found ${describe(this.peek())}`, this.peek().span);
+    return false;
+  }
+
+  private expectName(description: string): Token | null {
+    const token = this.peek();
+    if (token.kind === "name" && !KEYWORDS.includes(token.text)) return this.next();
+    this.error(`Expected ${description}, found ${describe(token)}`, token.span);
+    return null;
+  }
+
+  // A state name, quoted when it is not an identifier
+  private expectStateName(description: string): Token | null {
+    if (this.at("string")) return this.next();
+    return this.expectName(description);
+  }
+
+  private spanFrom(first: Token): SourceSpan {
+    const last = this.tokens[Math.max(this.index - 1, 0)];
+    return {
+      start: first.span.start,
+      end: last.span.end.offset >= first.span.start.offset ? last.span.end : first.span.end,
+    };
+  }
+
+  private error(message: string, span: SourceSpan): void {
+    this.diagnostics.push({ severity: "error", message, span });
+  }
+}
+
+const isName = (token: Token, text: string) => token.kind === "name" && token.text === text;
+const isPunct = (token: Token, text: string) => token.kind === "punct" && token.text === text;
+const describe = (token: Token) => (token.kind === "eof" ? "end of input" : `'${token.text}'`);
+const at = (span: SourceSpan) => `${span.start.line}:${span.start.column}`;
+
+/**
+ * Parse FSL text into an AST; only syntax errors are reported
+ */
+export function parseFSL(source: string): FSLParseResult {
+  const diagnostics: FSLDiagnostic[] = [];
+  const tokens = tokenize(source, diagnostics);
+  const document = new Parser(source, tokens, diagnostics).parseDocument();
+  return { document, diagnostics };
+}
+
+/**
+ * Parse FSL text, check it and build the FSMDefinition it describes.
+ * Reports unknown states, unreachable states and duplicate transitions on top
+ * of syntax errors.
+ */
+export function compileFSL(source: string): FSLCompileResult {
+  const { document, diagnostics } = parseFSL(source);
+  const declarations = document.statements.filter(
+    (statement): statement is FSLStateDeclaration => statement.kind === "state",
+  );
+  const transitions = document.statements.flatMap(statement =>
+    statement.kind === "transition"
+      ? [statement]
+      : statement.kind === "state"
+        ? statement.body.filter((item): item is FSLTransition => item.kind === "transition")
+        : [],
+  );
+
+  // States in order of declaration, then of first reference
+  const declared = new Map<string, FSLStateDeclaration>();
+  declarations.forEach(declaration => {
+    if (!declaration.name) return;
+    if (declared.has(declaration.name)) {
+      diagnostics.push({
+        severity: "error",
+        message: `State '${declaration.name}' is already declared at ${at(declared.get(declaration.name)!.nameSpan)}`,
+        span: declaration.nameSpan,
+      });
+      return;
+    }
+    declared.set(declaration.name, declaration);
+  });
+  const states = Array.from(declared.keys());
+  const firstReference = new Map<string, SourceSpan>();
+  transitions.forEach(transition => {
+    for (const [name, span] of [
+      [transition.from, transition.fromSpan],
+      [transition.to, transition.toSpan],
+    ] as const) {
+      if (!name || declared.has(name)) continue;
+      if (declarations.length > 0) {
+        diagnostics.push({ severity: "error", message: `Unknown state '${name}'`, span });
+      }
+      if (!firstReference.has(name)) {
+        firstReference.set(name, span);
+        states.push(name);
+      }
+    }
+  });
+
+  const initialDeclarations = declarations.filter(declaration =>
+    declaration.modifiers.some(modifier => modifier.name === "initial"),
+  );
+  initialDeclarations.slice(1).forEach(declaration =>
+    diagnostics.push({
+      severity: "error",
+      message: `State '${declaration.name}' is marked initial, but so is '${initialDeclarations[0].name}'`,
+      span: declaration.nameSpan,
+    }),
+  );
+  declarations.forEach(declaration =>
+    declaration.modifiers
+      .filter(modifier => !KNOWN_MODIFIERS.includes(modifier.name))
+      .forEach(modifier =>
+        diagnostics.push({
+          severity: "warning",
+          message: `Unknown state modifier '${modifier.name}'`,
+          span: modifier.span,
+        }),
+      ),
+  );
+  const initialState = initialDeclarations[0]?.name ?? states[0] ?? "";
+
+  const seen = new Map<string, FSLTransition>();
+  transitions.forEach(transition => {
+    const key = JSON.stringify([transition.from, transition.trigger, transition.condition, transition.guard]);
+    const first = seen.get(key);
+    if (first) {
+      const on = transition.condition !== undefined ? `'${transition.condition}'` : `'${transition.trigger}'`;
+      diagnostics.push({
+        severity: "error",
+        message: `Duplicate transition from '${transition.from}' on ${on} (first defined at ${at(first.span)})`,
+        span: transition.span,
+      });
+    } else {
+      seen.set(key, transition);
+    }
+  });
+
+  const reachable = new Set<string>(initialState ? [initialState] : []);
+  const pending = [...reachable];
+  while (pending.length > 0) {
+    const state = pending.pop()!;
+    transitions
+      .filter(transition => transition.from === state && !reachable.has(transition.to))
+      .forEach(transition => {
+        reachable.add(transition.to);
+        pending.push(transition.to);
+      });
+  }
+  states
+    .filter(state => !reachable.has(state))
+    .forEach(state =>
+      diagnostics.push({
+        severity: "warning",
+        message: `State '${state}' is unreachable from '${initialState}'`,
+        span: declared.get(state)?.nameSpan ?? firstReference.get(state)!,
+      }),
+    );
+
+  const stateActions: FSMDefinition["stateActions"] = {};
+  declarations.forEach(declaration =>
+    declaration.body.forEach(item => {
+      if (item.kind === "transition") return;
+      item.actions.forEach(action => {
+        const actions = (stateActions[declaration.name] ??= {});
+        if (action.name === "emit" && action.args.length === 2) {
+          // The formula keeps its quotes: emit(out, 'approved') emits a string
+          const [output, formula] = [action.args[0].value, action.args[1].text];
+          const field = item.kind === "on_entry" ? "onEntry" : "onExit";
+          actions[field] = { ...actions[field], [output]: formula };
+        } else if (action.name === "log" && action.args.length === 1 && item.kind === "on_entry") {
+          actions.logs = [...(actions.logs ?? []), action.args[0].value];
+        } else if (action.name === "emit" || action.name === "log") {
+          diagnostics.push({
+            severity: "error",
+            message:
+              action.name === "emit"
+                ? "emit takes an output name and a formula"
+                : "log takes one message and only runs on_entry",
+            span: action.span,
+          });
+        } else {
+          diagnostics.push({
+            severity: "warning",
+            message: `Unknown action '${action.name}' is ignored; supported actions are emit and log`,
+            span: action.span,
+          });
+        }
+      });
+      if (stateActions[declaration.name] && Object.keys(stateActions[declaration.name]).length === 0) {
+        delete stateActions[declaration.name];
+      }
+    }),
+  );
+
+  const variables: Record<string, any> = {};
+  let outputs: string[] | undefined;
+  const invariants: FSMInvariant[] = [];
+  document.statements.forEach(statement => {
+    if (statement.kind === "variable") variables[statement.name] = statement.value;
+    if (statement.kind === "outputs") outputs = [...(outputs ?? []), ...statement.names];
+    if (statement.kind === "invariant") invariants.push({ name: statement.name, formula: statement.formula });
+  });
+  const finalStates = declarations
+    .filter(declaration => declaration.modifiers.some(modifier => modifier.name === "final"))
+    .map(declaration => declaration.name);
+
+  const definition: FSMDefinition = {
+    states,
+    initialState,
+    transitions: transitions.map(transition => {
+      const compiled: FSMTransition = { from: transition.from, to: transition.to, trigger: transition.trigger };
+      if (transition.condition !== undefined) compiled.condition = transition.condition;
+      if (transition.guard !== undefined) compiled.guard = transition.guard;
+      if (transition.after !== undefined) compiled.after = transition.after;
+      return compiled;
+    }),
+  };
+  if (Object.keys(variables).length > 0) definition.variables = variables;
+  if (Object.keys(stateActions).length > 0) definition.stateActions = stateActions;
+  if (outputs) definition.outputs = outputs;
+  if (finalStates.length > 0) definition.finalStates = finalStates;
+  if (invariants.length > 0) definition.invariants = invariants;
+
+  diagnostics.sort((a, b) => a.span.start.offset - b.span.start.offset);
+  return { document, diagnostics, definition };
+}
+
+const printName = (name: string) => (NAME_PATTERN.test(name) && !KEYWORDS.includes(name) ? name : JSON.stringify(name));
+
+function printTrigger(transition: FSMTransition): string {
+  const after = transition.after !== undefined ? ` after ${transition.after}` : "";
+  if (transition.trigger === "condition" && transition.condition !== undefined) {
+    // A lone name would read back as an event
+    return NAME_PATTERN.test(transition.condition.trim())
+      ? `condition${after} if ${transition.condition}`
+      : `${transition.condition}${after}`;
+  }
+  const condition = transition.condition !== undefined ? ` if ${transition.condition}` : "";
+  return `${printName(transition.trigger)}${after}${condition}`;
+}
+
+/**
+ * Write an FSMDefinition as FSL in the block form. compileFSL reads it back to
+ * the same definition, with transitions grouped by source state.
+ */
+export function printFSL(definition: FSMDefinition): string {
+  const header: string[] = [];
+  Object.entries(definition.variables ?? {}).forEach(([name, value]) =>
+    header.push(`var ${name} = ${JSON.stringify(value)};`),
+  );
+  if (definition.outputs && definition.outputs.length > 0) {
+    header.push(`outputs ${definition.outputs.join(", ")};`);
+  }
+  (definition.invariants ?? []).forEach(invariant =>
+    header.push(`invariant ${invariant.name} = ${invariant.formula};`),
+  );
+
+  const blocks = definition.states.map(state => {
+    const lines: string[] = [];
+    const actions = definition.stateActions?.[state];
+    Object.entries(actions?.onEntry ?? {}).forEach(([output, formula]) =>
+      lines.push(`  on_entry { emit(${printName(output)}, ${formula}) }`),
+    );
+    (actions?.logs ?? []).forEach(message => lines.push(`  on_entry { log(${JSON.stringify(message)}) }`));
+    Object.entries(actions?.onExit ?? {}).forEach(([output, formula]) =>
+      lines.push(`  on_exit { emit(${printName(output)}, ${formula}) }`),
+    );
+    definition.transitions
+      .filter(transition => transition.from === state)
+      .forEach(transition => {
+        const guard = transition.guard !== undefined ? ` when ${transition.guard}` : "";
+        lines.push(`  on ${printTrigger(transition)}${guard} -> ${printName(transition.to)}`);
+      });
+
+    const modifiers = [
+      ...(state === definition.initialState ? ["initial"] : []),
+      ...(definition.finalStates?.includes(state) ? ["final"] : []),
+    ];
+    const modifier = modifiers.length > 0 ? ` [${modifiers.join(", ")}]` : "";
+    const name = printName(state);
+    return lines.length > 0 ? `state ${name}${modifier} {\n${lines.join("\n")}\n}` : `state ${name}${modifier} {}`;
+  });
+
+  return [...(header.length > 0 ? [header.join("\n")] : []), ...blocks].join("\n\n");
+}
+
+/**
+ * "line:column severity message", for logs and plain-text views
+ */
+export function formatFSLDiagnostic(diagnostic: FSLDiagnostic): string {
+  return `${at(diagnostic.span)} ${diagnostic.severity}: ${diagnostic.message}`;
+}
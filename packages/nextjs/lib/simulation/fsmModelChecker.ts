@@ -0,0 +1,629 @@
+/**
+ * FSM Model Checker
+ *
+ * Explores every configuration a machine can reach and reports what would go
+ * wrong at run time: states no run reaches, states the machine can get stuck
+ * in without being final, transitions that can be enabled together on the
+ * same trigger, and invariants some run violates. Findings that depend on a
+ * run come with the shortest trace that leads there.
+ *
+ * The environment may send any event at any time and timers always expire.
+ * Guards are evaluated against the machine variables; a guard that reads
+ * anything else (a token, a message payload) may go either way. Variable
+ * updates of Enhanced FSM actions are applied, so counters and flags narrow
+ * what is reachable.
+ *
+ * Invariants are formulas over the same context as the machine's guards, plus
+ * `state` (the first active atomic state), `active.<state>` and
+ * `visited.<state>`, which is true once a run has entered the state. "Never
+ * reach settled before approved" reads `not active.settled or visited.approved`.
+ */
+import type { EnhancedFSMAction, EnhancedFSMDefinition } from "./enhanced-fsm-types";
+import { compileFormula } from "./formulaEngine";
+import { compileFSL } from "./fslParser";
+import { Statechart, type StatechartConfiguration } from "./statechart";
+import type { FSMDefinition, FSMInvariant } from "./types";
+
+export type ModelCheckFindingKind = "unreachable" | "deadlock" | "nondeterminism" | "invariant" | "incomplete";
+
+export interface ModelCheckStep {
+  states: string[]; // active atomic states
+  variables: Record<string, any>;
+  transition?: string; // the transition taken into this step
+}
+
+export interface ModelCheckFinding {
+  kind: ModelCheckFindingKind;
+  severity: "error" | "warning";
+  message: string;
+  states: string[];
+  trace?: ModelCheckStep[]; // from the initial configuration to the offending one
+}
+
+export interface ModelCheckReport {
+  findings: ModelCheckFinding[];
+  reachableStates: string[];
+  configurations: number; // distinct configurations explored
+  complete: boolean; // false when exploration stopped at maxConfigurations
+}
+
+export interface ModelCheckOptions {
+  invariants?: FSMInvariant[]; // checked besides the machine's own
+  maxConfigurations?: number;
+}
+
+const DEFAULT_MAX_CONFIGURATIONS = 10000;
+
+interface VariableUpdate {
+  variable: string;
+  operation: "set" | "increment" | "append";
+  value: any;
+  condition?: string;
+}
+
+interface CheckedTransition {
+  from: string;
+  to: string;
+  trigger: string; // transitions compete when they share a source and a trigger
+  label: string;
+  guards: string[];
+  updates: VariableUpdate[];
+}
+
+interface CheckedMachine {
+  chart: Statechart;
+  states: string[];
+  finalStates: string[];
+  transitions: CheckedTransition[];
+  variables: Record<string, any>;
+  invariants: FSMInvariant[];
+  entryUpdates: Record<string, VariableUpdate[]>;
+  exitUpdates: Record<string, VariableUpdate[]>;
+  // The context the engine evaluates guards in
+  context: (variables: Record<string, any>, leaves: string[]) => Record<string, any>;
+}
+
+interface Explored {
+  configuration: StatechartConfiguration;
+  variables: Record<string, any>;
+  visited: string[];
+  parent?: string;
+  transition?: string;
+}
+
+/**
+ * Check an FSMProcessNode definition
+ */
+export function checkFSM(fsm: FSMDefinition, options: ModelCheckOptions = {}): ModelCheckReport {
+  return check(fsmMachine(fsm), options);
+}
+
+/**
+ * Check an EnhancedFSMProcessNode definition
+ */
+export function checkEnhancedFSM(fsm: EnhancedFSMDefinition, options: ModelCheckOptions = {}): ModelCheckReport {
+  return check(enhancedMachine(fsm), options);
+}
+
+/**
+ * Check FSL text, such as a procedure template's. Statements with syntax
+ * errors are left out, as compileFSL leaves them out.
+ */
+export function checkFSL(source: string, options: ModelCheckOptions = {}): ModelCheckReport {
+  return checkFSM(compileFSL(source).definition, options);
+}
+
+// ============================================================================
+// Machines
+// ============================================================================
+
+// Every state but history pseudo-states, in document order
+const declaredStates = (chart: Statechart): string[] => {
+  const walk = (state?: string): string[] => chart.getChildren(state).flatMap(child => [child, ...walk(child)]);
+  return walk().filter(state => chart.getKind(state) !== "history");
+};
+
+const presentGuards = (...guards: Array<string | undefined>) => guards.filter(guard => guard?.trim());
+
+function fsmMachine(fsm: FSMDefinition): CheckedMachine {
+  const chart = Statechart.fromFSMDefinition(fsm);
+  // Older scenarios list states as objects with a name and an isFinal flag
+  const finalObjects = (fsm.states || [])
+    .filter((state: any) => typeof state === "object" && state?.isFinal)
+    .map((state: any) => state.name);
+
+  return {
+    chart,
+    states: declaredStates(chart),
+    finalStates: [...(fsm.finalStates || []), ...finalObjects],
+    transitions: (fsm.transitions || []).map(transition => {
+      const trigger =
+        transition.after !== undefined ? `${transition.trigger} after ${transition.after}` : transition.trigger;
+      return {
+        from: transition.from,
+        to: transition.to,
+        trigger,
+        label: `${transition.from} → ${transition.to} on ${trigger}`,
+        guards: presentGuards(transition.condition, transition.guard),
+        updates: [],
+      };
+    }),
+    variables: { ...(fsm.variables || {}) },
+    invariants: fsm.invariants || [],
+    entryUpdates: {},
+    exitUpdates: {},
+    context: variables => ({ ...variables }),
+  };
+}
+
+const variableUpdates = (actions: EnhancedFSMAction[] = []): VariableUpdate[] =>
+  actions
+    .filter(action => action.enabled !== false)
+    .flatMap(action =>
+      action.outputs.flatMap(output =>
+        output.type.outputType === "variable"
+          ? [
+              {
+                variable: output.type.variableName,
+                operation: output.type.operation ?? "set",
+                value: output.type.value,
+                condition: output.condition,
+              },
+            ]
+          : [],
+      ),
+    );
+
+function enhancedMachine(fsm: EnhancedFSMDefinition): CheckedMachine {
+  const chart = Statechart.fromEnhancedFSMDefinition(
+    fsm,
+    fsm.initialState || fsm.states.find(state => state.type === "initial")?.id,
+  );
+  const stateUpdates = (trigger: "onEntry" | "onExit") =>
+    Object.fromEntries(
+      fsm.states.map(state => [state.id, variableUpdates(state.actions?.filter(action => action.trigger === trigger))]),
+    );
+
+  return {
+    chart,
+    states: declaredStates(chart),
+    finalStates: fsm.states.filter(state => state.type === "final").map(state => state.id),
+    transitions: fsm.transitions.map(transition => {
+      const { trigger } = transition;
+      const on =
+        trigger.type === "message"
+          ? `message ${trigger.messageType}`
+          : trigger.type === "event"
+            ? `event ${trigger.eventType}`
+            : trigger.type === "timer"
+              ? `timer ${trigger.timeout}`
+              : trigger.type;
+      return {
+        from: transition.from,
+        to: transition.to,
+        trigger: on,
+        label: `${transition.from} → ${transition.to} on ${on}`,
+        guards: presentGuards("condition" in trigger ? trigger.condition : undefined, transition.guard),
+        updates: variableUpdates(transition.actions),
+      };
+    }),
+    variables: { ...(fsm.variables || {}) },
+    invariants: fsm.invariants || [],
+    entryUpdates: stateUpdates("onEntry"),
+    exitUpdates: stateUpdates("onExit"),
+    // Variables named "state.x" are the engine's state variables
+    context: (variables, leaves) => {
+      const global: Record<string, any> = {};
+      const local: Record<string, any> = {};
+      Object.entries(variables).forEach(([name, value]) => {
+        if (name.startsWith("state.")) local[name.slice("state.".length)] = value;
+        else global[name] = value;
+      });
+      return { variables: global, stateVariables: local, currentState: leaves[0] };
+    },
+  };
+}
+
+// ============================================================================
+// Exploration
+// ============================================================================
+
+/**
+ * True or false when a formula evaluates; undefined when it reads something
+ * the checker cannot see
+ */
+function decide(formula: string, context: Record<string, any>): boolean | undefined {
+  const { compiled } = compileFormula(formula);
+  if (!compiled) return undefined;
+  const { value, error } = compiled.evaluate(context);
+  return error ? undefined : Boolean(value);
+}
+
+function decideAll(guards: string[], context: Record<string, any>): boolean | undefined {
+  const verdicts = guards.map(guard => decide(guard, context));
+  if (verdicts.includes(false)) return false;
+  return verdicts.includes(undefined) ? undefined : true;
+}
+
+function updatedValue(current: any, update: VariableUpdate): any {
+  if (update.operation === "increment") return (current || 0) + (Number(update.value) || 1);
+  if (update.operation === "append") return [...(Array.isArray(current) ? current : []), update.value];
+  return update.value;
+}
+
+// An update whose condition cannot be decided both happens and does not
+function applyUpdates(
+  machine: CheckedMachine,
+  valuations: Record<string, any>[],
+  updates: VariableUpdate[],
+  leaves: string[],
+): Record<string, any>[] {
+  return updates.reduce(
+    (current, update) =>
+      current.flatMap(variables => {
+        const verdict = update.condition ? decide(update.condition, machine.context(variables, leaves)) : true;
+        const applied = { ...variables, [update.variable]: updatedValue(variables[update.variable], update) };
+        return verdict === true ? [applied] : verdict === false ? [variables] : [variables, applied];
+      }),
+    valuations,
+  );
+}
+
+const keyOf = (explored: Explored) =>
+  JSON.stringify([
+    explored.configuration.active,
+    explored.configuration.history,
+    Object.keys(explored.variables)
+      .sort()
+      .map(name => [name, explored.variables[name]]),
+    explored.visited,
+  ]);
+
+const truth = (states: string[], holding: string[]) =>
+  Object.fromEntries(states.map(state => [state, holding.includes(state)]));
+
+function check(machine: CheckedMachine, options: ModelCheckOptions): ModelCheckReport {
+  const { chart } = machine;
+  const maxConfigurations = options.maxConfigurations ?? DEFAULT_MAX_CONFIGURATIONS;
+  const invariants = [...machine.invariants, ...(options.invariants || [])];
+  const findings: ModelCheckFinding[] = [];
+
+  const compiledInvariants = invariants.flatMap(invariant => {
+    const { compiled, error } = compileFormula(invariant.formula);
+    if (compiled) return [{ invariant, compiled }];
+    findings.push({
+      kind: "invariant",
+      severity: "error",
+      message: `Invariant '${invariant.name}' is not a valid formula: ${error}`,
+      states: [],
+    });
+    return [];
+  });
+  // Only the states invariants ask about are remembered as visited
+  const tracked = Array.from(
+    new Set(
+      compiledInvariants.flatMap(({ compiled }) =>
+        compiled.references
+          .filter(reference => reference.startsWith("visited."))
+          .map(reference => reference.split(".")[1]),
+      ),
+    ),
+  );
+  const visit = (visited: string[], entered: string[]) =>
+    tracked.filter(state => visited.includes(state) || entered.includes(state));
+
+  const explored = new Map<string, Explored>();
+  const queue: string[] = [];
+  const firstSeen = new Map<string, string>();
+  const enqueue = (node: Explored) => {
+    const key = keyOf(node);
+    if (explored.has(key)) return;
+    explored.set(key, node);
+    queue.push(key);
+    node.configuration.active.forEach(state => {
+      if (!firstSeen.has(state)) firstSeen.set(state, key);
+    });
+  };
+  const traceTo = (key: string): ModelCheckStep[] => {
+    const steps: ModelCheckStep[] = [];
+    for (let node = explored.get(key); node; node = node.parent ? explored.get(node.parent) : undefined) {
+      steps.unshift({
+        states: chart.getActiveLeaves(node.configuration),
+        variables: node.variables,
+        ...(node.transition ? { transition: node.transition } : {}),
+      });
+    }
+    return steps;
+  };
+
+  const initial = chart.initialConfiguration();
+  applyUpdates(
+    machine,
+    [machine.variables],
+    initial.entered.flatMap(state => machine.entryUpdates[state] || []),
+    chart.getActiveLeaves(initial.configuration),
+  ).forEach(variables =>
+    enqueue({ configuration: initial.configuration, variables, visited: visit([], initial.configuration.active) }),
+  );
+
+  const hasExit = (state: string) =>
+    [state, ...chart.getAncestors(state)].some(source =>
+      machine.transitions.some(transition => transition.from === source),
+    );
+  const isFinal = (state: string) => machine.finalStates.includes(state);
+
+  // Pairs whose guards overlap or not regardless of the variables are settled up front
+  const pairs: Array<[CheckedTransition, CheckedTransition]> = [];
+  machine.transitions.forEach((a, i) =>
+    machine.transitions.slice(i + 1).forEach(b => {
+      if (a.from === b.from && a.trigger === b.trigger) pairs.push([a, b]);
+    }),
+  );
+  const undecidedPairs: Array<[CheckedTransition, CheckedTransition]> = [];
+  pairs.forEach(([a, b]) => {
+    const witness = guardsOverlap([...a.guards, ...b.guards]);
+    if (witness === undefined) {
+      undecidedPairs.push([a, b]);
+    } else if (witness !== null) {
+      const example = Object.keys(witness).length > 0 ? ` (e.g. when ${formatWitness(witness)})` : "";
+      findings.push({
+        kind: "nondeterminism",
+        severity: "warning",
+        message: `${a.label} and ${b.label} can both be enabled${example}; the first declared wins`,
+        states: [a.from],
+      });
+    }
+  });
+  const reportedPairs = new Set<[CheckedTransition, CheckedTransition]>();
+  const violated = new Set<FSMInvariant>();
+  const deadlocks = new Set<string>();
+
+  let complete = true;
+  for (let index = 0; index < queue.length; index++) {
+    if (index >= maxConfigurations) {
+      complete = false;
+      break;
+    }
+    const key = queue[index];
+    const node = explored.get(key)!;
+    const { configuration, variables } = node;
+    const leaves = chart.getActiveLeaves(configuration);
+    const context = machine.context(variables, leaves);
+
+    compiledInvariants.forEach(({ invariant, compiled }) => {
+      if (violated.has(invariant)) return;
+      const { value, error } = compiled.evaluate({
+        ...context,
+        state: leaves[0],
+        active: truth(machine.states, configuration.active),
+        visited: truth(tracked, node.visited),
+      });
+      if (!error && value) return;
+      violated.add(invariant);
+      findings.push({
+        kind: "invariant",
+        severity: "error",
+        message: error
+          ? `Invariant '${invariant.name}' cannot be evaluated: ${error}`
+          : `Invariant '${invariant.name}' is violated: ${invariant.formula}`,
+        states: leaves,
+        trace: traceTo(key),
+      });
+    });
+
+    const enabled = machine.transitions
+      .filter(transition => chart.isActive(configuration, transition.from))
+      .map(transition => ({ transition, verdict: decideAll(transition.guards, context) }))
+      .filter(({ verdict }) => verdict !== false);
+
+    undecidedPairs.forEach(pair => {
+      if (reportedPairs.has(pair)) return;
+      const both = pair.every(transition => enabled.some(e => e.transition === transition && e.verdict === true));
+      if (!both) return;
+      reportedPairs.add(pair);
+      findings.push({
+        kind: "nondeterminism",
+        severity: "warning",
+        message: `${pair[0].label} and ${pair[1].label} are both enabled here; the first declared wins`,
+        states: [pair[0].from],
+        trace: traceTo(key),
+      });
+    });
+
+    // A definitely enabled transition wins over later ones on the same trigger
+    // from its state, and over those of the state's ancestors
+    const order = (transition: CheckedTransition) => machine.transitions.indexOf(transition);
+    const taken = enabled.filter(
+      ({ transition }) =>
+        !enabled.some(
+          other =>
+            other.verdict === true &&
+            other.transition !== transition &&
+            other.transition.trigger === transition.trigger &&
+            (other.transition.from === transition.from
+              ? order(other.transition) < order(transition)
+              : chart.getAncestors(other.transition.from).includes(transition.from)),
+        ),
+    );
+
+    if (
+      taken.length === 0 &&
+      leaves.some(leaf => !isFinal(leaf)) &&
+      leaves.every(leaf => isFinal(leaf) || hasExit(leaf))
+    ) {
+      const stuck = leaves.filter(leaf => !isFinal(leaf));
+      if (!deadlocks.has(stuck.join())) {
+        deadlocks.add(stuck.join());
+        findings.push({
+          kind: "deadlock",
+          severity: "error",
+          message: `Every transition out of ${stuck.map(state => `'${state}'`).join(", ")} is disabled here`,
+          states: stuck,
+          trace: traceTo(key),
+        });
+      }
+    }
+
+    taken.forEach(({ transition }) => {
+      const step = chart.transition(configuration, transition.from, transition.to);
+      const updates = [
+        ...step.exited.flatMap(state => machine.exitUpdates[state] || []),
+        ...transition.updates,
+        ...step.entered.flatMap(state => machine.entryUpdates[state] || []),
+      ];
+      applyUpdates(machine, [variables], updates, leaves).forEach(next =>
+        enqueue({
+          configuration: step.configuration,
+          variables: next,
+          visited: visit(node.visited, step.entered),
+          parent: key,
+          transition: transition.label,
+        }),
+      );
+    });
+  }
+
+  machine.states
+    .filter(state => chart.getKind(state) === "atomic" && !isFinal(state) && !hasExit(state))
+    .forEach(state =>
+      findings.push({
+        kind: "deadlock",
+        severity: "error",
+        message: `State '${state}' has no outgoing transitions and is not marked final`,
+        states: [state],
+        ...(firstSeen.has(state) ? { trace: traceTo(firstSeen.get(state)!) } : {}),
+      }),
+    );
+
+  if (complete) {
+    const initialLeaves = chart.getActiveLeaves(initial.configuration);
+    machine.states
+      .filter(state => !firstSeen.has(state))
+      .forEach(state =>
+        findings.push({
+          kind: "unreachable",
+          severity: "warning",
+          message: `State '${state}' is unreachable from '${initialLeaves.join("', '")}'`,
+          states: [state],
+        }),
+      );
+  } else {
+    findings.push({
+      kind: "incomplete",
+      severity: "warning",
+      message: `Stopped after ${maxConfigurations} configurations; unreachable states are not reported and other findings may be missing`,
+      states: [],
+    });
+  }
+
+  return {
+    findings,
+    reachableStates: machine.states.filter(state => firstSeen.has(state)),
+    configurations: explored.size,
+    complete,
+  };
+}
+
+// ============================================================================
+// Guard overlap
+// ============================================================================
+
+type Comparison = "==" | "!=" | ">=" | "<=" | ">" | "<";
+
+interface Atom {
+  path: string;
+  comparison: Comparison;
+  constant: string | number | boolean;
+}
+
+const MIRRORED: Record<Comparison, Comparison> = { "==": "==", "!=": "!=", ">=": "<=", "<=": ">=", ">": "<", "<": ">" };
+const PATH = "([A-Za-z_][\\w.]*)";
+const COMPARISON = "(==|!=|>=|<=|>|<)";
+const PATH_FIRST = new RegExp(`^${PATH}\\s*${COMPARISON}\\s*(.+)$`);
+const CONSTANT_FIRST = new RegExp(`^(.+?)\\s*${COMPARISON}\\s*${PATH}$`);
+
+function parseConstant(text: string): string | number | boolean | undefined {
+  const trimmed = text.trim();
+  if (trimmed === "true" || trimmed === "false") return trimmed === "true";
+  if (/^(["']).*\1$/.test(trimmed)) return trimmed.slice(1, -1);
+  const number = Number(trimmed);
+  return trimmed !== "" && Number.isFinite(number) ? number : undefined;
+}
+
+// A guard that is a conjunction of comparisons between a path and a constant
+function parseAtoms(guard: string): Atom[] | undefined {
+  if (/\bor\b|\|\||\bnot\b|[?!](?!=)/.test(guard)) return undefined;
+  const atoms: Atom[] = [];
+  for (const part of guard.split(/\band\b|&&/)) {
+    const text = part
+      .trim()
+      .replace(/^\(([^()]*)\)$/, "$1")
+      .trim();
+    const pathFirst = PATH_FIRST.exec(text);
+    const constantFirst = pathFirst ? null : CONSTANT_FIRST.exec(text);
+    const [path, comparison, constant] = pathFirst
+      ? [pathFirst[1], pathFirst[2] as Comparison, parseConstant(pathFirst[3])]
+      : constantFirst
+        ? [constantFirst[3], MIRRORED[constantFirst[2] as Comparison], parseConstant(constantFirst[1])]
+        : [];
+    if (!path || constant === undefined || parseConstant(path) !== undefined) return undefined;
+    atoms.push({ path, comparison, constant });
+  }
+  return atoms;
+}
+
+function holds(value: any, { comparison, constant }: Atom): boolean {
+  switch (comparison) {
+    case "==":
+      return value === constant;
+    case "!=":
+      return value !== constant;
+    case ">=":
+      return value >= constant;
+    case "<=":
+      return value <= constant;
+    case ">":
+      return value > constant;
+    case "<":
+      return value < constant;
+  }
+}
+
+// Values that decide comparisons against these constants: each constant, its
+// neighbours and the midpoints between them, and a string equal to none
+function candidateValues(constants: Array<string | number | boolean>): any[] {
+  const numbers = Array.from(new Set(constants.filter((c): c is number => typeof c === "number"))).sort(
+    (a, b) => a - b,
+  );
+  const between = numbers.slice(1).map((n, i) => (numbers[i] + n) / 2);
+  const strings = constants.filter((c): c is string => typeof c === "string");
+  return [...numbers.flatMap(n => [n, n - 1, n + 1]), ...between, ...strings, `${strings.join("")}~`, true, false];
+}
+
+/**
+ * Values under which every guard holds, null when no values do, undefined
+ * when a guard is beyond this simple analysis
+ */
+function guardsOverlap(guards: string[]): Record<string, any> | null | undefined {
+  const atoms: Atom[] = [];
+  for (const guard of guards) {
+    const parsed = parseAtoms(guard);
+    if (!parsed) return undefined;
+    atoms.push(...parsed);
+  }
+
+  const witness: Record<string, any> = {};
+  for (const path of Array.from(new Set(atoms.map(atom => atom.path)))) {
+    const constraints = atoms.filter(atom => atom.path === path);
+    const values = candidateValues(constraints.map(atom => atom.constant));
+    const value = values.find(candidate => constraints.every(atom => holds(candidate, atom)));
+    if (value === undefined) return null;
+    witness[path] = value;
+  }
+  return witness;
+}
+
+const formatWitness = (witness: Record<string, any>) =>
+  Object.entries(witness)
+    .map(([path, value]) => `${path} = ${JSON.stringify(value)}`)
+    .join(", ");
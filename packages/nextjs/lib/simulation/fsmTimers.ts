@@ -0,0 +1,70 @@
+/**
+ * FSM Timers
+ *
+ * Timer transitions run on the simulation clock. Entering a state schedules a
+ * timer for each timer transition out of it, and exiting the state cancels
+ * them. Pending timers live in the node state, so snapshots, restores and
+ * replays carry them like any other state.
+ *
+ * A timer fires on the first tick at or after its due time, never on the tick
+ * that scheduled it, so a zero-delay timer that re-enters its own state cannot
+ * loop within one tick. Timers due together fire in the order they were
+ * scheduled.
+ */
+import type { FSMTimer } from "./types";
+
+export interface TimerTransition {
+  transitionIndex: number;
+  from: string;
+  after: number;
+}
+
+export interface ScheduleResult {
+  timers: FSMTimer[];
+  scheduled: FSMTimer[];
+  sequence: number;
+}
+
+/**
+ * Schedule a timer for every timer transition out of the entered states
+ */
+export function scheduleTimers(
+  pending: FSMTimer[],
+  entered: string[],
+  transitions: TimerTransition[],
+  now: number,
+  sequence: number,
+): ScheduleResult {
+  const scheduled: FSMTimer[] = [];
+  entered.forEach(state =>
+    transitions
+      .filter(transition => transition.from === state)
+      .forEach(transition =>
+        scheduled.push({
+          sequence: sequence++,
+          state,
+          transitionIndex: transition.transitionIndex,
+          scheduledAt: now,
+          dueAt: now + transition.after,
+        }),
+      ),
+  );
+  return { timers: [...pending, ...scheduled], scheduled, sequence };
+}
+
+/**
+ * Drop the timers of the exited states
+ */
+export function cancelTimers(pending: FSMTimer[], exited: string[]): { timers: FSMTimer[]; cancelled: FSMTimer[] } {
+  const cancelled = pending.filter(timer => exited.includes(timer.state));
+  return { timers: pending.filter(timer => !cancelled.includes(timer)), cancelled };
+}
+
+/**
+ * The timer that fires next at `now`, if any
+ */
+export function nextDueTimer(pending: FSMTimer[], now: number): FSMTimer | undefined {
+  return pending
+    .filter(timer => timer.dueAt <= now && timer.scheduledAt < now)
+    .sort((a, b) => a.dueAt - b.dueAt || a.sequence - b.sequence)[0];
+}
@@ -0,0 +1,184 @@
+/**
+ * Interface Registry
+ *
+ * Named token interface types and the checks that enforce them at edges: at
+ * design time an output's interface must provide every field the connected
+ * input requires, and at runtime each delivered token must actually carry
+ * those fields with the declared types.
+ *
+ * Field paths are relative to the token view formulas see, so "data.value"
+ * and "metadata.timestamp" mean the same thing here as in a formula.
+ */
+import { STANDARD_TOKEN_FIELDS, tokenFormulaValue } from "./formulaEngine";
+import type {
+  AnyNode,
+  InputV3,
+  Interface,
+  InterfaceFieldDefinition,
+  InterfaceFieldType,
+  InterfaceTypeDefinition,
+  Token,
+} from "./types";
+
+// Interface type that accepts any token
+export const ANY_INTERFACE_TYPE = "Any";
+
+export const BUILTIN_INTERFACE_TYPES: InterfaceTypeDefinition[] = [
+  { name: ANY_INTERFACE_TYPE, description: "Accepts any token", fields: {} },
+  {
+    name: "SimpleValue",
+    description: "A single value",
+    fields: { "data.value": { type: "any", required: true } },
+  },
+  {
+    name: "AggregationResult",
+    description: "The result of a Queue aggregation",
+    fields: {
+      "data.aggregatedValue": { type: "number", required: true },
+      "data.method": { type: "string" },
+    },
+  },
+  {
+    name: "TransformationResult",
+    description: "The result of a ProcessNode formula",
+    fields: { "data.transformedValue": { type: "any", required: true } },
+  },
+];
+
+const BUILTIN_NAMES = new Set(BUILTIN_INTERFACE_TYPES.map(definition => definition.name));
+
+export function isBuiltinInterfaceType(name: string): boolean {
+  return BUILTIN_NAMES.has(name);
+}
+
+export class InterfaceRegistry {
+  private types = new Map<string, InterfaceTypeDefinition>();
+
+  constructor(customTypes: InterfaceTypeDefinition[] = []) {
+    BUILTIN_INTERFACE_TYPES.forEach(definition => this.register(definition));
+    customTypes.forEach(definition => this.register(definition));
+  }
+
+  register(definition: InterfaceTypeDefinition): void {
+    this.types.set(definition.name, definition);
+  }
+
+  get(name: string): InterfaceTypeDefinition | undefined {
+    return this.types.get(name);
+  }
+
+  list(): InterfaceTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  /**
+   * Declared fields of an interface: its type definition's fields plus its
+   * requiredFields (typed "any" unless the definition says otherwise)
+   */
+  fields(iface: Interface): Record<string, InterfaceFieldDefinition> {
+    const fields: Record<string, InterfaceFieldDefinition> = { ...this.get(iface.type)?.fields };
+    iface.requiredFields.forEach(path => {
+      fields[path] = { type: fields[path]?.type ?? "any", required: true };
+    });
+    return fields;
+  }
+
+  requiredFields(iface: Interface): string[] {
+    return Object.entries(this.fields(iface))
+      .filter(([, field]) => field.required)
+      .map(([path]) => path);
+  }
+
+  /**
+   * Problems with connecting `producer` to `consumer`; empty when every field
+   * the consumer requires is provided by the producer with a compatible type.
+   * An "Any" producer can't be checked statically and is left to runtime.
+   */
+  checkCompatibility(producer: Interface, consumer: Interface): string[] {
+    if (consumer.type === ANY_INTERFACE_TYPE && consumer.requiredFields.length === 0) return [];
+    if (producer.type === ANY_INTERFACE_TYPE) return [];
+
+    const problems: string[] = [];
+    const provided = this.fields(producer);
+    const consumerFields = this.fields(consumer);
+
+    Object.entries(consumerFields).forEach(([path, field]) => {
+      const match = findField(provided, path);
+      if (!match) {
+        if (field.required && !STANDARD_TOKEN_FIELDS.includes(path)) {
+          problems.push(`"${producer.type}" does not provide required field "${path}" of "${consumer.type}".`);
+        }
+        return;
+      }
+      if (!typesCompatible(match.type, field.type)) {
+        problems.push(
+          `field "${path}" is ${match.type} in "${producer.type}" but ${field.type} in "${consumer.type}".`,
+        );
+      }
+    });
+
+    return problems;
+  }
+
+  /**
+   * Ways a token fails to match an interface; empty when it conforms
+   */
+  validateToken(token: Token, iface: Interface): string[] {
+    const view = tokenFormulaValue(token);
+    const violations: string[] = [];
+
+    Object.entries(this.fields(iface)).forEach(([path, field]) => {
+      const value = readPath(view, path);
+      if (value === undefined || value === null) {
+        if (field.required) violations.push(`missing required field "${path}"`);
+        return;
+      }
+      const actual = valueType(value);
+      if (!typesCompatible(actual, field.type)) {
+        violations.push(`field "${path}" should be ${field.type} but is ${actual}`);
+      }
+    });
+
+    return violations;
+  }
+}
+
+/**
+ * The input of `node` that receives tokens from `sourceNodeId`, matched by
+ * input name first and by source node second
+ */
+export function findConsumerInput(node: AnyNode, sourceNodeId: string, inputName?: string): InputV3 | undefined {
+  const inputs: InputV3[] = "inputs" in node && Array.isArray(node.inputs) ? node.inputs : [];
+  return (
+    (inputName ? inputs.find(input => input.name === inputName) : undefined) ??
+    inputs.find(input => input.nodeId === sourceNodeId)
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// A field is provided if it is declared, or lies inside a declared object field
+function findField(
+  fields: Record<string, InterfaceFieldDefinition>,
+  path: string,
+): InterfaceFieldDefinition | undefined {
+  if (fields[path]) return fields[path];
+  const parent = Object.keys(fields).find(candidate => path.startsWith(`${candidate}.`));
+  return parent && ["object", "any"].includes(fields[parent].type) ? { type: "any" } : undefined;
+}
+
+function typesCompatible(actual: InterfaceFieldType, expected: InterfaceFieldType): boolean {
+  return actual === expected || actual === "any" || expected === "any";
+}
+
+function valueType(value: unknown): InterfaceFieldType {
+  if (Array.isArray(value)) return "array";
+  const type = typeof value;
+  return type === "number" || type === "string" || type === "boolean" || type === "object" ? type : "any";
+}
+
+function readPath(target: any, path: string): unknown {
+  return path.split(".").reduce((current, key) => (current == null ? undefined : current[key]), target);
+}
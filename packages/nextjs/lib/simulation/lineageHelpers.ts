@@ -2,6 +2,7 @@
  * Helper functions for enhanced lineage tracking in the simulation store
  */
 import type {
+  AggregationConfig,
   AggregationDetails,
   AggregationMethod,
   HistoryEntry,
@@ -70,6 +71,7 @@ export function createAggregationCalculation(
   method: AggregationMethod,
   inputTokens: Array<{ tokenId: string; value: any; contribution: number }>,
   resultValue: any,
+  config?: Pick<AggregationConfig, "formula" | "percentile">,
 ): string {
   const tokenIds = inputTokens.map(t => t.tokenId);
   const rawValues = inputTokens.map(t => t.value);
@@ -94,6 +96,29 @@ export function createAggregationCalculation(
       const lastIndex = rawValues.length - 1;
       return `last([${tokenIds.join(", ")}]) = ${tokenIds[lastIndex]} (value: ${rawValues[lastIndex]})`;
 
+    case "min":
+    case "max": {
+      const index = inputTokens.findIndex(t => Number(t.value) === Number(resultValue));
+      return `${method}(${rawValues.map(v => Number(v)).join(", ")}) = ${resultValue} (token: ${tokenIds[index]})`;
+    }
+
+    case "median":
+    case "percentile": {
+      const sorted = rawValues.map(v => Number(v)).sort((a, b) => a - b);
+      const label = method === "median" ? "median" : `p${config?.percentile ?? 50}`;
+      return `${label}(${rawValues.join(", ")}) = ${label}(sorted: ${sorted.join(", ")}) = ${resultValue}`;
+    }
+
+    case "stddev": {
+      const values = rawValues.map(v => Number(v));
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const squares = values.map(v => `(${v} - ${mean})²`).join(" + ");
+      return `stddev(${values.join(", ")}) = sqrt((${squares})/${values.length}) = ${resultValue}`;
+    }
+
+    case "formula":
+      return `${config?.formula ?? "formula"} where input = [${rawValues.join(", ")}] = ${resultValue}`;
+
     default:
       return `${method}(${rawValues.join(", ")}) = ${resultValue}`;
   }
@@ -106,7 +131,12 @@ export function createAggregationDetails(
   method: AggregationMethod,
   sourceTokens: Token[],
   resultValue: any,
+  config?: Pick<AggregationConfig, "formula" | "percentile">,
 ): AggregationDetails {
+  const numValues = sourceTokens.map(t => Number(t.value));
+  // Index of the token that supplied a min/max result
+  const selectedIndex = method === "min" || method === "max" ? numValues.findIndex(v => v === Number(resultValue)) : -1;
+
   const inputTokens = sourceTokens.map(token => {
     let contribution = 0;
     const numValue = Number(token.value);
@@ -127,6 +157,26 @@ export function createAggregationDetails(
       case "last":
         contribution = token === sourceTokens[sourceTokens.length - 1] ? 1 : 0;
         break;
+      case "min":
+      case "max":
+        contribution = token === sourceTokens[selectedIndex] ? 1 : 0;
+        break;
+      case "median":
+      case "percentile": {
+        // Tokens at the interpolated rank share the result by their distance from it
+        const rank = ((method === "median" ? 50 : (config?.percentile ?? 50)) / 100) * (sourceTokens.length - 1);
+        const sorted = sourceTokens.map((t, i) => ({ t, v: numValues[i] })).sort((a, b) => a.v - b.v);
+        const position = sorted.findIndex(entry => entry.t === token);
+        contribution = Math.max(0, 1 - Math.abs(position - rank));
+        break;
+      }
+      case "stddev": {
+        // Share of the total squared deviation
+        const mean = numValues.reduce((a, b) => a + b, 0) / numValues.length;
+        const totalSquares = numValues.reduce((total, v) => total + (v - mean) ** 2, 0);
+        contribution = totalSquares > 0 ? (numValue - mean) ** 2 / totalSquares : 1 / sourceTokens.length;
+        break;
+      }
       default:
         contribution = 1 / sourceTokens.length;
     }
@@ -138,7 +188,7 @@ export function createAggregationDetails(
     };
   });
 
-  const calculation = createAggregationCalculation(method, inputTokens, resultValue);
+  const calculation = createAggregationCalculation(method, inputTokens, resultValue, config);
 
   return {
     method,
@@ -0,0 +1,252 @@
+/**
+ * LineageLoadingManager - Main-thread client of the lineage worker
+ *
+ * Sends the activity log to the lineage worker once per change and resolves
+ * lineage queries from the TokenLineageCache when it can, so opening a token
+ * tree only costs a worker round trip the first time. While a simulation runs
+ * only the newly logged entries are sent, and only the lineages they touch are
+ * dropped from the cache. Requests report progress
+ * and can be aborted with an AbortSignal.
+ *
+ * Where Web Workers are unavailable (server rendering, tests) the worker's
+ * handler runs in-process instead, still yielding between batches.
+ */
+import {
+  type LineageQuery,
+  type LineageQueryResults,
+  type LineageWorkerProgress,
+  type LineageWorkerRequest,
+  type LineageWorkerResponse,
+  createLineageWorkerHandler,
+} from "./lineageWorker";
+import type { TokenLineage } from "./tokenGenealogyEngine";
+import { type TokenLineageCache, globalLineageCache } from "./tokenLineageCache";
+import type { HistoryEntry } from "./types";
+
+export interface LineageRequestOptions {
+  onProgress?: (progress: LineageWorkerProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Rejects a request that was aborted, or superseded by a newer activity log
+ */
+export class LineageRequestCancelledError extends Error {
+  constructor(requestId: string) {
+    super(`Lineage request ${requestId} was cancelled`);
+    this.name = "LineageRequestCancelledError";
+  }
+}
+
+// How requests reach the worker and responses come back
+export interface LineageWorkerTransport {
+  post(request: LineageWorkerRequest): void;
+  onResponse(listener: (response: LineageWorkerResponse) => void): void;
+  terminate(): void;
+}
+
+interface PendingRequest {
+  resolve: (response: LineageWorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: LineageWorkerProgress) => void;
+}
+
+/**
+ * A dedicated Web Worker when the environment has them, the handler in-process otherwise
+ */
+export function createLineageWorkerTransport(): LineageWorkerTransport {
+  if (typeof Worker !== "undefined") {
+    const worker = new Worker(new URL("./lineageWorker.ts", import.meta.url));
+    return {
+      post: request => worker.postMessage(request),
+      onResponse: listener => worker.addEventListener("message", event => listener(event.data)),
+      terminate: () => worker.terminate(),
+    };
+  }
+
+  const listeners: Array<(response: LineageWorkerResponse) => void> = [];
+  const handle = createLineageWorkerHandler(response => listeners.forEach(listener => listener(response)));
+  return {
+    post: request => void handle(request),
+    onResponse: listener => listeners.push(listener),
+    terminate: () => listeners.splice(0),
+  };
+}
+
+export class LineageLoadingManager {
+  private transport: LineageWorkerTransport | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private entries: HistoryEntry[] = [];
+  private loaded: Promise<unknown> = Promise.resolve();
+  private nextRequestId = 0;
+
+  constructor(
+    private cache: TokenLineageCache = globalLineageCache,
+    private createTransport: () => LineageWorkerTransport = createLineageWorkerTransport,
+  ) {}
+
+  /**
+   * Hand the current activity log to the worker. A log that continues the
+   * previous one only sends the new entries, and the worker reports which
+   * cached lineages they changed; any other log (a reset or another run) is
+   * loaded from scratch and clears the cache.
+   */
+  setActivityLog(entries: HistoryEntry[], options: LineageRequestOptions = {}): Promise<void> {
+    if (entries === this.entries) return this.loaded.then(() => undefined);
+
+    // Sequence numbers restart on a reset or a loaded run, so only the very
+    // entry last sent marks a continuation
+    const lastKnown = this.entries[this.entries.length - 1];
+    const lastKnownIndex = lastKnown === undefined ? -1 : entries.lastIndexOf(lastKnown);
+    this.entries = entries;
+
+    if (lastKnownIndex >= 0) {
+      const newEntries = entries.slice(lastKnownIndex + 1);
+      // Appending needs the previous log in the worker; when that failed to load, load this one whole
+      this.loaded = this.loaded.then(
+        () => this.append(newEntries, options),
+        () => this.load(entries, options),
+      );
+    } else {
+      this.loaded = this.load(entries, options);
+    }
+    return this.loaded.then(() => undefined);
+  }
+
+  /**
+   * Complete lineage of a token, from the cache or the worker
+   */
+  async getLineage(tokenId: string, options: LineageRequestOptions = {}): Promise<TokenLineage> {
+    const lineages = await this.getLineages([tokenId], options);
+    return lineages[tokenId];
+  }
+
+  /**
+   * Lineages of several tokens; tokens missing from the graph reject the whole request
+   */
+  async getLineages(tokenIds: string[], options: LineageRequestOptions = {}): Promise<Record<string, TokenLineage>> {
+    const lineages: Record<string, TokenLineage> = {};
+    const missing = tokenIds.filter(tokenId => {
+      const cached = this.cache.get(tokenId);
+      if (cached) lineages[tokenId] = cached;
+      return !cached;
+    });
+    if (missing.length === 0) return lineages;
+
+    const { results, durationMs } = await this.query("lineage", missing, options);
+    missing.forEach(tokenId => {
+      lineages[tokenId] = results[tokenId];
+      this.cache.set(tokenId, results[tokenId], durationMs / missing.length);
+    });
+    return lineages;
+  }
+
+  async getAncestors(tokenId: string, options?: LineageRequestOptions): Promise<LineageQueryResults["ancestors"]> {
+    return (await this.query("ancestors", [tokenId], options)).results[tokenId];
+  }
+
+  async getDescendants(tokenId: string, options?: LineageRequestOptions): Promise<LineageQueryResults["descendants"]> {
+    return (await this.query("descendants", [tokenId], options)).results[tokenId];
+  }
+
+  async getSourceContributions(
+    tokenId: string,
+    options?: LineageRequestOptions,
+  ): Promise<LineageQueryResults["sourceContributions"]> {
+    return (await this.query("sourceContributions", [tokenId], options)).results[tokenId];
+  }
+
+  /**
+   * Stop the worker and reject every request still in flight
+   */
+  dispose(): void {
+    this.transport?.terminate();
+    this.transport = null;
+    this.pending.forEach((request, requestId) => request.reject(new LineageRequestCancelledError(requestId)));
+    this.pending.clear();
+    this.entries = [];
+    this.loaded = Promise.resolve();
+  }
+
+  private load(entries: HistoryEntry[], options: LineageRequestOptions) {
+    // Queries for the previous log are answered by the worker as cancelled
+    this.cache.clear();
+    return this.request({ type: "load", requestId: this.createRequestId(), entries }, options);
+  }
+
+  private async append(entries: HistoryEntry[], options: LineageRequestOptions) {
+    const response = await this.request({ type: "append", requestId: this.createRequestId(), entries }, options);
+    if (response.type === "appended") {
+      response.affectedTokenIds.forEach(tokenId => this.cache.invalidate(tokenId));
+    }
+    return response;
+  }
+
+  private async query<Q extends LineageQuery>(
+    query: Q,
+    tokenIds: string[],
+    options: LineageRequestOptions = {},
+  ): Promise<{ results: Record<string, LineageQueryResults[Q]>; durationMs: number }> {
+    const response = await this.request({ type: "query", requestId: this.createRequestId(), query, tokenIds }, options);
+    if (response.type !== "result") throw new Error(`Unexpected lineage worker response: ${response.type}`);
+
+    const failed = Object.entries(response.errors);
+    if (failed.length > 0) {
+      throw new Error(failed.map(([tokenId, message]) => `${tokenId}: ${message}`).join("; "));
+    }
+    return { results: response.results as Record<string, LineageQueryResults[Q]>, durationMs: response.durationMs };
+  }
+
+  private request(request: Exclude<LineageWorkerRequest, { type: "cancel" }>, options: LineageRequestOptions) {
+    const transport = this.ensureTransport();
+    const { requestId } = request;
+
+    return new Promise<LineageWorkerResponse>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new LineageRequestCancelledError(requestId));
+        return;
+      }
+      options.signal?.addEventListener("abort", () => transport.post({ type: "cancel", requestId }), { once: true });
+
+      this.pending.set(requestId, { resolve, reject, onProgress: options.onProgress });
+      transport.post(request);
+    });
+  }
+
+  private handleResponse(response: LineageWorkerResponse): void {
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+
+    switch (response.type) {
+      case "progress":
+        request.onProgress?.({ phase: response.phase, completed: response.completed, total: response.total });
+        return;
+      case "cancelled":
+        request.reject(new LineageRequestCancelledError(response.requestId));
+        break;
+      case "error":
+        request.reject(new Error(response.message));
+        break;
+      default:
+        request.resolve(response);
+    }
+    this.pending.delete(response.requestId);
+  }
+
+  private ensureTransport(): LineageWorkerTransport {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+      this.transport.onResponse(response => this.handleResponse(response));
+    }
+    return this.transport;
+  }
+
+  private createRequestId(): string {
+    return `lineage-${this.nextRequestId++}`;
+  }
+}
+
+/**
+ * Shared manager in front of the global lineage cache
+ */
+export const lineageLoadingManager = new LineageLoadingManager();
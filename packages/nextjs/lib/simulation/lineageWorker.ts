@@ -0,0 +1,212 @@
+/**
+ * Lineage Worker
+ *
+ * Builds the token graph and answers lineage queries off the UI thread. The
+ * worker holds the activity log it was last sent and a TokenGenealogyEngine
+ * built from it; every query runs against that engine. Entries logged since
+ * are sent with `append`, which updates the graph in place and reports the
+ * tokens whose lineage changed.
+ *
+ * Queries over several tokens report progress per batch and yield between
+ * batches, so a `cancel` message (or a newer `load`) stops them early. The
+ * handler is plain TypeScript, so the same code also runs in-process where Web
+ * Workers are unavailable; see LineageLoadingManager for the main-thread side.
+ */
+import {
+  type AncestorToken,
+  type DescendantToken,
+  type SourceContribution,
+  TokenGenealogyEngine,
+  type TokenLineage,
+} from "./tokenGenealogyEngine";
+import type { HistoryEntry } from "./types";
+
+export interface LineageQueryResults {
+  lineage: TokenLineage;
+  ancestors: AncestorToken[];
+  descendants: DescendantToken[];
+  sourceContributions: SourceContribution[];
+}
+
+export type LineageQuery = keyof LineageQueryResults;
+
+export type LineageWorkerRequest =
+  // Replace the activity log and rebuild the token graph
+  | { type: "load"; requestId: string; entries: HistoryEntry[] }
+  // Add entries logged after the loaded ones to the token graph
+  | { type: "append"; requestId: string; entries: HistoryEntry[] }
+  // Run one query for each token against the loaded log
+  | { type: "query"; requestId: string; query: LineageQuery; tokenIds: string[] }
+  | { type: "cancel"; requestId: string };
+
+export interface LineageWorkerProgress {
+  phase: "building" | LineageQuery;
+  completed: number;
+  total: number;
+}
+
+export type LineageWorkerResponse =
+  | ({ type: "progress"; requestId: string } & LineageWorkerProgress)
+  | { type: "loaded"; requestId: string; entryCount: number; tokenCount: number; durationMs: number }
+  | { type: "appended"; requestId: string; tokenCount: number; affectedTokenIds: string[]; durationMs: number }
+  | {
+      type: "result";
+      requestId: string;
+      query: LineageQuery;
+      // Per token id; tokens whose query failed are listed in `errors` instead
+      results: Record<string, unknown>;
+      errors: Record<string, string>;
+      durationMs: number;
+    }
+  | { type: "cancelled"; requestId: string }
+  | { type: "error"; requestId: string; message: string };
+
+// Tokens queried between two yields to the message queue
+const QUERY_BATCH_SIZE = 25;
+
+const yieldToMessages = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const now = () => (typeof performance !== "undefined" ? performance.now() : Date.now());
+
+function runQuery(engine: TokenGenealogyEngine, query: LineageQuery, tokenId: string): unknown {
+  switch (query) {
+    case "lineage":
+      return engine.buildCompleteLineage(tokenId);
+    case "ancestors":
+      return engine.findAllAncestors(tokenId);
+    case "descendants":
+      return engine.findAllDescendants(tokenId);
+    case "sourceContributions":
+      return engine.calculateSourceContributions(tokenId);
+  }
+}
+
+/**
+ * The worker's message handler. `post` sends a response back to the caller.
+ */
+export function createLineageWorkerHandler(
+  post: (response: LineageWorkerResponse) => void,
+): (request: LineageWorkerRequest) => Promise<void> {
+  let engine: TokenGenealogyEngine | null = null;
+  // The latest load; queries wait for it so they run against the log sent before them
+  let loading: Promise<void> = Promise.resolve();
+  const active = new Set<string>();
+  const cancelled = new Set<string>();
+
+  // True (and reported) when the request was cancelled while it waited
+  const stopIfCancelled = (requestId: string) => {
+    if (!cancelled.has(requestId)) return false;
+    cancelled.delete(requestId);
+    active.delete(requestId);
+    post({ type: "cancelled", requestId });
+    return true;
+  };
+
+  const load = async (requestId: string, entries: HistoryEntry[]) => {
+    // Queries against the previous log are stale now
+    active.forEach(activeId => cancelled.add(activeId));
+    active.add(requestId);
+
+    post({ type: "progress", requestId, phase: "building", completed: 0, total: entries.length });
+    await yieldToMessages();
+    if (stopIfCancelled(requestId)) return;
+
+    const started = now();
+    engine = new TokenGenealogyEngine(entries);
+    active.delete(requestId);
+    post({ type: "progress", requestId, phase: "building", completed: entries.length, total: entries.length });
+    post({
+      type: "loaded",
+      requestId,
+      entryCount: entries.length,
+      tokenCount: engine.getTokenCount(),
+      durationMs: now() - started,
+    });
+  };
+
+  const append = async (requestId: string, entries: HistoryEntry[]) => {
+    if (!engine) {
+      post({ type: "error", requestId, message: "No activity log loaded" });
+      return;
+    }
+    const started = now();
+    const affectedTokenIds = engine.appendEntries(entries);
+    post({
+      type: "appended",
+      requestId,
+      tokenCount: engine.getTokenCount(),
+      affectedTokenIds,
+      durationMs: now() - started,
+    });
+  };
+
+  const query = async (requestId: string, queryType: LineageQuery, tokenIds: string[]) => {
+    active.add(requestId);
+    await loading;
+    if (!engine) {
+      active.delete(requestId);
+      post({ type: "error", requestId, message: "No activity log loaded" });
+      return;
+    }
+    const queryEngine = engine;
+    const started = now();
+    const results: Record<string, unknown> = {};
+    const errors: Record<string, string> = {};
+
+    for (let index = 0; index < tokenIds.length; index += QUERY_BATCH_SIZE) {
+      await yieldToMessages();
+      if (stopIfCancelled(requestId)) return;
+
+      tokenIds.slice(index, index + QUERY_BATCH_SIZE).forEach(tokenId => {
+        try {
+          results[tokenId] = runQuery(queryEngine, queryType, tokenId);
+        } catch (error) {
+          errors[tokenId] = error instanceof Error ? error.message : String(error);
+        }
+      });
+      post({
+        type: "progress",
+        requestId,
+        phase: queryType,
+        completed: Math.min(index + QUERY_BATCH_SIZE, tokenIds.length),
+        total: tokenIds.length,
+      });
+    }
+
+    active.delete(requestId);
+    post({ type: "result", requestId, query: queryType, results, errors, durationMs: now() - started });
+  };
+
+  return async request => {
+    try {
+      switch (request.type) {
+        case "load":
+          loading = load(request.requestId, request.entries);
+          return await loading;
+        case "append":
+          // After the load it extends, and before the queries posted after it
+          loading = loading.then(() => append(request.requestId, request.entries));
+          return await loading;
+        case "query":
+          return await query(request.requestId, request.query, request.tokenIds);
+        case "cancel":
+          if (active.has(request.requestId)) cancelled.add(request.requestId);
+          return;
+      }
+    } catch (error) {
+      active.delete(request.requestId);
+      post({
+        type: "error",
+        requestId: request.requestId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+// Inside a dedicated worker: answer the messages posted to it
+const workerScope = globalThis as any;
+if (typeof workerScope.WorkerGlobalScope !== "undefined" && workerScope instanceof workerScope.WorkerGlobalScope) {
+  const handle = createLineageWorkerHandler(response => workerScope.postMessage(response));
+  workerScope.onmessage = (event: MessageEvent<LineageWorkerRequest>) => void handle(event.data);
+}
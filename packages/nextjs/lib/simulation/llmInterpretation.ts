@@ -0,0 +1,94 @@
+/**
+ * LLM Interpretation
+ *
+ * AIClient implementations for `ai` interpretation rules. LLMInterpretationClient
+ * asks an LLMProvider directly, on the server; HttpInterpretationClient sends
+ * the same request to /api/llm/interpret, so simulations in the browser use
+ * the provider configured for the deployment without holding API keys.
+ */
+import type { LLMProvider } from "../platform/ports";
+import type { AIClient } from "./event-interpretation-engine";
+
+export type InterpretRequest = Parameters<AIClient["interpret"]>[0];
+export type InterpretResponse = Awaited<ReturnType<AIClient["interpret"]>>;
+
+const SYSTEM_PROMPT = `You turn events into messages for a state machine.
+Reply with one JSON object and nothing else:
+{"interpretations": [{"messageType": "<one of the allowed types>", "payload": {}, "confidence": <0 to 1>}]}
+Use only the allowed message types. Reply with an empty list when none applies.`;
+
+/**
+ * Read the interpretations from a model reply, keeping only allowed message
+ * types and clamping confidences to [0, 1]
+ */
+export function parseInterpretations(text: string, possibleMessageTypes: string[]): InterpretResponse {
+  // Models sometimes wrap JSON in a code fence despite being asked not to
+  const json = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "");
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(`Model reply is not JSON: ${text.slice(0, 80)}`);
+  }
+
+  const interpretations = Array.isArray(parsed) ? parsed : parsed?.interpretations;
+  if (!Array.isArray(interpretations)) {
+    throw new Error("Model reply has no interpretations list");
+  }
+
+  return {
+    interpretations: interpretations
+      .filter(interpretation => possibleMessageTypes.includes(interpretation?.messageType))
+      .map(interpretation => ({
+        messageType: interpretation.messageType,
+        payload:
+          interpretation.payload && typeof interpretation.payload === "object" && !Array.isArray(interpretation.payload)
+            ? interpretation.payload
+            : {},
+        confidence: Math.min(1, Math.max(0, Number(interpretation.confidence) || 0)),
+      })),
+  };
+}
+
+export class LLMInterpretationClient implements AIClient {
+  constructor(private provider: LLMProvider) {}
+
+  async interpret(request: InterpretRequest): Promise<InterpretResponse> {
+    const { event } = request;
+    const completion = await this.provider.complete({
+      // Rule models are OpenAI model names; other providers use their own default
+      model: this.provider.name === "openai" ? request.model : undefined,
+      json: true,
+      temperature: 0,
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: [
+            request.prompt,
+            `Allowed message types: ${request.possibleMessageTypes.join(", ")}`,
+            `Event: ${JSON.stringify({ type: event.type, data: event.rawData, metadata: event.metadata })}`,
+          ].join("\n\n"),
+        },
+      ],
+    });
+    return parseInterpretations(completion.text, request.possibleMessageTypes);
+  }
+}
+
+export class HttpInterpretationClient implements AIClient {
+  constructor(private baseUrl = "") {}
+
+  async interpret(request: InterpretRequest): Promise<InterpretResponse> {
+    const response = await fetch(`${this.baseUrl}/api/llm/interpret`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: undefined }));
+      throw new Error(error || `Interpretation request failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Monte Carlo Runner
+ *
+ * Runs a scenario many times with different seeds, optionally across a sweep
+ * of node parameters, and reports the distribution of each KPI per parameter
+ * combination. Every combination reuses the same run seeds, so differences
+ * between combinations come from the parameters rather than from the draws.
+ *
+ * A single run is a serializable MonteCarloJob in and MonteCarloRunResult out,
+ * so jobs can be handed to worker threads (see scripts/monte-carlo.ts).
+ */
+import { percentile } from "./aggregation";
+import { deriveSeed, generateSeed } from "./random";
+import { SimulationEngine, type SimulationEngineState } from "./simulationEngine";
+import { computeSimulationStatistics, statisticsKpis, valueRange } from "./statistics";
+import type { AnyNode, HistoryEntry, Scenario } from "./types";
+import { validateScenario } from "./validation";
+
+export interface ParameterSweep {
+  nodeId: string;
+  // Dot path into the node config, e.g. "interval", "capacity" or "aggregation.trigger.window"
+  path: string;
+  values: unknown[];
+}
+
+export interface MonteCarloConfig {
+  // Runs per parameter combination
+  runs: number;
+  // Simulation time units per run
+  duration: number;
+  // Base seed the run seeds are derived from; random when omitted
+  seed?: number;
+  sweeps?: ParameterSweep[];
+}
+
+// A scenario run from time 0, or a replayed state run forward from its current time
+export type MonteCarloSource =
+  | Scenario
+  | { scenario: Scenario; nodeStates: SimulationEngineState["nodeStates"]; currentTime: number; eventCounter: number };
+
+// Parameter values keyed by "<nodeId>.<path>"
+export type ParameterSet = Record<string, unknown>;
+
+export interface MonteCarloJob {
+  source: MonteCarloSource;
+  parameters: ParameterSet;
+  seed: number;
+  duration: number;
+}
+
+export interface MonteCarloRunResult {
+  parameters: ParameterSet;
+  seed: number;
+  kpis: Record<string, number>;
+  error?: string;
+}
+
+export type MonteCarloExecutor = (job: MonteCarloJob) => MonteCarloRunResult | Promise<MonteCarloRunResult>;
+
+export interface SampleSummary {
+  count: number;
+  mean: number;
+  stddev: number;
+  min: number;
+  max: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  // 95% confidence interval of the mean (normal approximation)
+  ci95: [number, number];
+}
+
+export interface MonteCarloCombinationReport {
+  parameters: ParameterSet;
+  runs: number;
+  failedRuns: number;
+  errors: string[];
+  kpis: Record<string, SampleSummary>;
+}
+
+export interface MonteCarloReport {
+  seed: number;
+  runs: number;
+  duration: number;
+  sweeps: ParameterSweep[];
+  combinations: MonteCarloCombinationReport[];
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Every combination of the swept values; a single empty set without sweeps
+ */
+export function expandParameterSweeps(sweeps: ParameterSweep[] = []): ParameterSet[] {
+  return sweeps.reduce<ParameterSet[]>(
+    (combinations, sweep) =>
+      combinations.flatMap(combination =>
+        sweep.values.map(value => ({ ...combination, [`${sweep.nodeId}.${sweep.path}`]: value })),
+      ),
+    [{}],
+  );
+}
+
+/**
+ * A copy of the scenario with each parameter written into its node's config
+ */
+export function applyParameters(scenario: Scenario, parameters: ParameterSet): Scenario {
+  const copy = structuredClone(scenario);
+  Object.entries(parameters).forEach(([key, value]) => {
+    // The longest matching id wins, in case node ids contain dots
+    const node = [...copy.nodes]
+      .sort((a, b) => b.nodeId.length - a.nodeId.length)
+      .find(candidate => key.startsWith(`${candidate.nodeId}.`));
+    if (!node) throw new Error(`Parameter "${key}" does not refer to a node of the scenario`);
+
+    const path = key.slice(node.nodeId.length + 1).split(".");
+    const target = path.slice(0, -1).reduce<any>((current, segment) => {
+      if (current[segment] === undefined) current[segment] = {};
+      return current[segment];
+    }, node as AnyNode);
+    target[path[path.length - 1]] = value;
+  });
+  return copy;
+}
+
+/**
+ * One job per run per parameter combination. Run i uses the same seed in every combination.
+ */
+export function planMonteCarloJobs(source: MonteCarloSource, config: MonteCarloConfig, seed: number): MonteCarloJob[] {
+  const seeds = Array.from({ length: config.runs }, (_, run) => deriveSeed(seed, `run-${run}`));
+  return expandParameterSweeps(config.sweeps).flatMap(parameters =>
+    seeds.map(runSeed => ({ source, parameters, seed: runSeed, duration: config.duration })),
+  );
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+function isReplayState(source: MonteCarloSource): source is Exclude<MonteCarloSource, Scenario> {
+  return "scenario" in source && "nodeStates" in source;
+}
+
+/**
+ * Run one job headless and extract its KPIs
+ */
+export function runMonteCarloJob(job: MonteCarloJob): MonteCarloRunResult {
+  const { source, parameters, seed, duration } = job;
+  try {
+    const scenario = applyParameters(isReplayState(source) ? source.scenario : source, parameters);
+    const { errors } = validateScenario(scenario);
+    if (errors.length > 0) return { parameters, seed, kpis: {}, error: errors.join("; ") };
+
+    const engine = new SimulationEngine(scenario, { seed });
+    if (isReplayState(source)) {
+      engine.restoreState({
+        nodeStates: source.nodeStates,
+        currentTime: source.currentTime,
+        eventCounter: source.eventCounter,
+      });
+    }
+
+    const startTime = engine.getState().currentTime;
+    // The engine caps its own log, so collect every entry of the run here
+    const entries: HistoryEntry[] = engine.step(duration);
+    const statistics = computeSimulationStatistics(entries, engine.nodesConfig, {
+      startTime: startTime + 1,
+      endTime: startTime + duration,
+    });
+    return { parameters, seed, kpis: statisticsKpis(statistics) };
+  } catch (e: any) {
+    return { parameters, seed, kpis: {}, error: e.message || "Run failed" };
+  }
+}
+
+/**
+ * Run every job and aggregate the results. Jobs go to `executor` (in-process by
+ * default) with at most `concurrency` in flight, e.g. one per worker thread.
+ */
+export async function runMonteCarlo(
+  source: MonteCarloSource,
+  config: MonteCarloConfig,
+  options: { executor?: MonteCarloExecutor; concurrency?: number } = {},
+): Promise<MonteCarloReport> {
+  const seed = config.seed ?? (isReplayState(source) ? source.scenario.seed : source.seed) ?? generateSeed();
+  const jobs = planMonteCarloJobs(source, config, seed);
+  const executor = options.executor ?? runMonteCarloJob;
+
+  const results: MonteCarloRunResult[] = new Array(jobs.length);
+  let next = 0;
+  const lane = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      results[index] = await executor(jobs[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, options.concurrency ?? 1) }, lane));
+
+  return buildMonteCarloReport(config, seed, results);
+}
+
+// ============================================================================
+// Reporting
+// ============================================================================
+
+/**
+ * Mean, spread, percentiles and a 95% confidence interval of the mean
+ */
+export function summarizeSamples(values: number[]): SampleSummary {
+  const count = values.length;
+  const mean = count > 0 ? values.reduce((total, value) => total + value, 0) / count : 0;
+  // Sample standard deviation
+  const stddev =
+    count > 1 ? Math.sqrt(values.reduce((total, value) => total + (value - mean) ** 2, 0) / (count - 1)) : 0;
+  const margin = count > 0 ? (1.96 * stddev) / Math.sqrt(count) : 0;
+  const range = valueRange(values);
+
+  return {
+    count,
+    mean,
+    stddev,
+    min: range?.min ?? 0,
+    max: range?.max ?? 0,
+    p5: percentile(values, 5) ?? 0,
+    p50: percentile(values, 50) ?? 0,
+    p95: percentile(values, 95) ?? 0,
+    ci95: [mean - margin, mean + margin],
+  };
+}
+
+/**
+ * Group run results by parameter combination and summarize each KPI
+ */
+export function buildMonteCarloReport(
+  config: MonteCarloConfig,
+  seed: number,
+  results: MonteCarloRunResult[],
+): MonteCarloReport {
+  const groups = new Map<string, MonteCarloRunResult[]>();
+  results.forEach(result => {
+    const key = JSON.stringify(result.parameters);
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  });
+
+  const combinations = Array.from(groups.values()).map(group => {
+    const succeeded = group.filter(result => !result.error);
+    const kpiNames = Array.from(new Set(succeeded.flatMap(result => Object.keys(result.kpis))));
+    return {
+      parameters: group[0].parameters,
+      runs: group.length,
+      failedRuns: group.length - succeeded.length,
+      errors: Array.from(new Set(group.flatMap(result => (result.error ? [result.error] : [])))),
+      kpis: Object.fromEntries(
+        kpiNames.map(name => [
+          name,
+          summarizeSamples(succeeded.flatMap(result => (name in result.kpis ? [result.kpis[name]] : []))),
+        ]),
+      ),
+    };
+  });
+
+  return { seed, runs: config.runs, duration: config.duration, sweeps: config.sweeps ?? [], combinations };
+}
@@ -0,0 +1,443 @@
+/**
+ * Provenance Export
+ *
+ * Serializes token lineage to W3C PROV (PROV-JSON and PROV-N) and to
+ * OpenLineage run events, and reads PROV-JSON back into a TokenGraph so an
+ * export can be round-tripped.
+ *
+ * Every token is a prov:Entity. The operation that created it is a
+ * prov:Activity, associated with the simulation node (a prov:SoftwareAgent)
+ * that ran it; the activity `used` the source tokens and the created token
+ * `wasDerivedFrom` each of them. Simulation times are ticks rather than
+ * xsd:dateTime values, so they are kept in `sim:` attributes. Token histories
+ * are not part of the export.
+ */
+import type { SourceContribution, TokenLineage } from "./tokenGenealogyEngine";
+import { type AggregationDetails, type OperationInfo, TokenGraph, type TokenNode } from "./tokenGraph";
+
+export type ProvAttributes = Record<string, unknown>;
+
+export interface ProvDocument {
+  prefix: Record<string, string>;
+  entity: Record<string, ProvAttributes>;
+  activity: Record<string, ProvAttributes>;
+  agent: Record<string, ProvAttributes>;
+  wasGeneratedBy: Record<string, ProvAttributes>;
+  used: Record<string, ProvAttributes>;
+  wasDerivedFrom: Record<string, ProvAttributes>;
+  wasAssociatedWith: Record<string, ProvAttributes>;
+  // Source contributions of an exported lineage's target token
+  wasInfluencedBy?: Record<string, ProvAttributes>;
+}
+
+export interface ProvExportOptions {
+  // Base IRI of the token, operation, node and attribute namespaces
+  namespace?: string;
+}
+
+export interface OpenLineageOptions {
+  // UUID of the simulation run; the run of each node is derived from it
+  runId: string;
+  namespace?: string;
+  jobName?: string;
+  producer?: string;
+  eventTime?: string;
+}
+
+export interface OpenLineageDataset {
+  namespace: string;
+  name: string;
+  facets?: Record<string, unknown>;
+}
+
+export interface OpenLineageRunEvent {
+  eventType: "COMPLETE";
+  eventTime: string;
+  producer: string;
+  schemaURL: string;
+  run: { runId: string; facets?: Record<string, unknown> };
+  job: { namespace: string; name: string };
+  inputs: OpenLineageDataset[];
+  outputs: OpenLineageDataset[];
+}
+
+const DEFAULT_NAMESPACE = "urn:simulation:";
+const DEFAULT_PRODUCER = "urn:simulation:token-lineage";
+const RUN_EVENT_SCHEMA = "https://openlineage.io/spec/2-0-2/OpenLineage.json#/$defs/RunEvent";
+const PARENT_FACET_SCHEMA = "https://openlineage.io/spec/facets/1-0-1/ParentRunFacet.json#/$defs/ParentRunFacet";
+const TOKEN_FACET_SCHEMA = "urn:simulation:facets:TokenProvenanceFacet";
+
+const AGGREGATION_METHODS: AggregationDetails["method"][] = ["sum", "average", "count", "first", "last"];
+
+const tokenRef = (tokenId: string) => `token:${tokenId}`;
+const operationRef = (tokenId: string) => `op:${tokenId}`;
+const nodeRef = (nodeId: string) => `node:${nodeId}`;
+const unprefix = (ref: unknown) => String(ref).slice(String(ref).indexOf(":") + 1);
+
+const qualifiedName = (name: string) => ({ $: name, type: "prov:QUALIFIED_NAME" });
+
+// PROV-JSON attribute values are literals; structured token values travel as JSON text
+function toLiteral(value: unknown): unknown {
+  if (value === null || typeof value === "object") return { $: JSON.stringify(value), type: "sim:json" };
+  return value;
+}
+
+function fromLiteral(value: unknown): unknown {
+  if (value && typeof value === "object" && "$" in value) {
+    const literal = value as { $: string; type?: string };
+    return literal.type === "sim:json" ? JSON.parse(literal.$) : literal.$;
+  }
+  return value;
+}
+
+// Only the attributes that are set, so optional fields round-trip as absent
+function compact(attributes: ProvAttributes): ProvAttributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Every token of the graph with the operations that created it, as PROV-JSON
+ */
+export function exportGraphToProv(graph: TokenGraph, options: ProvExportOptions = {}): ProvDocument {
+  const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+  const document: ProvDocument = {
+    prefix: {
+      token: `${namespace}token:`,
+      op: `${namespace}operation:`,
+      node: `${namespace}node:`,
+      sim: `${namespace}attribute#`,
+    },
+    entity: {},
+    activity: {},
+    agent: {},
+    wasGeneratedBy: {},
+    used: {},
+    wasDerivedFrom: {},
+    wasAssociatedWith: {},
+  };
+  let relationCount = 0;
+  const relationId = (kind: string) => `_:${kind}${++relationCount}`;
+
+  for (const tokenId of graph.getAllTokenIds()) {
+    const node = graph.getNode(tokenId)!;
+    document.entity[tokenRef(tokenId)] = {
+      "prov:type": qualifiedName("sim:Token"),
+      "prov:value": toLiteral(node.value),
+      "sim:createdAt": node.createdAt,
+      "sim:originNodeId": node.originNodeId,
+    };
+    document.agent[nodeRef(node.originNodeId)] = { "prov:type": qualifiedName("prov:SoftwareAgent") };
+
+    const operation = node.operation;
+    if (!operation) continue;
+
+    const activity = operationRef(tokenId);
+    document.activity[activity] = compact({
+      "prov:type": qualifiedName(`sim:${operation.type}`),
+      "sim:time": node.createdAt,
+      "sim:method": operation.method,
+      "sim:formula": operation.formula,
+      "sim:calculation": operation.calculation,
+      "sim:aggregationMethod": operation.aggregationDetails?.method,
+      "sim:aggregationCalculation": operation.aggregationDetails?.calculation,
+      "sim:aggregationResult": operation.aggregationDetails && toLiteral(operation.aggregationDetails.resultValue),
+    });
+    document.wasGeneratedBy[relationId("gen")] = { "prov:entity": tokenRef(tokenId), "prov:activity": activity };
+    document.wasAssociatedWith[relationId("assoc")] = {
+      "prov:activity": activity,
+      "prov:agent": nodeRef(node.originNodeId),
+    };
+
+    operation.sourceTokens.forEach(source => {
+      const input = operation.aggregationDetails?.inputTokens.find(token => token.tokenId === source.tokenId);
+      document.used[relationId("used")] = compact({
+        "prov:activity": activity,
+        "prov:entity": tokenRef(source.tokenId),
+        "sim:value": toLiteral(source.value),
+        "sim:originNodeId": source.originNodeId,
+        "sim:createdAt": source.createdAt,
+        "sim:contribution": input?.contribution,
+      });
+    });
+
+    graph.getIncomingEdges(tokenId).forEach(edge => {
+      document.wasDerivedFrom[relationId("der")] = compact({
+        "prov:generatedEntity": tokenRef(tokenId),
+        "prov:usedEntity": tokenRef(edge.fromTokenId),
+        "prov:activity": activity,
+        "sim:weight": edge.weight,
+      });
+    });
+  }
+
+  return document;
+}
+
+/**
+ * The tokens of one lineage (ancestors, the token and its descendants) as a graph
+ */
+export function lineageToTokenGraph(lineage: TokenLineage): TokenGraph {
+  const graph = new TokenGraph();
+  const tokens = new Map<string, TokenNode>();
+  const add = (node: TokenNode) => tokens.has(node.tokenId) || tokens.set(node.tokenId, node);
+
+  add({
+    tokenId: lineage.targetToken.id,
+    value: lineage.targetToken.value,
+    createdAt: lineage.targetToken.createdAt,
+    originNodeId: lineage.targetToken.originNodeId,
+    operation: lineage.allAncestors.find(ancestor => ancestor.id === lineage.targetToken.id)?.operation,
+  });
+  [...lineage.allAncestors, ...lineage.descendants].forEach(token =>
+    add({
+      tokenId: token.id,
+      value: token.value,
+      createdAt: token.createdAt,
+      originNodeId: token.originNodeId,
+      operation: token.operation,
+    }),
+  );
+
+  // Oldest first, so every token is added after its sources
+  const ordered = Array.from(tokens.values()).sort((a, b) => a.createdAt - b.createdAt);
+  ordered.forEach(node => graph.addNode(node));
+  ordered.forEach(node =>
+    node.operation?.sourceTokens
+      .filter(source => tokens.has(source.tokenId))
+      .forEach(source =>
+        graph.addEdge({ fromTokenId: source.tokenId, toTokenId: node.tokenId, operation: node.operation!, weight: 1 }),
+      ),
+  );
+  return graph;
+}
+
+/**
+ * One token's lineage as PROV-JSON, with its source contributions as influences
+ */
+export function exportLineageToProv(lineage: TokenLineage, options: ProvExportOptions = {}): ProvDocument {
+  const document = exportGraphToProv(lineageToTokenGraph(lineage), options);
+  document.wasInfluencedBy = {};
+  lineage.sourceContributions.forEach((contribution: SourceContribution, index) => {
+    document.wasInfluencedBy![`_:contribution${index + 1}`] = {
+      "prov:influencee": tokenRef(lineage.targetToken.id),
+      "prov:influencer": tokenRef(contribution.sourceTokenId),
+      "sim:proportionalContribution": contribution.proportionalContribution,
+      "sim:contributionPath": contribution.contributionPath.join(" > "),
+    };
+  });
+  return document;
+}
+
+/**
+ * Read a PROV-JSON document written by exportGraphToProv back into a TokenGraph
+ */
+export function importProvJson(input: string | ProvDocument): TokenGraph {
+  const document: ProvDocument = typeof input === "string" ? JSON.parse(input) : input;
+  if (!document || typeof document !== "object" || !document.entity) {
+    throw new Error("PROV document has no entities");
+  }
+
+  const generatedBy = new Map<string, string>(); // activity -> token id
+  Object.values(document.wasGeneratedBy ?? {}).forEach(relation =>
+    generatedBy.set(String(relation["prov:activity"]), unprefix(relation["prov:entity"])),
+  );
+  const usedBy = new Map<string, ProvAttributes[]>(); // activity -> used relations, in document order
+  Object.values(document.used ?? {}).forEach(relation => {
+    const activity = String(relation["prov:activity"]);
+    usedBy.set(activity, [...(usedBy.get(activity) ?? []), relation]);
+  });
+
+  const operations = new Map<string, OperationInfo>(); // token id -> operation
+  Object.entries(document.activity ?? {}).forEach(([activity, attributes]) => {
+    const tokenId = generatedBy.get(activity);
+    if (!tokenId) return;
+
+    const used = usedBy.get(activity) ?? [];
+    const operation: OperationInfo = {
+      type: unprefix(fromLiteral(attributes["prov:type"])) as OperationInfo["type"],
+      sourceTokens: used.map(relation => ({
+        tokenId: unprefix(relation["prov:entity"]),
+        value: fromLiteral(relation["sim:value"]),
+        originNodeId: String(relation["sim:originNodeId"]),
+        createdAt: Number(relation["sim:createdAt"]),
+      })),
+    };
+    if (attributes["sim:method"] !== undefined) operation.method = String(attributes["sim:method"]);
+    if (attributes["sim:formula"] !== undefined) operation.formula = String(attributes["sim:formula"]);
+    if (attributes["sim:calculation"] !== undefined) operation.calculation = String(attributes["sim:calculation"]);
+
+    const method = attributes["sim:aggregationMethod"] as AggregationDetails["method"] | undefined;
+    if (method !== undefined) {
+      if (!AGGREGATION_METHODS.includes(method)) {
+        throw new Error(`Activity ${activity} has an unknown aggregation method: ${method}`);
+      }
+      operation.aggregationDetails = {
+        method,
+        inputTokens: used.map(relation => ({
+          tokenId: unprefix(relation["prov:entity"]),
+          value: fromLiteral(relation["sim:value"]),
+          contribution: Number(relation["sim:contribution"] ?? 0),
+        })),
+        calculation: String(attributes["sim:aggregationCalculation"] ?? ""),
+        resultValue: fromLiteral(attributes["sim:aggregationResult"]),
+      };
+    }
+    operations.set(tokenId, operation);
+  });
+
+  const graph = new TokenGraph();
+  Object.entries(document.entity).forEach(([ref, attributes]) => {
+    const tokenId = unprefix(ref);
+    graph.addNode({
+      tokenId,
+      value: fromLiteral(attributes["prov:value"]),
+      createdAt: Number(attributes["sim:createdAt"]),
+      originNodeId: String(attributes["sim:originNodeId"]),
+      operation: operations.get(tokenId),
+    });
+  });
+
+  Object.entries(document.wasDerivedFrom ?? {}).forEach(([id, relation]) => {
+    const toTokenId = unprefix(relation["prov:generatedEntity"]);
+    const fromTokenId = unprefix(relation["prov:usedEntity"]);
+    const target = graph.getNode(toTokenId);
+    if (!target?.operation || !graph.hasToken(fromTokenId)) {
+      throw new Error(`Derivation ${id} refers to an unknown token or operation`);
+    }
+    graph.addEdge({
+      fromTokenId,
+      toTokenId,
+      operation: target.operation,
+      weight: relation["sim:weight"] === undefined ? undefined : Number(relation["sim:weight"]),
+    });
+  });
+
+  return graph;
+}
+
+// Positional arguments of each PROV-N statement, in order; other keys become attributes
+const PROV_N_RELATIONS: Array<[keyof ProvDocument, string[]]> = [
+  ["wasGeneratedBy", ["prov:entity", "prov:activity", "prov:time"]],
+  ["used", ["prov:activity", "prov:entity", "prov:time"]],
+  ["wasDerivedFrom", ["prov:generatedEntity", "prov:usedEntity", "prov:activity", "prov:generation", "prov:usage"]],
+  ["wasAssociatedWith", ["prov:activity", "prov:agent", "prov:plan"]],
+  ["wasInfluencedBy", ["prov:influencee", "prov:influencer"]],
+];
+
+function provNValue(value: unknown): string {
+  if (value && typeof value === "object" && "$" in value) {
+    const literal = value as { $: string; type?: string };
+    if (literal.type === "prov:QUALIFIED_NAME") return `'${literal.$}'`;
+    return `${JSON.stringify(literal.$)}${literal.type ? ` %% ${literal.type}` : ""}`;
+  }
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : `"${value}" %% xsd:double`;
+  if (typeof value === "boolean") return `"${value}" %% xsd:boolean`;
+  return JSON.stringify(String(value));
+}
+
+function provNAttributes(attributes: ProvAttributes, positional: string[] = []): string {
+  const entries = Object.entries(attributes).filter(([key]) => !positional.includes(key));
+  if (entries.length === 0) return "";
+  return `, [${entries.map(([key, value]) => `${key}=${provNValue(value)}`).join(", ")}]`;
+}
+
+/**
+ * The same document in PROV-N notation
+ */
+export function toProvN(document: ProvDocument): string {
+  const lines = ["document"];
+  Object.entries(document.prefix).forEach(([prefix, iri]) => lines.push(`  prefix ${prefix} <${iri}>`));
+
+  Object.entries(document.entity).forEach(([id, attributes]) =>
+    lines.push(`  entity(${id}${provNAttributes(attributes)})`),
+  );
+  Object.entries(document.activity).forEach(([id, attributes]) =>
+    lines.push(`  activity(${id}, -, -${provNAttributes(attributes)})`),
+  );
+  Object.entries(document.agent).forEach(([id, attributes]) =>
+    lines.push(`  agent(${id}${provNAttributes(attributes)})`),
+  );
+
+  PROV_N_RELATIONS.forEach(([kind, positional]) => {
+    Object.entries((document[kind] as Record<string, ProvAttributes> | undefined) ?? {}).forEach(([id, relation]) => {
+      const args = positional.map(key => (relation[key] === undefined ? "-" : String(relation[key])));
+      lines.push(`  ${kind}(${id}; ${args.join(", ")}${provNAttributes(relation, positional)})`);
+    });
+  });
+
+  lines.push("endDocument");
+  return lines.join("\n");
+}
+
+// UUID (version 8, RFC 9562) derived from a name, so re-exports of a run get the same ids
+function nameBasedUuid(name: string): string {
+  const words = [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x85ebca6b].map(seed => {
+    let hash = seed;
+    for (let i = 0; i < name.length; i++) {
+      hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, "0");
+  });
+  const hex = words.join("");
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * One OpenLineage COMPLETE event per simulation node that created tokens. The
+ * node is the job, its source tokens the inputs and its created tokens the
+ * outputs, each with a facet naming the tokens it was derived from. Every
+ * event points to the simulation run through the parent run facet.
+ */
+export function exportOpenLineageEvents(graph: TokenGraph, options: OpenLineageOptions): OpenLineageRunEvent[] {
+  const namespace = options.namespace ?? DEFAULT_NAMESPACE;
+  const jobName = options.jobName ?? "simulation";
+  const producer = options.producer ?? DEFAULT_PRODUCER;
+  const eventTime = options.eventTime ?? new Date().toISOString();
+
+  const tokensByNode = new Map<string, TokenNode[]>();
+  graph.getAllTokenIds().forEach(tokenId => {
+    const node = graph.getNode(tokenId)!;
+    tokensByNode.set(node.originNodeId, [...(tokensByNode.get(node.originNodeId) ?? []), node]);
+  });
+
+  return Array.from(tokensByNode.entries()).map(([nodeId, tokens]) => {
+    const inputIds = new Set<string>();
+    tokens.forEach(token => token.operation?.sourceTokens.forEach(source => inputIds.add(source.tokenId)));
+
+    return {
+      eventType: "COMPLETE",
+      eventTime,
+      producer,
+      schemaURL: RUN_EVENT_SCHEMA,
+      run: {
+        runId: nameBasedUuid(`${options.runId}/${nodeId}`),
+        facets: {
+          parent: {
+            _producer: producer,
+            _schemaURL: PARENT_FACET_SCHEMA,
+            run: { runId: options.runId },
+            job: { namespace, name: jobName },
+          },
+        },
+      },
+      job: { namespace, name: `${jobName}.${nodeId}` },
+      inputs: Array.from(inputIds).map(tokenId => ({ namespace, name: tokenRef(tokenId) })),
+      outputs: tokens.map(token => ({
+        namespace,
+        name: tokenRef(token.tokenId),
+        facets: {
+          tokenProvenance: {
+            _producer: producer,
+            _schemaURL: TOKEN_FACET_SCHEMA,
+            value: token.value,
+            createdAt: token.createdAt,
+            operation: token.operation?.type,
+            method: token.operation?.method,
+            derivedFrom: graph.getIncomingEdges(token.tokenId).map(edge => edge.fromTokenId),
+          },
+        },
+      })),
+    };
+  });
+}
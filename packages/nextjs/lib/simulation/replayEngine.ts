@@ -1,8 +1,9 @@
 /**
  * Enhanced Deterministic Replay Engine
  *
- * This provides full integration with the existing simulation store
- * to enable complete deterministic replay of simulation scenarios.
+ * Replays recorded core events through the same SimulationEngine the
+ * simulation store runs. With the recorded seed, the replayed activity log is
+ * identical to the original one.
  */
 
 import type {
@@ -15,13 +16,9 @@ import type {
   AnyNodeState,
   HistoryEntry,
   Token,
-  AnyNode,
-  DataSourceState,
-  QueueState,
-  ProcessNodeState,
-  SinkState
+  AnyNode
 } from "./types";
-import { evaluateFormula } from "./formulaEngine";
+import { SimulationEngine } from "./simulationEngine";
 import { nanoid } from "@/lib/nanoid";
 
 export interface ReplayState {
@@ -33,6 +30,7 @@ export interface ReplayState {
   globalActivityLog: HistoryEntry[];
   nodeActivityLogs: Record<string, HistoryEntry[]>;
   tokens: Map<string, Token>; // Track all tokens by ID
+  randomState: Record<string, number>; // Random stream positions, to continue the run
   isRunning: boolean;
   errorMessages: string[];
 }
@@ -50,11 +48,30 @@ export interface ReplayResult {
     isValid: boolean;
     errors: string[];
     warnings: string[];
+    checkedSnapshots: string[]; // Snapshots the replay passed and compared against
   };
 }
 
+// Differences reported per snapshot before the rest are summarized
+const MAX_SNAPSHOT_DIFFERENCES = 20;
+
+/**
+ * Tokens a node currently holds: buffers, held deliveries and consumed tokens
+ */
+export function heldTokens(nodeState: AnyNodeState): Token[] {
+  const state = nodeState as any;
+  return [
+    ...(state.inputBuffer ?? []),
+    ...(state.outputBuffer ?? []),
+    ...(state.consumedTokens ?? []),
+    ...Object.values<Token[]>(state.inputBuffers ?? {}).flat(),
+    ...(state.blockedDeliveries ?? []).map((delivery: { token: Token }) => delivery.token)
+  ];
+}
+
 export class EnhancedReplayEngine {
   private replayState: ReplayState | null = null;
+  private engine: SimulationEngine | null = null;
   private startTime: number = 0;
 
   /**
@@ -65,6 +82,7 @@ export class EnhancedReplayEngine {
     options: {
       targetTime?: number;
       startFromSnapshot?: string; // Snapshot ID
+      fromStart?: boolean; // Replay every event from t=0 instead of the best snapshot
       validateAgainstOriginal?: boolean;
       onProgress?: (progress: {
         currentTime: number;
@@ -81,37 +99,37 @@ export class EnhancedReplayEngine {
     replayLog.push(`🔄 Starting enhanced replay of "${scenario.name}"`);
 
     // Initialize state
-    this.replayState = this.initializeReplayState(scenario.initialModel);
-    let currentSnapshotIndex = -1;
+    this.replayState = this.initializeReplayState(scenario.initialModel, scenario);
+    let firstEventIndex = 0;
 
     // Find and load starting snapshot if requested
     if (options.startFromSnapshot) {
       const snapshot = scenario.snapshots.find(s => s.id === options.startFromSnapshot);
       if (snapshot) {
-        this.replayState = this.restoreFromSnapshot(snapshot);
-        currentSnapshotIndex = scenario.snapshots.indexOf(snapshot);
+        this.replayState = this.restoreFromSnapshot(snapshot, scenario);
+        firstEventIndex = snapshot.coreEventIndex + 1;
         replayLog.push(`📸 Started from snapshot: ${snapshot.description || 'Unnamed'} at t=${snapshot.timestamp}`);
       }
-    } else {
+    } else if (!options.fromStart) {
       // Find best automatic snapshot
-      const bestSnapshot = this.findBestSnapshot(scenario, options.targetTime || Infinity);
+      const bestSnapshot = this.findBestSnapshot(scenario, options.targetTime ?? Infinity);
       if (bestSnapshot) {
-        this.replayState = this.restoreFromSnapshot(bestSnapshot);
-        currentSnapshotIndex = scenario.snapshots.indexOf(bestSnapshot);
+        this.replayState = this.restoreFromSnapshot(bestSnapshot, scenario);
+        firstEventIndex = bestSnapshot.coreEventIndex + 1;
         replayLog.push(`📸 Auto-selected snapshot at t=${bestSnapshot.timestamp}`);
       }
     }
 
-    // Filter events to replay from current state
-    const eventsToReplay = scenario.coreEvents.filter(e =>
-      e.timestamp >= this.replayState.currentTime &&
-      (!options.targetTime || e.timestamp <= options.targetTime)
-    );
+    // Replay the events recorded after the starting point, up to the target time
+    const eventsToReplay = scenario.coreEvents
+      .slice(firstEventIndex)
+      .filter(e => options.targetTime === undefined || e.timestamp <= options.targetTime);
 
     replayLog.push(`⚡ Replaying ${eventsToReplay.length} events from t=${this.replayState.currentTime}`);
 
     // Replay events
     const derivedEvents: HistoryEntry[] = [...this.replayState.globalActivityLog];
+    const snapshotChecks = { checkedSnapshots: [] as string[], errors: [] as string[] };
 
     for (let i = 0; i < eventsToReplay.length; i++) {
       const event = eventsToReplay[i];
@@ -119,10 +137,20 @@ export class EnhancedReplayEngine {
       // Process the event
       const eventResult = await this.processEventWithSimulation(event);
 
-      // Update state
-      this.replayState.currentTime = Math.max(this.replayState.currentTime, event.timestamp);
       derivedEvents.push(...eventResult.newEvents);
 
+      // Snapshots taken right after this event must match the replayed state
+      scenario.snapshots
+        .filter(snapshot => snapshot.coreEventIndex === firstEventIndex + i)
+        .forEach(snapshot => {
+          const errors = this.compareWithSnapshot(this.engine, snapshot);
+          snapshotChecks.checkedSnapshots.push(snapshot.id);
+          snapshotChecks.errors.push(...errors);
+          replayLog.push(errors.length === 0
+            ? `✅ Matches snapshot at t=${snapshot.timestamp}`
+            : `❌ Differs from snapshot at t=${snapshot.timestamp} (${errors.length} differences)`);
+        });
+
       // Update progress
       if (options.onProgress) {
         options.onProgress({
@@ -136,7 +164,7 @@ export class EnhancedReplayEngine {
       replayLog.push(`⚡ [t=${event.timestamp}] ${event.type}: ${eventResult.description}`);
 
       // Check for early termination
-      if (options.targetTime && event.timestamp >= options.targetTime) {
+      if (options.targetTime !== undefined && event.timestamp >= options.targetTime) {
         replayLog.push(`🎯 Reached target time: ${options.targetTime}`);
         break;
       }
@@ -151,9 +179,16 @@ export class EnhancedReplayEngine {
     };
 
     // Validate replay if requested
-    const validation = options.validateAgainstOriginal
+    const finalValidation = options.validateAgainstOriginal
       ? await this.validateReplay(scenario, this.replayState)
       : { isValid: true, errors: [], warnings: [] };
+    const errors = [...snapshotChecks.errors, ...finalValidation.errors];
+    const validation = {
+      isValid: errors.length === 0,
+      errors,
+      warnings: finalValidation.warnings,
+      checkedSnapshots: snapshotChecks.checkedSnapshots
+    };
 
     console.log(`✅ Replay complete in ${replayTimeMs}ms (${performance.eventsPerSecond.toFixed(2)} events/sec)`);
 
@@ -167,113 +202,49 @@ export class EnhancedReplayEngine {
   }
 
   /**
-   * Initialize replay state from a model definition
+   * Initialize replay state from a model definition, using the recorded seed so
+   * every random draw matches the original run
    */
-  private initializeReplayState(model: Scenario): ReplayState {
-    const nodesConfig: Record<string, AnyNode> = {};
-    const nodeStates: Record<string, AnyNodeState> = {};
-    const nodeActivityLogs: Record<string, HistoryEntry[]> = {};
-
-    // Initialize nodes exactly like the simulation store does
-    model.nodes.forEach(node => {
-      nodesConfig[node.nodeId] = node;
-      nodeActivityLogs[node.nodeId] = [];
-
-      switch (node.type) {
-        case "DataSource":
-          nodeStates[node.nodeId] = {
-            lastEmissionTime: -1,
-            stateMachine: {
-              currentState: "source_idle",
-              transitionHistory: []
-            }
-          } as DataSourceState;
-          break;
-
-        case "Queue":
-          nodeStates[node.nodeId] = {
-            inputBuffer: [],
-            outputBuffer: [],
-            lastAggregationTime: -1,
-            stateMachine: {
-              currentState: "queue_idle",
-              transitionHistory: []
-            }
-          } as QueueState;
-          break;
-
-        case "ProcessNode":
-          nodeStates[node.nodeId] = {
-            inputBuffers: {},
-            lastFiredTime: -1,
-            stateMachine: {
-              currentState: "process_idle",
-              transitionHistory: []
-            }
-          } as ProcessNodeState;
-          break;
-
-        case "Sink":
-          nodeStates[node.nodeId] = {
-            consumedTokenCount: 0,
-            lastConsumedTime: -1,
-            consumedTokens: [],
-            stateMachine: {
-              currentState: "sink_idle",
-              transitionHistory: []
-            }
-          } as SinkState;
-          break;
-
-        case "FSMProcessNode":
-          const fsmNode = node as any;
-          const initialState = fsmNode.fsm?.initialState || fsmNode.fsm?.states?.[0] || "idle";
-          nodeStates[node.nodeId] = {
-            inputBuffers: {},
-            fsmVariables: { ...fsmNode.fsm?.variables } || {},
-            currentFSMState: initialState,
-            lastTransitionTime: -1,
-            stateMachine: {
-              currentState: initialState,
-              transitionHistory: []
-            }
-          } as any;
-          break;
-      }
-    });
-
-    return {
-      scenario: model,
-      nodesConfig,
-      nodeStates,
-      currentTime: 0,
-      eventCounter: 0,
-      globalActivityLog: [],
-      nodeActivityLogs,
-      tokens: new Map(),
-      isRunning: false,
-      errorMessages: []
-    };
+  private initializeReplayState(model: Scenario, scenario: SimulationScenario): ReplayState {
+    this.engine = new SimulationEngine(model, { seed: scenario.seed, startEpoch: scenario.startEpoch });
+    return this.syncReplayState(this.engine, new Map());
   }
 
   /**
    * Restore state from a snapshot
    */
-  private restoreFromSnapshot(snapshot: SimulationSnapshot): ReplayState {
-    return {
-      scenario: snapshot.modelDefinition,
-      nodesConfig: snapshot.modelDefinition.nodes.reduce((acc, node) => {
-        acc[node.nodeId] = node;
-        return acc;
-      }, {} as Record<string, AnyNode>),
+  private restoreFromSnapshot(snapshot: SimulationSnapshot, scenario: SimulationScenario): ReplayState {
+    this.engine = new SimulationEngine(snapshot.modelDefinition, {
+      seed: scenario.seed,
+      startEpoch: scenario.startEpoch,
+    });
+    this.engine.restoreState({
       nodeStates: JSON.parse(JSON.stringify(snapshot.nodeStates)),
       currentTime: snapshot.simulationTime,
       eventCounter: snapshot.eventCounter,
       globalActivityLog: [...snapshot.globalActivityLog],
       nodeActivityLogs: { ...snapshot.nodeActivityLogs },
-      tokens: new Map(), // Reconstruct from activity logs if needed
-      isRunning: false,
-      errorMessages: []
+    });
+    this.engine.restoreRandomState(snapshot.randomState ?? {});
+    const tokens = new Map<string, Token>();
+    Object.values(snapshot.nodeStates).forEach(nodeState =>
+      heldTokens(nodeState).forEach(token => tokens.set(token.id, token))
+    );
+    return this.syncReplayState(this.engine, tokens);
+  }
+
+  /**
+   * Mirror the engine state into the replay state
+   */
+  private syncReplayState(engine: SimulationEngine, tokens: Map<string, Token>): ReplayState {
+    const engineState = engine.getState();
+    return {
+      scenario: engine.scenario,
+      nodesConfig: engine.nodesConfig,
+      ...engineState,
+      tokens,
+      randomState: engine.getRandomState(),
+      isRunning: this.replayState?.isRunning ?? false,
     };
   }
 
@@ -283,257 +254,138 @@ export class EnhancedReplayEngine {
   private findBestSnapshot(scenario: SimulationScenario, targetTime: number): SimulationSnapshot | null {
     const eligibleSnapshots = scenario.snapshots
       .filter(s => s.timestamp <= targetTime)
-      .sort((a, b) => b.timestamp - a.timestamp);
+      .sort((a, b) => b.timestamp - a.timestamp || b.coreEventIndex - a.coreEventIndex);
 
     return eligibleSnapshots[0] || null;
   }
 
   /**
-   * Process a single core event with full simulation fidelity
+   * Process a single core event by driving the simulation engine, so the
+   * derived activity log is exactly what the live simulation produced
    */
   private async processEventWithSimulation(event: CoreEvent): Promise<{
     newEvents: HistoryEntry[];
     description: string;
   }> {
-    if (!this.replayState) {
+    if (!this.replayState || !this.engine) {
       throw new Error("Replay state not initialized");
     }
 
+    const engine = this.engine;
     const newEvents: HistoryEntry[] = [];
+    const unsubscribe = engine.subscribe(entry => newEvents.push(entry));
     let description = "";
+    let isRunning = this.replayState.isRunning;
 
-    switch (event.type) {
-      case 'simulation_start':
-        description = "Simulation initialized";
-        newEvents.push(this.createHistoryEntry('system', 'simulation_start', 0, 'Simulation started'));
-        break;
-
-      case 'timer_tick':
-        // Process a simulation tick exactly like the simulation store
-        description = `Timer tick to t=${event.timestamp}`;
-        const tickEvents = await this.simulateTick(event.timestamp);
-        newEvents.push(...tickEvents);
-        break;
-
-      case 'manual_input_injection':
-        if (event.nodeId && event.payload.value !== undefined) {
-          description = `Manual input: ${event.payload.value} → ${event.nodeId}`;
-          const injectionEvents = this.simulateManualInput(event.nodeId, event.payload.value, event.timestamp);
-          newEvents.push(...injectionEvents);
-        }
-        break;
+    try {
+      switch (event.type) {
+        case 'simulation_start':
+          description = "Simulation initialized";
+          break;
 
-      case 'model_upgrade':
-        if (event.payload.modelDefinition) {
-          description = `Model upgraded: ${event.payload.data?.reason || 'Unknown reason'}`;
-          this.replayState.scenario = event.payload.modelDefinition;
-          // Reinitialize node configs
-          this.replayState.nodesConfig = event.payload.modelDefinition.nodes.reduce((acc, node) => {
-            acc[node.nodeId] = node;
-            return acc;
-          }, {} as Record<string, AnyNode>);
-          newEvents.push(this.createHistoryEntry('system', 'model_upgraded', event.timestamp, description));
-        }
-        break;
+        case 'timer_tick':
+          description = `Timer tick to t=${event.timestamp}`;
+          engine.runUntil(event.timestamp);
+          break;
 
-      case 'simulation_control':
-        description = `Simulation control: ${event.payload.action}`;
-        if (event.payload.action === 'play') {
-          this.replayState.isRunning = true;
-        } else if (event.payload.action === 'pause') {
-          this.replayState.isRunning = false;
-        }
-        newEvents.push(this.createHistoryEntry('system', 'control_action', event.timestamp, description));
-        break;
+        case 'manual_input_injection':
+          if (event.nodeId && event.payload.value !== undefined) {
+            description = `Manual input: ${event.payload.value} → ${event.nodeId}`;
+            const token = engine.injectToken(event.nodeId, event.payload.value, 'user');
+            this.replayState.tokens.set(token.id, token);
+          }
+          break;
 
-      case 'user_interaction':
-        description = `User action: ${event.payload.userAction}`;
-        newEvents.push(this.createHistoryEntry('user', 'interaction', event.timestamp, description));
-        break;
+        case 'model_upgrade':
+          if (event.payload.modelDefinition) {
+            description = `Model upgraded: ${event.payload.data?.reason || 'Unknown reason'}`;
+            // Loading the upgraded model restarts the simulation with the same seed,
+            // exactly like the simulation store does
+            const upgradedModel = event.payload.modelDefinition;
+            newEvents.push({
+              timestamp: event.timestamp,
+              epochTimestamp: event.realTimestamp,
+              sequence: engine.getState().eventCounter,
+              nodeId: 'system',
+              action: 'model_upgraded',
+              value: 0,
+              details: 'Model definition upgraded during simulation',
+              state: 'upgrading',
+              bufferSize: 0,
+              outputBufferSize: 0
+            });
+            this.engine = new SimulationEngine(upgradedModel, {
+              seed: upgradedModel.seed ?? engine.seed,
+              startEpoch: engine.startEpoch,
+            });
+          }
+          break;
 
-      default:
-        description = `Unknown event type: ${event.type}`;
-        newEvents.push(this.createHistoryEntry('system', 'unknown_event', event.timestamp, description));
-    }
+        case 'simulation_control':
+          description = `Simulation control: ${event.payload.action}`;
+          if (event.payload.action === 'play') {
+            isRunning = true;
+          } else if (event.payload.action === 'pause') {
+            isRunning = false;
+          }
+          break;
 
-    return { newEvents, description };
-  }
+        case 'user_interaction':
+          description = `User action: ${event.payload.userAction}`;
+          break;
 
-  /**
-   * Simulate a complete tick cycle
-   */
-  private async simulateTick(targetTime: number): Promise<HistoryEntry[]> {
-    if (!this.replayState) return [];
-
-    const events: HistoryEntry[] = [];
-
-    // Advance time
-    this.replayState.currentTime = targetTime;
-
-    // Process each node type following the exact simulation store logic
-    Object.values(this.replayState.nodesConfig).forEach(nodeConfig => {
-      const nodeState = this.replayState!.nodeStates[nodeConfig.nodeId];
-
-      if (nodeConfig.type === "DataSource") {
-        const dsState = nodeState as DataSourceState;
-        if (targetTime >= (dsState.lastEmissionTime < 0 ? 0 : dsState.lastEmissionTime) + nodeConfig.interval) {
-          // Generate and emit token
-          const value = Math.floor(Math.random() * (nodeConfig.generation.valueMax - nodeConfig.generation.valueMin + 1)) + nodeConfig.generation.valueMin;
-          const token = this.createToken(nodeConfig.nodeId, value, targetTime);
-
-          events.push(this.createHistoryEntry(
-            nodeConfig.nodeId,
-            'token_emitted',
-            targetTime,
-            `Generated token ${token.id} with value ${value}`
-          ));
-
-          // Update state
-          dsState.lastEmissionTime = targetTime;
-
-          // Route to destinations
-          nodeConfig.outputs.forEach(output => {
-            const routingEvents = this.routeToken(token, output.destinationNodeId, targetTime);
-            events.push(...routingEvents);
-          });
-        }
+        default:
+          description = `Unknown event type: ${event.type}`;
       }
+    } finally {
+      unsubscribe();
+    }
 
-      // Add Queue and ProcessNode logic here following the same patterns...
-    });
-
-    return events;
-  }
-
-  /**
-   * Simulate manual input injection
-   */
-  private simulateManualInput(nodeId: string, value: any, timestamp: number): HistoryEntry[] {
-    if (!this.replayState) return [];
-
-    const token = this.createToken('user', value, timestamp);
-    const events: HistoryEntry[] = [];
-
-    events.push(this.createHistoryEntry(
-      'user',
-      'manual_injection',
-      timestamp,
-      `Manually injected token ${token.id} with value ${value} to ${nodeId}`
-    ));
-
-    // Route token to destination
-    const routingEvents = this.routeToken(token, nodeId, timestamp);
-    events.push(...routingEvents);
+    this.collectTokens(newEvents);
+    this.replayState = { ...this.syncReplayState(this.engine, this.replayState.tokens), isRunning };
 
-    return events;
+    return { newEvents, description };
   }
 
   /**
-   * Route a token to a destination node
+   * Track tokens that are visible in the node states touched by these events
    */
-  private routeToken(token: Token, destinationNodeId: string, timestamp: number): HistoryEntry[] {
-    if (!this.replayState) return [];
-
-    const events: HistoryEntry[] = [];
-    const destNode = this.replayState.nodesConfig[destinationNodeId];
-
-    if (!destNode) {
-      events.push(this.createHistoryEntry(
-        'system',
-        'routing_error',
-        timestamp,
-        `Cannot route token ${token.id}: destination node ${destinationNodeId} not found`
-      ));
-      return events;
-    }
+  private collectTokens(entries: HistoryEntry[]): void {
+    if (!this.replayState || !this.engine) return;
 
-    const destState = this.replayState.nodeStates[destinationNodeId];
-
-    switch (destNode.type) {
-      case "Sink":
-        const sinkState = destState as SinkState;
-        sinkState.consumedTokenCount = (sinkState.consumedTokenCount || 0) + 1;
-        sinkState.lastConsumedTime = timestamp;
-        sinkState.consumedTokens = [...(sinkState.consumedTokens || []), token].slice(-50);
-
-        events.push(this.createHistoryEntry(
-          destinationNodeId,
-          'token_consumed',
-          timestamp,
-          `Consumed token ${token.id} with value ${token.value}`
-        ));
-        break;
-
-      case "Queue":
-        const queueState = destState as QueueState;
-        queueState.inputBuffer = [...queueState.inputBuffer, token];
-
-        events.push(this.createHistoryEntry(
-          destinationNodeId,
-          'token_received',
-          timestamp,
-          `Received token ${token.id}, buffer size: ${queueState.inputBuffer.length}`
-        ));
-        break;
-
-      // Add other node types as needed...
-    }
+    const touchedNodeIds = new Set(entries.map(entry => entry.nodeId));
+    touchedNodeIds.forEach(nodeId => {
+      const nodeState = this.engine!.getNodeState(nodeId);
+      if (!nodeState) return;
 
-    return events;
+      heldTokens(nodeState).forEach(token => this.replayState!.tokens.set(token.id, token));
+    });
   }
 
   /**
-   * Create a token with proper ID and tracking
+   * Differences between the engine and a recorded snapshot: clock, event
+   * counter and every field of every node state
    */
-  private createToken(originNodeId: string, value: any, timestamp: number): Token {
-    const token: Token = {
-      id: nanoid(8),
-      value,
-      createdAt: timestamp,
-      originNodeId,
-      history: []
-    };
+  private compareWithSnapshot(engine: SimulationEngine, snapshot: SimulationSnapshot): string[] {
+    const state = engine.getState();
+    const differences: string[] = [];
 
-    if (this.replayState) {
-      this.replayState.tokens.set(token.id, token);
+    if (state.currentTime !== snapshot.simulationTime) {
+      differences.push(`time: replay=${state.currentTime}, recorded=${snapshot.simulationTime}`);
     }
-
-    return token;
-  }
-
-  /**
-   * Create a history entry for event tracking
-   */
-  private createHistoryEntry(
-    nodeId: string,
-    action: string,
-    timestamp: number,
-    details: string
-  ): HistoryEntry {
-    if (!this.replayState) {
-      throw new Error("Replay state not initialized");
+    if (state.eventCounter !== snapshot.eventCounter) {
+      differences.push(`eventCounter: replay=${state.eventCounter}, recorded=${snapshot.eventCounter}`);
     }
+    const nodeIds = new Set([...Object.keys(state.nodeStates), ...Object.keys(snapshot.nodeStates)]);
+    nodeIds.forEach(nodeId => {
+      collectDifferences(state.nodeStates[nodeId], snapshot.nodeStates[nodeId], nodeId, differences);
+    });
 
-    const entry: HistoryEntry = {
-      timestamp,
-      epochTimestamp: Date.now(),
-      sequence: this.replayState.eventCounter++,
-      nodeId,
-      action,
-      value: 0,
-      details,
-      state: 'processing',
-      bufferSize: 0,
-      outputBufferSize: 0
-    };
-
-    this.replayState.globalActivityLog.push(entry);
-    if (!this.replayState.nodeActivityLogs[nodeId]) {
-      this.replayState.nodeActivityLogs[nodeId] = [];
+    if (differences.length > MAX_SNAPSHOT_DIFFERENCES) {
+      const hidden = differences.length - MAX_SNAPSHOT_DIFFERENCES;
+      differences.splice(MAX_SNAPSHOT_DIFFERENCES, hidden, `... and ${hidden} more differences`);
     }
-    this.replayState.nodeActivityLogs[nodeId].push(entry);
-
-    return entry;
+    return differences.map(difference => `Snapshot ${snapshot.id} (t=${snapshot.timestamp}) ${difference}`);
   }
 
   /**
@@ -701,4 +553,19 @@ export class EnhancedReplayEngine {
   }
 }
 
+// Paths at which two JSON-like values differ, e.g. "queue1.inputBuffer.0.value: replay=3, recorded=4"
+function collectDifferences(replayed: any, recorded: any, path: string, differences: string[]): void {
+  if (replayed === recorded) return;
+
+  const isObject = (value: any) => value !== null && typeof value === 'object';
+  if (isObject(replayed) && isObject(recorded) && Array.isArray(replayed) === Array.isArray(recorded)) {
+    const keys = new Set([...Object.keys(replayed), ...Object.keys(recorded)]);
+    keys.forEach(key => collectDifferences(replayed[key], recorded[key], `${path}.${key}`, differences));
+    return;
+  }
+
+  const format = (value: any) => (value === undefined ? 'missing' : JSON.stringify(value));
+  differences.push(`${path}: replay=${format(replayed)}, recorded=${format(recorded)}`);
+}
+
 export const enhancedReplayEngine = new EnhancedReplayEngine();
\ No newline at end of file
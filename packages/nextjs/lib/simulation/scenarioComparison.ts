@@ -0,0 +1,227 @@
+/**
+ * Scenario Comparison
+ *
+ * Aligns the derived activity logs of two runs driven by the same core events
+ * and reports where they part ways: per node, the first diverging entry and
+ * the KPI deltas. Entries are aligned by simulation time and node; within one
+ * time and node they are compared in log order by action and value, so token
+ * ids and sequence numbers (which shift as soon as one model draws or logs
+ * more) do not count as differences.
+ */
+import { type SimulationStatistics, computeSimulationStatistics, statisticsKpis, valueRange } from "./statistics";
+import type { AnyNode, HistoryEntry } from "./types";
+
+export interface EntryDifference {
+  timestamp: number;
+  nodeId: string;
+  // The action of the entry in A, or in B when A has no entry at this position
+  action: string;
+  valueA: any;
+  valueB: any;
+  entryA?: HistoryEntry;
+  entryB?: HistoryEntry;
+}
+
+export interface NodeDivergence {
+  nodeId: string;
+  entriesA: number;
+  entriesB: number;
+  // Aligned positions whose entries differ or exist in one run only
+  divergentEntries: number;
+  firstDivergence: EntryDifference;
+}
+
+export interface KpiDelta {
+  name: string;
+  valueA: number | undefined;
+  valueB: number | undefined;
+  delta: number | undefined;
+}
+
+export interface HistoryComparison {
+  // Divergent nodes, earliest divergence first
+  nodeDivergences: NodeDivergence[];
+  // The first entry that carries a token value and differs between the runs
+  firstDivergentToken: EntryDifference | null;
+  differences: EntryDifference[];
+}
+
+export interface ScenarioRunResult {
+  derivedEvents: HistoryEntry[];
+  statistics: SimulationStatistics;
+  finalTime: number;
+}
+
+export interface ScenarioComparisonResult extends HistoryComparison {
+  resultsA: ScenarioRunResult;
+  resultsB: ScenarioRunResult;
+  kpiDeltas: KpiDelta[];
+}
+
+const signature = (entry: HistoryEntry | undefined) =>
+  entry ? `${entry.action}:${JSON.stringify(entry.value ?? null)}` : undefined;
+
+// Entries per "<time>|<node>" in log order, plus the keys in the order they first appear
+function groupByTimeAndNode(entries: HistoryEntry[], groups: Map<string, HistoryEntry[]>, order: string[]): void {
+  entries.forEach(entry => {
+    const key = `${entry.timestamp}|${entry.nodeId}`;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+      order.push(key);
+    }
+    groups.get(key)!.push(entry);
+  });
+}
+
+/**
+ * Align two activity logs by time and node and collect every position where they differ
+ */
+export function compareHistories(entriesA: HistoryEntry[], entriesB: HistoryEntry[]): HistoryComparison {
+  const groupsA = new Map<string, HistoryEntry[]>();
+  const groupsB = new Map<string, HistoryEntry[]>();
+  const order: string[] = [];
+  groupByTimeAndNode(entriesA, groupsA, order);
+  groupByTimeAndNode(entriesB, groupsB, order);
+
+  const firstSeen = new Map<string, number>();
+  order.forEach((key, index) => firstSeen.has(key) || firstSeen.set(key, index));
+  const keys = Array.from(firstSeen.keys()).sort(
+    (a, b) => Number(a.split("|")[0]) - Number(b.split("|")[0]) || firstSeen.get(a)! - firstSeen.get(b)!,
+  );
+
+  const differences: EntryDifference[] = [];
+  keys.forEach(key => {
+    const a = groupsA.get(key) ?? [];
+    const b = groupsB.get(key) ?? [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      if (signature(a[i]) === signature(b[i])) continue;
+      const entry = (a[i] ?? b[i])!;
+      differences.push({
+        timestamp: entry.timestamp,
+        nodeId: entry.nodeId,
+        action: entry.action,
+        valueA: a[i]?.value,
+        valueB: b[i]?.value,
+        entryA: a[i],
+        entryB: b[i],
+      });
+    }
+  });
+
+  const countPerNode = (entries: HistoryEntry[]) => {
+    const counts = new Map<string, number>();
+    entries.forEach(entry => counts.set(entry.nodeId, (counts.get(entry.nodeId) ?? 0) + 1));
+    return counts;
+  };
+  const countsA = countPerNode(entriesA);
+  const countsB = countPerNode(entriesB);
+
+  const divergences = new Map<string, NodeDivergence>();
+  differences.forEach(difference => {
+    const divergence = divergences.get(difference.nodeId);
+    if (divergence) {
+      divergence.divergentEntries++;
+      return;
+    }
+    divergences.set(difference.nodeId, {
+      nodeId: difference.nodeId,
+      entriesA: countsA.get(difference.nodeId) ?? 0,
+      entriesB: countsB.get(difference.nodeId) ?? 0,
+      divergentEntries: 1,
+      firstDivergence: difference,
+    });
+  });
+
+  return {
+    nodeDivergences: Array.from(divergences.values()),
+    firstDivergentToken:
+      differences.find(difference => difference.valueA !== undefined || difference.valueB !== undefined) ?? null,
+    differences,
+  };
+}
+
+export interface AlignedEntryRow {
+  timestamp: number;
+  entryA?: HistoryEntry;
+  entryB?: HistoryEntry;
+  differs: boolean;
+}
+
+/**
+ * One node's entries of both runs side by side, paired in log order per time,
+ * starting at `fromTime`
+ */
+export function alignNodeEntries(
+  entriesA: HistoryEntry[],
+  entriesB: HistoryEntry[],
+  nodeId: string,
+  options: { fromTime?: number; limit?: number } = {},
+): AlignedEntryRow[] {
+  const byTime = (entries: HistoryEntry[]) => {
+    const groups = new Map<number, HistoryEntry[]>();
+    entries
+      .filter(entry => entry.nodeId === nodeId && entry.timestamp >= (options.fromTime ?? -Infinity))
+      .forEach(entry => groups.set(entry.timestamp, [...(groups.get(entry.timestamp) ?? []), entry]));
+    return groups;
+  };
+  const groupsA = byTime(entriesA);
+  const groupsB = byTime(entriesB);
+  const times = Array.from(new Set([...groupsA.keys(), ...groupsB.keys()])).sort((a, b) => a - b);
+
+  const rows: AlignedEntryRow[] = [];
+  for (const timestamp of times) {
+    const a = groupsA.get(timestamp) ?? [];
+    const b = groupsB.get(timestamp) ?? [];
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      rows.push({ timestamp, entryA: a[i], entryB: b[i], differs: signature(a[i]) !== signature(b[i]) });
+      if (options.limit !== undefined && rows.length >= options.limit) return rows;
+    }
+  }
+  return rows;
+}
+
+/**
+ * KPIs of both runs side by side, over the union of their names
+ */
+export function computeKpiDeltas(statisticsA: SimulationStatistics, statisticsB: SimulationStatistics): KpiDelta[] {
+  const kpisA = statisticsKpis(statisticsA);
+  const kpisB = statisticsKpis(statisticsB);
+  return Array.from(new Set([...Object.keys(kpisA), ...Object.keys(kpisB)])).map(name => ({
+    name,
+    valueA: kpisA[name],
+    valueB: kpisB[name],
+    delta: kpisA[name] !== undefined && kpisB[name] !== undefined ? kpisB[name] - kpisA[name] : undefined,
+  }));
+}
+
+/**
+ * Compare two runs' derived events, computing their statistics over a shared time window
+ */
+export function compareRuns(
+  runA: { derivedEvents: HistoryEntry[]; nodes: AnyNode[]; finalTime: number },
+  runB: { derivedEvents: HistoryEntry[]; nodes: AnyNode[]; finalTime: number },
+): ScenarioComparisonResult {
+  const logged = valueRange([...runA.derivedEvents, ...runB.derivedEvents].map(entry => entry.timestamp));
+  const window = {
+    startTime: logged?.min ?? 0,
+    endTime: Math.max(runA.finalTime, runB.finalTime, logged?.max ?? 0),
+  };
+
+  const resultsA: ScenarioRunResult = {
+    derivedEvents: runA.derivedEvents,
+    statistics: computeSimulationStatistics(runA.derivedEvents, runA.nodes, window),
+    finalTime: runA.finalTime,
+  };
+  const resultsB: ScenarioRunResult = {
+    derivedEvents: runB.derivedEvents,
+    statistics: computeSimulationStatistics(runB.derivedEvents, runB.nodes, window),
+    finalTime: runB.finalTime,
+  };
+
+  return {
+    resultsA,
+    resultsB,
+    ...compareHistories(runA.derivedEvents, runB.derivedEvents),
+    kpiDeltas: computeKpiDeltas(resultsA.statistics, resultsB.statistics),
+  };
+}
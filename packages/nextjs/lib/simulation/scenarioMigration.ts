@@ -0,0 +1,304 @@
+/**
+ * Scenario Migration
+ *
+ * Upgrades scenarios written for older protocol versions to the current one.
+ * Each migration turns one version into the next; migrateScenario chains them
+ * from the version the data declares (or looks like) and validates the result.
+ * Older formats leave out things the current schema requires, such as node
+ * positions, interfaces and input names, so every value a migration has to
+ * make up is reported as a note.
+ */
+import type { AnyProtocolNode } from "../workflow/protocolSchema";
+import { validateProtocolScenario } from "../workflow/protocolValidation";
+import type { AnyNode, InputV3, Interface, OutputV3, Scenario } from "./types";
+import { validateScenario } from "./validation";
+
+export const CURRENT_SCENARIO_VERSION = "3.0";
+
+export interface MigrationNote {
+  // The migration that made the inference, e.g. "1.0 → 3.0"
+  step: string;
+  nodeId?: string;
+  message: string;
+}
+
+export interface ScenarioMigration {
+  from: string;
+  to: string;
+  migrate(data: any, note: (message: string, nodeId?: string) => void): any;
+}
+
+export interface ScenarioMigrationResult {
+  // The migrated and validated scenario; null when a migration or validation failed
+  scenario: Scenario | null;
+  fromVersion: string;
+  // The last version reached
+  toVersion: string;
+  notes: MigrationNote[];
+  errors: string[];
+}
+
+export class ScenarioMigrationError extends Error {
+  constructor(public errors: string[]) {
+    super(errors.join("; "));
+    this.name = "ScenarioMigrationError";
+  }
+}
+
+// Fields only protocol v1 nodes have
+const V1_NODE_FIELDS = ["valueMin", "valueMax", "timeWindow", "aggregationMethod", "inputNodeIds"];
+
+/**
+ * The protocol version of scenario data: its `version`, else "1.0" when its
+ * nodes use v1 fields, else the current version
+ */
+export function detectScenarioVersion(data: any): string {
+  if (typeof data?.version === "string") return data.version;
+  if (typeof data?.version === "number") return data.version.toFixed(1);
+  const nodes: any[] = Array.isArray(data?.nodes) ? data.nodes : [];
+  const looksV1 = nodes.some(
+    node =>
+      node &&
+      (V1_NODE_FIELDS.some(field => field in node) ||
+        typeof node.destinationNodeId === "string" ||
+        (Array.isArray(node.outputs) && node.outputs.some((output: any) => typeof output?.formula === "string"))),
+  );
+  return looksV1 ? "1.0" : CURRENT_SCENARIO_VERSION;
+}
+
+// ============================================================================
+// 1.0 → 3.0
+// ============================================================================
+
+const SIMPLE_VALUE: Interface = { type: "SimpleValue", requiredFields: ["data.value"] };
+const AGGREGATION_RESULT: Interface = { type: "AggregationResult", requiredFields: ["data.aggregatedValue"] };
+const TRANSFORMATION_RESULT: Interface = { type: "TransformationResult", requiredFields: ["data.transformedValue"] };
+const ANY: Interface = { type: "Any", requiredFields: ["metadata.timestamp"] };
+
+const OUTPUT_INTERFACES: Record<AnyProtocolNode["type"], Interface> = {
+  DataSource: SIMPLE_VALUE,
+  Queue: AGGREGATION_RESULT,
+  ProcessNode: TRANSFORMATION_RESULT,
+  Sink: ANY,
+};
+
+const AGGREGATION_FUNCTIONS: Record<string, string> = {
+  sum: "sum",
+  average: "avg",
+  count: "count",
+  first: "first",
+  last: "last",
+};
+
+interface V1Edge {
+  from: AnyProtocolNode;
+  output: string;
+  to: string;
+  formula?: string;
+}
+
+const LAYOUT_ORIGIN = 100;
+const LAYOUT_COLUMN_WIDTH = 300;
+const LAYOUT_ROW_HEIGHT = 200;
+
+// Columns by longest path from a node without inputs, rows in declaration order
+function layoutPositions(nodes: AnyProtocolNode[], edges: V1Edge[]): Map<string, { x: number; y: number }> {
+  const depth = new Map(nodes.map(node => [node.nodeId, 0]));
+  // Bounded by the node count so cycles cannot push columns out forever
+  for (let pass = 0; pass < nodes.length; pass++) {
+    edges.forEach(edge => {
+      const next = Math.min(depth.get(edge.from.nodeId)! + 1, nodes.length - 1);
+      if (depth.has(edge.to) && next > depth.get(edge.to)!) depth.set(edge.to, next);
+    });
+  }
+
+  const rows = new Map<number, number>();
+  return new Map(
+    nodes.map(node => {
+      const column = depth.get(node.nodeId)!;
+      const row = rows.get(column) ?? 0;
+      rows.set(column, row + 1);
+      return [
+        node.nodeId,
+        { x: LAYOUT_ORIGIN + column * LAYOUT_COLUMN_WIDTH, y: LAYOUT_ORIGIN + row * LAYOUT_ROW_HEIGHT },
+      ];
+    }),
+  );
+}
+
+function migrateV1ToV3(data: any, note: (message: string, nodeId?: string) => void): any {
+  const { scenario, errors } = validateProtocolScenario({ ...data, version: "1.0" });
+  if (!scenario) throw new ScenarioMigrationError(errors);
+
+  const nodes = scenario.nodes;
+  const nodesById = new Map(nodes.map(node => [node.nodeId, node]));
+
+  const edges: V1Edge[] = nodes.flatMap((node): V1Edge[] => {
+    if (node.type === "DataSource" || node.type === "Queue") {
+      return [{ from: node, output: "output", to: node.destinationNodeId }];
+    }
+    if (node.type === "ProcessNode") {
+      return node.outputs.map((output, index) => ({
+        from: node,
+        output: node.outputs.length === 1 ? "output" : `output${index + 1}`,
+        to: output.destinationNodeId,
+        formula: output.formula,
+      }));
+    }
+    return [];
+  });
+
+  // ProcessNode inputs are named after the node they come from; other nodes have one "input"
+  const inputName = (target: AnyProtocolNode | undefined, sourceId: string) =>
+    target?.type === "ProcessNode" ? sourceId : "input";
+
+  const outputsOf = (node: AnyProtocolNode): OutputV3[] =>
+    edges
+      .filter(edge => edge.from === node)
+      .map(edge => ({
+        name: edge.output,
+        destinationNodeId: edge.to,
+        destinationInputName: inputName(nodesById.get(edge.to), node.nodeId),
+        interface: OUTPUT_INTERFACES[node.type],
+        ...(edge.formula !== undefined && {
+          transformation: { formula: edge.formula, fieldMapping: { "data.transformedValue": edge.formula } },
+        }),
+      }));
+
+  const incoming = (node: AnyProtocolNode) => edges.filter(edge => edge.to === node.nodeId);
+
+  // The interface of a single "input": what its upstream outputs carry
+  const sharedInputInterface = (node: AnyProtocolNode): Interface => {
+    const types = [...new Set(incoming(node).map(edge => OUTPUT_INTERFACES[edge.from.type].type))];
+    if (types.length === 1) return OUTPUT_INTERFACES[incoming(node)[0].from.type];
+    if (types.length === 0) {
+      note(`No node sends tokens here; its input expects ${SIMPLE_VALUE.type}.`, node.nodeId);
+      return SIMPLE_VALUE;
+    }
+    note(`Receives ${types.join(" and ")} tokens, so its input accepts Any.`, node.nodeId);
+    return ANY;
+  };
+
+  const positions = layoutPositions(nodes, edges);
+  const position = (node: AnyProtocolNode) => positions.get(node.nodeId)!;
+
+  const migrated: AnyNode[] = nodes.map((node): AnyNode => {
+    const base = { nodeId: node.nodeId, displayName: node.displayName, position: position(node) };
+
+    switch (node.type) {
+      case "DataSource":
+        note("Values are drawn uniformly between valueMin and valueMax.", node.nodeId);
+        return {
+          ...base,
+          type: "DataSource",
+          interval: node.interval,
+          generation: { type: "uniform", valueMin: node.valueMin, valueMax: node.valueMax },
+          outputs: outputsOf(node),
+        };
+
+      case "Queue": {
+        const inputInterface = sharedInputInterface(node);
+        const field = inputInterface.type === ANY.type ? "value" : inputInterface.requiredFields[0];
+        return {
+          ...base,
+          type: "Queue",
+          inputs: [{ name: "input", interface: inputInterface, required: true }],
+          outputs: outputsOf(node),
+          aggregation: {
+            method: node.aggregationMethod,
+            formula: `${AGGREGATION_FUNCTIONS[node.aggregationMethod]}(input.${field})`,
+            trigger: { type: "time", window: node.timeWindow },
+          },
+          ...(node.capacity !== undefined && { capacity: node.capacity }),
+        };
+      }
+
+      case "ProcessNode": {
+        const sources = new Map(incoming(node).map(edge => [edge.from.nodeId, edge]));
+        node.inputNodeIds
+          .filter(sourceId => !sources.has(sourceId))
+          .forEach(sourceId => {
+            const destination = (nodesById.get(sourceId) as any)?.destinationNodeId;
+            note(
+              `Input from "${sourceId}" has no connection: ${destination ? `it sends its tokens to "${destination}"` : "it has no outputs"}.`,
+              node.nodeId,
+            );
+          });
+        [...sources.keys()]
+          .filter(sourceId => !node.inputNodeIds.includes(sourceId))
+          .forEach(sourceId => {
+            note(`Added an input for "${sourceId}", which sends tokens here but is not in inputNodeIds.`, node.nodeId);
+          });
+
+        const inputs: InputV3[] = [...new Set([...node.inputNodeIds, ...sources.keys()])].map(sourceId => {
+          const edge = sources.get(sourceId);
+          return {
+            name: sourceId,
+            nodeId: sourceId,
+            ...(edge && { sourceOutputName: edge.output }),
+            interface: edge ? OUTPUT_INTERFACES[edge.from.type] : SIMPLE_VALUE,
+            required: true,
+          };
+        });
+        return { ...base, type: "ProcessNode", inputs, outputs: outputsOf(node) };
+      }
+
+      case "Sink":
+        return { ...base, type: "Sink", inputs: [{ name: "input", interface: ANY, required: true }] };
+    }
+  });
+
+  note("Version 1.0 stores no positions; nodes are laid out left to right by how far they are from a source.");
+  note(
+    `Connections carry ${SIMPLE_VALUE.type} (DataSource), ${AGGREGATION_RESULT.type} (Queue) and ` +
+      `${TRANSFORMATION_RESULT.type} (ProcessNode) tokens; sinks accept ${ANY.type}.`,
+  );
+
+  return { ...data, version: "3.0", nodes: migrated };
+}
+
+const MIGRATIONS: ScenarioMigration[] = [{ from: "1.0", to: "3.0", migrate: migrateV1ToV3 }];
+
+/**
+ * Upgrade scenario data to the current protocol version and validate it. Data
+ * already at the current version is only validated.
+ */
+export function migrateScenario(data: unknown, migrations = MIGRATIONS): ScenarioMigrationResult {
+  const fromVersion = detectScenarioVersion(data);
+  const notes: MigrationNote[] = [];
+  const visited = new Set<string>();
+  let version = fromVersion;
+  let current: any = data;
+
+  while (version !== CURRENT_SCENARIO_VERSION) {
+    const migration = migrations.find(candidate => candidate.from === version);
+    if (!migration || visited.has(version)) {
+      return {
+        scenario: null,
+        fromVersion,
+        toVersion: version,
+        notes,
+        errors: [`No migration from scenario version ${version} to ${CURRENT_SCENARIO_VERSION}.`],
+      };
+    }
+    visited.add(version);
+
+    const step = `${migration.from} → ${migration.to}`;
+    try {
+      current = migration.migrate(current, (message, nodeId) => notes.push({ step, nodeId, message }));
+    } catch (error) {
+      const errors = error instanceof ScenarioMigrationError ? error.errors : [(error as Error).message];
+      return {
+        scenario: null,
+        fromVersion,
+        toVersion: version,
+        notes,
+        errors: errors.map(message => `${step}: ${message}`),
+      };
+    }
+    version = migration.to;
+  }
+
+  const { scenario, errors } = validateScenario(current);
+  return { scenario, fromVersion, toVersion: version, notes, errors };
+}
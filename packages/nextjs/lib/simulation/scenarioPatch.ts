@@ -0,0 +1,256 @@
+/**
+ * Scenario Patch
+ *
+ * JSON Patch (RFC 6902) for scenarios. A patch applies atomically: operations
+ * run in order on a copy, and the first failing operation (a missing path, an
+ * index out of range, a failed `test`) rejects the whole patch. The result is
+ * checked with validateScenario and summarised as node and edge changes, so
+ * the assistant and programmatic edits can show what a patch does before it
+ * is committed.
+ */
+import type { Scenario } from "./types";
+import { validateScenario } from "./validation";
+import { z } from "zod";
+
+export const JsonPatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("add"), path: z.string(), value: z.any() }),
+  z.object({ op: z.literal("remove"), path: z.string() }),
+  z.object({ op: z.literal("replace"), path: z.string(), value: z.any() }),
+  z.object({ op: z.literal("move"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("copy"), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal("test"), path: z.string(), value: z.any() }),
+]);
+
+export const JsonPatchSchema = z.array(JsonPatchOperationSchema);
+
+export type JsonPatchOperation = z.infer<typeof JsonPatchOperationSchema>;
+
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    public operationIndex: number,
+    public operation: JsonPatchOperation,
+  ) {
+    super(`Operation ${operationIndex} (${operation.op} ${operation.path}): ${message}`);
+    this.name = "JsonPatchError";
+  }
+}
+
+/**
+ * Split a JSON Pointer (RFC 6901) into unescaped reference tokens
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new Error(`Invalid JSON Pointer "${pointer}"`);
+  return pointer
+    .slice(1)
+    .split("/")
+    .map(token => {
+      if (/~[^01]|~$/.test(token)) throw new Error(`Invalid escape in JSON Pointer "${pointer}"`);
+      return token.replace(/~1/g, "/").replace(/~0/g, "~");
+    });
+}
+
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, index) => jsonEqual(item, other[index]));
+  }
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual((a as any)[key], (b as any)[key]))
+  );
+}
+
+const clone = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+
+// An array index token: "0" or digits without a leading zero
+function arrayIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return length;
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) throw new Error(`"${token}" is not an array index`);
+  const index = Number(token);
+  if (index > length || (!allowEnd && index === length)) throw new Error(`Index ${index} is out of range`);
+  return index;
+}
+
+function resolve(document: any, tokens: string[]): any {
+  return tokens.reduce((target, token) => {
+    if (Array.isArray(target)) return target[arrayIndex(token, target.length, false)];
+    if (target !== null && typeof target === "object" && Object.prototype.hasOwnProperty.call(target, token)) {
+      return target[token];
+    }
+    throw new Error(`Path segment "${token}" does not exist`);
+  }, document);
+}
+
+function getValue(document: any, pointer: string): any {
+  return resolve(document, parseJsonPointer(pointer));
+}
+
+// The container that holds the last token of the pointer
+function parentOf(document: any, tokens: string[]): any {
+  const parent = resolve(document, tokens.slice(0, -1));
+  if (parent === null || typeof parent !== "object") throw new Error("Parent is not an object or array");
+  return parent;
+}
+
+function addValue(document: any, pointer: string, value: any): any {
+  const tokens = parseJsonPointer(pointer);
+  if (tokens.length === 0) return value;
+  const parent = parentOf(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent.splice(arrayIndex(key, parent.length, true), 0, value);
+  else parent[key] = value;
+  return document;
+}
+
+function removeValue(document: any, pointer: string): any {
+  const tokens = parseJsonPointer(pointer);
+  if (tokens.length === 0) throw new Error("Cannot remove the whole document");
+  const parent = parentOf(document, tokens);
+  const key = tokens[tokens.length - 1];
+  if (Array.isArray(parent)) parent.splice(arrayIndex(key, parent.length, false), 1);
+  else if (Object.prototype.hasOwnProperty.call(parent, key)) delete parent[key];
+  else throw new Error(`Path segment "${key}" does not exist`);
+  return document;
+}
+
+function applyOperation(document: any, operation: JsonPatchOperation): any {
+  switch (operation.op) {
+    case "add":
+      return addValue(document, operation.path, clone(operation.value));
+    case "remove":
+      return removeValue(document, operation.path);
+    case "replace":
+      getValue(document, operation.path);
+      return operation.path === ""
+        ? clone(operation.value)
+        : addValue(removeValue(document, operation.path), operation.path, clone(operation.value));
+    case "move": {
+      if (operation.path === operation.from) return document;
+      if (operation.path.startsWith(`${operation.from}/`)) throw new Error("Cannot move a value into itself");
+      const value = getValue(document, operation.from);
+      return addValue(removeValue(document, operation.from), operation.path, value);
+    }
+    case "copy":
+      return addValue(document, operation.path, clone(getValue(document, operation.from)));
+    case "test":
+      if (!jsonEqual(getValue(document, operation.path), operation.value)) {
+        throw new Error("Test failed: the value differs");
+      }
+      return document;
+  }
+}
+
+/**
+ * Apply a JSON Patch to a copy of the document. Throws JsonPatchError for the
+ * first operation that fails; the input document is never modified.
+ */
+export function applyJsonPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  return operations.reduce<T>((current, operation, index) => {
+    try {
+      return applyOperation(current, operation);
+    } catch (error) {
+      throw new JsonPatchError(error instanceof Error ? error.message : String(error), index, operation);
+    }
+  }, clone(document));
+}
+
+export interface ScenarioEdge {
+  from: string;
+  output: string;
+  to: string;
+}
+
+export interface ScenarioDiff {
+  nodes: {
+    added: string[];
+    removed: string[];
+    // Top-level node fields that differ, per node present on both sides
+    changed: { nodeId: string; fields: string[] }[];
+  };
+  edges: { added: ScenarioEdge[]; removed: ScenarioEdge[] };
+  // Scenario fields other than nodes that differ
+  scenarioFields: string[];
+}
+
+const scenarioEdges = (scenario: any): ScenarioEdge[] =>
+  (scenario?.nodes ?? []).flatMap((node: any) =>
+    (Array.isArray(node.outputs) ? node.outputs : [])
+      .filter((output: any) => output?.destinationNodeId)
+      .map((output: any) => ({ from: node.nodeId, output: output.name, to: output.destinationNodeId })),
+  );
+
+const edgeKey = (edge: ScenarioEdge) => `${edge.from}\u0000${edge.output}\u0000${edge.to}`;
+
+const changedKeys = (a: Record<string, any>, b: Record<string, any>, ignore: string[] = []) =>
+  [...new Set([...Object.keys(a ?? {}), ...Object.keys(b ?? {})])].filter(
+    key => !ignore.includes(key) && !jsonEqual(a?.[key], b?.[key]),
+  );
+
+/**
+ * Nodes added, removed or changed and edges (output → destination) added or removed
+ */
+export function diffScenarios(before: any, after: any): ScenarioDiff {
+  const nodesBefore = new Map<string, any>((before?.nodes ?? []).map((node: any) => [node.nodeId, node]));
+  const nodesAfter = new Map<string, any>((after?.nodes ?? []).map((node: any) => [node.nodeId, node]));
+  const edgesBefore = scenarioEdges(before);
+  const edgesAfter = scenarioEdges(after);
+  const keysBefore = new Set(edgesBefore.map(edgeKey));
+  const keysAfter = new Set(edgesAfter.map(edgeKey));
+
+  return {
+    nodes: {
+      added: [...nodesAfter.keys()].filter(nodeId => !nodesBefore.has(nodeId)),
+      removed: [...nodesBefore.keys()].filter(nodeId => !nodesAfter.has(nodeId)),
+      changed: [...nodesAfter.keys()]
+        .filter(nodeId => nodesBefore.has(nodeId))
+        .map(nodeId => ({ nodeId, fields: changedKeys(nodesBefore.get(nodeId), nodesAfter.get(nodeId)) }))
+        .filter(change => change.fields.length > 0),
+    },
+    edges: {
+      added: edgesAfter.filter(edge => !keysBefore.has(edgeKey(edge))),
+      removed: edgesBefore.filter(edge => !keysAfter.has(edgeKey(edge))),
+    },
+    scenarioFields: changedKeys(before, after, ["nodes"]),
+  };
+}
+
+export interface ScenarioPatchPreview {
+  // The patched and validated scenario; null when the patch fails or the result is invalid
+  scenario: Scenario | null;
+  errors: string[];
+  // Present whenever the operations applied, even if validation then failed
+  diff: ScenarioDiff | null;
+}
+
+/**
+ * Apply a patch to a scenario without committing it: the patched scenario,
+ * its validation errors and what changed
+ */
+export function previewScenarioPatch(scenario: Scenario, patch: unknown): ScenarioPatchPreview {
+  const parsed = JsonPatchSchema.safeParse(patch);
+  if (!parsed.success) {
+    return {
+      scenario: null,
+      errors: parsed.error.issues.map(issue => `Invalid patch at ${issue.path.join(".")}: ${issue.message}`),
+      diff: null,
+    };
+  }
+
+  let patched: unknown;
+  try {
+    patched = applyJsonPatch(scenario, parsed.data);
+  } catch (error) {
+    return { scenario: null, errors: [error instanceof Error ? error.message : String(error)], diff: null };
+  }
+
+  const diff = diffScenarios(scenario, patched);
+  const { scenario: validated, errors } = validateScenario(patched);
+  return { scenario: errors.length > 0 ? null : validated, errors, diff };
+}
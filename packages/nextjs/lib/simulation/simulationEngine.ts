@@ -0,0 +1,1735 @@
+/**
+ * Headless Simulation Engine
+ *
+ * The token-flow runtime that used to live inside the zustand simulation store.
+ * It has no React or browser dependencies, so a Scenario can be run from a
+ * Node script, a test, an API route or the ExecutionService.
+ *
+ * The engine owns the node states, the simulation clock and the activity logs.
+ * Every state change produces a new object reference, so UI adapters can copy
+ * `getState()` straight into their own store.
+ */
+import { aggregateTokens, isAggregationDue, selectAggregationWindow } from "./aggregation";
+import { sampleGenerationValue, sampleInterval } from "./distributions";
+import { createProcessNodeFormulaContext, evaluateFormula, withFormulaRandom } from "./formulaEngine";
+import { type TimerTransition, cancelTimers, nextDueTimer, scheduleTimers } from "./fsmTimers";
+import { InterfaceRegistry, findConsumerInput } from "./interfaceRegistry";
+import {
+  createAggregationDetails,
+  createEnhancedSourceTokenSummaries,
+  createLineageMetadata,
+  determineOperationType,
+} from "./lineageHelpers";
+import { type RandomSource, createSeededRandom, deriveSeed, generateSeed } from "./random";
+import { Statechart, type StatechartConfiguration } from "./statechart";
+import type {
+  AggregationMethod,
+  AnyNode,
+  AnyNodeState,
+  DataSourceNode,
+  DataSourceState,
+  FSMProcessNodeState,
+  FSMTimer,
+  HistoryEntry,
+  ModuleNode,
+  ModuleState,
+  NodeState,
+  NodeStateMachineState,
+  ProcessNodeState,
+  QueueState,
+  Scenario,
+  SinkState,
+  StateMachineInfo,
+  Token,
+} from "./types";
+import { validateScenario } from "./validation";
+
+export const MAX_SINK_TOKENS_STORED = 50;
+export const MAX_NODE_ACTIVITY_LOGS = 500;
+export const MAX_GLOBAL_ACTIVITY_LOGS = 1000;
+
+const TOKEN_ID_STREAM = "__token_ids";
+
+export interface SimulationEngineOptions {
+  maxSinkTokensStored?: number;
+  maxNodeActivityLogs?: number;
+  maxGlobalActivityLogs?: number;
+  // Seed for every random draw; defaults to the scenario seed, then to a fresh random seed
+  seed?: number;
+  // Wall-clock time of simulation time 0. HistoryEntry.epochTimestamp is derived
+  // from it (one time unit = one second) so a seeded run is reproducible.
+  startEpoch?: number;
+
+  // Set by a parent engine running this one as a Module sub-graph:
+  // prefix for logged node ids, the parent's sequence counter, and the
+  // callback for tokens sent to a destination outside the sub-graph.
+  logScope?: string;
+  nextSequence?: () => number;
+  onTokenExit?: (sourceNodeId: string, token: Token, timestamp: number) => void;
+}
+
+/**
+ * Everything the engine mutates while running. Adapters persist or display this.
+ */
+export interface SimulationEngineState {
+  nodeStates: Record<string, AnyNodeState>;
+  currentTime: number;
+  eventCounter: number;
+  nodeActivityLogs: Record<string, HistoryEntry[]>;
+  globalActivityLog: HistoryEntry[];
+  errorMessages: string[];
+}
+
+export type HistoryEntryListener = (entry: HistoryEntry) => void;
+
+export interface LogDetails {
+  action: string;
+  value?: any;
+  details?: string;
+  sourceTokenIds?: string[];
+  sourceTokenSummaries?: HistoryEntry["sourceTokenSummaries"];
+  aggregationDetails?: HistoryEntry["aggregationDetails"];
+  transformationDetails?: HistoryEntry["transformationDetails"];
+  lineageMetadata?: HistoryEntry["lineageMetadata"];
+  eventType?: HistoryEntry["eventType"];
+  tokenCreatedAt?: number;
+}
+
+/**
+ * Thrown by SimulationEngine.fromScenarioData when the scenario does not validate
+ */
+export class ScenarioValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Scenario validation failed: ${errors.join("; ")}`);
+    this.name = "ScenarioValidationError";
+  }
+}
+
+/**
+ * Timer transitions of an FSM definition that wait a given simulation time
+ */
+function fsmTimerTransitions(fsm: any): TimerTransition[] {
+  return (fsm?.transitions || []).flatMap((transition: any, transitionIndex: number) =>
+    transition.trigger === "timer" && typeof transition.after === "number"
+      ? [{ transitionIndex, from: transition.from, after: transition.after }]
+      : [],
+  );
+}
+
+/**
+ * Build the initial runtime state for a node, or null for visual-only nodes
+ */
+export function createInitialNodeState(node: AnyNode): AnyNodeState | null {
+  switch (node.type) {
+    case "DataSource":
+      return {
+        lastEmissionTime: -1,
+        stateMachine: { currentState: "source_idle", transitionHistory: [] },
+      } as DataSourceState;
+    case "Queue":
+      return {
+        inputBuffer: [],
+        outputBuffer: [],
+        lastAggregationTime: -1,
+        stateMachine: { currentState: "queue_idle", transitionHistory: [] },
+      } as QueueState;
+    case "ProcessNode":
+      return {
+        inputBuffers: {},
+        lastFiredTime: -1,
+        stateMachine: { currentState: "process_idle", transitionHistory: [] },
+      } as ProcessNodeState;
+    case "FSMProcessNode": {
+      const fsm = node.fsm as any;
+      const initialState =
+        fsm?.initialState ||
+        fsm?.states?.find((s: any) => s?.isInitial)?.name ||
+        (typeof fsm?.states?.[0] === "string" ? fsm.states[0] : fsm?.states?.[0]?.name) ||
+        "idle";
+      // A compound initial state starts in its initial descendants
+      const chart = Statechart.fromFSMDefinition({ ...fsm, initialState });
+      const { configuration } = chart.initialConfiguration();
+      const currentFSMState = chart.getActiveLeaves(configuration)[0] ?? initialState;
+      const timers = scheduleTimers([], configuration.active, fsmTimerTransitions(fsm), 0, 0);
+      return {
+        inputBuffers: {},
+        fsmVariables: { ...(fsm?.variables || {}) },
+        currentFSMState,
+        activeFSMStates: configuration.active,
+        fsmHistory: configuration.history,
+        fsmTimers: timers.timers,
+        fsmTimerSequence: timers.sequence,
+        lastTransitionTime: -1,
+        stateMachine: { currentState: currentFSMState, transitionHistory: [] },
+      } as AnyNodeState;
+    }
+    case "EnhancedFSMProcessNode":
+      return {
+        currentState: "idle",
+        previousState: undefined,
+        stateChangedAt: 0,
+        variables: {},
+        stateVariables: {},
+        eventBuffer: [],
+        messageBuffer: [],
+        tokenBuffers: { default: [] },
+        lastProcessedTime: 0,
+        processedEventCount: 0,
+        processedMessageCount: 0,
+        feedbackDepth: 0,
+        circuitBreakerState: { isOpen: false, eventCount: 0, windowStartTime: 0 },
+        stateHistory: [{ state: "idle", enteredAt: 0 }],
+        transitionHistory: [],
+        pendingActions: [],
+        actionHistory: [],
+        errors: [],
+      } as AnyNodeState;
+    case "Sink":
+      return {
+        consumedTokenCount: 0,
+        lastConsumedTime: -1,
+        consumedTokens: [],
+        stateMachine: { currentState: "sink_idle", transitionHistory: [] },
+      } as SinkState;
+    case "Module":
+      return {
+        inputBuffers: {},
+        outputBuffers: {},
+        subGraphStates: {},
+        isExpanded: node.isExpanded || false,
+        lastProcessedTime: -1,
+        processedTokenCount: 0,
+        internalEventCounter: 0,
+        stateMachine: { currentState: "module_idle", transitionHistory: [] },
+      } as AnyNodeState;
+    case "Group":
+      // Group nodes are visual only
+      return null;
+  }
+}
+
+/**
+ * Pure, headless token-flow simulation over a validated Scenario
+ */
+export class SimulationEngine {
+  readonly scenario: Scenario;
+  readonly nodesConfig: Record<string, AnyNode>;
+  readonly interfaces: InterfaceRegistry;
+
+  private nodeStates: Record<string, AnyNodeState> = {};
+  private currentTime = 0;
+  private eventCounter = 0;
+  private nodeActivityLogs: Record<string, HistoryEntry[]> = {};
+  private globalActivityLog: HistoryEntry[] = [];
+  private errorMessages: string[] = [];
+  private listeners = new Set<HistoryEntryListener>();
+
+  private readonly maxSinkTokensStored: number;
+  private readonly maxNodeActivityLogs: number;
+  private readonly maxGlobalActivityLogs: number;
+  private randomStreams: Record<string, RandomSource> = {};
+  private moduleEngines: Record<string, SimulationEngine> = {};
+  private statecharts = new WeakMap<object, Statechart>();
+  private readonly options: SimulationEngineOptions;
+
+  readonly seed: number;
+  readonly startEpoch: number;
+
+  constructor(scenario: Scenario, options: SimulationEngineOptions = {}) {
+    this.scenario = scenario;
+    this.interfaces = new InterfaceRegistry(scenario.interfaceTypes);
+    this.nodesConfig = {};
+    scenario.nodes.forEach(node => {
+      this.nodesConfig[node.nodeId] = node;
+    });
+
+    this.options = options;
+    this.maxSinkTokensStored = options.maxSinkTokensStored ?? MAX_SINK_TOKENS_STORED;
+    this.maxNodeActivityLogs = options.maxNodeActivityLogs ?? MAX_NODE_ACTIVITY_LOGS;
+    this.maxGlobalActivityLogs = options.maxGlobalActivityLogs ?? MAX_GLOBAL_ACTIVITY_LOGS;
+    this.seed = options.seed ?? scenario.seed ?? generateSeed();
+    this.startEpoch = options.startEpoch ?? Date.now();
+
+    this.reset();
+  }
+
+  /**
+   * Validate raw scenario data and build an engine for it
+   */
+  static fromScenarioData(data: unknown, options?: SimulationEngineOptions): SimulationEngine {
+    const { scenario, errors } = validateScenario(data);
+    if (errors.length > 0 || !scenario) {
+      throw new ScenarioValidationError(errors.length > 0 ? errors : ["Failed to parse scenario."]);
+    }
+    return new SimulationEngine(scenario, options);
+  }
+
+  // ===========================================================================
+  // State access
+  // ===========================================================================
+
+  /**
+   * Reset every node to its initial state and clear the clock and logs
+   */
+  reset(): void {
+    const nodeStates: Record<string, AnyNodeState> = {};
+    const nodeActivityLogs: Record<string, HistoryEntry[]> = {};
+    this.scenario.nodes.forEach(node => {
+      nodeActivityLogs[node.nodeId] = [];
+      const initialState = createInitialNodeState(node);
+      if (initialState) {
+        nodeStates[node.nodeId] = initialState;
+      }
+    });
+
+    this.nodeStates = nodeStates;
+    this.nodeActivityLogs = nodeActivityLogs;
+    this.globalActivityLog = [];
+    this.errorMessages = [];
+    this.currentTime = 0;
+    this.eventCounter = 0;
+    this.randomStreams = {};
+    this.moduleEngines = {};
+  }
+
+  getState(): SimulationEngineState {
+    return {
+      nodeStates: this.nodeStates,
+      currentTime: this.currentTime,
+      eventCounter: this.eventCounter,
+      nodeActivityLogs: this.nodeActivityLogs,
+      globalActivityLog: this.globalActivityLog,
+      errorMessages: this.errorMessages,
+    };
+  }
+
+  /**
+   * Restore a previously captured state (saved template, execution or snapshot)
+   */
+  restoreState(state: Partial<SimulationEngineState>): void {
+    if (state.nodeStates) this.nodeStates = state.nodeStates;
+    if (state.currentTime !== undefined) this.currentTime = state.currentTime;
+    if (state.eventCounter !== undefined) this.eventCounter = state.eventCounter;
+    if (state.nodeActivityLogs) this.nodeActivityLogs = state.nodeActivityLogs;
+    if (state.globalActivityLog) this.globalActivityLog = state.globalActivityLog;
+    if (state.errorMessages) this.errorMessages = state.errorMessages;
+
+    // Module sub-graphs follow the parent clock and their state in ModuleState
+    Object.keys(this.moduleEngines).forEach(moduleId => this.restoreModuleEngine(moduleId));
+  }
+
+  /**
+   * Position of every random stream, so a snapshot can resume the exact sequence
+   */
+  getRandomState(): Record<string, number> {
+    const randomState = Object.fromEntries(
+      Object.entries(this.randomStreams).map(([key, random]) => [key, random.getState()]),
+    );
+    Object.entries(this.moduleEngines).forEach(([moduleId, moduleEngine]) => {
+      Object.entries(moduleEngine.getRandomState()).forEach(([key, state]) => {
+        randomState[`${moduleId}/${key}`] = state;
+      });
+    });
+    return randomState;
+  }
+
+  restoreRandomState(randomState: Record<string, number>): void {
+    this.randomStreams = {};
+    const moduleRandomStates: Record<string, Record<string, number>> = {};
+    Object.entries(randomState).forEach(([key, state]) => {
+      const moduleId = key.slice(0, key.indexOf("/"));
+      if (this.nodesConfig[moduleId]?.type === "Module") {
+        moduleRandomStates[moduleId] = { ...moduleRandomStates[moduleId], [key.slice(moduleId.length + 1)]: state };
+        return;
+      }
+      this.randomFor(key).setState(state);
+    });
+    Object.entries(moduleRandomStates).forEach(([moduleId, moduleRandomState]) => {
+      this.moduleEngine(moduleId).restoreRandomState(moduleRandomState);
+    });
+  }
+
+  getCurrentTime(): number {
+    return this.currentTime;
+  }
+
+  getNodeState(nodeId: string): AnyNodeState | null {
+    return this.nodeStates[nodeId] ?? null;
+  }
+
+  /**
+   * Subscribe to every HistoryEntry as it is appended. Returns an unsubscribe function.
+   */
+  subscribe(listener: HistoryEntryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ===========================================================================
+  // Control
+  // ===========================================================================
+
+  /**
+   * Advance the simulation clock by one unit and process every node.
+   * Returns the history entries produced during this tick.
+   */
+  tick(): HistoryEntry[] {
+    const produced: HistoryEntry[] = [];
+    const collect = (entry: HistoryEntry) => produced.push(entry);
+    this.listeners.add(collect);
+
+    try {
+      const newTime = this.currentTime + 1;
+      this.currentTime = newTime;
+
+      this.retryBlockedDeliveries(newTime);
+      this.processModules(newTime);
+      this.processDataSources(newTime);
+      this.processFSMNodes(newTime);
+      this.processEnhancedFSMNodes(newTime);
+      this.processQueues(newTime);
+      this.forwardQueueOutputs(newTime);
+    } finally {
+      this.listeners.delete(collect);
+    }
+
+    return produced;
+  }
+
+  /**
+   * Run `ticks` ticks and return the history entries they produced
+   */
+  step(ticks = 1): HistoryEntry[] {
+    const produced: HistoryEntry[] = [];
+    for (let i = 0; i < ticks; i++) {
+      produced.push(...this.tick());
+    }
+    return produced;
+  }
+
+  /**
+   * Tick until the simulation time reaches `until`, or until the predicate returns true.
+   * `maxTicks` guards predicates that never become true.
+   */
+  runUntil(until: number | ((engine: SimulationEngine) => boolean), maxTicks = 100_000): HistoryEntry[] {
+    const produced: HistoryEntry[] = [];
+    const isDone = typeof until === "number" ? () => this.currentTime >= until : () => until(this);
+
+    let ticks = 0;
+    while (!isDone() && ticks < maxTicks) {
+      produced.push(...this.tick());
+      ticks++;
+    }
+    return produced;
+  }
+
+  /**
+   * Inject a token with the given value directly into a node, as an external event
+   */
+  injectToken(nodeId: string, value: any, source = "external"): Token {
+    const token = this.createToken(source, value, this.currentTime);
+    this.receiveToken(nodeId, token, source);
+    return token;
+  }
+
+  /**
+   * Deliver an already-built token to a node from outside the graph
+   */
+  receiveToken(nodeId: string, token: Token, source = "external", destinationInputName?: string): void {
+    const destNodeConfig = this.nodesConfig[nodeId];
+    if (!destNodeConfig) {
+      throw new Error(`Node ${nodeId} not found in scenario`);
+    }
+
+    const injectionLog = this.logNodeActivity(
+      nodeId,
+      {
+        action: "token_injected",
+        value: token.value,
+        details: `Token ${token.id} injected by ${source}`,
+        eventType: "external_event",
+      },
+      this.currentTime,
+    );
+    token.history.push(injectionLog);
+
+    if (destNodeConfig.type === "DataSource") {
+      // Sources have no input buffer: emit the injected token on their outputs
+      destNodeConfig.outputs.forEach(output => {
+        this.emitToken(destNodeConfig, token, output.destinationNodeId, output.destinationInputName, this.currentTime);
+      });
+    } else {
+      this.deliverToken({ nodeId: source, displayName: source }, token, nodeId, destinationInputName, this.currentTime);
+    }
+  }
+
+  /**
+   * Force an FSMProcessNode into a target state, running exit and entry actions.
+   * A target the FSM does not declare is refused and logged as an error.
+   */
+  triggerFSMTransition(
+    nodeId: string,
+    to: string,
+    trigger = "manual",
+  ): { success: boolean; newState?: string; error?: string } {
+    const fsmConfig = this.nodesConfig[nodeId];
+    if (!fsmConfig || fsmConfig.type !== "FSMProcessNode") {
+      return { success: false, error: `Node ${nodeId} is not an FSM process node` };
+    }
+
+    if (!this.statechartFor(fsmConfig).hasState(to)) {
+      const error = `State ${to} is not declared by the FSM of node ${nodeId}`;
+      this.logNodeActivity(nodeId, { action: "error", value: to, details: error }, this.currentTime);
+      return { success: false, error };
+    }
+
+    const fsmState = this.nodeStates[nodeId] as any;
+    this.executeFSMTransition(fsmConfig, { from: fsmState.currentFSMState, to, trigger }, this.currentTime);
+    return { success: true, newState: to };
+  }
+
+  // ===========================================================================
+  // Per-node-type processing
+  // ===========================================================================
+
+  private processDataSources(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      if (nodeConfig.type !== "DataSource") return;
+
+      // A source held back by a full downstream Queue emits once its tokens are accepted
+      if (this.isBlocked(nodeConfig.nodeId)) return;
+
+      const dsState = this.nodeStates[nodeConfig.nodeId] as DataSourceState;
+      if (!(newTime >= this.nextEmissionTime(nodeConfig, dsState))) return;
+
+      const emittedCount = dsState.emittedCount ?? 0;
+      const value = sampleGenerationValue(nodeConfig.generation, this.randomFor(nodeConfig.nodeId), emittedCount);
+      if (value === undefined) {
+        // Replay data exhausted
+        return;
+      }
+
+      this.transitionNodeState(nodeConfig.nodeId, "source_generating", newTime, "interval_reached");
+
+      const token = this.createToken(nodeConfig.nodeId, value, newTime);
+
+      this.transitionNodeState(nodeConfig.nodeId, "source_emitting", newTime, "token_created");
+
+      nodeConfig.outputs.forEach(output => {
+        this.logNodeActivity(
+          nodeConfig.nodeId,
+          { action: "token_emitted", value: token.value, details: `Token ${token.id} to ${output.destinationNodeId}` },
+          newTime,
+        );
+        this.emitToken(nodeConfig, token, output.destinationNodeId, output.destinationInputName, newTime);
+      });
+
+      this.updateNodeState(nodeConfig.nodeId, {
+        lastEmissionTime: newTime,
+        emittedCount: emittedCount + 1,
+        ...(dsState.nextEmissionTime !== undefined && { nextEmissionTime: undefined }),
+      });
+      this.transitionNodeState(nodeConfig.nodeId, "source_idle", newTime, "emission_complete");
+    });
+  }
+
+  /**
+   * When the DataSource is due next. A fixed interval is counted from the last
+   * emission; a drawn interval is sampled once and kept in the node state.
+   */
+  private nextEmissionTime(nodeConfig: DataSourceNode, dsState: DataSourceState): number {
+    if (dsState.nextEmissionTime !== undefined) return dsState.nextEmissionTime;
+
+    const lastEmissionTime = dsState.lastEmissionTime < 0 ? 0 : dsState.lastEmissionTime;
+    if (!nodeConfig.intervalDistribution || nodeConfig.intervalDistribution.type === "fixed") {
+      return lastEmissionTime + nodeConfig.interval;
+    }
+
+    const nextEmissionTime = lastEmissionTime + sampleInterval(nodeConfig, this.randomFor(nodeConfig.nodeId));
+    this.updateNodeState(nodeConfig.nodeId, { nextEmissionTime });
+    return nextEmissionTime;
+  }
+
+  private processFSMNodes(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      if (nodeConfig.type !== "FSMProcessNode" || this.isBlocked(nodeConfig.nodeId)) return;
+
+      const fsmConfig = nodeConfig as any;
+      this.fireDueFSMTimers(fsmConfig, newTime);
+
+      // Timer transitions without a delay fire on a fixed 5-unit cadence
+      const timerTransitions =
+        fsmConfig.fsm?.transitions?.filter((t: any) => t.trigger === "timer" && typeof t.after !== "number") || [];
+      if (timerTransitions.length > 0 && newTime % 5 === 0) {
+        this.statechartFor(fsmConfig)
+          .selectTransitions(this.fsmConfiguration(fsmConfig.nodeId), timerTransitions)
+          .forEach((transition: any) => this.executeFSMTransition(fsmConfig, transition, newTime));
+      }
+
+      this.evaluateFSMConditions(fsmConfig, newTime, "first");
+    });
+  }
+
+  private processEnhancedFSMNodes(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      if (nodeConfig.type !== "EnhancedFSMProcessNode" || this.isBlocked(nodeConfig.nodeId)) return;
+
+      const enhancedFsmConfig = nodeConfig as any;
+      const enhancedFsmState = this.nodeStates[enhancedFsmConfig.nodeId] as any;
+      const tokensToProcess: Token[] = enhancedFsmState.tokenBuffers?.default || [];
+      if (tokensToProcess.length === 0) return;
+
+      this.updateNodeState(enhancedFsmConfig.nodeId, {
+        tokenBuffers: { ...enhancedFsmState.tokenBuffers, default: [] },
+      });
+
+      // Forward buffered tokens unchanged to every output
+      tokensToProcess.forEach(token => {
+        enhancedFsmConfig.outputs?.forEach((output: any) => {
+          this.emitToken(enhancedFsmConfig, token, output.destinationNodeId, output.destinationInputName, newTime);
+        });
+      });
+
+      this.logNodeActivity(
+        enhancedFsmConfig.nodeId,
+        {
+          action: "tokens_processed",
+          value: tokensToProcess.length,
+          details: `Processed ${tokensToProcess.length} tokens`,
+        },
+        newTime,
+      );
+    });
+  }
+
+  private processQueues(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      if (nodeConfig.type !== "Queue") return;
+
+      const qConfig = nodeConfig;
+      const qState = this.nodeStates[qConfig.nodeId] as QueueState;
+      const currentState = qState.stateMachine?.currentState || "queue_idle";
+      const windowElapsed = isAggregationDue(qConfig.aggregation, qState, newTime);
+
+      switch (currentState) {
+        case "queue_idle":
+          if (!windowElapsed) break;
+          if (qState.inputBuffer.length > 0) {
+            this.transitionNodeState(qConfig.nodeId, "queue_processing", newTime, "aggregation_window_triggered");
+          } else {
+            this.logNodeActivity(
+              qConfig.nodeId,
+              { action: "trigger_met", details: `No tokens in input buffer.` },
+              newTime,
+            );
+            this.updateNodeState(qConfig.nodeId, { lastAggregationTime: newTime });
+          }
+          break;
+
+        case "queue_accumulating":
+          if (!windowElapsed) break;
+          if (qState.inputBuffer.length > 0) {
+            this.transitionNodeState(qConfig.nodeId, "queue_processing", newTime, "aggregation_window_triggered");
+          } else {
+            this.transitionNodeState(qConfig.nodeId, "queue_idle", newTime, "no_tokens_to_process");
+          }
+          break;
+
+        case "queue_processing":
+          this.aggregateQueue(qConfig, newTime);
+          break;
+
+        case "queue_emitting":
+          if (qState.outputBuffer.length === 0) {
+            this.transitionNodeState(qConfig.nodeId, "queue_idle", newTime, "output_buffer_empty");
+          }
+          break;
+
+        default:
+          this.transitionNodeState(qConfig.nodeId, "queue_idle", newTime, "unknown_state_reset");
+          break;
+      }
+    });
+  }
+
+  private aggregateQueue(qConfig: Extract<AnyNode, { type: "Queue" }>, newTime: number): void {
+    const qState = this.nodeStates[qConfig.nodeId] as QueueState;
+    const { aggregation } = qConfig;
+    const window = selectAggregationWindow(aggregation, qState, newTime);
+    const tokensToAggregate = window.tokens;
+    const bufferAfterWindow = {
+      inputBuffer: window.remaining,
+      inputArrivalTimes: window.remainingArrivalTimes,
+      lastAggregationTime: newTime,
+    };
+
+    if (tokensToAggregate.length === 0) {
+      // A sliding window that has moved past every buffered token
+      this.logNodeActivity(qConfig.nodeId, { action: "trigger_met", details: `No tokens in window.` }, newTime);
+      this.updateNodeState(qConfig.nodeId, bufferAfterWindow);
+      this.transitionNodeState(qConfig.nodeId, "queue_idle", newTime, "no_tokens_to_process");
+      return;
+    }
+
+    const { value: aggregatedValue, error } = withFormulaRandom(this.randomFor(qConfig.nodeId), () =>
+      aggregateTokens(aggregation, tokensToAggregate),
+    );
+
+    if (error) {
+      this.logNodeActivity(
+        qConfig.nodeId,
+        { action: "error", details: `Aggregation formula error: ${error}` },
+        newTime,
+      );
+      this.errorMessages = [...this.errorMessages, `Node ${qConfig.displayName} aggregation formula error: ${error}`];
+      this.updateNodeState(qConfig.nodeId, bufferAfterWindow);
+      this.transitionNodeState(qConfig.nodeId, "queue_idle", newTime, "aggregation_error");
+      return;
+    }
+
+    if (aggregatedValue === undefined) {
+      this.logNodeActivity(
+        qConfig.nodeId,
+        { action: "error", details: `Input buffer cleared. Contained ${tokensToAggregate.length} tokens.` },
+        newTime,
+      );
+      this.updateNodeState(qConfig.nodeId, bufferAfterWindow);
+      this.transitionNodeState(qConfig.nodeId, "queue_idle", newTime, "no_value_to_aggregate");
+      return;
+    }
+
+    const newToken = this.createToken(qConfig.nodeId, aggregatedValue, newTime);
+    const consumedValues = tokensToAggregate.map(t => t.value).join(", ");
+    const details = `${aggregation.method}([${consumedValues}]) = ${newToken.value}`;
+
+    const processingLog = this.logNodeActivity(
+      qConfig.nodeId,
+      {
+        action: "processing",
+        value: newToken.value,
+        details,
+        sourceTokenIds: tokensToAggregate.map(t => t.id),
+        sourceTokenSummaries: createEnhancedSourceTokenSummaries(tokensToAggregate),
+        aggregationDetails: createAggregationDetails(
+          aggregation.method as AggregationMethod,
+          tokensToAggregate,
+          aggregatedValue,
+          aggregation,
+        ),
+        lineageMetadata: createLineageMetadata("aggregation", tokensToAggregate, newToken.id),
+      },
+      newTime,
+    );
+    tokensToAggregate.forEach(consumedToken => consumedToken.history.push(processingLog));
+
+    this.transitionNodeState(qConfig.nodeId, "queue_emitting", newTime, "aggregation_complete");
+    this.updateNodeState(qConfig.nodeId, {
+      ...bufferAfterWindow,
+      outputBuffer: [...qState.outputBuffer, newToken],
+    });
+  }
+
+  private forwardQueueOutputs(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      if (nodeConfig.type !== "Queue" || this.isBlocked(nodeConfig.nodeId)) return;
+
+      const qState = this.nodeStates[nodeConfig.nodeId] as QueueState;
+      if (qState.outputBuffer.length === 0) return;
+
+      // Forward the first token to ALL outputs in one operation; the overflow output only carries overflow
+      const tokenToForward = qState.outputBuffer[0];
+      const outputs = nodeConfig.outputs.filter(output => output.name !== nodeConfig.overflowOutput);
+      this.transitionNodeState(nodeConfig.nodeId, "queue_emitting", newTime, "forwarding_token");
+
+      const destinationNames = outputs
+        .map(output => this.nodesConfig[output.destinationNodeId]?.displayName || output.destinationNodeId)
+        .join(", ");
+      const forwardActionLog = this.logNodeActivity(
+        nodeConfig.nodeId,
+        { action: "emitting", value: tokenToForward.value, details: `Sending to ${destinationNames}` },
+        newTime,
+      );
+      tokenToForward.history.push(forwardActionLog);
+
+      outputs.forEach(output => {
+        this.emitToken(nodeConfig, tokenToForward, output.destinationNodeId, output.destinationInputName, newTime);
+      });
+
+      const latestQState = this.nodeStates[nodeConfig.nodeId] as QueueState;
+      this.updateNodeState(nodeConfig.nodeId, { outputBuffer: latestQState.outputBuffer.slice(1) });
+      this.transitionNodeState(nodeConfig.nodeId, "queue_idle", newTime, "forwarding_complete");
+    });
+  }
+
+  // ===========================================================================
+  // Token delivery
+  // ===========================================================================
+
+  /**
+   * Deliver a token produced by `source` to a destination node, applying the
+   * destination's reception semantics (buffering, firing, consumption).
+   * Returns false when a full, blocking Queue refuses the token; the producer
+   * then has to hold it. `retry` marks a held token being offered again.
+   */
+  private deliverToken(
+    source: Pick<AnyNode, "nodeId" | "displayName">,
+    token: Token,
+    destinationNodeId: string,
+    destinationInputName: string | undefined,
+    newTime: number,
+    retry = false,
+  ): boolean {
+    const destNodeConfig = this.nodesConfig[destinationNodeId];
+    if (!destNodeConfig) {
+      // Leaving a Module sub-graph; at the top level the output is just unconnected
+      this.options.onTokenExit?.(source.nodeId, token, newTime);
+      return true;
+    }
+
+    if (!this.acceptToken(source, token, destNodeConfig, destinationInputName, newTime)) return true;
+
+    const destNodeId = destNodeConfig.nodeId;
+    const destNodeState = this.nodeStates[destNodeId];
+
+    switch (destNodeConfig.type) {
+      case "Queue": {
+        if (destNodeConfig.capacity && (destNodeState as QueueState).inputBuffer.length >= destNodeConfig.capacity) {
+          const outcome = this.applyOverflowPolicy(destNodeConfig, source, token, newTime, retry);
+          if (outcome !== "accept") return outcome === "handled";
+        }
+        const qState = this.nodeStates[destNodeId] as QueueState;
+
+        // Don't interrupt a pending aggregation; the window decides whether it covers this token
+        if (qState.stateMachine?.currentState !== "queue_processing") {
+          this.transitionNodeState(destNodeId, "queue_accumulating", newTime, "token_received");
+        }
+        this.updateNodeState(destNodeId, {
+          inputBuffer: [...qState.inputBuffer, token],
+          inputArrivalTimes: [...(qState.inputArrivalTimes ?? []), newTime],
+          lastArrivalTime: newTime,
+        });
+        const arrivalLog = this.logNodeActivity(
+          destNodeId,
+          {
+            action: "accumulating",
+            value: qState.inputBuffer.length + 1,
+            details: `Collecting tokens (buffer size: ${qState.inputBuffer.length + 1})`,
+          },
+          newTime,
+        );
+        token.history.push(arrivalLog);
+        return true;
+      }
+
+      case "ProcessNode": {
+        this.transitionNodeState(destNodeId, "process_idle", newTime, "token_received");
+        const pnState = this.nodeStates[destNodeId] as ProcessNodeState;
+        const bufferForInput = pnState.inputBuffers[source.nodeId] || [];
+        this.updateNodeState(destNodeId, {
+          inputBuffers: { ...pnState.inputBuffers, [source.nodeId]: [...bufferForInput, token] },
+        });
+        const arrivalLog = this.logNodeActivity(
+          destNodeId,
+          {
+            action: "token_received",
+            value: bufferForInput.length + 1,
+            details: `Received token from ${source.displayName} (buffer size: ${bufferForInput.length + 1})`,
+          },
+          newTime,
+        );
+        token.history.push(arrivalLog);
+
+        this.tryFireProcessNode(destNodeConfig, newTime);
+        return true;
+      }
+
+      case "FSMProcessNode": {
+        const fsmConfig = destNodeConfig as any;
+        const fsmState = destNodeState as any;
+        const bufferKey = destinationInputName || "input";
+        const inputBuffers = { ...(fsmState.inputBuffers || {}) };
+        inputBuffers[bufferKey] = [...(inputBuffers[bufferKey] || []), token];
+        this.updateNodeState(destNodeId, { inputBuffers });
+
+        this.logNodeActivity(
+          destNodeId,
+          { action: "token_received", value: token.value, details: `Token received from ${source.displayName}` },
+          newTime,
+        );
+
+        // A blocked FSM buffers its input and reacts to it once its held tokens are accepted
+        if (this.isBlocked(destNodeId)) {
+          this.updateNodeState(destNodeId, { deferredTokenReceipts: (fsmState.deferredTokenReceipts ?? 0) + 1 });
+          return true;
+        }
+
+        this.fireFSMTokenTransitions(fsmConfig, newTime);
+        return true;
+      }
+
+      case "EnhancedFSMProcessNode": {
+        const enhancedFsmState = destNodeState as any;
+        this.updateNodeState(destNodeId, {
+          tokenBuffers: {
+            ...enhancedFsmState.tokenBuffers,
+            default: [...(enhancedFsmState.tokenBuffers?.default || []), token],
+          },
+        });
+        this.logNodeActivity(
+          destNodeId,
+          {
+            action: "token_received",
+            value: token.value,
+            details: `Token received from ${source.displayName} (Enhanced FSM)`,
+          },
+          newTime,
+        );
+        return true;
+      }
+
+      case "Sink": {
+        this.transitionNodeState(destNodeId, "sink_processing", newTime, "token_received");
+        const sinkState = this.nodeStates[destNodeId] as SinkState;
+        this.updateNodeState(destNodeId, {
+          consumedTokenCount: (sinkState.consumedTokenCount || 0) + 1,
+          lastConsumedTime: newTime,
+          consumedTokens: [...(sinkState.consumedTokens || []), token].slice(-this.maxSinkTokensStored),
+        });
+
+        const consumingLog = this.logNodeActivity(
+          destNodeId,
+          { action: "consuming", value: token.value, details: `Token ${token.id} from ${source.displayName} output` },
+          newTime,
+        );
+        token.history.push(consumingLog);
+        const consumedLog = this.logNodeActivity(
+          destNodeId,
+          {
+            action: "token_consumed",
+            value: token.value,
+            details: `Token ${token.id} from ${source.displayName} output`,
+            tokenCreatedAt: token.createdAt,
+          },
+          newTime,
+        );
+        token.history.push(consumedLog);
+
+        this.transitionNodeState(destNodeId, "sink_idle", newTime, "token_consumed");
+        return true;
+      }
+
+      case "Module":
+        this.enterModule(destNodeConfig, source, token, destinationInputName, newTime);
+        return true;
+
+      default:
+        // Group nodes do not receive tokens directly
+        return true;
+    }
+  }
+
+  /**
+   * Handle a token arriving at a Queue that is at capacity. "accept" means room
+   * was made and the token is buffered as usual; "handled" means it was dropped
+   * or overflowed; "blocked" means the producer must hold it.
+   */
+  private applyOverflowPolicy(
+    qConfig: Extract<AnyNode, { type: "Queue" }>,
+    source: Pick<AnyNode, "nodeId" | "displayName">,
+    token: Token,
+    newTime: number,
+    retry: boolean,
+  ): "accept" | "handled" | "blocked" {
+    const qState = this.nodeStates[qConfig.nodeId] as QueueState;
+    const policy = qConfig.overflowPolicy ?? "drop-newest";
+    // Only a node of this graph can hold a token; injected tokens and module inputs are dropped instead
+    const canBlock = source.nodeId in this.nodesConfig;
+
+    if (policy === "block" && canBlock) {
+      if (!retry) {
+        const blockLog = this.logNodeActivity(
+          qConfig.nodeId,
+          {
+            action: "token_blocked",
+            value: token.value,
+            details: `From ${source.displayName}, Token ${token.id} - queue at capacity, held by producer`,
+          },
+          newTime,
+        );
+        token.history.push(blockLog);
+        this.updateNodeState(qConfig.nodeId, { blockedCount: (qState.blockedCount ?? 0) + 1 });
+      }
+      return "blocked";
+    }
+
+    const overflowOutput =
+      policy === "overflow" ? qConfig.outputs.find(output => output.name === qConfig.overflowOutput) : undefined;
+    if (overflowOutput) {
+      if (!retry) {
+        const overflowLog = this.logNodeActivity(
+          qConfig.nodeId,
+          {
+            action: "token_overflowed",
+            value: token.value,
+            details: `From ${source.displayName}, Token ${token.id} - queue at capacity, sent to "${overflowOutput.name}"`,
+          },
+          newTime,
+        );
+        token.history.push(overflowLog);
+        this.updateNodeState(qConfig.nodeId, { overflowCount: (qState.overflowCount ?? 0) + 1 });
+      }
+      const delivered = this.deliverToken(
+        qConfig,
+        token,
+        overflowOutput.destinationNodeId,
+        overflowOutput.destinationInputName,
+        newTime,
+        retry,
+      );
+      return delivered ? "handled" : "blocked";
+    }
+
+    if (policy === "drop-oldest" && qState.inputBuffer.length > 0) {
+      const [evicted, ...inputBuffer] = qState.inputBuffer;
+      const evictLog = this.logNodeActivity(
+        qConfig.nodeId,
+        {
+          action: "token_dropped",
+          value: evicted.value,
+          details: `Token ${evicted.id} evicted for Token ${token.id} from ${source.displayName} - queue at capacity`,
+        },
+        newTime,
+      );
+      evicted.history.push(evictLog);
+      this.updateNodeState(qConfig.nodeId, {
+        inputBuffer,
+        inputArrivalTimes: (qState.inputArrivalTimes ?? []).slice(1),
+        droppedCount: (qState.droppedCount ?? 0) + 1,
+      });
+      return "accept";
+    }
+
+    const dropLog = this.logNodeActivity(
+      qConfig.nodeId,
+      {
+        action: "token_dropped",
+        value: token.value,
+        details: `From ${source.displayName}, Token ${token.id} - queue at capacity`,
+      },
+      newTime,
+    );
+    token.history.push(dropLog);
+    this.updateNodeState(qConfig.nodeId, { droppedCount: (qState.droppedCount ?? 0) + 1 });
+    return "handled";
+  }
+
+  // ===========================================================================
+  // Back-pressure
+  // ===========================================================================
+
+  /**
+   * Deliver a token produced by a node of this graph. When a blocking Queue
+   * refuses it, the producer holds it and offers it again on the next ticks.
+   */
+  private emitToken(
+    source: AnyNode,
+    token: Token,
+    destinationNodeId: string,
+    destinationInputName: string | undefined,
+    newTime: number,
+  ): void {
+    if (this.deliverToken(source, token, destinationNodeId, destinationInputName, newTime)) return;
+
+    const blockedDeliveries = (this.nodeStates[source.nodeId] as NodeState).blockedDeliveries ?? [];
+    this.updateNodeState(source.nodeId, {
+      blockedDeliveries: [...blockedDeliveries, { token, destinationNodeId, destinationInputName }],
+    });
+  }
+
+  // A producer holding refused tokens does not emit, fire or forward anything new
+  private isBlocked(nodeId: string): boolean {
+    return ((this.nodeStates[nodeId] as NodeState | undefined)?.blockedDeliveries?.length ?? 0) > 0;
+  }
+
+  /**
+   * Offer held tokens to their destinations again, oldest first. A token stays
+   * behind an earlier one its destination refused, so arrival order is kept.
+   */
+  private retryBlockedDeliveries(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      const held = (this.nodeStates[nodeConfig.nodeId] as NodeState | undefined)?.blockedDeliveries;
+      if (!held || held.length === 0) return;
+
+      const refusedBy = new Set<string>();
+      const stillHeld = held.filter(delivery => {
+        if (refusedBy.has(delivery.destinationNodeId)) return true;
+        const { token, destinationNodeId, destinationInputName } = delivery;
+        if (this.deliverToken(nodeConfig, token, destinationNodeId, destinationInputName, newTime, true)) return false;
+        refusedBy.add(destinationNodeId);
+        return true;
+      });
+
+      // Deliveries can cascade back into this node and hold further tokens
+      const heldSince = ((this.nodeStates[nodeConfig.nodeId] as NodeState).blockedDeliveries ?? []).slice(held.length);
+      this.updateNodeState(nodeConfig.nodeId, { blockedDeliveries: [...stillHeld, ...heldSince] });
+      if (stillHeld.length > 0 || heldSince.length > 0) return;
+
+      this.logNodeActivity(
+        nodeConfig.nodeId,
+        { action: "unblocked", value: held.length, details: `Delivered ${held.length} held token(s)` },
+        newTime,
+      );
+      if (nodeConfig.type === "ProcessNode") this.tryFireProcessNode(nodeConfig, newTime);
+      if (nodeConfig.type === "FSMProcessNode") this.fireDeferredFSMTokenTransitions(nodeConfig, newTime);
+    });
+  }
+
+  /**
+   * React to the tokens an FSM received while blocked, one at a time, until
+   * none are left or it blocks again
+   */
+  private fireDeferredFSMTokenTransitions(fsmConfig: any, newTime: number): void {
+    while (!this.isBlocked(fsmConfig.nodeId)) {
+      const deferred = (this.nodeStates[fsmConfig.nodeId] as FSMProcessNodeState).deferredTokenReceipts ?? 0;
+      if (deferred === 0) return;
+      this.updateNodeState(fsmConfig.nodeId, { deferredTokenReceipts: deferred - 1 });
+      this.fireFSMTokenTransitions(fsmConfig, newTime);
+    }
+  }
+
+  /**
+   * Take the token_received transitions from the active FSM states, then the
+   * condition transitions the new token may enable
+   */
+  private fireFSMTokenTransitions(fsmConfig: any, newTime: number): void {
+    const tokenReceivedTransitions =
+      fsmConfig.fsm?.transitions?.filter((t: any) => t.trigger === "token_received") || [];
+    this.statechartFor(fsmConfig)
+      .selectTransitions(this.fsmConfiguration(fsmConfig.nodeId), tokenReceivedTransitions)
+      .forEach((transition: any) => this.executeFSMTransition(fsmConfig, transition, newTime));
+
+    this.evaluateFSMConditions(fsmConfig, newTime, "latest");
+  }
+
+  /**
+   * Fire a ProcessNode once every input has at least one buffered token
+   */
+  private tryFireProcessNode(pnConfig: Extract<AnyNode, { type: "ProcessNode" }>, newTime: number): void {
+    if (this.isBlocked(pnConfig.nodeId)) return;
+
+    const pnState = this.nodeStates[pnConfig.nodeId] as ProcessNodeState;
+    const inputsDataForFormula: Record<string, Token> = {};
+    const aliasToSourceNodeId: Record<string, string> = {};
+
+    for (const input of pnConfig.inputs) {
+      // Inside a Module the source may be a module input rather than a node
+      const inputSourceNodeId = input.nodeId;
+      if (!inputSourceNodeId) return;
+
+      const aliasKey = input.alias || inputSourceNodeId;
+      aliasToSourceNodeId[aliasKey] = inputSourceNodeId;
+
+      const buffer = pnState.inputBuffers[inputSourceNodeId];
+      if (!buffer || buffer.length === 0) return;
+      inputsDataForFormula[aliasKey] = buffer[0];
+    }
+
+    this.transitionNodeState(pnConfig.nodeId, "process_emitting", newTime, "fire");
+
+    const consumedTokens: Token[] = [];
+    const nextInputBuffers: Record<string, Token[]> = { ...pnState.inputBuffers };
+    Object.entries(inputsDataForFormula).forEach(([aliasKey, tokenToConsume]) => {
+      consumedTokens.push(tokenToConsume);
+      const sourceNodeId = aliasToSourceNodeId[aliasKey];
+      nextInputBuffers[sourceNodeId] = (nextInputBuffers[sourceNodeId] || []).slice(1);
+    });
+
+    const firingLog = this.logNodeActivity(
+      pnConfig.nodeId,
+      {
+        action: "firing",
+        value: consumedTokens.length,
+        details: `Firing with ${consumedTokens.length} inputs`,
+        sourceTokenIds: consumedTokens.map(t => t.id),
+        sourceTokenSummaries: createEnhancedSourceTokenSummaries(consumedTokens),
+      },
+      newTime,
+    );
+    consumedTokens.forEach(token => token.history.push(firingLog));
+
+    this.updateNodeState(pnConfig.nodeId, { inputBuffers: nextInputBuffers, lastFiredTime: newTime });
+
+    const formulaContext = createProcessNodeFormulaContext(inputsDataForFormula);
+
+    pnConfig.outputs.forEach((output, index) => {
+      const formula = output.transformation?.formula || "inputs.a";
+      const { value: outputValue, error } = this.evaluateNodeFormula(pnConfig.nodeId, formula, formulaContext);
+      if (error) {
+        this.logNodeActivity(
+          pnConfig.nodeId,
+          { action: "error", details: `Output ${index} ('${formula}'): ${error}` },
+          newTime,
+        );
+        this.errorMessages = [
+          ...this.errorMessages,
+          `Node ${pnConfig.displayName} (output ${index}) formula error: ${error}`,
+        ];
+        return;
+      }
+
+      const newToken = this.createToken(pnConfig.nodeId, outputValue, newTime);
+      this.emitToken(pnConfig, newToken, output.destinationNodeId, output.destinationInputName, newTime);
+    });
+
+    this.transitionNodeState(pnConfig.nodeId, "process_idle", newTime, "outputs_sent");
+  }
+
+  /**
+   * Check a token against the receiving input's interface. A mismatch is
+   * recorded on the token and, depending on the input's policy, the token is
+   * rejected, quarantined on the node, or let through.
+   */
+  private acceptToken(
+    source: Pick<AnyNode, "nodeId" | "displayName">,
+    token: Token,
+    destNodeConfig: AnyNode,
+    destinationInputName: string | undefined,
+    newTime: number,
+  ): boolean {
+    const input = findConsumerInput(destNodeConfig, source.nodeId, destinationInputName);
+    if (!input) return true;
+
+    const violations = this.interfaces.validateToken(token, input.interface);
+    if (violations.length === 0) return true;
+
+    const policy = input.onViolation ?? "reject";
+    const action = { reject: "token_rejected", quarantine: "token_quarantined", warn: "interface_violation" }[policy];
+    const violationLog = this.logNodeActivity(
+      destNodeConfig.nodeId,
+      {
+        action,
+        value: token.value,
+        details: `From ${source.displayName}, Token ${token.id} does not match ${input.interface.type} on "${input.name}": ${violations.join("; ")}`,
+      },
+      newTime,
+    );
+    token.history.push(violationLog);
+
+    if (policy === "quarantine") {
+      const quarantinedTokens = (this.nodeStates[destNodeConfig.nodeId] as NodeState)?.quarantinedTokens ?? [];
+      this.updateNodeState(destNodeConfig.nodeId, { quarantinedTokens: [...quarantinedTokens, token] });
+    }
+    return policy === "warn";
+  }
+
+  // ===========================================================================
+  // FSMProcessNode semantics
+  // ===========================================================================
+
+  /**
+   * The statechart of an FSM node's definition, built once per definition
+   */
+  private statechartFor(fsmConfig: any): Statechart {
+    const fsm = fsmConfig.fsm || {};
+    let chart = this.statecharts.get(fsm);
+    if (!chart) {
+      chart = Statechart.fromFSMDefinition(fsm);
+      this.statecharts.set(fsm, chart);
+    }
+    return chart;
+  }
+
+  private fsmConfiguration(nodeId: string): StatechartConfiguration {
+    const fsmState = this.nodeStates[nodeId] as any;
+    return {
+      active: fsmState.activeFSMStates || [fsmState.currentFSMState || "idle"],
+      history: fsmState.fsmHistory || {},
+    };
+  }
+
+  /**
+   * Evaluate condition transitions from the active FSM states against the FSM
+   * variables and the buffered tokens (first or latest token per input)
+   */
+  private evaluateFSMConditions(fsmConfig: any, newTime: number, tokenPick: "first" | "latest"): void {
+    const conditionTransitions = fsmConfig.fsm?.transitions?.filter((t: any) => t.trigger === "condition") || [];
+    const chart = this.statechartFor(fsmConfig);
+    conditionTransitions.forEach((transition: any) => {
+      const fsmState = this.nodeStates[fsmConfig.nodeId] as any;
+      if (!chart.isActive(this.fsmConfiguration(fsmConfig.nodeId), transition.from) || !transition.condition) return;
+
+      const formulaContext = {
+        ...fsmState.fsmVariables,
+        ...Object.fromEntries(
+          Object.entries(fsmState.inputBuffers || {}).map(([key, tokens]: [string, any]) => [
+            key,
+            tokenPick === "first" ? tokens[0] : tokens[tokens.length - 1],
+          ]),
+        ),
+      };
+
+      const { value: conditionResult } = this.evaluateNodeFormula(
+        fsmConfig.nodeId,
+        transition.condition,
+        formulaContext,
+      );
+      if (conditionResult) {
+        this.executeFSMTransition(fsmConfig, transition, newTime);
+      }
+    });
+  }
+
+  /**
+   * Fire the timers due by `newTime` one at a time, in due order, so a timer
+   * cancelled by an earlier one in the same tick does not fire
+   */
+  private fireDueFSMTimers(fsmConfig: any, newTime: number): void {
+    for (;;) {
+      const fsmState = this.nodeStates[fsmConfig.nodeId] as any;
+      const timer = nextDueTimer(fsmState.fsmTimers || [], newTime);
+      if (!timer) return;
+
+      const transition = fsmConfig.fsm?.transitions?.[timer.transitionIndex];
+      this.updateNodeState(fsmConfig.nodeId, {
+        fsmTimers: fsmState.fsmTimers.filter((pending: FSMTimer) => pending !== timer),
+      });
+      if (!transition) continue;
+
+      this.logNodeActivity(
+        fsmConfig.nodeId,
+        {
+          action: "timer_fired",
+          value: timer.dueAt,
+          details: `Timer ${transition.from} → ${transition.to} after ${transition.after} (scheduled at ${timer.scheduledAt})`,
+        },
+        newTime,
+      );
+      this.executeFSMTransition(fsmConfig, transition, newTime);
+    }
+  }
+
+  /**
+   * Take a transition with statechart semantics: exit actions run innermost
+   * first for every state left, entry actions outermost first for every state
+   * entered
+   */
+  private executeFSMTransition(fsmConfig: any, transition: any, newTime: number): void {
+    const chart = this.statechartFor(fsmConfig);
+    const step = chart.transition(this.fsmConfiguration(fsmConfig.nodeId), transition.from, transition.to);
+    const findState = (name: string) => fsmConfig.fsm?.states?.find((s: any) => s?.name === name);
+
+    this.logNodeActivity(
+      fsmConfig.nodeId,
+      {
+        action: "fsm_transition",
+        value: transition.to,
+        details: `${transition.from} → ${transition.to} (${transition.trigger})`,
+      },
+      newTime,
+    );
+
+    step.exited.forEach(state =>
+      findState(state)?.onExit?.forEach((action: any) => this.executeFSMAction(fsmConfig, action, newTime)),
+    );
+
+    // Leaving a state cancels its timers; entering one starts them
+    const fsmState = this.nodeStates[fsmConfig.nodeId] as any;
+    const { timers: remaining, cancelled } = cancelTimers(fsmState.fsmTimers || [], step.exited);
+    const { timers, scheduled, sequence } = scheduleTimers(
+      remaining,
+      step.entered,
+      fsmTimerTransitions(fsmConfig.fsm),
+      newTime,
+      fsmState.fsmTimerSequence ?? 0,
+    );
+    this.logFSMTimers(fsmConfig, "timer_cancelled", cancelled, newTime);
+
+    const currentFSMState = chart.getActiveLeaves(step.configuration)[0] ?? transition.to;
+    this.updateNodeState(fsmConfig.nodeId, {
+      currentFSMState,
+      activeFSMStates: step.configuration.active,
+      fsmHistory: step.configuration.history,
+      fsmTimers: timers,
+      fsmTimerSequence: sequence,
+      lastTransitionTime: newTime,
+    });
+    this.transitionNodeState(fsmConfig.nodeId, currentFSMState, newTime, transition.trigger);
+
+    step.entered.forEach(state =>
+      findState(state)?.onEntry?.forEach((action: any) => this.executeFSMAction(fsmConfig, action, newTime)),
+    );
+    this.logFSMTimers(fsmConfig, "timer_scheduled", scheduled, newTime);
+  }
+
+  private logFSMTimers(
+    fsmConfig: any,
+    action: "timer_scheduled" | "timer_cancelled",
+    timers: FSMTimer[],
+    newTime: number,
+  ) {
+    timers.forEach(timer => {
+      const transition = fsmConfig.fsm?.transitions?.[timer.transitionIndex];
+      this.logNodeActivity(
+        fsmConfig.nodeId,
+        {
+          action,
+          value: timer.dueAt,
+          details: `Timer ${transition?.from} → ${transition?.to} due at t=${timer.dueAt}`,
+        },
+        newTime,
+      );
+    });
+  }
+
+  private executeFSMAction(fsmConfig: any, action: any, newTime: number): void {
+    const fsmState = this.nodeStates[fsmConfig.nodeId] as any;
+
+    switch (action.action) {
+      case "emit": {
+        if (!action.target) break;
+        let outputValue = action.value;
+        if (action.formula) {
+          const formulaContext = {
+            ...fsmState.fsmVariables,
+            ...Object.fromEntries(
+              Object.entries(fsmState.inputBuffers || {}).map(([key, tokens]: [string, any]) => [
+                key,
+                tokens[0]?.value,
+              ]),
+            ),
+          };
+          const { value, error } = this.evaluateNodeFormula(fsmConfig.nodeId, action.formula, formulaContext);
+          if (error) {
+            this.logNodeActivity(
+              fsmConfig.nodeId,
+              { action: "error", details: `FSM emit action formula error: ${error}` },
+              newTime,
+            );
+            break;
+          }
+          outputValue = value;
+        } else if (outputValue === undefined) {
+          break;
+        }
+
+        const token = this.createToken(fsmConfig.nodeId, outputValue, newTime);
+        const outputConfig = fsmConfig.outputs?.find((out: any) => out.name === action.target);
+        if (outputConfig) {
+          this.logNodeActivity(
+            fsmConfig.nodeId,
+            {
+              action: "token_emitted",
+              value: token.value,
+              details: `Token ${token.id} via FSM action to ${outputConfig.destinationNodeId}`,
+            },
+            newTime,
+          );
+          this.emitToken(fsmConfig, token, outputConfig.destinationNodeId, outputConfig.destinationInputName, newTime);
+        }
+        break;
+      }
+
+      case "log":
+        this.logNodeActivity(
+          fsmConfig.nodeId,
+          { action: "fsm_log", details: action.value || action.formula || "FSM log action" },
+          newTime,
+        );
+        break;
+
+      case "set_variable":
+        if (action.target) {
+          let newValue = action.value;
+          if (action.formula) {
+            const { value, error } = this.evaluateNodeFormula(fsmConfig.nodeId, action.formula, fsmState.fsmVariables);
+            if (!error) newValue = value;
+          }
+          this.updateNodeState(fsmConfig.nodeId, {
+            fsmVariables: { ...fsmState.fsmVariables, [action.target]: newValue },
+          });
+        }
+        break;
+
+      case "increment":
+      case "decrement":
+        if (action.target) {
+          const currentValue = fsmState.fsmVariables[action.target] || 0;
+          const delta = (action.value || 1) * (action.action === "increment" ? 1 : -1);
+          this.updateNodeState(fsmConfig.nodeId, {
+            fsmVariables: { ...fsmState.fsmVariables, [action.target]: currentValue + delta },
+          });
+        }
+        break;
+    }
+  }
+
+  // ===========================================================================
+  // Module sub-graphs
+  // ===========================================================================
+
+  /**
+   * Advance every Module sub-graph to the parent clock
+   */
+  private processModules(newTime: number): void {
+    Object.values(this.nodesConfig).forEach(nodeConfig => {
+      if (nodeConfig.type !== "Module") return;
+
+      const moduleEngine = this.moduleEngine(nodeConfig.nodeId);
+      moduleEngine.runUntil(newTime);
+      this.syncModuleState(nodeConfig.nodeId);
+    });
+  }
+
+  /**
+   * Route a token arriving at a module input to the mapped internal node
+   */
+  private enterModule(
+    moduleConfig: ModuleNode,
+    source: Pick<AnyNode, "nodeId" | "displayName">,
+    token: Token,
+    destinationInputName: string | undefined,
+    newTime: number,
+  ): void {
+    const inputName = destinationInputName ?? moduleConfig.inputs[0]?.name;
+    const mapping = moduleConfig.inputMappings?.find(m => m.inputName === inputName);
+    if (!mapping) {
+      const dropLog = this.logNodeActivity(
+        moduleConfig.nodeId,
+        {
+          action: "token_dropped",
+          value: token.value,
+          details: `From ${source.displayName}, Token ${token.id} - module input "${inputName}" is not mapped`,
+        },
+        newTime,
+      );
+      token.history.push(dropLog);
+      return;
+    }
+
+    this.transitionNodeState(moduleConfig.nodeId, "module_processing", newTime, "token_received");
+    const inputLog = this.logNodeActivity(
+      moduleConfig.nodeId,
+      {
+        action: "module_input",
+        value: token.value,
+        details: `Token ${token.id} from ${source.displayName} enters ${mapping.targetNodeId} via "${mapping.inputName}"`,
+        sourceTokenIds: [token.id],
+        lineageMetadata: createLineageMetadata("transfer", [token]),
+      },
+      newTime,
+    );
+    token.history.push(inputLog);
+
+    const moduleState = this.nodeStates[moduleConfig.nodeId] as ModuleState;
+    this.updateNodeState(moduleConfig.nodeId, {
+      processedTokenCount: moduleState.processedTokenCount + 1,
+      lastProcessedTime: newTime,
+    });
+
+    this.moduleEngine(moduleConfig.nodeId).receiveToken(
+      mapping.targetNodeId,
+      token,
+      mapping.inputName,
+      mapping.targetInputName,
+    );
+    this.syncModuleState(moduleConfig.nodeId);
+    this.transitionNodeState(moduleConfig.nodeId, "module_idle", newTime, "token_routed");
+  }
+
+  /**
+   * Send a token leaving the sub-graph out through the mapped module output
+   */
+  private exitModule(moduleConfig: ModuleNode, internalSourceId: string, token: Token, newTime: number): void {
+    const mapping = moduleConfig.outputMappings?.find(m => m.sourceNodeId === internalSourceId);
+    if (!mapping) return;
+
+    const outputLog = this.logNodeActivity(
+      moduleConfig.nodeId,
+      {
+        action: "module_output",
+        value: token.value,
+        details: `Token ${token.id} from ${internalSourceId} leaves via "${mapping.outputName}"`,
+        sourceTokenIds: [token.id],
+        lineageMetadata: createLineageMetadata("transfer", [token]),
+      },
+      newTime,
+    );
+    token.history.push(outputLog);
+
+    moduleConfig.outputs
+      .filter(output => output.name === mapping.outputName)
+      .forEach(output => {
+        this.emitToken(moduleConfig as AnyNode, token, output.destinationNodeId, output.destinationInputName, newTime);
+      });
+  }
+
+  /**
+   * The engine running a module's sub-graph. Its entries are logged into this
+   * engine under "<moduleId>/<nodeId>" with this engine's sequence numbers.
+   */
+  private moduleEngine(moduleId: string): SimulationEngine {
+    if (!this.moduleEngines[moduleId]) {
+      const moduleConfig = this.nodesConfig[moduleId] as ModuleNode;
+      const moduleEngine = new SimulationEngine(
+        {
+          version: "3.0",
+          nodes: moduleConfig.subGraph.nodes as AnyNode[],
+          interfaceTypes: this.scenario.interfaceTypes,
+        },
+        {
+          maxSinkTokensStored: this.maxSinkTokensStored,
+          maxNodeActivityLogs: this.maxNodeActivityLogs,
+          maxGlobalActivityLogs: this.maxGlobalActivityLogs,
+          seed: deriveSeed(this.seed, `module:${moduleId}`),
+          startEpoch: this.startEpoch,
+          logScope: `${this.options.logScope ?? ""}${moduleId}/`,
+          nextSequence: this.options.nextSequence ?? (() => this.eventCounter++),
+          onTokenExit: (sourceNodeId, token, timestamp) =>
+            this.exitModule(moduleConfig, sourceNodeId, token, timestamp),
+        },
+      );
+      moduleEngine.subscribe(entry => {
+        const moduleState = this.nodeStates[moduleId] as ModuleState;
+        this.updateNodeState(moduleId, { internalEventCounter: moduleState.internalEventCounter + 1 });
+        this.appendLogEntry(entry);
+      });
+      this.moduleEngines[moduleId] = moduleEngine;
+      this.restoreModuleEngine(moduleId);
+    }
+    return this.moduleEngines[moduleId];
+  }
+
+  private restoreModuleEngine(moduleId: string): void {
+    const moduleState = this.nodeStates[moduleId] as ModuleState | undefined;
+    const moduleEngine = this.moduleEngines[moduleId];
+    if (!moduleState || !moduleEngine) return;
+
+    moduleEngine.restoreState({
+      currentTime: this.currentTime,
+      ...(Object.keys(moduleState.subGraphStates).length > 0 && { nodeStates: moduleState.subGraphStates }),
+    });
+  }
+
+  /**
+   * Mirror the sub-graph state into the ModuleState and surface its errors
+   */
+  private syncModuleState(moduleId: string): void {
+    const moduleEngine = this.moduleEngines[moduleId];
+    const { nodeStates, errorMessages } = moduleEngine.getState();
+    this.updateNodeState(moduleId, { subGraphStates: nodeStates });
+
+    if (errorMessages.length > 0) {
+      const displayName = this.nodesConfig[moduleId].displayName;
+      this.errorMessages = [...this.errorMessages, ...errorMessages.map(error => `Module ${displayName}: ${error}`)];
+      moduleEngine.restoreState({ errorMessages: [] });
+    }
+  }
+
+  // ===========================================================================
+  // Primitives
+  // ===========================================================================
+
+  private updateNodeState(nodeId: string, partialState: Partial<AnyNodeState>): void {
+    this.nodeStates = {
+      ...this.nodeStates,
+      [nodeId]: { ...this.nodeStates[nodeId], ...partialState } as AnyNodeState,
+    };
+  }
+
+  private transitionNodeState(
+    nodeId: string,
+    newState: NodeStateMachineState,
+    timestamp: number,
+    trigger?: string,
+  ): void {
+    const currentNodeState = this.nodeStates[nodeId];
+    const currentStateMachine = (currentNodeState as NodeState | undefined)?.stateMachine;
+
+    const updatedStateMachine: StateMachineInfo = {
+      currentState: newState,
+      previousState: currentStateMachine?.currentState,
+      stateChangedAt: timestamp,
+      transitionHistory: [
+        ...(currentStateMachine?.transitionHistory || []),
+        { from: currentStateMachine?.currentState || "source_idle", to: newState, timestamp, trigger },
+      ].slice(-10), // Keep last 10 transitions
+    };
+
+    this.nodeStates = {
+      ...this.nodeStates,
+      [nodeId]: { ...currentNodeState, stateMachine: updatedStateMachine } as AnyNodeState,
+    };
+  }
+
+  private logNodeActivity(nodeIdForLog: string, logCoreDetails: LogDetails, timestamp: number): HistoryEntry {
+    const currentNodeState = this.nodeStates[nodeIdForLog] as any;
+
+    const newEntry: HistoryEntry = {
+      timestamp,
+      epochTimestamp: this.startEpoch + timestamp * 1000,
+      sequence: this.options.nextSequence ? this.options.nextSequence() : this.eventCounter++,
+      nodeId: `${this.options.logScope ?? ""}${nodeIdForLog}`,
+      action: logCoreDetails.action,
+      value: logCoreDetails.value,
+      sourceTokenIds: logCoreDetails.sourceTokenIds,
+      sourceTokenSummaries: logCoreDetails.sourceTokenSummaries,
+      details: logCoreDetails.details,
+
+      // FSM STATE - AUTHORITATIVE
+      state: currentNodeState?.stateMachine?.currentState || "unknown",
+      bufferSize: currentNodeState?.inputBuffer?.length || 0,
+      outputBufferSize: currentNodeState?.outputBuffer?.length || 0,
+
+      eventType: logCoreDetails.eventType,
+      tokenCreatedAt: logCoreDetails.tokenCreatedAt,
+      operationType: determineOperationType(logCoreDetails.action),
+      aggregationDetails: logCoreDetails.aggregationDetails,
+      transformationDetails: logCoreDetails.transformationDetails,
+      lineageMetadata: logCoreDetails.lineageMetadata,
+    };
+
+    this.appendLogEntry(newEntry);
+    return newEntry;
+  }
+
+  private appendLogEntry(entry: HistoryEntry): void {
+    const currentNodeLogs = this.nodeActivityLogs[entry.nodeId] || [];
+    this.nodeActivityLogs = {
+      ...this.nodeActivityLogs,
+      [entry.nodeId]: [...currentNodeLogs, entry].slice(-this.maxNodeActivityLogs),
+    };
+    this.globalActivityLog = [...this.globalActivityLog, entry].slice(-this.maxGlobalActivityLogs);
+
+    this.listeners.forEach(listener => listener(entry));
+  }
+
+  /**
+   * Independent random stream per key: one per DataSource plus one for token ids.
+   * A DataSource with its own generation seed uses it instead of a derived one.
+   */
+  private randomFor(key: string): RandomSource {
+    if (!this.randomStreams[key]) {
+      const nodeConfig = this.nodesConfig[key];
+      const nodeSeed = nodeConfig?.type === "DataSource" ? nodeConfig.generation.seed : undefined;
+      this.randomStreams[key] = createSeededRandom(nodeSeed ?? deriveSeed(this.seed, key));
+    }
+    return this.randomStreams[key];
+  }
+
+  // A formula's random() draws from its node's stream
+  private evaluateNodeFormula(nodeId: string, formula: string, context: Record<string, any>) {
+    return withFormulaRandom(this.randomFor(nodeId), () => evaluateFormula(formula, context));
+  }
+
+  private createToken(originNodeId: string, value: any, timestamp: number): Token {
+    return {
+      id: this.randomFor(TOKEN_ID_STREAM).nextId(8),
+      value,
+      createdAt: timestamp,
+      originNodeId,
+      history: [],
+    };
+  }
+}
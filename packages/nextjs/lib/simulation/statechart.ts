@@ -0,0 +1,360 @@
+/**
+ * Statechart Semantics for FSM Nodes
+ *
+ * Both FSM engines describe a machine as a list of states and transitions. A
+ * state may name a parent, which makes the parent a compound state (one child
+ * active at a time) or a parallel state (every child region active at once).
+ * History states remember which children were active when their parent was
+ * last exited.
+ *
+ * The active configuration holds every active state, ancestors included, in
+ * document order. Transitions follow SCXML: leaving a state exits all of its
+ * active descendants first, entering a compound state enters its initial
+ * child, and a transition out of one region of a parallel state exits the
+ * whole parallel state.
+ */
+import type { EnhancedFSMDefinition } from "./enhanced-fsm-types";
+import type { FSMDefinition } from "./types";
+
+export type StatechartStateKind = "atomic" | "compound" | "parallel" | "history";
+
+export interface StatechartStateConfig {
+  id: string;
+  parent?: string;
+  kind?: StatechartStateKind; // inferred from children when omitted
+  initial?: string; // compound: child entered by default; history: default target
+  history?: "shallow" | "deep";
+}
+
+export interface StatechartConfiguration {
+  active: string[]; // every active state, ancestors before descendants
+  history: Record<string, string[]>; // history state -> states recorded on exit
+}
+
+export interface StatechartStep {
+  configuration: StatechartConfiguration;
+  exited: string[]; // in exit order, innermost first
+  entered: string[]; // in entry order, outermost first
+}
+
+interface StatechartNode {
+  id: string;
+  parent?: string;
+  kind: StatechartStateKind;
+  initial?: string;
+  history: "shallow" | "deep";
+  children: string[];
+  order: number;
+}
+
+export class Statechart {
+  private nodes = new Map<string, StatechartNode>();
+  private topLevel: string[] = [];
+
+  constructor(
+    states: StatechartStateConfig[],
+    private initialState?: string,
+  ) {
+    states.forEach(state => {
+      if (this.nodes.has(state.id)) return;
+      this.nodes.set(state.id, {
+        id: state.id,
+        parent: state.parent,
+        kind: state.kind ?? "atomic",
+        initial: state.initial,
+        history: state.history ?? "shallow",
+        children: [],
+        order: 0,
+      });
+    });
+    this.nodes.forEach(node => {
+      const parent = node.parent ? this.nodes.get(node.parent) : undefined;
+      if (!parent) {
+        node.parent = undefined;
+        this.topLevel.push(node.id);
+        return;
+      }
+      parent.children.push(node.id);
+      if (parent.kind === "atomic") parent.kind = "compound";
+    });
+
+    // Document order is a pre-order walk, so ancestors sort before descendants
+    let order = 0;
+    const number = (id: string) => {
+      const node = this.nodes.get(id)!;
+      node.order = order++;
+      node.children.forEach(number);
+    };
+    this.topLevel.forEach(number);
+  }
+
+  /**
+   * Build the statechart of an FSMProcessNode definition. States missing from
+   * `hierarchy` are atomic states at the top level, so flat machines behave as
+   * before.
+   */
+  static fromFSMDefinition(fsm: FSMDefinition): Statechart {
+    // Older scenarios list states as objects with a name
+    const names = (fsm.states || []).map((state: any) => (typeof state === "string" ? state : state?.name));
+    const ids = Array.from(new Set([...names, ...Object.keys(fsm.hierarchy || {})]));
+    return new Statechart(
+      ids.filter(Boolean).map(id => ({ id, ...fsm.hierarchy?.[id] })),
+      fsm.initialState,
+    );
+  }
+
+  /**
+   * Build the statechart of an EnhancedFSMProcessNode definition, whose states
+   * carry their own parent and kind
+   */
+  static fromEnhancedFSMDefinition(
+    fsm: EnhancedFSMDefinition,
+    initialState: string | undefined = fsm.initialState,
+  ): Statechart {
+    return new Statechart(
+      fsm.states.map(state => ({
+        id: state.id,
+        parent: state.parent,
+        kind: state.kind,
+        initial: state.initial,
+        history: state.history,
+      })),
+      initialState,
+    );
+  }
+
+  hasState(state: string): boolean {
+    return this.nodes.has(state);
+  }
+
+  getParent(state: string): string | undefined {
+    return this.nodes.get(state)?.parent;
+  }
+
+  getChildren(state?: string): string[] {
+    return state === undefined ? [...this.topLevel] : [...(this.nodes.get(state)?.children ?? [])];
+  }
+
+  getKind(state: string): StatechartStateKind | undefined {
+    return this.nodes.get(state)?.kind;
+  }
+
+  /**
+   * Whether the chart has anything beyond top-level atomic states
+   */
+  isHierarchical(): boolean {
+    return this.nodes.size !== this.topLevel.length;
+  }
+
+  /**
+   * Ancestors of a state, innermost first
+   */
+  getAncestors(state: string): string[] {
+    const ancestors: string[] = [];
+    for (let parent = this.getParent(state); parent; parent = this.getParent(parent)) {
+      ancestors.push(parent);
+    }
+    return ancestors;
+  }
+
+  isActive(configuration: StatechartConfiguration, state: string): boolean {
+    return configuration.active.includes(state);
+  }
+
+  /**
+   * The active atomic states, one per active region, in document order
+   */
+  getActiveLeaves(configuration: StatechartConfiguration): string[] {
+    return configuration.active.filter(state => this.getKind(state) === "atomic" || !this.nodes.has(state));
+  }
+
+  /**
+   * Enter the initial state and whatever it implies: its ancestors, their
+   * other parallel regions and its own initial descendants
+   */
+  initialConfiguration(): StatechartStep {
+    const initial = this.initialState && this.nodes.has(this.initialState) ? this.initialState : this.topLevel[0];
+    const configuration: StatechartConfiguration = { active: [], history: {} };
+    if (!initial) {
+      // An undeclared initial state still counts as active
+      return {
+        configuration: { ...configuration, active: this.initialState ? [this.initialState] : [] },
+        exited: [],
+        entered: [],
+      };
+    }
+
+    const entering = new Set<string>();
+    this.addDescendantsToEnter(initial, configuration.history, entering);
+    this.addAncestorsToEnter(initial, undefined, configuration.history, entering);
+    const entered = this.sortByOrder(entering);
+    return { configuration: { ...configuration, active: entered }, exited: [], entered };
+  }
+
+  /**
+   * Take a transition and report which states it exits and enters. A source
+   * that is not a known state exits the whole configuration, which keeps
+   * manual transitions between undeclared states working.
+   */
+  transition(configuration: StatechartConfiguration, from: string, to: string): StatechartStep {
+    if (!this.nodes.has(to)) {
+      return {
+        configuration: { active: [to], history: configuration.history },
+        exited: [...configuration.active].reverse(),
+        entered: [to],
+      };
+    }
+
+    const domain = this.nodes.has(from) ? this.transitionDomain(from, to) : undefined;
+    const exitSet = this.exitSet(configuration, from, to);
+    const history = { ...configuration.history };
+    exitSet.forEach(state => {
+      this.getChildren(state)
+        .filter(child => this.getKind(child) === "history")
+        .forEach(historyState => {
+          history[historyState] = configuration.active.filter(active =>
+            this.nodes.get(historyState)!.history === "deep"
+              ? this.getKind(active) === "atomic" && this.getAncestors(active).includes(state)
+              : this.getParent(active) === state,
+          );
+        });
+    });
+
+    const entering = new Set<string>();
+    this.addDescendantsToEnter(to, history, entering);
+    this.addAncestorsToEnter(to, domain, history, entering);
+    const entered = this.sortByOrder(entering);
+
+    const remaining = configuration.active.filter(state => !exitSet.includes(state));
+    return {
+      configuration: { active: this.sortByOrder(new Set([...remaining, ...entered])), history },
+      exited: exitSet,
+      entered,
+    };
+  }
+
+  /**
+   * Pick the transitions a single event fires. Each active atomic state takes
+   * the first enabled transition from itself or its nearest ancestor, and a
+   * transition is dropped when it would exit states an earlier pick exits.
+   */
+  selectTransitions<T extends { from?: string; to?: string }>(
+    configuration: StatechartConfiguration,
+    candidates: T[],
+    isEnabled: (transition: T) => boolean = () => true,
+  ): T[] {
+    const selected: T[] = [];
+    const exiting = new Set<string>();
+    const leaves = this.getActiveLeaves(configuration);
+
+    leaves.forEach(leaf => {
+      for (const state of [leaf, ...this.getAncestors(leaf)]) {
+        const transition = candidates.find(candidate => candidate.from === state && isEnabled(candidate));
+        if (!transition) continue;
+
+        if (!selected.includes(transition)) {
+          const exitSet = this.exitSet(configuration, transition.from, transition.to);
+          if (exitSet.some(exited => exiting.has(exited))) break;
+          exitSet.forEach(exited => exiting.add(exited));
+          selected.push(transition);
+        }
+        break;
+      }
+    });
+    return selected;
+  }
+
+  /**
+   * Active states a transition exits, innermost first
+   */
+  private exitSet(configuration: StatechartConfiguration, from: string, to: string): string[] {
+    if (!this.nodes.has(from) || !this.nodes.has(to)) return [...configuration.active].reverse();
+    const domain = this.transitionDomain(from, to);
+    return configuration.active
+      .filter(state => domain === undefined || this.getAncestors(state).includes(domain))
+      .reverse();
+  }
+
+  /**
+   * The innermost compound state that properly contains both ends of a
+   * transition; undefined stands for the machine itself
+   */
+  private transitionDomain(from: string, to: string): string | undefined {
+    const targetAncestors = this.getAncestors(to);
+    return this.getAncestors(from).find(
+      ancestor => this.getKind(ancestor) === "compound" && targetAncestors.includes(ancestor),
+    );
+  }
+
+  private addDescendantsToEnter(state: string, history: Record<string, string[]>, entering: Set<string>): void {
+    const node = this.nodes.get(state);
+    if (!node) return;
+
+    if (node.kind === "history") {
+      const recorded = history[state];
+      const targets = recorded?.length ? recorded : [node.initial ?? this.initialChild(node.parent)];
+      targets.forEach(target => {
+        if (!target) return;
+        this.addDescendantsToEnter(target, history, entering);
+        this.addAncestorsToEnter(target, node.parent, history, entering);
+      });
+      return;
+    }
+
+    entering.add(state);
+    if (node.kind === "compound") {
+      const child = this.initialChild(state);
+      if (child) {
+        this.addDescendantsToEnter(child, history, entering);
+        this.addAncestorsToEnter(child, state, history, entering);
+      }
+    } else if (node.kind === "parallel") {
+      node.children
+        .filter(region => this.getKind(region) !== "history")
+        .filter(region => !Array.from(entering).some(entered => this.getAncestors(entered).includes(region)))
+        .forEach(region => this.addDescendantsToEnter(region, history, entering));
+    }
+  }
+
+  /**
+   * Enter the ancestors of a state up to (not including) `domain`, with the
+   * other regions of any parallel ancestor
+   */
+  private addAncestorsToEnter(
+    state: string,
+    domain: string | undefined,
+    history: Record<string, string[]>,
+    entering: Set<string>,
+  ): void {
+    for (const ancestor of this.getAncestors(state)) {
+      if (ancestor === domain) break;
+      entering.add(ancestor);
+      if (this.getKind(ancestor) !== "parallel") continue;
+      this.getChildren(ancestor)
+        .filter(region => this.getKind(region) !== "history")
+        .filter(
+          region =>
+            !entering.has(region) && !Array.from(entering).some(entered => this.getAncestors(entered).includes(region)),
+        )
+        .forEach(region => this.addDescendantsToEnter(region, history, entering));
+    }
+  }
+
+  /**
+   * The child a compound state enters by default: its declared initial child,
+   * otherwise its first child that is not a history state
+   */
+  private initialChild(state: string | undefined): string | undefined {
+    if (!state) return this.topLevel[0];
+    const node = this.nodes.get(state);
+    if (!node) return undefined;
+    if (node.initial && this.nodes.has(node.initial)) return node.initial;
+    return node.children.find(child => this.getKind(child) !== "history");
+  }
+
+  private sortByOrder(states: Set<string>): string[] {
+    return Array.from(states).sort(
+      (a, b) => (this.nodes.get(a)?.order ?? Infinity) - (this.nodes.get(b)?.order ?? Infinity),
+    );
+  }
+}
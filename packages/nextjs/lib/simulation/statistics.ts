@@ -0,0 +1,330 @@
+/**
+ * Simulation Statistics
+ *
+ * KPIs derived from the activity log: throughput, token latency from creation
+ * to sink consumption, queue length over time, time spent per FSM state and
+ * utilization per node. Everything is computed from HistoryEntries, so the same
+ * numbers come out of a live store, a headless run or an exported log.
+ *
+ * Time is simulation time. The observed window runs from the first logged
+ * tick to `endTime`, so statistics over a truncated log cover what it holds.
+ */
+import { percentile } from "./aggregation";
+import type { AnyNode, HistoryEntry } from "./types";
+
+export interface TimePoint {
+  time: number;
+  value: number;
+}
+
+export interface LatencySummary {
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  p50: number;
+  p95: number;
+}
+
+export interface NodeStatistics {
+  nodeId: string;
+  displayName: string;
+  type: string;
+  // Tokens received and tokens produced (or consumed, for a Sink)
+  tokensIn: number;
+  tokensOut: number;
+  // tokensOut per time unit
+  throughput: number;
+  // Share of time units in which the node received or produced a token, 0..1
+  utilization: number;
+  // Sinks: time from token creation to consumption
+  latency?: LatencySummary;
+  // Queues: input buffer length, one point per time it changed
+  queueLength?: TimePoint[];
+  // FSM nodes: time units spent in each state
+  stateTime?: Record<string, number>;
+}
+
+export interface SimulationStatistics {
+  startTime: number;
+  endTime: number;
+  duration: number;
+  tokensConsumed: number;
+  // Tokens consumed by all Sinks per time unit
+  throughput: number;
+  latency: LatencySummary | null;
+  // Tokens consumed per time unit, one point per tick of the window
+  throughputSeries: TimePoint[];
+  // Mean latency of the tokens consumed at each time they were consumed
+  latencySeries: TimePoint[];
+  nodes: NodeStatistics[];
+}
+
+// Actions in which a node takes a token in
+const INPUT_ACTIONS = new Set(["accumulating", "token_received", "token_consumed", "module_input"]);
+
+// Actions in which a node hands a token on (or, for a Sink, finishes it)
+const OUTPUT_ACTIONS = new Set(["token_emitted", "emitting", "firing", "token_consumed", "module_output"]);
+
+/**
+ * Compute statistics for the top-level nodes of a scenario from its activity
+ * log. The window defaults to the first through the last logged time.
+ */
+export function computeSimulationStatistics(
+  entries: HistoryEntry[],
+  nodes: Record<string, AnyNode> | AnyNode[],
+  options: { startTime?: number; endTime?: number } = {},
+): SimulationStatistics {
+  const nodeList = Array.isArray(nodes) ? nodes : Object.values(nodes);
+  // Only scan the log for the bounds the caller leaves open
+  const logged =
+    options.startTime === undefined || options.endTime === undefined
+      ? valueRange(entries.map(entry => entry.timestamp))
+      : null;
+  const startTime = options.startTime ?? logged?.min ?? 0;
+  const endTime = Math.max(options.endTime ?? logged?.max ?? 0, startTime);
+  const duration = endTime - startTime + 1;
+
+  const entriesByNode = new Map<string, HistoryEntry[]>();
+  entries.forEach(entry => {
+    const nodeEntries = entriesByNode.get(entry.nodeId) ?? [];
+    nodeEntries.push(entry);
+    entriesByNode.set(entry.nodeId, nodeEntries);
+  });
+
+  const nodeStatistics = nodeList
+    .filter(node => node.type !== "Group")
+    .map(node => computeNodeStatistics(node, entriesByNode.get(node.nodeId) ?? [], startTime, endTime));
+
+  const consumptions = entries.filter(
+    entry => entry.action === "token_consumed" && nodeList.some(node => node.nodeId === entry.nodeId),
+  );
+  const latencies = consumptions.filter(entry => entry.tokenCreatedAt !== undefined);
+
+  const consumedPerTime = countBy(consumptions.map(entry => entry.timestamp));
+  const throughputSeries: TimePoint[] = [];
+  for (let time = startTime; time <= endTime; time++) {
+    throughputSeries.push({ time, value: consumedPerTime.get(time) ?? 0 });
+  }
+
+  const latenciesPerTime = new Map<number, number[]>();
+  latencies.forEach(entry => {
+    const values = latenciesPerTime.get(entry.timestamp) ?? [];
+    values.push(entry.timestamp - entry.tokenCreatedAt!);
+    latenciesPerTime.set(entry.timestamp, values);
+  });
+
+  return {
+    startTime,
+    endTime,
+    duration,
+    tokensConsumed: consumptions.length,
+    throughput: consumptions.length / duration,
+    latency: summarizeLatency(latencies.map(entry => entry.timestamp - entry.tokenCreatedAt!)),
+    throughputSeries,
+    latencySeries: Array.from(latenciesPerTime.entries()).map(([time, values]) => ({ time, value: mean(values) })),
+    nodes: nodeStatistics,
+  };
+}
+
+/**
+ * The KPIs reported per run: sink throughput and token latency overall and per Sink
+ */
+export function statisticsKpis(statistics: SimulationStatistics): Record<string, number> {
+  const kpis: Record<string, number> = {
+    throughput: statistics.throughput,
+    tokensConsumed: statistics.tokensConsumed,
+  };
+  if (statistics.latency) {
+    kpis.latencyMean = statistics.latency.mean;
+    kpis.latencyP95 = statistics.latency.p95;
+  }
+  statistics.nodes
+    .filter(node => node.type === "Sink")
+    .forEach(sink => {
+      kpis[`${sink.nodeId}.throughput`] = sink.throughput;
+      if (sink.latency) kpis[`${sink.nodeId}.latencyMean`] = sink.latency.mean;
+    });
+  return kpis;
+}
+
+function computeNodeStatistics(
+  node: AnyNode,
+  entries: HistoryEntry[],
+  startTime: number,
+  endTime: number,
+): NodeStatistics {
+  const duration = endTime - startTime + 1;
+  const tokensIn = entries.filter(entry => INPUT_ACTIONS.has(entry.action)).length;
+  const tokensOut = entries.filter(entry => OUTPUT_ACTIONS.has(entry.action)).length;
+  const activeTimes = new Set(
+    entries.filter(entry => INPUT_ACTIONS.has(entry.action) || OUTPUT_ACTIONS.has(entry.action)).map(e => e.timestamp),
+  );
+
+  const statistics: NodeStatistics = {
+    nodeId: node.nodeId,
+    displayName: node.displayName,
+    type: node.type,
+    tokensIn,
+    tokensOut,
+    throughput: tokensOut / duration,
+    utilization: activeTimes.size / duration,
+  };
+
+  switch (node.type) {
+    case "Sink": {
+      const latencies = entries
+        .filter(entry => entry.action === "token_consumed" && entry.tokenCreatedAt !== undefined)
+        .map(entry => entry.timestamp - entry.tokenCreatedAt!);
+      statistics.latency = summarizeLatency(latencies) ?? undefined;
+      break;
+    }
+    case "Queue":
+      statistics.queueLength = queueLengthSeries(entries);
+      break;
+    case "FSMProcessNode":
+      statistics.stateTime = stateTimes(entries, startTime, endTime);
+      break;
+  }
+
+  return statistics;
+}
+
+// The buffer size each entry recorded, keeping the last value per time and only changes
+function queueLengthSeries(entries: HistoryEntry[]): TimePoint[] {
+  const lastPerTime = new Map<number, number>();
+  entries.forEach(entry => lastPerTime.set(entry.timestamp, entry.bufferSize ?? 0));
+
+  const series: TimePoint[] = [];
+  lastPerTime.forEach((value, time) => {
+    if (series.length === 0 || series[series.length - 1].value !== value) series.push({ time, value });
+  });
+  return series;
+}
+
+// Each fsm_transition entry records the state entered as its value
+function stateTimes(entries: HistoryEntry[], startTime: number, endTime: number): Record<string, number> {
+  const times: Record<string, number> = {};
+  if (entries.length === 0) return times;
+
+  let state = entries[0].state;
+  let since = startTime;
+  entries
+    .filter(entry => entry.action === "fsm_transition")
+    .forEach(entry => {
+      times[state] = (times[state] ?? 0) + (entry.timestamp - since);
+      state = String(entry.value);
+      since = entry.timestamp;
+    });
+  times[state] = (times[state] ?? 0) + (endTime + 1 - since);
+  return times;
+}
+
+function summarizeLatency(latencies: number[]): LatencySummary | null {
+  const range = valueRange(latencies);
+  if (!range) return null;
+  return {
+    count: latencies.length,
+    mean: mean(latencies),
+    ...range,
+    p50: percentile(latencies, 50)!,
+    p95: percentile(latencies, 95)!,
+  };
+}
+
+/**
+ * Smallest and largest value, or null when there are none. A loop rather than
+ * Math.min(...values), which overflows the call stack on long histories.
+ */
+export function valueRange(values: number[]): { min: number; max: number } | null {
+  if (values.length === 0) return null;
+  let min = values[0];
+  let max = values[0];
+  for (const value of values) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return { min, max };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+function countBy(values: number[]): Map<number, number> {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return counts;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function csvRow(values: Array<string | number | undefined>): string {
+  return values
+    .map(value => {
+      const text = value === undefined ? "" : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+}
+
+/**
+ * One row per node with its totals, rates and latency
+ */
+export function nodeStatisticsToCSV(statistics: SimulationStatistics): string {
+  const header = [
+    "nodeId",
+    "displayName",
+    "type",
+    "tokensIn",
+    "tokensOut",
+    "throughput",
+    "utilization",
+    "latencyMean",
+    "latencyP50",
+    "latencyP95",
+    "latencyMax",
+  ];
+  const rows = statistics.nodes.map(node =>
+    csvRow([
+      node.nodeId,
+      node.displayName,
+      node.type,
+      node.tokensIn,
+      node.tokensOut,
+      node.throughput,
+      node.utilization,
+      node.latency?.mean,
+      node.latency?.p50,
+      node.latency?.p95,
+      node.latency?.max,
+    ]),
+  );
+  return [csvRow(header), ...rows].join("\n");
+}
+
+/**
+ * One row per time unit: tokens consumed, mean latency and each queue's length
+ */
+export function timeSeriesToCSV(statistics: SimulationStatistics): string {
+  const queues = statistics.nodes.filter(node => node.queueLength);
+  const latencyByTime = new Map(statistics.latencySeries.map(point => [point.time, point.value]));
+
+  const header = ["time", "tokensConsumed", "latencyMean", ...queues.map(queue => `${queue.nodeId}.length`)];
+  const rows = statistics.throughputSeries.map(({ time, value }) =>
+    csvRow([time, value, latencyByTime.get(time), ...queues.map(queue => valueAt(queue.queueLength!, time))]),
+  );
+  return [csvRow(header), ...rows].join("\n");
+}
+
+// Value of a step series at `time`: the last point at or before it
+export function valueAt(series: TimePoint[], time: number): number {
+  let value = 0;
+  for (const point of series) {
+    if (point.time > time) break;
+    value = point.value;
+  }
+  return value;
+}
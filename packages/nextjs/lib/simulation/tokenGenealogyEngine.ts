@@ -7,6 +7,7 @@
  */
 import {
   type AggregationDetails,
+  type HistoryEntrySource,
   type OperationInfo,
   type SourceTokenDetail,
   TokenGraph,
@@ -112,11 +113,59 @@ export class TokenGenealogyEngine {
   private tokenCreationMap: Map<string, HistoryEntry> = new Map();
 
   constructor(globalLog: HistoryEntry[]) {
-    this.globalLog = globalLog;
-    this.graph = buildTokenGraphFromHistory(globalLog);
+    // Own copy, since appendEntries grows it
+    this.globalLog = [...globalLog];
+    this.graph = buildTokenGraphFromHistory(this.globalLog);
     this.buildTokenMaps();
   }
 
+  /**
+   * Engine over an existing graph, e.g. one imported from a provenance export.
+   * Without an activity log, token histories are empty.
+   */
+  static fromGraph(graph: TokenGraph): TokenGenealogyEngine {
+    const engine = new TokenGenealogyEngine([]);
+    engine.graph = graph;
+    return engine;
+  }
+
+  /**
+   * Add newly logged entries to the graph and token maps in place, without a
+   * rebuild. Returns the tokens whose lineage changed: for a created token its
+   * ancestors and descendants, for any other entry the token and its descendants
+   * (whose lineages carry its history).
+   */
+  appendEntries(entries: HistoryEntry[]): string[] {
+    const affected = new Set<string>();
+
+    for (const entry of entries) {
+      this.globalLog.push(entry);
+      this.indexEntry(entry);
+
+      const createdTokenId = this.graph.applyHistoryEntry(entry);
+      const tokenId = createdTokenId ?? entry.details?.match(/Token (\w+)/)?.[1];
+      if (!tokenId) continue;
+
+      if (createdTokenId) {
+        this.graph.getReachableTokenIds(tokenId, "ancestors").forEach(id => affected.add(id));
+      }
+      this.graph.getReachableTokenIds(tokenId, "descendants").forEach(id => affected.add(id));
+    }
+
+    return Array.from(affected);
+  }
+
+  /**
+   * Append every entry the source logs from now on, e.g. a running SimulationEngine.
+   * `onChange` receives the tokens whose lineage changed. Returns an unsubscribe function.
+   */
+  follow(source: HistoryEntrySource, onChange?: (affectedTokenIds: string[]) => void): () => void {
+    return source.subscribe(entry => {
+      const affected = this.appendEntries([entry]);
+      if (affected.length > 0) onChange?.(affected);
+    });
+  }
+
   /**
    * Build internal maps for efficient token lookup
    */
@@ -125,23 +174,27 @@ export class TokenGenealogyEngine {
     this.tokenCreationMap.clear();
 
     for (const entry of this.globalLog) {
-      // Extract token ID from details (format: "Token {tokenId}")
-      const tokenIdMatch = entry.details?.match(/Token (\w+)/);
-      if (tokenIdMatch) {
-        const tokenId = tokenIdMatch[1];
-
-        // Track token creation events
-        const isTokenCreation = entry.action === "CREATED" || entry.action.startsWith("AGGREGATED_");
-        if (isTokenCreation) {
-          this.tokenCreationMap.set(tokenId, entry);
-        }
+      this.indexEntry(entry);
+    }
+  }
 
-        // Build complete history for each token
-        if (!this.tokenHistoryMap.has(tokenId)) {
-          this.tokenHistoryMap.set(tokenId, []);
-        }
-        this.tokenHistoryMap.get(tokenId)!.push(entry);
+  private indexEntry(entry: HistoryEntry): void {
+    // Extract token ID from details (format: "Token {tokenId}")
+    const tokenIdMatch = entry.details?.match(/Token (\w+)/);
+    if (tokenIdMatch) {
+      const tokenId = tokenIdMatch[1];
+
+      // Track token creation events
+      const isTokenCreation = entry.action === "CREATED" || entry.action.startsWith("AGGREGATED_");
+      if (isTokenCreation) {
+        this.tokenCreationMap.set(tokenId, entry);
+      }
+
+      // Build complete history for each token
+      if (!this.tokenHistoryMap.has(tokenId)) {
+        this.tokenHistoryMap.set(tokenId, []);
       }
+      this.tokenHistoryMap.get(tokenId)!.push(entry);
     }
   }
 
@@ -594,12 +647,19 @@ export class TokenGenealogyEngine {
     return this.graph.getGraphStats();
   }
 
+  /**
+   * Number of tokens in the graph, without the cost of full statistics
+   */
+  getTokenCount(): number {
+    return this.graph.getAllTokenIds().length;
+  }
+
   /**
    * Clear internal caches and rebuild from updated history
    */
   refresh(newGlobalLog?: HistoryEntry[]): void {
     if (newGlobalLog) {
-      this.globalLog = newGlobalLog;
+      this.globalLog = [...newGlobalLog];
     }
 
     this.graph = buildTokenGraphFromHistory(this.globalLog);
@@ -81,6 +81,7 @@ export class TokenGraph {
   private nodes: Map<string, TokenNode> = new Map();
   private edges: Map<string, TokenEdge[]> = new Map(); // tokenId -> outgoing edges
   private incomingEdges: Map<string, TokenEdge[]> = new Map(); // tokenId -> incoming edges
+  private pendingEdges: Map<string, string[]> = new Map(); // missing source tokenId -> tokens derived from it
 
   /**
    * Add a token node to the graph
@@ -110,6 +111,72 @@ export class TokenGraph {
     this.incomingEdges.set(edge.toTokenId, incoming);
   }
 
+  /**
+   * Apply one activity log entry in place. A token creation adds the token plus
+   * edges from its sources; sources that are not in the graph yet are connected
+   * once their own creation arrives. A token created again replaces its node and
+   * incoming edges. Returns the created token id, or undefined.
+   */
+  applyHistoryEntry(entry: HistoryEntry): string | undefined {
+    const node = createTokenNodeFromEntry(entry);
+    if (!node) return undefined;
+
+    if (this.nodes.has(node.tokenId)) {
+      this.detachFromSources(node.tokenId);
+    }
+    this.addNode(node);
+
+    for (const sourceTokenId of entry.sourceTokenIds || []) {
+      if (this.hasToken(sourceTokenId)) {
+        this.connect(sourceTokenId, node.tokenId);
+      } else {
+        const waiting = this.pendingEdges.get(sourceTokenId) || [];
+        waiting.push(node.tokenId);
+        this.pendingEdges.set(sourceTokenId, waiting);
+      }
+    }
+
+    const derivedTokens = this.pendingEdges.get(node.tokenId) || [];
+    this.pendingEdges.delete(node.tokenId);
+    for (const derivedTokenId of derivedTokens) {
+      this.connect(node.tokenId, derivedTokenId);
+    }
+
+    return node.tokenId;
+  }
+
+  /**
+   * Keep the graph up to date with every entry the source appends.
+   * `onChange` receives the created token id. Returns an unsubscribe function.
+   */
+  follow(source: HistoryEntrySource, onChange?: (tokenId: string) => void): () => void {
+    return source.subscribe(entry => {
+      const tokenId = this.applyHistoryEntry(entry);
+      if (tokenId) onChange?.(tokenId);
+    });
+  }
+
+  /**
+   * The token and every token reachable from it in one direction, each visited once
+   */
+  getReachableTokenIds(tokenId: string, direction: "ancestors" | "descendants"): string[] {
+    if (!this.hasToken(tokenId)) return [];
+
+    const reachable = new Set<string>([tokenId]);
+    const stack = [tokenId];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const neighbours = direction === "ancestors" ? this.getParents(current) : this.getChildren(current);
+      for (const neighbourId of neighbours) {
+        if (!reachable.has(neighbourId)) {
+          reachable.add(neighbourId);
+          stack.push(neighbourId);
+        }
+      }
+    }
+    return Array.from(reachable);
+  }
+
   /**
    * Get a token node by ID
    */
@@ -476,6 +543,35 @@ export class TokenGraph {
     this.nodes.clear();
     this.edges.clear();
     this.incomingEdges.clear();
+    this.pendingEdges.clear();
+  }
+
+  private connect(fromTokenId: string, toTokenId: string): void {
+    const sourceNode = this.nodes.get(fromTokenId)!;
+    const targetNode = this.nodes.get(toTokenId)!;
+    this.addEdge({
+      fromTokenId,
+      toTokenId,
+      operation: targetNode.operation!,
+      weight: calculateEdgeWeight(sourceNode, targetNode),
+    });
+  }
+
+  // Drop the edges and pending edges into a token, before it is created again
+  private detachFromSources(tokenId: string): void {
+    for (const edge of this.getIncomingEdges(tokenId)) {
+      this.edges.set(
+        edge.fromTokenId,
+        this.getOutgoingEdges(edge.fromTokenId).filter(outgoing => outgoing !== edge),
+      );
+    }
+    this.incomingEdges.set(tokenId, []);
+
+    for (const [sourceTokenId, waiting] of this.pendingEdges) {
+      const remaining = waiting.filter(derivedTokenId => derivedTokenId !== tokenId);
+      if (remaining.length > 0) this.pendingEdges.set(sourceTokenId, remaining);
+      else this.pendingEdges.delete(sourceTokenId);
+    }
   }
 }
 
@@ -485,99 +581,81 @@ export class TokenGraph {
  */
 export function buildTokenGraphFromHistory(globalLog: HistoryEntry[]): TokenGraph {
   const graph = new TokenGraph();
-  const tokenCreationMap = new Map<string, HistoryEntry>(); // tokenId -> creation entry
-
-  // First pass: identify all token creation events and build nodes
   for (const entry of globalLog) {
-    // Look for token creation events (CREATED) or aggregation events that create tokens
-    const isTokenCreation = entry.action === "CREATED" || entry.action.startsWith("AGGREGATED_");
-
-    if (isTokenCreation) {
-      // Extract token ID from details (format: "Token {tokenId}")
-      const tokenIdMatch = entry.details?.match(/Token (\w+)/);
-      if (tokenIdMatch) {
-        const tokenId = tokenIdMatch[1];
-        tokenCreationMap.set(tokenId, entry);
-
-        // Determine operation type based on action and source tokens
-        let operationType: OperationInfo["type"] = "datasource_creation";
-        if (entry.action.startsWith("AGGREGATED_")) {
-          operationType = "aggregation";
-        } else if (entry.sourceTokenIds && entry.sourceTokenIds.length > 0) {
-          // Check if this is from a ProcessNode (transformation) or Queue (aggregation)
-          if (entry.nodeId.includes("Queue")) {
-            operationType = "aggregation";
-          } else {
-            operationType = "transformation";
-          }
-        }
-
-        // Create operation info
-        const operation: OperationInfo = {
-          type: operationType,
-          sourceTokens: (entry.sourceTokenSummaries || []).map(summary => ({
-            tokenId: summary.id,
-            value: summary.originalValue,
-            originNodeId: summary.originNodeId,
-            createdAt: summary.createdAt,
-          })),
-        };
-
-        // Add aggregation details if this is an aggregation
-        if (operationType === "aggregation") {
-          const method = extractAggregationMethod(entry);
-          if (method) {
-            operation.method = method;
-            operation.aggregationDetails = {
-              method,
-              inputTokens: (entry.sourceTokenSummaries || []).map(summary => ({
-                tokenId: summary.id,
-                value: summary.originalValue,
-                contribution: calculateContribution(summary.originalValue, entry.value, method),
-              })),
-              calculation: generateCalculationString(entry.sourceTokenSummaries || [], entry.value, method),
-              resultValue: entry.value,
-            };
-          }
-        }
+    graph.applyHistoryEntry(entry);
+  }
+  return graph;
+}
 
-        // Create token node
-        const tokenNode: TokenNode = {
-          tokenId,
-          value: entry.value,
-          createdAt: entry.timestamp,
-          originNodeId: entry.nodeId,
-          operation,
-        };
+/**
+ * Something that reports activity log entries as they are appended, such as a SimulationEngine
+ */
+export interface HistoryEntrySource {
+  subscribe(listener: (entry: HistoryEntry) => void): () => void;
+}
 
-        graph.addNode(tokenNode);
-      }
+/**
+ * The token a history entry creates, or undefined when the entry does not create one
+ */
+function createTokenNodeFromEntry(entry: HistoryEntry): TokenNode | undefined {
+  // Look for token creation events (CREATED) or aggregation events that create tokens
+  const isTokenCreation = entry.action === "CREATED" || entry.action.startsWith("AGGREGATED_");
+  if (!isTokenCreation) return undefined;
+
+  // Extract token ID from details (format: "Token {tokenId}")
+  const tokenIdMatch = entry.details?.match(/Token (\w+)/);
+  if (!tokenIdMatch) return undefined;
+  const tokenId = tokenIdMatch[1];
+
+  // Determine operation type based on action and source tokens
+  let operationType: OperationInfo["type"] = "datasource_creation";
+  if (entry.action.startsWith("AGGREGATED_")) {
+    operationType = "aggregation";
+  } else if (entry.sourceTokenIds && entry.sourceTokenIds.length > 0) {
+    // Check if this is from a ProcessNode (transformation) or Queue (aggregation)
+    if (entry.nodeId.includes("Queue")) {
+      operationType = "aggregation";
+    } else {
+      operationType = "transformation";
     }
   }
 
-  // Second pass: create edges based on source token relationships
-  for (const [tokenId, creationEntry] of tokenCreationMap) {
-    if (creationEntry.sourceTokenIds && creationEntry.sourceTokenIds.length > 0) {
-      // This token was derived from other tokens - create edges
-      for (const sourceTokenId of creationEntry.sourceTokenIds) {
-        if (graph.hasToken(sourceTokenId)) {
-          const sourceNode = graph.getNode(sourceTokenId)!;
-          const targetNode = graph.getNode(tokenId)!;
-
-          const edge: TokenEdge = {
-            fromTokenId: sourceTokenId,
-            toTokenId: tokenId,
-            operation: targetNode.operation!,
-            weight: calculateEdgeWeight(sourceNode, targetNode),
-          };
-
-          graph.addEdge(edge);
-        }
-      }
+  // Create operation info
+  const operation: OperationInfo = {
+    type: operationType,
+    sourceTokens: (entry.sourceTokenSummaries || []).map(summary => ({
+      tokenId: summary.id,
+      value: summary.originalValue,
+      originNodeId: summary.originNodeId,
+      createdAt: summary.createdAt,
+    })),
+  };
+
+  // Add aggregation details if this is an aggregation
+  if (operationType === "aggregation") {
+    const method = extractAggregationMethod(entry);
+    if (method) {
+      operation.method = method;
+      operation.aggregationDetails = {
+        method,
+        inputTokens: (entry.sourceTokenSummaries || []).map(summary => ({
+          tokenId: summary.id,
+          value: summary.originalValue,
+          contribution: calculateContribution(summary.originalValue, entry.value, method),
+        })),
+        calculation: generateCalculationString(entry.sourceTokenSummaries || [], entry.value, method),
+        resultValue: entry.value,
+      };
     }
   }
 
-  return graph;
+  return {
+    tokenId,
+    value: entry.value,
+    createdAt: entry.timestamp,
+    originNodeId: entry.nodeId,
+    operation,
+  };
 }
 
 /**
@@ -16,6 +16,10 @@ export const EnhancedFSMProcessNodeSchema = z.object({
 
 export interface EnhancedFSMProcessNodeState {
   currentState: string;
+  activeStates?: string[];
+  historyStates?: Record<string, string[]>;
+  timers?: FSMTimer[];
+  timerSequence?: number;
   previousState?: string;
   stateChangedAt: number;
   variables: Record<string, any>;
@@ -55,8 +59,24 @@ export const SourceTokenSummarySchema = z.object({
 export type SourceTokenSummary = z.infer<typeof SourceTokenSummarySchema>;
 
 // Enhanced aggregation details for detailed calculation breakdowns
+// Queue aggregation methods; "formula" evaluates aggregation.formula over the window
+export const AggregationMethodSchema = z.enum([
+  "sum",
+  "average",
+  "count",
+  "first",
+  "last",
+  "min",
+  "max",
+  "median",
+  "percentile",
+  "stddev",
+  "formula",
+]);
+export type AggregationMethod = z.infer<typeof AggregationMethodSchema>;
+
 export const AggregationDetailsSchema = z.object({
-  method: z.enum(["sum", "average", "count", "first", "last"]),
+  method: AggregationMethodSchema,
   inputTokens: z.array(
     z.object({
       tokenId: z.string(),
@@ -101,6 +121,7 @@ export const HistoryEntrySchema = z.object({
   state: z.string(), // Current FSM state when this action occurred
   bufferSize: z.number().optional(), // Input buffer size at time of action
   outputBufferSize: z.number().optional(), // Output buffer size at time of action
+  tokenCreatedAt: z.number().optional(), // Creation time of the token consumed by this action, for latency
 
   // EVENT TYPE - NEW: Distinguish external vs execution events
   eventType: z.enum(["external_event", "execution_event"]).optional(),
@@ -144,16 +165,91 @@ export const InterfaceSchema = z.object({
 });
 export type Interface = z.infer<typeof InterfaceSchema>;
 
+// Named interface types: the fields a token of that type carries, by path
+// relative to the token view formulas see ("data.value", "metadata.timestamp")
+export const INTERFACE_FIELD_TYPES = ["number", "string", "boolean", "object", "array", "any"] as const;
+export type InterfaceFieldType = (typeof INTERFACE_FIELD_TYPES)[number];
+
+export const InterfaceFieldDefinitionSchema = z.object({
+  type: z.enum(INTERFACE_FIELD_TYPES),
+  required: z.boolean().optional(),
+  description: z.string().optional(),
+});
+export type InterfaceFieldDefinition = z.infer<typeof InterfaceFieldDefinitionSchema>;
+
+export const InterfaceTypeDefinitionSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  fields: z.record(z.string(), InterfaceFieldDefinitionSchema),
+});
+export type InterfaceTypeDefinition = z.infer<typeof InterfaceTypeDefinitionSchema>;
+
+// What a node does with an incoming token that does not match the input's interface
+export const InterfaceViolationPolicySchema = z.enum(["reject", "quarantine", "warn"]);
+export type InterfaceViolationPolicy = z.infer<typeof InterfaceViolationPolicySchema>;
+
+// Value distributions a DataSource can draw from ("random" is the legacy name for "uniform")
+export const GENERATION_TYPES = [
+  "random",
+  "uniform",
+  "normal",
+  "exponential",
+  "poisson",
+  "triangular",
+  "discrete",
+  "constant",
+  "csv",
+] as const;
+export type GenerationType = (typeof GENERATION_TYPES)[number];
+
+export const DiscreteOutcomeSchema = z.object({
+  value: z.union([z.number(), z.string()]),
+  weight: z.number().nonnegative(),
+});
+export type DiscreteOutcome = z.infer<typeof DiscreteOutcomeSchema>;
+
+export const CsvReplayConfigSchema = z.object({
+  data: z.string(), // CSV text; the first row is the header
+  column: z.union([z.string(), z.number().int().nonnegative()]), // Header name or column index
+  loop: z.boolean().optional(), // Start over after the last row (default true)
+});
+export type CsvReplayConfig = z.infer<typeof CsvReplayConfigSchema>;
+
 export const GenerationConfigSchema = z.object({
   type: z.string(),
+  // Bounds of the generated values; continuous draws are clamped into them
   valueMin: z.number(),
   valueMax: z.number(),
+  // Optional per-node seed; otherwise derived from the scenario seed
+  seed: z.number().int().nonnegative().optional(),
+  // Distribution parameters, depending on type
+  mean: z.number().optional(), // normal
+  stdDev: z.number().optional(), // normal
+  rate: z.number().optional(), // exponential (events per unit), poisson (lambda)
+  mode: z.number().optional(), // triangular
+  outcomes: z.array(DiscreteOutcomeSchema).optional(), // discrete
+  value: z.union([z.number(), z.string()]).optional(), // constant
+  csv: CsvReplayConfigSchema.optional(), // csv
 });
 export type GenerationConfig = z.infer<typeof GenerationConfigSchema>;
 
+// How the time between two emissions is drawn
+export const IntervalDistributionSchema = z.object({
+  // fixed: exactly `interval`; jitter: interval ± up to `jitter`; exponential: Poisson arrivals with mean `interval`
+  type: z.enum(["fixed", "jitter", "exponential"]),
+  jitter: z.number().nonnegative().optional(),
+});
+export type IntervalDistribution = z.infer<typeof IntervalDistributionSchema>;
+
 export const AggregationTriggerSchema = z.object({
+  // "time": every `window` time units; "count": every `window` tokens;
+  // "session": once no token has arrived for `window` time units
   type: z.string(),
   window: z.number().positive(),
+  // tumbling windows consume their tokens; sliding windows overlap, advancing
+  // by `slide` time units/tokens (default 1)
+  windowType: z.enum(["tumbling", "sliding"]).optional(),
+  slide: z.number().positive().optional(),
 });
 export type AggregationTrigger = z.infer<typeof AggregationTriggerSchema>;
 
@@ -161,6 +257,8 @@ export const AggregationConfigSchema = z.object({
   method: z.string(),
   formula: z.string(),
   trigger: AggregationTriggerSchema,
+  // Percentile (0-100) for the "percentile" method
+  percentile: z.number().min(0).max(100).optional(),
 });
 export type AggregationConfig = z.infer<typeof AggregationConfigSchema>;
 
@@ -178,6 +276,8 @@ export const InputV3Schema = z.object({
   interface: InterfaceSchema,
   alias: z.string().optional(),
   required: z.boolean(),
+  // Defaults to "reject"
+  onViolation: InterfaceViolationPolicySchema.optional(),
 });
 export type InputV3 = z.infer<typeof InputV3Schema>;
 
@@ -194,11 +294,19 @@ export type OutputV3 = z.infer<typeof OutputV3Schema>;
 export const DataSourceNodeSchema = BaseNodeSchema.extend({
   type: z.literal("DataSource"),
   interval: z.number().positive(),
+  intervalDistribution: IntervalDistributionSchema.optional(),
   outputs: z.array(OutputV3Schema),
   generation: GenerationConfigSchema,
 });
 export type DataSourceNode = z.infer<typeof DataSourceNodeSchema>;
 
+// What a Queue at capacity does with an incoming token:
+// drop-newest discards it, drop-oldest evicts the oldest buffered token to make room,
+// block makes the producer hold it and retry next tick, overflow sends it out through `overflowOutput`
+export const OVERFLOW_POLICIES = ["drop-newest", "drop-oldest", "block", "overflow"] as const;
+export const OverflowPolicySchema = z.enum(OVERFLOW_POLICIES);
+export type OverflowPolicy = z.infer<typeof OverflowPolicySchema>;
+
 // Queue Schema
 export const QueueNodeSchema = BaseNodeSchema.extend({
   type: z.literal("Queue"),
@@ -206,6 +314,8 @@ export const QueueNodeSchema = BaseNodeSchema.extend({
   outputs: z.array(OutputV3Schema),
   aggregation: AggregationConfigSchema,
   capacity: z.number().positive().optional(),
+  overflowPolicy: OverflowPolicySchema.optional(), // defaults to "drop-newest"
+  overflowOutput: z.string().optional(), // name of the output overflowing tokens leave through
 });
 export type QueueNode = z.infer<typeof QueueNodeSchema>;
 
@@ -232,6 +342,7 @@ export const FSMTransitionSchema = z.object({
   trigger: z.string(), // "token_received", "timer", "condition"
   condition: z.string().optional(), // formula to evaluate for conditional triggers
   guard: z.string().optional(), // additional guard condition
+  after: z.number().nonnegative().optional(), // timer: simulation time after entering `from`
 });
 export type FSMTransition = z.infer<typeof FSMTransitionSchema>;
 
@@ -244,6 +355,22 @@ export const FSMOutputConfigSchema = z.object({
 });
 export type FSMOutputConfig = z.infer<typeof FSMOutputConfigSchema>;
 
+// FSM State Hierarchy - statechart structure for a state listed in `states`
+export const FSMStateNodeSchema = z.object({
+  parent: z.string().optional(), // enclosing compound or parallel state
+  kind: z.enum(["atomic", "compound", "parallel", "history"]).optional(), // compound when it has children
+  initial: z.string().optional(), // compound: child entered by default; history: default target
+  history: z.enum(["shallow", "deep"]).optional(), // history states only
+});
+export type FSMStateNode = z.infer<typeof FSMStateNodeSchema>;
+
+// A formula every reachable configuration must satisfy, checked by the model checker
+export const FSMInvariantSchema = z.object({
+  name: z.string(),
+  formula: z.string(), // e.g. "not active.settled or visited.approved"
+});
+export type FSMInvariant = z.infer<typeof FSMInvariantSchema>;
+
 // FSM Definition - much cleaner structure
 export const FSMDefinitionSchema = z.object({
   states: z.array(z.string()), // simple state names: ["idle", "processing", "emitting"]
@@ -252,6 +379,9 @@ export const FSMDefinitionSchema = z.object({
   variables: z.record(z.string(), z.any()).optional(), // state variables
   stateActions: z.record(z.string(), FSMStateActionsSchema).optional(), // state_name: actions
   outputs: z.array(z.string()).optional(), // output names that can be emitted
+  hierarchy: z.record(z.string(), FSMStateNodeSchema).optional(), // state_name: parent and kind; flat when omitted
+  finalStates: z.array(z.string()).optional(), // states the machine may rest in for good
+  invariants: z.array(FSMInvariantSchema).optional(),
 });
 export type FSMDefinition = z.infer<typeof FSMDefinitionSchema>;
 
@@ -271,12 +401,31 @@ export const SinkNodeSchema = BaseNodeSchema.extend({
 });
 export type SinkNode = z.infer<typeof SinkNodeSchema>;
 
+// Module boundary mappings. Inside the sub-graph, a token entering through a
+// module input arrives from a source named after that input, so internal
+// ProcessNode inputs reference it by `nodeId: <inputName>`.
+export const ModuleInputMappingSchema = z.object({
+  inputName: z.string(), // Module input
+  targetNodeId: z.string(), // Internal node receiving the tokens
+  targetInputName: z.string().optional(),
+});
+export type ModuleInputMapping = z.infer<typeof ModuleInputMappingSchema>;
+
+export const ModuleOutputMappingSchema = z.object({
+  outputName: z.string(), // Module output
+  sourceNodeId: z.string(), // Internal node whose outputs leaving the sub-graph feed it
+});
+export type ModuleOutputMapping = z.infer<typeof ModuleOutputMappingSchema>;
+
 // Module Node Schema - contains a sub-graph that can be collapsed/expanded
 export const ModuleNodeSchema = BaseNodeSchema.extend({
   type: z.literal("Module"),
   // Interface definition - external inputs and outputs for the module
   inputs: z.array(InputV3Schema),
   outputs: z.array(OutputV3Schema),
+  // How the interface connects to the sub-graph
+  inputMappings: z.array(ModuleInputMappingSchema).optional(),
+  outputMappings: z.array(ModuleOutputMappingSchema).optional(),
   // The internal sub-graph - full scenario definition
   subGraph: z.object({
     nodes: z.array(z.lazy(() => AnyNodeSchema)), // Recursive reference to allow nested modules
@@ -324,6 +473,10 @@ export const ScenarioSchema = z.object({
   // Protocol V3 only; default to "3.0" if missing
   version: z.literal("3.0").default("3.0"),
   nodes: z.array(AnyNodeSchema),
+  // Seed for every random draw in the simulation; a random seed is picked when omitted
+  seed: z.number().int().nonnegative().optional(),
+  // Interface types beyond the built-in ones, available to every node
+  interfaceTypes: z.array(InterfaceTypeDefinitionSchema).optional(),
   // Group configuration for managing visual complexity
   groups: z.object({
     tags: z.array(z.object({
@@ -367,17 +520,38 @@ export interface NodeState {
   lastProcessedTime?: number;
   // State machine tracking
   stateMachine?: StateMachineInfo;
+  // Tokens held back because they did not match the receiving input's interface
+  quarantinedTokens?: Token[];
+  // Tokens this node produced that a full, blocking Queue has not accepted yet
+  blockedDeliveries?: BlockedDelivery[];
   [key: string]: any;
 }
 
+export interface BlockedDelivery {
+  token: Token;
+  destinationNodeId: string;
+  destinationInputName?: string;
+}
+
 export interface DataSourceState extends NodeState {
   lastEmissionTime: number;
+  // Scheduled time of the next emission when the interval is drawn from a distribution
+  nextEmissionTime?: number;
+  // Number of values generated so far (row cursor for CSV replay)
+  emittedCount?: number;
 }
 
 export interface QueueState extends NodeState {
   inputBuffer: Token[];
   outputBuffer: Token[];
   lastAggregationTime: number;
+  // Arrival time of each token in inputBuffer, for sliding and session windows
+  inputArrivalTimes?: number[];
+  lastArrivalTime?: number;
+  // Capacity statistics: tokens dropped, tokens pushed back to their producer, tokens sent to the overflow output
+  droppedCount?: number;
+  blockedCount?: number;
+  overflowCount?: number;
 }
 
 export interface ProcessNodeState extends NodeState {
@@ -389,9 +563,23 @@ export interface FSMProcessNodeState extends NodeState {
   inputBuffers: Record<string, Token[]>;
   fsmVariables: Record<string, any>; // FSM state variables
   currentFSMState: string; // Current state in the FSM definition
+  activeFSMStates?: string[]; // Active statechart configuration, ancestors included
+  fsmHistory?: Record<string, string[]>; // History state -> states it recorded
+  fsmTimers?: FSMTimer[]; // Pending timer transitions
+  fsmTimerSequence?: number; // Timers scheduled so far, orders timers due together
+  deferredTokenReceipts?: number; // Tokens received while blocked, not yet reacted to
   lastTransitionTime?: number;
 }
 
+// A timer transition waiting for the simulation clock
+export interface FSMTimer {
+  sequence: number;
+  state: string; // the state whose exit cancels the timer
+  transitionIndex: number; // into the FSM definition's transitions
+  scheduledAt: number;
+  dueAt: number;
+}
+
 export interface SinkState extends NodeState {
   consumedTokenCount: number;
   lastConsumedTime?: number;
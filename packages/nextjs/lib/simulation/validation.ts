@@ -1,4 +1,16 @@
-import { type AnyNode, type Scenario, ScenarioSchema } from "./types";
+import { validateAggregationConfig } from "./aggregation";
+import { validateGenerationConfig, validateIntervalDistribution } from "./distributions";
+import { checkFormula, processNodeFormulaSymbols } from "./formulaEngine";
+import { InterfaceRegistry, findConsumerInput, isBuiltinInterfaceType } from "./interfaceRegistry";
+import {
+  type AnyNode,
+  type InterfaceTypeDefinition,
+  type ModuleNode,
+  type OutputV3,
+  type ProcessNode,
+  type Scenario,
+  ScenarioSchema,
+} from "./types";
 
 export function validateScenario(data: any): { scenario: Scenario | null; errors: string[] } {
   const result = ScenarioSchema.safeParse(data);
@@ -13,6 +25,8 @@ export function validateScenario(data: any): { scenario: Scenario | null; errors
   const errors: string[] = [];
   const nodeIds = new Set(scenario.nodes.map(node => node.nodeId));
 
+  const interfaces = new InterfaceRegistry(scenario.interfaceTypes);
+
   scenario.nodes.forEach(node => {
     switch (node.type) {
       case "DataSource":
@@ -20,6 +34,14 @@ export function validateScenario(data: any): { scenario: Scenario | null; errors
         if (node.generation.valueMin > node.generation.valueMax) {
           errors.push(`DataSource "${node.nodeId}": generation valueMin cannot be greater than valueMax.`);
         }
+        validateGenerationConfig(node.generation).forEach(error => {
+          errors.push(`DataSource "${node.nodeId}": ${error}`);
+        });
+        if (node.intervalDistribution) {
+          validateIntervalDistribution(node.intervalDistribution).forEach(error => {
+            errors.push(`DataSource "${node.nodeId}": ${error}`);
+          });
+        }
         // Validate outputs
         node.outputs.forEach(output => {
           if (output.destinationNodeId && !nodeIds.has(output.destinationNodeId)) {
@@ -29,12 +51,23 @@ export function validateScenario(data: any): { scenario: Scenario | null; errors
         break;
 
       case "Queue":
+        validateAggregationConfig(node.aggregation).forEach(error => {
+          errors.push(`Queue "${node.nodeId}": ${error}`);
+        });
         // Validate outputs
         node.outputs.forEach(output => {
           if (output.destinationNodeId && !nodeIds.has(output.destinationNodeId)) {
             errors.push(`Queue "${node.nodeId}": output destinationNodeId "${output.destinationNodeId}" does not exist.`);
           }
         });
+        // Overflowing tokens need an output of their own
+        if (node.overflowPolicy === "overflow") {
+          if (!node.overflowOutput) {
+            errors.push(`Queue "${node.nodeId}": overflow policy requires an overflowOutput.`);
+          } else if (!node.outputs.some(output => output.name === node.overflowOutput)) {
+            errors.push(`Queue "${node.nodeId}": overflowOutput "${node.overflowOutput}" does not exist.`);
+          }
+        }
         break;
 
       case "ProcessNode":
@@ -50,17 +83,129 @@ export function validateScenario(data: any): { scenario: Scenario | null; errors
             errors.push(`ProcessNode "${node.nodeId}": output destinationNodeId "${output.destinationNodeId}" does not exist.`);
           }
         });
+        validateProcessNodeFormulas(node, scenario.nodes, errors);
         break;
 
       case "Sink":
         // Sink nodes don't need additional validation beyond schema
         break;
+
+      case "Module":
+        node.outputs.forEach(output => {
+          if (output.destinationNodeId && !nodeIds.has(output.destinationNodeId)) {
+            errors.push(`Module "${node.nodeId}": output destinationNodeId "${output.destinationNodeId}" does not exist.`);
+          }
+        });
+        validateModuleMappings(node, errors, interfaces);
+        break;
     }
   });
 
+  validateInterfaceTypes(scenario.interfaceTypes ?? [], errors);
+  validateEdgeInterfaces(scenario.nodes, interfaces, errors);
+
   if (errors.length > 0) {
     return { scenario: null, errors };
   }
 
   return { scenario, errors: [] };
 }
+
+/**
+ * Check that a module's boundary mappings reference its own inputs/outputs and
+ * nodes of its sub-graph, recursing into nested modules
+ */
+function validateModuleMappings(
+  node: ModuleNode,
+  errors: string[],
+  interfaces: InterfaceRegistry,
+  path = node.nodeId,
+): void {
+  const subGraphNodes = node.subGraph.nodes as AnyNode[];
+  const subGraphNodeIds = new Set(subGraphNodes.map(subNode => subNode.nodeId));
+  const inputNames = new Set(node.inputs.map(input => input.name));
+  const outputNames = new Set(node.outputs.map(output => output.name));
+
+  node.inputMappings?.forEach(mapping => {
+    if (!inputNames.has(mapping.inputName)) {
+      errors.push(`Module "${path}": input mapping references unknown input "${mapping.inputName}".`);
+    }
+    if (!subGraphNodeIds.has(mapping.targetNodeId)) {
+      errors.push(`Module "${path}": input mapping target "${mapping.targetNodeId}" is not in the sub-graph.`);
+    }
+  });
+
+  node.outputMappings?.forEach(mapping => {
+    if (!outputNames.has(mapping.outputName)) {
+      errors.push(`Module "${path}": output mapping references unknown output "${mapping.outputName}".`);
+    }
+    if (!subGraphNodeIds.has(mapping.sourceNodeId)) {
+      errors.push(`Module "${path}": output mapping source "${mapping.sourceNodeId}" is not in the sub-graph.`);
+    }
+  });
+
+  validateEdgeInterfaces(subGraphNodes, interfaces, errors, `${path}/`);
+
+  subGraphNodes.forEach(subNode => {
+    if (subNode.type === "Module") {
+      validateModuleMappings(subNode, errors, interfaces, `${path}/${subNode.nodeId}`);
+    } else if (subNode.type === "ProcessNode") {
+      validateProcessNodeFormulas(subNode, subGraphNodes, errors, `${path}/${subNode.nodeId}`);
+    }
+  });
+}
+
+/**
+ * Check that each output transformation formula parses and only reads fields
+ * its inputs' upstream interfaces provide
+ */
+function validateProcessNodeFormulas(node: ProcessNode, nodes: AnyNode[], errors: string[], path = node.nodeId): void {
+  const symbols = processNodeFormulaSymbols(node, nodes);
+  node.outputs.forEach(output => {
+    const formula = output.transformation?.formula;
+    if (!formula) return;
+    checkFormula(formula, symbols).errors.forEach(error => {
+      errors.push(`ProcessNode "${path}": output "${output.name}" formula ${error}`);
+    });
+  });
+}
+
+function validateInterfaceTypes(definitions: InterfaceTypeDefinition[], errors: string[]): void {
+  const seen = new Set<string>();
+  definitions.forEach(definition => {
+    if (isBuiltinInterfaceType(definition.name)) {
+      errors.push(`Interface type "${definition.name}" is built in and cannot be redefined.`);
+    } else if (seen.has(definition.name)) {
+      errors.push(`Interface type "${definition.name}" is defined more than once.`);
+    }
+    seen.add(definition.name);
+  });
+}
+
+/**
+ * Check every output -> input connection: the output's interface must provide
+ * what the receiving input's interface requires
+ */
+function validateEdgeInterfaces(
+  nodes: AnyNode[],
+  interfaces: InterfaceRegistry,
+  errors: string[],
+  pathPrefix = "",
+): void {
+  const nodesById = new Map(nodes.map(node => [node.nodeId, node]));
+
+  nodes.forEach(node => {
+    const outputs: OutputV3[] = "outputs" in node && Array.isArray(node.outputs) ? node.outputs : [];
+    outputs.forEach(output => {
+      const destination = nodesById.get(output.destinationNodeId);
+      const input = destination && findConsumerInput(destination, node.nodeId, output.destinationInputName);
+      if (!input) return;
+
+      interfaces.checkCompatibility(output.interface, input.interface).forEach(problem => {
+        errors.push(
+          `Connection "${pathPrefix}${node.nodeId}.${output.name}" -> "${pathPrefix}${output.destinationNodeId}.${input.name}": ${problem}`,
+        );
+      });
+    });
+  });
+}
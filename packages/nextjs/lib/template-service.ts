@@ -1,12 +1,13 @@
 import type { TemplateDocument, ExecutionDocument } from './firestore-types';
 import type { Scenario } from '@/lib/simulation/types';
+import { apiFetch } from '@/utils/api';
 
 class TemplateService {
   private baseUrl = '/api/admin';
 
   // Template operations
   async getTemplates(): Promise<TemplateDocument[]> {
-    const response = await fetch(`${this.baseUrl}/templates`);
+    const response = await apiFetch(`${this.baseUrl}/templates`);
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
       throw new Error(errorData.details || 'Failed to fetch templates');
@@ -22,7 +23,7 @@ class TemplateService {
   }
 
   async getTemplate(templateId: string): Promise<TemplateDocument> {
-    const response = await fetch(`${this.baseUrl}/templates/${templateId}`);
+    const response = await apiFetch(`${this.baseUrl}/templates/${templateId}`);
     if (!response.ok) {
       throw new Error('Failed to fetch template');
     }
@@ -36,7 +37,7 @@ class TemplateService {
     scenario?: Scenario;
     fromDefault?: boolean;
   }): Promise<TemplateDocument> {
-    const response = await fetch(`${this.baseUrl}/templates`, {
+    const response = await apiFetch(`${this.baseUrl}/templates`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(params),
@@ -56,7 +57,7 @@ class TemplateService {
     description?: string;
     scenario?: Scenario;
   }): Promise<TemplateDocument> {
-    const response = await fetch(`${this.baseUrl}/templates/${templateId}`, {
+    const response = await apiFetch(`${this.baseUrl}/templates/${templateId}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(updates),
@@ -72,7 +73,7 @@ class TemplateService {
   }
 
   async deleteTemplate(templateId: string): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/templates/${templateId}`, {
+    const response = await apiFetch(`${this.baseUrl}/templates/${templateId}`, {
       method: 'DELETE',
     });
 
@@ -88,7 +89,7 @@ class TemplateService {
       ? `${this.baseUrl}/executions?templateId=${templateId}`
       : `${this.baseUrl}/executions`;
 
-    const response = await fetch(url);
+    const response = await apiFetch(url);
     if (!response.ok) {
       throw new Error('Failed to fetch executions');
     }
@@ -97,7 +98,7 @@ class TemplateService {
   }
 
   async getExecution(executionId: string): Promise<ExecutionDocument> {
-    const response = await fetch(`${this.baseUrl}/executions/${executionId}`);
+    const response = await apiFetch(`${this.baseUrl}/executions/${executionId}`);
     if (!response.ok) {
       throw new Error('Failed to fetch execution');
     }
@@ -117,7 +118,7 @@ class TemplateService {
     nodeActivityLogs: Record<string, any[]>;
     isCompleted?: boolean;
   }): Promise<ExecutionDocument> {
-    const response = await fetch(`${this.baseUrl}/executions`, {
+    const response = await apiFetch(`${this.baseUrl}/executions`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(params),
@@ -142,7 +143,7 @@ class TemplateService {
     nodeActivityLogs?: Record<string, any[]>;
     isCompleted?: boolean;
   }): Promise<ExecutionDocument> {
-    const response = await fetch(`${this.baseUrl}/executions/${executionId}`, {
+    const response = await apiFetch(`${this.baseUrl}/executions/${executionId}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(updates),
@@ -158,7 +159,7 @@ class TemplateService {
   }
 
   async deleteExecution(executionId: string): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/executions/${executionId}`, {
+    const response = await apiFetch(`${this.baseUrl}/executions/${executionId}`, {
       method: 'DELETE',
     });
 
@@ -169,7 +170,7 @@ class TemplateService {
   }
 
   async initializeAdminStructure(): Promise<void> {
-    const response = await fetch(`${this.baseUrl}/init`, {
+    const response = await apiFetch(`${this.baseUrl}/init`, {
       method: 'POST',
     });
 
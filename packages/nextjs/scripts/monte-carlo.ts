@@ -0,0 +1,138 @@
+/*
+  Runs a Monte Carlo batch of a scenario over worker threads and writes the report.
+  Usage: yarn monte-carlo <scenario.json> <config.json> [--workers N] [--out report.json]
+
+  config.json is a MonteCarloConfig, e.g.
+  { "runs": 100, "duration": 500, "seed": 42,
+    "sweeps": [{ "nodeId": "source1", "path": "interval", "values": [1, 2, 4] }] }
+*/
+import {
+  type MonteCarloExecutor,
+  type MonteCarloJob,
+  type MonteCarloRunResult,
+  runMonteCarlo,
+  runMonteCarloJob,
+} from "../lib/simulation/monteCarlo";
+import { readFileSync, writeFileSync } from "fs";
+import { cpus } from "os";
+import { Worker, isMainThread, parentPort } from "worker_threads";
+
+// What a worker posts back for a job
+type WorkerReply = { result: MonteCarloRunResult } | { error: string };
+
+function createWorkerPool(size: number): { executor: MonteCarloExecutor; close: () => Promise<void> } {
+  // Workers load this file through ts-node as well, without type checking
+  const spawn = () =>
+    new Worker(__filename, {
+      execArgv: ["--require", "ts-node/register"],
+      env: {
+        ...process.env,
+        TS_NODE_COMPILER_OPTIONS: JSON.stringify({ module: "commonjs", moduleResolution: "node" }),
+        TS_NODE_TRANSPILE_ONLY: "true",
+      },
+    });
+  const workers = new Set(Array.from({ length: size }, spawn));
+  const idle = [...workers];
+  const waiting: Array<(worker: Worker) => void> = [];
+
+  const acquire = () =>
+    new Promise<Worker>(resolve => {
+      const worker = idle.pop();
+      if (worker) resolve(worker);
+      else waiting.push(resolve);
+    });
+  const release = (worker: Worker) => {
+    const next = waiting.shift();
+    if (next) next(worker);
+    else idle.push(worker);
+  };
+  // A crashed worker never goes back to the pool; a fresh one takes its place
+  const replace = (worker: Worker) => {
+    workers.delete(worker);
+    void worker.terminate();
+    const fresh = spawn();
+    workers.add(fresh);
+    return fresh;
+  };
+
+  const executor: MonteCarloExecutor = async job => {
+    const worker = await acquire();
+    let crashed = false;
+    try {
+      const reply = await new Promise<WorkerReply>(resolve => {
+        const onMessage = (message: WorkerReply) => {
+          worker.off("error", onCrash).off("exit", onCrash);
+          resolve(message);
+        };
+        const onCrash = (reason: Error | number) => {
+          crashed = true;
+          worker.off("message", onMessage).off("error", onCrash).off("exit", onCrash);
+          resolve({ error: reason instanceof Error ? reason.message : `Worker exited with code ${reason}` });
+        };
+        worker.once("message", onMessage);
+        worker.once("error", onCrash);
+        worker.once("exit", onCrash);
+        worker.postMessage(job);
+      });
+      return "result" in reply
+        ? reply.result
+        : { parameters: job.parameters, seed: job.seed, kpis: {}, error: reply.error };
+    } finally {
+      release(crashed ? replace(worker) : worker);
+    }
+  };
+
+  return { executor, close: async () => void (await Promise.all([...workers].map(worker => worker.terminate()))) };
+}
+
+async function main() {
+  const [scenarioPath, configPath, ...flags] = process.argv.slice(2);
+  if (!scenarioPath || !configPath) {
+    console.error("Usage: yarn monte-carlo <scenario.json> <config.json> [--workers N] [--out report.json]");
+    process.exit(1);
+  }
+
+  const flag = (name: string) => {
+    const index = flags.indexOf(name);
+    return index >= 0 ? flags[index + 1] : undefined;
+  };
+  const workerCount = Number(flag("--workers") ?? Math.max(1, cpus().length - 1));
+  const outPath = flag("--out");
+
+  const scenario = JSON.parse(readFileSync(scenarioPath, "utf-8"));
+  const config = JSON.parse(readFileSync(configPath, "utf-8"));
+
+  const pool = workerCount > 1 ? createWorkerPool(workerCount) : undefined;
+  try {
+    const report = await runMonteCarlo(scenario, config, {
+      executor: pool?.executor,
+      concurrency: workerCount,
+    });
+    const json = JSON.stringify(report, null, 2);
+    if (outPath) {
+      writeFileSync(outPath, json, "utf-8");
+      console.log(`Wrote ${report.combinations.length} combination(s) to ${outPath}`);
+    } else {
+      console.log(json);
+    }
+  } finally {
+    await pool?.close();
+  }
+}
+
+if (isMainThread) {
+  main().catch(error => {
+    console.error("Monte Carlo run failed:", error);
+    process.exit(1);
+  });
+} else {
+  parentPort!.on("message", (job: MonteCarloJob) => {
+    let reply: WorkerReply;
+    try {
+      reply = { result: runMonteCarloJob(job) };
+    } catch (error) {
+      reply = { error: error instanceof Error ? error.message : String(error) };
+    }
+    parentPort!.postMessage(reply);
+  });
+}
@@ -7,8 +7,9 @@
 
 import { create } from "zustand";
 import { nanoid } from "@/lib/nanoid";
-import { useSimulationStore } from "./simulationStore";
+import { getSimulationRandomContext, restoreSimulationRandomContext, useSimulationStore } from "./simulationStore";
 import {
+  compareScenarioResults,
   eventCapture,
   scenarioManager,
   type CoreEvent,
@@ -17,6 +18,7 @@ import {
   type CoreEventType
 } from "@/lib/simulation/eventSourcing";
 import { enhancedReplayEngine } from "@/lib/simulation/replayEngine";
+import type { ScenarioComparisonResult } from "@/lib/simulation/scenarioComparison";
 import type { Scenario } from "@/lib/simulation/types";
 
 // ============================================================================
@@ -64,7 +66,7 @@ interface EventSourcingState {
   listScenarios: () => SimulationScenario[];
 
   // Model comparison
-  compareModels: (scenarioId: string, modelA: Scenario, modelB: Scenario) => Promise<any>;
+  compareModels: (scenarioId: string, modelA: Scenario, modelB: Scenario) => Promise<ScenarioComparisonResult>;
 
   // Integration with existing simulation store
   _onSimulationTick: () => void;
@@ -96,11 +98,13 @@ export const useEventSourcingStore = create<EventSourcingState>((set, get) => ({
       return;
     }
 
-    // Create new scenario
+    // Create new scenario, recording the seed so replay draws the same values
+    const randomContext = getSimulationRandomContext();
     const scenario = scenarioManager.createScenario(
       scenarioName,
       simulationStore.scenario,
-      description
+      description,
+      randomContext ? { seed: randomContext.seed, startEpoch: randomContext.startEpoch } : undefined
     );
 
     // Start event capture
@@ -197,6 +201,14 @@ export const useEventSourcingStore = create<EventSourcingState>((set, get) => ({
           nodeActivityLogs: result.finalState.nodeActivityLogs,
           errorMessages: [...simulationStore.errorMessages, ...result.finalState.errorMessages]
         });
+        // Continue from the replayed random sequence rather than a fresh seed
+        if (scenario.seed !== undefined) {
+          restoreSimulationRandomContext({
+            seed: scenario.seed,
+            startEpoch: scenario.startEpoch ?? Date.now(),
+            randomState: result.finalState.randomState,
+          });
+        }
       });
 
       console.log("✅ Replay completed successfully");
@@ -236,7 +248,8 @@ export const useEventSourcingStore = create<EventSourcingState>((set, get) => ({
       simulationTime: simulationStore.currentTime,
       eventCounter: simulationStore.eventCounter,
       globalActivityLog: simulationStore.globalActivityLog,
-      nodeActivityLogs: simulationStore.nodeActivityLogs
+      nodeActivityLogs: simulationStore.nodeActivityLogs,
+      randomState: getSimulationRandomContext()?.randomState
     }, description);
 
     console.log(`📸 Created snapshot: ${snapshot.id}`);
@@ -360,16 +373,7 @@ export const useEventSourcingStore = create<EventSourcingState>((set, get) => ({
 
   compareModels: async (scenarioId: string, modelA: Scenario, modelB: Scenario) => {
     console.log(`🔬 Comparing models for scenario: ${scenarioId}`);
-
-    // This would replay the same events with different models
-    // For now, return a mock comparison
-    return {
-      modelAResults: { finalTime: 100, tokenCount: 50 },
-      modelBResults: { finalTime: 95, tokenCount: 55 },
-      differences: [
-        { timestamp: 50, field: 'tokenCount', valueA: 25, valueB: 30 }
-      ]
-    };
+    return compareScenarioResults(scenarioId, modelA, modelB);
   },
 
   // ============================================================================
@@ -471,6 +475,9 @@ export function useEventSourcing() {
 
     // Event capture
     captureUserAction: useEventSourcingStore(state => state.captureUserAction),
-    captureManualInput: useEventSourcingStore(state => state.captureManualInput)
+    captureManualInput: useEventSourcingStore(state => state.captureManualInput),
+
+    // Model comparison
+    compareModels: useEventSourcingStore(state => state.compareModels)
   };
 }
\ No newline at end of file
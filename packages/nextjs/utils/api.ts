@@ -7,9 +7,37 @@ const getBaseUrl = () => {
   return ""; // Use relative URLs on client
 };
 
-export async function fetchFromDb() {
+const ORGANIZATION_STORAGE_KEY = "selectedOrganization";
+
+// The organization picked in the navbar; null until one is picked, when the
+// server falls back to the user's oldest membership
+export function getSelectedOrganization(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(ORGANIZATION_STORAGE_KEY);
+}
+
+export function setSelectedOrganization(organizationId: string | null) {
+  if (organizationId) {
+    localStorage.setItem(ORGANIZATION_STORAGE_KEY, organizationId);
+  } else {
+    localStorage.removeItem(ORGANIZATION_STORAGE_KEY);
+  }
+}
+
+// fetch for the app's own API: names the selected organization in the
+// x-organization-id header (ORGANIZATION_HEADER in lib/api/auth.ts)
+export function apiFetch(input: string, init: RequestInit = {}) {
+  const organizationId = getSelectedOrganization();
+  if (!organizationId) return fetch(input, init);
+  const headers = new Headers(init.headers);
+  headers.set("x-organization-id", organizationId);
+  return fetch(input, { ...init, headers });
+}
+
+// The raw JSON blob behind /api/db, without procedure instances
+export async function fetchDbBlob() {
   const baseUrl = getBaseUrl();
-  const response = await fetch(`${baseUrl}/api/db`, {
+  const response = await apiFetch(`${baseUrl}/api/db`, {
     // Add cache: 'no-store' to prevent caching
     cache: "no-store",
   });
@@ -19,20 +47,54 @@ export async function fetchFromDb() {
   return response.json();
 }
 
+// Procedure instances live in the document store; list them with their history
+export async function fetchProcedureInstances() {
+  const baseUrl = getBaseUrl();
+  const response = await apiFetch(`${baseUrl}/api/procedures`, { cache: "no-store" });
+  if (!response.ok) {
+    throw new Error("Failed to fetch procedure instances");
+  }
+  return (await response.json()).instances;
+}
+
+// The blob with procedure instances filled in, in the shape the UI expects
+export async function fetchFromDb() {
+  const [data, procedureInstances] = await Promise.all([fetchDbBlob(), fetchProcedureInstances()]);
+  return { ...data, procedureInstances };
+}
+
+// Send one change to a procedure instance; see PATCH /api/procedures/[id]
+export async function patchProcedure(instanceId: string, changes: Record<string, any>) {
+  const baseUrl = getBaseUrl();
+  const response = await apiFetch(`${baseUrl}/api/procedures/${instanceId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: undefined }));
+    throw new Error(error || "Failed to update procedure");
+  }
+  return response.json();
+}
+
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000; // 1 second
 
+// Procedure instances are dropped: they are written through /api/procedures
 export async function updateDb(data: any, retryCount = 0) {
+  const blob = { ...data };
+  delete blob.procedureInstances;
   try {
     const baseUrl = getBaseUrl();
-    const response = await fetch(`${baseUrl}/api/db`, {
+    const response = await apiFetch(`${baseUrl}/api/db`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
         action: "update",
-        data: data,
+        data: blob,
       }),
     });
 
@@ -76,27 +138,24 @@ export async function getProcedureData(id: string) {
 
 // Delete procedure instance
 export async function deleteProcedureInstance(instanceId: string) {
-  const data = await fetchFromDb();
-  const updatedInstances = data.procedureInstances?.filter((p: any) => p.instanceId !== instanceId) || [];
-
-  const updatedDb = {
-    ...data,
-    procedureInstances: updatedInstances,
-  };
-
-  return updateDb(updatedDb);
+  const baseUrl = getBaseUrl();
+  const response = await apiFetch(`${baseUrl}/api/procedures/${instanceId}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error("Failed to delete procedure instance");
+  }
+  return response.json();
 }
 
 // Delete template and all its instances
 export async function deleteTemplate(templateId: string) {
   const data = await fetchFromDb();
   const updatedTemplates = data.procedureTemplates?.filter((t: any) => t.templateId !== templateId) || [];
-  const updatedInstances = data.procedureInstances?.filter((p: any) => p.templateId !== templateId) || [];
+  const instances = data.procedureInstances?.filter((p: any) => p.templateId === templateId) || [];
+  await Promise.all(instances.map((p: any) => deleteProcedureInstance(p.instanceId)));
 
   const updatedDb = {
     ...data,
     procedureTemplates: updatedTemplates,
-    procedureInstances: updatedInstances,
   };
 
   return updateDb(updatedDb);